@@ -0,0 +1,62 @@
+// Keeps Roamly usable without a connection: the app shell and built assets are cached,
+// and trip reads from Supabase are cached as they happen so previously opened trips
+// still load offline. Writes are never cached; the app queues those itself.
+
+const SHELL_CACHE = "roamly-shell-v1";
+const TRIP_CACHE = "roamly-trips-v1";
+const SHELL_URLS = ["/", "/index.html", "/favicon.ico"];
+const TRIP_API_PATHS = ["/rest/v1/trips", "/rest/v1/trip_members"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== SHELL_CACHE && key !== TRIP_CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "clear-trip-cache") event.waitUntil(caches.delete(TRIP_CACHE));
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE, "/index.html"));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  } else if (TRIP_API_PATHS.some((path) => url.pathname.startsWith(path))) {
+    event.respondWith(networkFirst(request, TRIP_CACHE));
+  }
+});
+
+async function networkFirst(request, cacheName, fallbackUrl) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl || request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl || request);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+// Built assets have content hashes in their names, so a cached copy never goes stale.
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
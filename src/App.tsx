@@ -5,19 +5,28 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
 import LandingPage from "./pages/LandingPage";
 
 const TripWorkspace = lazy(() => import("./pages/TripWorkspace"));
 const MyTrips = lazy(() => import("./pages/MyTrips"));
+const SharedTrip = lazy(() => import("./pages/SharedTrip"));
+const AcceptInvite = lazy(() => import("./pages/AcceptInvite"));
 const AdminDashboard = lazy(() => import("./pages/AdminDashboard"));
 const Itineraries = lazy(() => import("./pages/Itineraries"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient();
 
+function OfflineSync() {
+  useOfflineSync();
+  return null;
+}
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
+      <OfflineSync />
       <TooltipProvider>
         <Toaster />
         <Sonner />
@@ -26,7 +35,10 @@ const App = () => (
             <Routes>
               <Route path="/" element={<LandingPage />} />
               <Route path="/plan" element={<TripWorkspace />} />
+              <Route path="/s/:slug" element={<SharedTrip />} />
+              <Route path="/shared" element={<SharedTrip />} />
               <Route path="/trips" element={<MyTrips />} />
+              <Route path="/invite/:token" element={<AcceptInvite />} />
               <Route path="/itineraries" element={<Itineraries />} />
               <Route path="/admin" element={<AdminDashboard />} />
               <Route path="*" element={<NotFound />} />
@@ -0,0 +1,143 @@
+import { useMemo, useState } from "react";
+import { ArrowRightLeft, Check, MapPin, Minus, PencilLine, Plus, Replace, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { DayPlan } from "@/data/demoTrip";
+import {
+  affectedDays,
+  applyItineraryChanges,
+  describeChange,
+  type AdjustmentPatch,
+  type ItineraryChange,
+} from "@/lib/itinerary-patch";
+
+interface AdjustmentPreviewProps {
+  patch: AdjustmentPatch;
+  /** The itinerary the patch was proposed against. */
+  itinerary: DayPlan[];
+  onApply: (accepted: ItineraryChange[]) => void;
+  onDiscard: () => void;
+  onPreviewStop?: (name: string, lat: number, lng: number) => void;
+}
+
+const CHANGE_ICONS: Record<ItineraryChange["type"], typeof Plus> = {
+  "add-stop": Plus,
+  "remove-stop": Minus,
+  "replace-stop": Replace,
+  "move-stop": ArrowRightLeft,
+  "retitle-day": PencilLine,
+};
+
+/** Lists a proposed adjustment change by change, with the affected days as they would look once applied. */
+export function AdjustmentPreview({ patch, itinerary, onApply, onDiscard, onPreviewStop }: AdjustmentPreviewProps) {
+  const [rejected, setRejected] = useState<Set<string>>(() => new Set());
+  const accepted = useMemo(() => patch.changes.filter((change) => !rejected.has(change.id)), [patch.changes, rejected]);
+  const preview = useMemo(() => applyItineraryChanges(itinerary, accepted), [itinerary, accepted]);
+  const touchedDays = affectedDays(accepted);
+  const newStopIds = new Set(
+    accepted.flatMap((change) => (change.type === "add-stop" || change.type === "replace-stop" ? [change.stop.id] : [])),
+  );
+
+  const toggle = (changeId: string, accept: boolean) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (accept) next.delete(changeId);
+      else next.add(changeId);
+      return next;
+    });
+  };
+
+  return (
+    <div className="w-full max-w-[92%] space-y-3 rounded-2xl border border-border/60 bg-card/80 backdrop-blur-sm p-3 shadow-sm">
+      <div>
+        <p className="text-sm font-body font-semibold text-foreground">Proposed changes</p>
+        {patch.summary && <p className="text-xs font-body text-muted-foreground">{patch.summary}</p>}
+      </div>
+
+      <ul className="space-y-2">
+        {patch.changes.map((change) => {
+          const Icon = CHANGE_ICONS[change.type];
+          const isAccepted = !rejected.has(change.id);
+          const newStop = change.type === "add-stop" || change.type === "replace-stop" ? change.stop : null;
+          return (
+            <li
+              key={change.id}
+              className={`flex items-start gap-2 rounded-xl border px-2.5 py-2 transition-colors ${
+                isAccepted ? "border-accent/40 bg-accent/5" : "border-border/60 opacity-60"
+              }`}
+            >
+              <Icon className="mt-0.5 h-3.5 w-3.5 shrink-0 text-accent" />
+              <div className="min-w-0 flex-1">
+                <p className={`text-xs font-body font-medium text-foreground ${isAccepted ? "" : "line-through"}`}>
+                  {describeChange(change, itinerary)}
+                </p>
+                {change.reason && <p className="text-[11px] font-body text-muted-foreground">{change.reason}</p>}
+                {newStop && onPreviewStop && (
+                  <button
+                    type="button"
+                    onClick={() => onPreviewStop(newStop.name, newStop.lat, newStop.lng)}
+                    className="mt-0.5 inline-flex items-center gap-1 text-[11px] font-body font-semibold text-accent hover:underline"
+                  >
+                    <MapPin className="h-3 w-3" /> Show on map
+                  </button>
+                )}
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <button
+                  type="button"
+                  onClick={() => toggle(change.id, true)}
+                  aria-label="Accept change"
+                  className={`rounded-md p-1 transition-colors ${isAccepted ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-secondary"}`}
+                >
+                  <Check className="h-3.5 w-3.5" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => toggle(change.id, false)}
+                  aria-label="Reject change"
+                  className={`rounded-md p-1 transition-colors ${isAccepted ? "text-muted-foreground hover:bg-secondary" : "bg-secondary text-foreground"}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {touchedDays.length > 0 && (
+        <div className="space-y-2 rounded-xl bg-secondary/40 px-2.5 py-2">
+          <p className="text-[11px] font-body font-semibold uppercase tracking-wide text-muted-foreground">After these changes</p>
+          {preview.filter((day) => touchedDays.includes(day.day)).map((day) => (
+            <div key={day.day}>
+              <p className="text-xs font-body font-semibold text-foreground">Day {day.day}: {day.title}</p>
+              <ol className="ml-3 list-decimal">
+                {day.stops.map((stop) => (
+                  <li
+                    key={stop.id}
+                    className={`text-[11px] font-body ${newStopIds.has(stop.id) ? "font-semibold text-accent" : "text-muted-foreground"}`}
+                  >
+                    {stop.name}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={onDiscard} className="font-body text-xs">
+          Keep my plan
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onApply(accepted)}
+          disabled={accepted.length === 0}
+          className="font-body text-xs bg-accent text-accent-foreground hover:bg-accent/90"
+        >
+          Apply {accepted.length} of {patch.changes.length} {patch.changes.length === 1 ? "change" : "changes"}
+        </Button>
+      </div>
+    </div>
+  );
+}
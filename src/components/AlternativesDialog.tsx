@@ -0,0 +1,129 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2, MapPin, RefreshCw } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import type { DayPlan, TripConfig } from "@/data/demoTrip";
+import { fetchAlternatives, type Alternative, type AlternativesTarget, type NeighborDistance } from "@/lib/alternatives";
+
+interface AlternativesDialogProps {
+  /** Stop or day to regenerate; the dialog is open while this is set. */
+  target: AlternativesTarget | null;
+  onClose: () => void;
+  tripConfig: TripConfig;
+  itinerary: DayPlan[];
+  preferences: { interests?: string[]; pace?: string };
+  onChoose: (target: AlternativesTarget, alternative: Alternative) => void;
+  onPreviewStop?: (name: string, lat: number, lng: number) => void;
+}
+
+function formatKm(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
+
+function NeighborLine({ fromPrev, toNext }: { fromPrev: NeighborDistance | null; toNext: NeighborDistance | null }) {
+  const parts = [
+    fromPrev && `${formatKm(fromPrev.km)} from ${fromPrev.name}`,
+    toNext && `${formatKm(toNext.km)} to ${toNext.name}`,
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+  return (
+    <p className="flex items-center gap-1 text-[11px] font-body text-muted-foreground">
+      <MapPin className="w-3 h-3 shrink-0" /> {parts.join(" · ")}
+    </p>
+  );
+}
+
+export function AlternativesDialog({
+  target,
+  onClose,
+  tripConfig,
+  itinerary,
+  preferences,
+  onChoose,
+  onPreviewStop,
+}: AlternativesDialogProps) {
+  const { data: alternatives = [], isFetching, error, refetch } = useQuery({
+    queryKey: ["alternatives", target?.day, target?.stopId],
+    queryFn: () => fetchAlternatives(tripConfig, itinerary, target as AlternativesTarget, preferences),
+    enabled: !!target,
+    retry: false,
+    gcTime: 0,
+    staleTime: Infinity,
+  });
+
+  const dayPlan = itinerary.find((day) => day.day === target?.day);
+  const stop = target?.stopId ? dayPlan?.stops.find((item) => item.id === target.stopId) : null;
+  const title = stop ? `Alternatives for ${stop.name}` : `Alternatives for Day ${target?.day ?? ""}`;
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-primary">{title}</DialogTitle>
+          <DialogDescription className="font-body text-sm text-muted-foreground">
+            The rest of your itinerary stays as it is. Pick one to swap it in.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isFetching ? (
+          <p className="flex items-center justify-center gap-2 py-8 text-sm font-body text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" /> Finding alternatives...
+          </p>
+        ) : error || alternatives.length === 0 ? (
+          <div className="space-y-3 py-4 text-center">
+            <p className="text-sm font-body text-muted-foreground">
+              {error instanceof Error ? error.message : "No alternatives came back this time."}
+            </p>
+            <Button variant="outline" size="sm" onClick={() => refetch()} className="font-body gap-1.5">
+              <RefreshCw className="w-3.5 h-3.5" /> Try again
+            </Button>
+          </div>
+        ) : (
+          <ul className="space-y-2">
+            {alternatives.map((alternative, idx) => (
+              <li key={idx} className="rounded-xl border border-border/60 bg-card p-3 space-y-1.5">
+                {alternative.kind === "stop" ? (
+                  <>
+                    <div className="flex items-baseline justify-between gap-2">
+                      <p className="text-sm font-body font-semibold text-foreground">{alternative.stop.name}</p>
+                      <span className="shrink-0 text-[11px] font-body text-muted-foreground">{alternative.stop.cost}</span>
+                    </div>
+                    <p className="text-xs font-body text-muted-foreground">{alternative.stop.description}</p>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-sm font-body font-semibold text-foreground">{alternative.day.title}</p>
+                    <p className="text-xs font-body text-muted-foreground">
+                      {alternative.day.stops.map((item) => item.name).join(" → ")}
+                    </p>
+                  </>
+                )}
+                {alternative.reason && <p className="text-xs font-body text-foreground">{alternative.reason}</p>}
+                <NeighborLine fromPrev={alternative.fromPrev} toNext={alternative.toNext} />
+                <div className="flex justify-end gap-2 pt-1">
+                  {alternative.kind === "stop" && onPreviewStop && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onPreviewStop(alternative.stop.name, alternative.stop.lat, alternative.stop.lng)}
+                      className="font-body text-xs"
+                    >
+                      Show on map
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    onClick={() => target && onChoose(target, alternative)}
+                    className="font-body text-xs bg-accent text-accent-foreground hover:bg-accent/90"
+                  >
+                    Use this
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
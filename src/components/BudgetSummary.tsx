@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { ChevronDown, Wallet } from "lucide-react";
+import { BUDGET_CATEGORIES, formatBudgetAmount, type BudgetStatus, type TripBudget } from "@/lib/budget";
+
+const STATUS_STYLES: Record<BudgetStatus, { label: string; className: string }> = {
+  under: { label: "Under budget", className: "bg-primary/10 text-primary border-primary/25" },
+  within: { label: "On budget", className: "bg-primary/10 text-primary border-primary/25" },
+  over: { label: "Over budget", className: "bg-destructive/10 text-destructive border-destructive/30" },
+  unknown: { label: "No target", className: "bg-secondary text-muted-foreground border-border/60" },
+};
+
+export function BudgetStatusPill({ budget }: { budget: TripBudget }) {
+  const status = STATUS_STYLES[budget.status];
+  return (
+    <span className={`inline-flex items-center rounded-full border px-2 py-0.5 text-[10px] font-body font-semibold ${status.className}`}>
+      {status.label}
+    </span>
+  );
+}
+
+export function BudgetSummary({ budget, variant = "full" }: { budget: TripBudget; variant?: "full" | "compact" }) {
+  const [showDays, setShowDays] = useState(false);
+  const totalMax = Math.max(budget.total.max, 1);
+
+  if (variant === "compact") {
+    return (
+      <div className="inline-flex items-center gap-2 rounded-xl border border-border/60 bg-card/80 px-3 py-1.5 backdrop-blur-sm">
+        <Wallet className="h-3.5 w-3.5 text-accent" />
+        <span className="text-xs font-body font-semibold text-foreground">
+          {formatBudgetAmount(budget.total, budget.currency)}
+        </span>
+        <BudgetStatusPill budget={budget} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-2xl border border-border/60 bg-card/70 backdrop-blur-sm p-3 shadow-sm space-y-3">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Wallet className="w-4 h-4 text-accent" />
+          <div>
+            <p className="text-xs font-body font-semibold text-foreground">Trip budget</p>
+            <p className="text-[11px] font-body text-muted-foreground">
+              {formatBudgetAmount(budget.total, budget.currency)}
+              {budget.target && ` · ${budget.tier} target ${formatBudgetAmount(budget.target, budget.currency)}`}
+            </p>
+          </div>
+        </div>
+        <BudgetStatusPill budget={budget} />
+      </div>
+
+      <div className="space-y-1.5">
+        {BUDGET_CATEGORIES.map(({ id, label }) => {
+          const amount = budget.categories[id];
+          return (
+            <div key={id} className="flex items-center gap-2">
+              <span className="w-16 text-[11px] font-body text-muted-foreground">{label}</span>
+              <div className="relative h-1.5 flex-1 overflow-hidden rounded-full bg-secondary/80">
+                <div
+                  className="absolute left-0 top-0 h-full rounded-full bg-accent/80"
+                  style={{ width: `${Math.min(100, (amount.max / totalMax) * 100)}%` }}
+                />
+              </div>
+              <span className="w-24 text-right text-[11px] font-body font-semibold text-foreground">
+                {formatBudgetAmount(amount, budget.currency)}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        type="button"
+        onClick={() => setShowDays((prev) => !prev)}
+        className="flex items-center gap-1 text-[11px] font-body font-semibold text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <ChevronDown className={`w-3 h-3 transition-transform ${showDays ? "rotate-180" : ""}`} />
+        {showDays ? "Hide daily totals" : "Show daily totals"}
+      </button>
+
+      {showDays && (
+        <div className="space-y-1">
+          {budget.days.map((day) => (
+            <div key={day.day} className="flex items-center justify-between text-[11px] font-body">
+              <span className="text-muted-foreground">
+                Day {day.day}
+                {day.unpricedStops > 0 && ` · ${day.unpricedStops} unpriced`}
+              </span>
+              <span className="font-semibold text-foreground">{formatBudgetAmount(day.total, budget.currency)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {budget.excludedItems > 0 && (
+        <p className="text-[10px] font-body text-muted-foreground">
+          {budget.excludedItems} item{budget.excludedItems === 1 ? "" : "s"} in another currency not included.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,45 @@
-import { useState, useRef, useEffect, useCallback, useMemo } from "react";
+import { Fragment, useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Send, X, Plus, Loader2, ArrowRight, Compass, Sparkles, BedDouble, MapPin, Building2, ChevronLeft, ChevronRight, CloudSun, ThermometerSun } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { ToastAction } from "@/components/ui/toast";
 import { TypingIndicator } from "@/components/TypingIndicator";
-import { INTEREST_OPTIONS, PACE_OPTIONS, type DayPlan, type TripConfig } from "@/data/demoTrip";
+import { INTEREST_OPTIONS, PACE_OPTIONS, type ChatMessage, type DayPlan, type StayOption, type TransportLeg, type TripConfig, type TripSession } from "@/data/demoTrip";
 import { DayCard } from "./DayCard";
+import { BudgetSummary } from "./BudgetSummary";
+import { AdjustmentPreview } from "./AdjustmentPreview";
+import { AlternativesDialog } from "./AlternativesDialog";
+import { TransportLegDialog, type TransportTarget } from "./TransportLegDialog";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useIsMobile } from "@/hooks/use-mobile";
+import { useItineraryRouting } from "@/hooks/useItineraryRouting";
+import { useItinerarySync } from "@/hooks/useItinerarySync";
+import type { TripPeer, TripRealtime } from "@/hooks/useTripRealtime";
 import { loadGoogleMaps } from "@/lib/google-maps";
 import { fetchCityInsights, normalizeDestinationLabel, type CityInsightData } from "@/lib/city-intel";
-
-interface ChatMessage {
-  id: string;
-  sender: "bot" | "user";
-  content: string;
-  type: "text" | "interests" | "pace" | "loading" | "itinerary" | "actions" | "stay-intent" | "stay-budget";
-}
-
-interface StayOption {
-  id: string;
-  name: string;
-  type: string;
-  neighborhood: string;
-  address: string;
-  nightlyPrice: string;
-  style: string;
-  why: string;
-  bestFor: string;
-  lat: number;
-  lng: number;
-}
+import { formatClockTime, formatDurationMinutes, normalizeDayPlan, parseClockTime } from "@/lib/itinerary-fields";
+import { buildTripBudget } from "@/lib/budget";
+import { optimizeDayStops } from "@/lib/day-optimizer";
+import { routingProfileForMode } from "@/lib/routing";
+import { tripDayWeekday } from "@/lib/schedule";
+import { applyItineraryOps, type ItineraryOp } from "@/lib/itinerary-ops";
+import { toSavedChatHistory } from "@/lib/trip-session";
+import { readItineraryStream, type GenerationProgress } from "@/lib/itinerary-stream";
+import { applyItineraryChanges, outlineForPlanner, parseAdjustmentPatch, type AdjustmentPatch, type ItineraryChange } from "@/lib/itinerary-patch";
+import { applyAlternative, type Alternative, type AlternativesTarget } from "@/lib/alternatives";
+import { isMultiCityTrip, legDates, legSegments, shortCityName, stayForDay, tripLegs, tripRouteLabel } from "@/lib/trip-legs";
+import { defaultTransportMode } from "@/lib/transport-legs";
+import {
+  EMPTY_HISTORY,
+  historyAvailability,
+  recordChange,
+  redoStep,
+  undoStep,
+  type HistoryAvailability,
+  type ItineraryHistory,
+} from "@/lib/itinerary-history";
 
 interface ActivitySearchResult {
   place_id?: string;
@@ -203,7 +210,7 @@ function sanitizeOptionalVisibleText(value: unknown): string | undefined {
 }
 
 function sanitizeDayPlans(days: DayPlan[]): DayPlan[] {
-  return days.map((day) => ({
+  return days.map((day) => normalizeDayPlan({
     ...day,
     title: sanitizeVisibleText(day.title, "Day plan"),
     subtitle: sanitizeVisibleText(day.subtitle, "Plan details"),
@@ -225,43 +232,18 @@ function sanitizeDayPlans(days: DayPlan[]): DayPlan[] {
         hours: sanitizeVisibleText(stop.hours, "Hours vary"),
         cost: sanitizeVisibleText(stop.cost, "Cost varies"),
         driveFromPrev: sanitizeOptionalVisibleText(stop.driveFromPrev),
+        address: sanitizeOptionalVisibleText(stop.address),
         tags: tags.length > 0 ? tags : ["Activity"],
       };
     }),
   }));
 }
 
-function parseClockTimeToMinutes(value: string): number | null {
-  const match = value.trim().match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
-  if (!match) return null;
-
-  const [, hoursStr, minutesStr, periodRaw] = match;
-  const rawHours = Number.parseInt(hoursStr, 10);
-  const minutes = Number.parseInt(minutesStr, 10);
-  if (Number.isNaN(rawHours) || Number.isNaN(minutes) || rawHours < 1 || rawHours > 12 || minutes < 0 || minutes > 59) {
-    return null;
-  }
-
-  const period = periodRaw.toUpperCase();
-  const normalizedHours = rawHours % 12 + (period === "PM" ? 12 : 0);
-  return normalizedHours * 60 + minutes;
-}
-
-function formatMinutesAsClock(totalMinutes: number): string {
-  const dayMinutes = 24 * 60;
-  const normalized = ((totalMinutes % dayMinutes) + dayMinutes) % dayMinutes;
-  const hours24 = Math.floor(normalized / 60);
-  const minutes = normalized % 60;
-  const period = hours24 >= 12 ? "PM" : "AM";
-  const hours12 = hours24 % 12 || 12;
-  return `${hours12}:${minutes.toString().padStart(2, "0")} ${period}`;
-}
-
 function resequenceStopTimes(stops: DayPlan["stops"]): DayPlan["stops"] {
   if (stops.length === 0) return stops;
 
   const parsedTimes = stops
-    .map((stop) => parseClockTimeToMinutes(stop.time))
+    .map((stop) => parseClockTime(stop.time))
     .filter((time): time is number => time !== null)
     .sort((a, b) => a - b);
 
@@ -280,10 +262,14 @@ function resequenceStopTimes(stops: DayPlan["stops"]): DayPlan["stops"] {
     }
   }
 
-  return stops.map((stop, index) => ({
-    ...stop,
-    time: formatMinutesAsClock(start + index * gap),
-  }));
+  return stops.map((stop, index) => {
+    const startMinutes = (start + index * gap) % (24 * 60);
+    return {
+      ...stop,
+      time: formatClockTime(startMinutes),
+      startMinutes,
+    };
+  });
 }
 
 function resequenceDayPlans(days: DayPlan[]): DayPlan[] {
@@ -344,34 +330,75 @@ interface ChatPanelProps {
   onPreviewPin?: (name: string, lat: number, lng: number) => void;
   onSaveTrip?: () => void;
   onPreferencesUpdate?: (prefs: { interests: string[]; pace: string; mustSees: string }) => void;
+  /** Reports chosen stays, stay vibe and the readable transcript so they can be saved with the trip. */
+  onSessionChange?: (session: TripSession) => void;
   initialItinerary?: DayPlan[];
+  /** Restored alongside `initialItinerary` when reopening a saved or shared trip. */
+  initialSession?: TripSession;
+  /** Where `initialItinerary` came from, so the greeting fits. */
+  initialItineraryOrigin?: "saved" | "imported";
   reserveBottomSpace?: boolean;
+  /** Live collaboration channel for a saved trip; edits are only broadcast when `canEdit`. */
+  realtime?: TripRealtime | null;
+  canEdit?: boolean;
+  /** Called after an AI adjustment replaces the plan, with the request that produced it. */
+  onItineraryAdjusted?: (itinerary: DayPlan[], prompt: string) => void;
+  /** Replaces the current plan from outside (e.g. restoring a version); `key` makes repeats apply. */
+  itineraryOverride?: { itinerary: DayPlan[]; key: number; label?: string } | null;
+  /** Undo or redo requested from outside (header buttons, shortcuts); `key` makes repeats apply. */
+  historyCommand?: { action: "undo" | "redo"; key: number } | null;
+  onHistoryChange?: (availability: HistoryAvailability) => void;
 }
 
-export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItineraryReady, onDayClick, focusedDay = null, onResetDayFocus, onStopClick, onStopZoom, onPreviewPin, onSaveTrip, onPreferencesUpdate, initialItinerary, reserveBottomSpace = false }: ChatPanelProps) {
+export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItineraryReady, onDayClick, focusedDay = null, onResetDayFocus, onStopClick, onStopZoom, onPreviewPin, onSaveTrip, onPreferencesUpdate, onSessionChange, initialItinerary, initialSession, initialItineraryOrigin = "saved", reserveBottomSpace = false, realtime = null, canEdit = true, onItineraryAdjusted, itineraryOverride = null, historyCommand = null, onHistoryChange }: ChatPanelProps) {
   const isMobile = useIsMobile();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [phase, setPhase] = useState(0);
   const [chatInitiated, setChatInitiated] = useState(true);
   const [isTyping, setIsTyping] = useState(false);
   const [generatedItinerary, setGeneratedItinerary] = useState<DayPlan[] | null>(null);
+  // Days the planner has streamed so far for the generation in flight.
+  const [streamingDays, setStreamingDays] = useState<DayPlan[]>([]);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  // A proposed adjustment waiting for the user to accept or reject its changes.
+  const [pendingAdjustment, setPendingAdjustment] = useState<{ request: string; patch: AdjustmentPatch; base: DayPlan[] } | null>(null);
+  const [regenerateTarget, setRegenerateTarget] = useState<AlternativesTarget | null>(null);
+  const [transportTarget, setTransportTarget] = useState<TransportTarget | null>(null);
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
   const [selectedPace, setSelectedPace] = useState("");
   const [mustSeesValue, setMustSeesValue] = useState("");
   const [composerValue, setComposerValue] = useState("");
-  const [stayOptions, setStayOptions] = useState<StayOption[]>([]);
-  const [selectedStays, setSelectedStays] = useState<StayOption[]>([]);
-  const [stayBudgetVibe, setStayBudgetVibe] = useState("");
+  const [stayOptions, setStayOptions] = useState<StayOption[]>(() => initialSession?.selectedStays ?? []);
+  const [selectedStays, setSelectedStays] = useState<StayOption[]>(() => initialSession?.selectedStays ?? []);
+  const [stayBudgetVibe, setStayBudgetVibe] = useState(() => initialSession?.stayBudgetVibe ?? "");
   const [planTab, setPlanTab] = useState<"itinerary" | "stays">("itinerary");
   const [isFindingStays, setIsFindingStays] = useState(false);
-  const [hasPromptedStays, setHasPromptedStays] = useState(false);
+  const [hasPromptedStays, setHasPromptedStays] = useState(
+    () => Boolean(initialSession?.selectedStays.length || initialSession?.stayBudgetVibe),
+  );
+  const [history, setHistory] = useState<ItineraryHistory>(EMPTY_HISTORY);
   const [addDay, setAddDay] = useState<number | null>(null);
   const [addForm, setAddForm] = useState({ name: "", time: "", placeId: null as string | null });
   const [isAddingStop, setIsAddingStop] = useState(false);
   const scrollRef = useRef<HTMLDivElement>(null);
   const planSectionRef = useRef<HTMLDivElement>(null);
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  // The labelled edit waiting to be recorded, and the itinerary it will be diffed against.
+  const pendingChangeRef = useRef<{ id: string; label: string } | null>(null);
+  const committedItineraryRef = useRef<DayPlan[] | null>(null);
+  const handledHistoryCommandRef = useRef<number | null>(null);
   const { toast } = useToast();
 
+  const tripBudget = useMemo(
+    () => (generatedItinerary ? buildTripBudget(generatedItinerary, { stays: selectedStays, budget: tripConfig.budget, legs: tripConfig.legs }) : null),
+    [generatedItinerary, selectedStays, tripConfig.budget, tripConfig.legs],
+  );
+
+  useEffect(() => {
+    onSessionChange?.({ selectedStays, stayBudgetVibe, chatHistory: toSavedChatHistory(messages) });
+  }, [messages, onSessionChange, selectedStays, stayBudgetVibe]);
+
   const addBotMessage = useCallback((content: string, type: ChatMessage["type"] = "text", delay = 800) => {
     const safeContent = sanitizeVisibleText(content, "Message unavailable.");
     setIsTyping(true);
@@ -402,15 +429,111 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
     setMessages(prev => [...prev, { id: `msg-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, sender: "bot", content: safeContent, type }]);
   }, []);
 
-  const updateItinerary = useCallback((updater: (prev: DayPlan[]) => DayPlan[]) => {
+  /**
+   * Applies an edit to the plan. Edits with a `label` are the user's own and can be undone;
+   * the returned id identifies the step. Unlabelled updates aren't recorded.
+   */
+  const updateItinerary = useCallback((updater: (prev: DayPlan[]) => DayPlan[], label?: string) => {
+    const change = label ? { id: `edit-${Date.now()}-${Math.random().toString(36).slice(2, 6)}`, label } : null;
+    if (change) pendingChangeRef.current = change;
     setGeneratedItinerary(prev => {
       if (!prev) return prev;
       const next = sanitizeDayPlans(updater(prev));
       onItineraryReady(next);
       return next;
     });
+    return change?.id ?? null;
   }, [onItineraryReady]);
 
+  /**
+   * Writes routing results back. They aren't edits: no undo step is recorded, and sync and
+   * autosave leave routing output out, so every client routes for itself.
+   */
+  const applyRoutes = useCallback((updater: (prev: DayPlan[]) => DayPlan[]) => {
+    setGeneratedItinerary(prev => {
+      if (!prev) return prev;
+      const next = sanitizeDayPlans(updater(prev));
+      onItineraryReady(next);
+      return next;
+    });
+  }, [onItineraryReady]);
+
+  useItineraryRouting(generatedItinerary, tripConfig.mode, applyRoutes);
+
+  useEffect(() => {
+    const before = committedItineraryRef.current;
+    committedItineraryRef.current = generatedItinerary;
+    const change = pendingChangeRef.current;
+    pendingChangeRef.current = null;
+    if (!change || !before || !generatedItinerary) return;
+    setHistory(prev => recordChange(prev, before, generatedItinerary, change));
+  }, [generatedItinerary]);
+
+  useEffect(() => {
+    onHistoryChange?.(historyAvailability(history));
+  }, [history, onHistoryChange]);
+
+  /** Steps back or forward through the edit history; with `entryId`, only if that edit is next in line. */
+  const stepHistory = useCallback((direction: "undo" | "redo", entryId?: string) => {
+    const current = committedItineraryRef.current;
+    if (!canEdit || !current) return;
+    const step = direction === "undo" ? undoStep(historyRef.current, current) : redoStep(historyRef.current, current);
+    if (!step || (entryId && step.entry.id !== entryId)) return;
+
+    historyRef.current = step.history;
+    setHistory(step.history);
+    setGeneratedItinerary(() => {
+      const next = sanitizeDayPlans(step.itinerary);
+      onItineraryReady(next);
+      return next;
+    });
+    toast({
+      title: direction === "undo" ? "Undone" : "Redone",
+      description: step.entry.label,
+      duration: 2000,
+    });
+  }, [canEdit, onItineraryReady, toast]);
+
+  useEffect(() => {
+    if (!historyCommand || handledHistoryCommandRef.current === historyCommand.key) return;
+    handledHistoryCommandRef.current = historyCommand.key;
+    stepHistory(historyCommand.action);
+  }, [historyCommand, stepHistory]);
+
+  const applyRemoteOps = useCallback((ops: ItineraryOp[]) => {
+    setGeneratedItinerary(prev => {
+      if (!prev) return prev;
+      const next = sanitizeDayPlans(applyItineraryOps(prev, ops));
+      onItineraryReady(next);
+      return next;
+    });
+  }, [onItineraryReady]);
+
+  useItinerarySync(realtime, generatedItinerary, applyRemoteOps, { canBroadcast: canEdit, normalize: sanitizeDayPlans });
+
+  useEffect(() => {
+    if (!itineraryOverride) return;
+    updateItinerary(() => itineraryOverride.itinerary, itineraryOverride.label ?? "Replace itinerary");
+  }, [itineraryOverride, updateItinerary]);
+
+  const peersByDay = useMemo(() => {
+    const byDay = new Map<number, TripPeer[]>();
+    realtime?.peers.forEach((peer) => {
+      if (peer.day === null) return;
+      byDay.set(peer.day, [...(byDay.get(peer.day) ?? []), peer]);
+    });
+    return byDay;
+  }, [realtime?.peers]);
+
+  const remoteDrags = useMemo(
+    () => new Map((realtime?.peers ?? []).filter((peer) => peer.draggingStopId).map((peer) => [peer.draggingStopId as string, peer])),
+    [realtime?.peers],
+  );
+
+  const handleStopDragChange = useCallback((stopId: string | null) => {
+    realtime?.updatePresence({ draggingStopId: stopId });
+  }, [realtime]);
+
   const getErrorMessage = useCallback((err: unknown, fallback: string) => (
     sanitizeVisibleText(err instanceof Error ? err.message : fallback, fallback)
   ), []);
@@ -490,7 +613,14 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
       const sanitizedSavedItinerary = sanitizeDayPlans(initialItinerary);
       setGeneratedItinerary(sanitizedSavedItinerary);
       onItineraryReady(sanitizedSavedItinerary);
-      addBotMessage("Welcome back! Here's your saved itinerary. Want me to adjust anything?", "text", 300);
+      if (initialSession?.chatHistory.length) setMessages(initialSession.chatHistory);
+      addBotMessage(
+        initialItineraryOrigin === "imported"
+          ? "I've laid out your imported places as an itinerary. Want me to adjust anything?"
+          : "Welcome back! Here's your saved itinerary. Want me to adjust anything?",
+        "text",
+        300
+      );
       setTimeout(() => {
         setMessages(prev => [...prev, { id: "itinerary", sender: "bot", content: "", type: "itinerary" }]);
         setTimeout(() => {
@@ -505,10 +635,12 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
 
     const tripDescription = tripConfig.startDate && tripConfig.endDate
       ? `trip from ${format(parseISO(tripConfig.startDate), "MMM d")} to ${format(parseISO(tripConfig.endDate), "MMM d")}`
-      : `${tripConfig.days.toLowerCase()} trip`;
-    const destination = tripConfig.from === tripConfig.to
-      ? `exploring ${tripConfig.to}`
-      : `from ${tripConfig.from} to ${tripConfig.to}`;
+      : /^\d+$/.test(tripConfig.days) ? `${tripConfig.days}-day trip` : `${tripConfig.days.toLowerCase()} trip`;
+    const destination = isMultiCityTrip(tripConfig)
+      ? `through ${tripRouteLabel(tripConfig)}`
+      : tripConfig.from === tripConfig.to
+        ? `exploring ${tripConfig.to}`
+        : `from ${tripConfig.from} to ${tripConfig.to}`;
     addBotMessage(
       `Hey! 👋 I'm planning your ${tripDescription} ${destination}. Before I build your itinerary, I want to make sure it's perfect for you.\n\nWhat kinds of experiences are you most into?`,
       "text",
@@ -517,7 +649,7 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
     setTimeout(() => {
       setMessages(prev => [...prev, { id: "interests", sender: "bot", content: "", type: "interests" }]);
     }, 1400);
-  }, [chatInitiated, phase, addBotMessage, tripConfig, initialItinerary, onItineraryReady, promptStayDiscovery]);
+  }, [chatInitiated, phase, addBotMessage, tripConfig, initialItinerary, initialItineraryOrigin, initialSession, onItineraryReady, promptStayDiscovery]);
 
   const handleInterestSelect = (selected: string[]) => {
     setSelectedInterests(selected);
@@ -564,41 +696,72 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
     setMessages(prev => prev.filter(m => m.type !== "loading"));
     setMessages(prev => [...prev, { id: `stay-loading-${Date.now()}`, sender: "bot", content: "", type: "loading" }]);
 
+    // Multi-city trips look for stays in each city, for the days spent there.
+    const segments = legSegments(tripLegs({ legs: tripConfig.legs }), generatedItinerary.length);
+    const searches = segments.length > 0
+      ? segments.map((segment) => ({
+        leg: segment,
+        from: segment.city,
+        to: segment.city,
+        days: String(segment.endDay - segment.startDay + 1),
+        ...legDates(tripConfig.startDate, segment),
+        itinerary: generatedItinerary.filter((day) => day.day >= segment.startDay && day.day <= segment.endDay),
+      }))
+      : [{
+        leg: null,
+        from: tripConfig.from,
+        to: tripConfig.to,
+        days: tripConfig.days,
+        startDate: tripConfig.startDate,
+        endDate: tripConfig.endDate,
+        itinerary: generatedItinerary,
+      }];
+
     try {
-      const { data, error } = await supabase.functions.invoke("recommend-stays", {
-        body: {
-          from: tripConfig.from,
-          to: tripConfig.to,
-          days: tripConfig.days,
-          startDate: tripConfig.startDate,
-          endDate: tripConfig.endDate,
-          budgetVibe,
-          tripBudget: tripConfig.budget,
-          itinerary: generatedItinerary,
-          preferences: {
-            interests: selectedInterests,
-            pace: selectedPace,
-            mustSees: mustSeesValue || "No specific must-sees",
+      const results = await Promise.allSettled(searches.map(async ({ leg, ...search }) => {
+        const { data, error } = await supabase.functions.invoke("recommend-stays", {
+          body: {
+            ...search,
+            budgetVibe,
+            tripBudget: tripConfig.budget,
+            preferences: {
+              interests: selectedInterests,
+              pace: selectedPace,
+              mustSees: mustSeesValue || "No specific must-sees",
+            },
           },
-        },
-      });
+        });
 
-      if (error) throw error;
-      if (data?.error) throw new Error(data.error);
+        if (error) throw error;
+        if (data?.error) throw new Error(data.error);
 
-      const parsed = Array.isArray(data?.stays)
-        ? data.stays
-          .map((item: unknown) => normalizeStayOption(item))
-          .filter((item): item is StayOption => Boolean(item))
-        : [];
+        const stays = Array.isArray(data?.stays)
+          ? data.stays
+            .map((item: unknown) => normalizeStayOption(item))
+            .filter((item): item is StayOption => Boolean(item))
+          : [];
+        return leg
+          ? stays.map((stay) => ({ ...stay, id: `leg${leg.index + 1}-${stay.id}`, city: shortCityName(leg.city) }))
+          : stays;
+      }));
+
+      const parsed = results.flatMap((result) => (result.status === "fulfilled" ? result.value : []));
       if (!parsed.length) {
-        throw new Error("No stays were returned. Try a different vibe.");
+        const failed = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+        throw failed ? failed.reason : new Error("No stays were returned. Try a different vibe.");
       }
+      const cities = new Set(parsed.map((stay) => stay.city).filter(Boolean)).size;
 
       setStayOptions(parsed);
       setPlanTab("stays");
       setMessages(prev => prev.filter(m => m.type !== "loading"));
-      addBotMessage(`Found ${parsed.length} accommodations matched to your trip. Open the Stays tab above your itinerary.`, "text", 320);
+      addBotMessage(
+        cities > 1
+          ? `Found ${parsed.length} accommodations across ${cities} cities. Open the Stays tab above your itinerary.`
+          : `Found ${parsed.length} accommodations matched to your trip. Open the Stays tab above your itinerary.`,
+        "text",
+        320,
+      );
       window.setTimeout(() => {
         scrollToPlanSection();
       }, 450);
@@ -631,6 +794,7 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
     tripConfig.days,
     tripConfig.endDate,
     tripConfig.from,
+    tripConfig.legs,
     tripConfig.startDate,
     tripConfig.to,
   ]);
@@ -676,8 +840,10 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
     setSelectedStays((prev) => prev.filter((item) => item.id !== stayId));
   }, []);
 
-  const generateItinerary = async (mustSees: string, adjustmentRequest?: string, currentItinerary?: DayPlan[]) => {
+  const generateItinerary = async (mustSees: string) => {
     const start = performance.now();
+    setStreamingDays([]);
+    setGenerationProgress(null);
     try {
       const { data, error } = await supabase.functions.invoke("generate-itinerary", {
         body: {
@@ -688,22 +854,29 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
           mode: tripConfig.mode,
           startDate: tripConfig.startDate,
           endDate: tripConfig.endDate,
+          legs: tripConfig.legs,
           interests: selectedInterests,
           pace: selectedPace,
           mustSees,
-          adjustmentRequest,
-          currentItinerary: currentItinerary ? JSON.stringify(currentItinerary) : undefined,
+          stream: true,
         },
       });
 
       if (error) throw error;
       if (data?.error) throw new Error(data.error);
 
-      const rawItinerary = Array.isArray(data?.itinerary) ? (data.itinerary as DayPlan[]) : null;
+      const rawItinerary = data instanceof Response
+        ? await readItineraryStream(data, {
+          onProgress: setGenerationProgress,
+          onDay: (day, index) => setStreamingDays((prev) => [...prev.slice(0, index), ...sanitizeDayPlans([day])]),
+          onReset: (_reason, fromIndex) => setStreamingDays((prev) => prev.slice(0, fromIndex)),
+        })
+        : Array.isArray(data?.itinerary) ? (data.itinerary as DayPlan[]) : null;
       if (!rawItinerary || rawItinerary.length === 0) {
         throw new Error("No itinerary was returned.");
       }
       const itinerary = sanitizeDayPlans(rawItinerary);
+      pendingChangeRef.current = { id: `edit-${Date.now()}`, label: "Regenerate itinerary" };
       setGeneratedItinerary(itinerary);
       console.info(`[generate-itinerary] completed in ${Math.round(performance.now() - start)}ms`);
 
@@ -714,19 +887,15 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
 
       setTimeout(() => {
         addBotMessage(
-          adjustmentRequest
-            ? "Done! I've updated your itinerary. Want me to adjust anything else?"
-            : "Here's your optimized plan! I clustered nearby stops together and ordered everything around opening hours. Want me to adjust anything?",
+          "Here's your optimized plan! I clustered nearby stops together and ordered everything around opening hours. Want me to adjust anything?",
           "text",
           600
         );
         setTimeout(() => {
           setMessages(prev => [...prev, { id: `actions-${Date.now()}`, sender: "bot", content: "", type: "actions" }]);
-          if (!adjustmentRequest) {
-            setTimeout(() => {
-              promptStayDiscovery();
-            }, 900);
-          }
+          setTimeout(() => {
+            promptStayDiscovery();
+          }, 900);
         }, 1400);
       }, 500);
     } catch (err: unknown) {
@@ -738,14 +907,119 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
         description: getErrorMessage(err, "Something went wrong. Please try again."),
         variant: "destructive",
       });
+    } finally {
+      setStreamingDays([]);
+      setGenerationProgress(null);
     }
   };
 
+  const requestAdjustment = async (adjustmentRequest: string, currentItinerary: DayPlan[]) => {
+    try {
+      const { data, error } = await supabase.functions.invoke("generate-itinerary", {
+        body: {
+          from: tripConfig.from,
+          to: tripConfig.to,
+          days: tripConfig.days,
+          mode: tripConfig.mode,
+          startDate: tripConfig.startDate,
+          endDate: tripConfig.endDate,
+          legs: tripConfig.legs,
+          pace: selectedPace,
+          adjustmentRequest,
+          currentItinerary: JSON.stringify(outlineForPlanner(currentItinerary)),
+          patch: true,
+        },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      if (!data?.patch) throw new Error("No adjustment was returned.");
+
+      const patch = parseAdjustmentPatch(data.patch, currentItinerary);
+      setMessages(prev => prev.filter(m => m.type !== "loading" && m.id !== "adjustment"));
+      if (patch.changes.length === 0) {
+        setPendingAdjustment(null);
+        addBotMessage("I couldn't find a specific change to make for that. Try naming the day or stop, e.g. \"swap lunch on day 2 for something vegetarian\".", "text", 300);
+        return;
+      }
+
+      setPendingAdjustment({ request: adjustmentRequest, patch, base: currentItinerary });
+      addBotMessageImmediate(
+        `Here's what I'd change (${patch.changes.length} ${patch.changes.length === 1 ? "edit" : "edits"}). Accept or reject each one, then apply.`,
+      );
+      setMessages(prev => [...prev, { id: "adjustment", sender: "bot", content: "", type: "adjustment" }]);
+    } catch (err: unknown) {
+      console.error("Itinerary adjustment failed:", err);
+      setMessages(prev => prev.filter(m => m.type !== "loading"));
+      addBotMessage("Sorry, I couldn't work out that adjustment. Please try again.", "text", 400);
+      toast({
+        title: "Adjustment failed",
+        description: getErrorMessage(err, "Something went wrong. Please try again."),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleApplyAdjustment = (accepted: ItineraryChange[]) => {
+    if (!pendingAdjustment || !generatedItinerary) return;
+    const { request, patch } = pendingAdjustment;
+    // Applied to the live plan, so manual edits made while reviewing are kept.
+    const next = sanitizeDayPlans(applyItineraryChanges(generatedItinerary, accepted));
+    updateItinerary(() => next, "Apply adjustment");
+    onItineraryAdjusted?.(next, request);
+    setPendingAdjustment(null);
+    setMessages(prev => prev.filter(m => m.id !== "adjustment" && m.type !== "actions"));
+    addBotMessage(
+      accepted.length === patch.changes.length
+        ? "Done! I've updated your itinerary. Want me to adjust anything else?"
+        : `Applied ${accepted.length} of ${patch.changes.length} changes and left the rest of your plan as it was. Anything else?`,
+      "text",
+      300,
+    );
+    setTimeout(() => {
+      setMessages(prev => [...prev, { id: `actions-${Date.now()}`, sender: "bot", content: "", type: "actions" }]);
+    }, 900);
+  };
+
+  const handleDiscardAdjustment = () => {
+    setPendingAdjustment(null);
+    setMessages(prev => prev.filter(m => m.id !== "adjustment"));
+    addBotMessage("No problem, I kept your itinerary as it was. Want to try a different tweak?", "text", 300);
+  };
+
+  const handleChooseAlternative = (target: AlternativesTarget, alternative: Alternative) => {
+    if (!generatedItinerary) return;
+    const previous = generatedItinerary.find((day) => day.day === target.day);
+    const replaced = target.stopId ? previous?.stops.find((stop) => stop.id === target.stopId)?.name : `Day ${target.day}`;
+    const chosen = alternative.kind === "stop" ? alternative.stop.name : alternative.day.title;
+    const next = sanitizeDayPlans(applyAlternative(generatedItinerary, target, alternative));
+    updateItinerary(() => next, target.stopId ? `Swap ${replaced ?? "stop"}` : `Replan Day ${target.day}`);
+    onItineraryAdjusted?.(next, `Swapped ${replaced ?? "a stop"} for ${chosen}`);
+    setRegenerateTarget(null);
+    toast({
+      title: target.stopId ? "Stop swapped" : `Day ${target.day} replanned`,
+      description: `${chosen} is now in your itinerary.`,
+    });
+  };
+
+  const handleSaveTransport = (target: TransportTarget, leg: TransportLeg | null) => {
+    const existing = generatedItinerary
+      ?.find((day) => day.day === target.day)
+      ?.stops.find((stop) => stop.id === target.stopId)?.transport;
+    updateItinerary((prev) => prev.map((day) => (
+      day.day === target.day
+        ? { ...day, stops: day.stops.map((stop) => (stop.id === target.stopId ? { ...stop, transport: leg } : stop)) }
+        : day
+    )), leg ? (existing ? "Edit transport" : "Add transport") : "Remove transport");
+    setTransportTarget(null);
+  };
+
   const handleActionChip = (action: string) => {
+    if (!generatedItinerary) return;
     addUserMessage(action);
-    addBotMessageImmediate("On it! Adjusting your itinerary... 🔄");
+    addBotMessageImmediate("On it! Working out the changes... 🔄");
     setMessages(prev => [...prev, { id: `loading-${Date.now()}`, sender: "bot", content: "", type: "loading" }]);
-    void generateItinerary(mustSeesValue || "None", action, generatedItinerary || undefined);
+    void requestAdjustment(action, generatedItinerary);
   };
 
   const handleComposerSubmit = () => {
@@ -791,73 +1065,82 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
       return;
     }
 
-    addBotMessageImmediate("On it! Adjusting your itinerary... 🔄");
+    addBotMessageImmediate("On it! Working out the changes... 🔄");
     setMessages(prev => [...prev, { id: `loading-${Date.now()}`, sender: "bot", content: "", type: "loading" }]);
-    void generateItinerary(mustSeesValue || "None", request, generatedItinerary);
+    void requestAdjustment(request, generatedItinerary);
   };
 
   const handleDeleteStop = useCallback((dayNumber: number, stopId: string) => {
-    let removedStop: DayPlan["stops"][number] | null = null;
-    let removedIndex = -1;
     let changed = false;
 
-    updateItinerary((prev) => prev.map((day) => {
+    const changeId = updateItinerary((prev) => prev.map((day) => {
       if (day.day !== dayNumber) return day;
+      if (!day.stops.some((stop) => stop.id === stopId)) return day;
 
-      const idx = day.stops.findIndex((stop) => stop.id === stopId);
-      if (idx < 0) return day;
-
-      removedStop = day.stops[idx];
-      removedIndex = idx;
       changed = true;
-
       return {
         ...day,
         stops: day.stops.filter((stop) => stop.id !== stopId),
       };
-    }));
+    }), "Remove activity");
 
-    if (!changed || !removedStop) return;
-
-    const deletedStop = removedStop;
-    const restoreIndex = removedIndex;
-    let undone = false;
+    if (!changed || !changeId) return;
 
     toast({
       title: "Activity removed",
       description: `Removed from Day ${dayNumber}.`,
       duration: 5000,
       action: (
-        <ToastAction
-          altText="Undo remove activity"
-          onClick={() => {
-            if (undone) return;
-            undone = true;
-            updateItinerary((prev) => prev.map((day) => {
-              if (day.day !== dayNumber) return day;
-              if (day.stops.some((stop) => stop.id === deletedStop.id)) return day;
-
-              const nextStops = [...day.stops];
-              const safeIndex = Math.max(0, Math.min(restoreIndex, nextStops.length));
-              nextStops.splice(safeIndex, 0, deletedStop);
-
-              return {
-                ...day,
-                stops: resequenceStopTimes(nextStops),
-              };
-            }));
-            toast({
-              title: "Activity restored",
-              description: `Added back to Day ${dayNumber}.`,
-              duration: 2500,
-            });
-          }}
-        >
+        <ToastAction altText="Undo remove activity" onClick={() => stepHistory("undo", changeId)}>
           Undo
         </ToastAction>
       ),
     });
-  }, [toast, updateItinerary]);
+  }, [stepHistory, toast, updateItinerary]);
+
+  const handleOptimizeDay = useCallback((dayNumber: number) => {
+    const day = generatedItinerary?.find((item) => item.day === dayNumber);
+    if (!day || day.stops.length < 2) return;
+
+    const segments = legSegments(tripLegs({ legs: tripConfig.legs }), generatedItinerary.length);
+    const hotel = stayForDay(selectedStays, segments, dayNumber);
+    const result = optimizeDayStops(day.stops, {
+      profile: routingProfileForMode(tripConfig.mode),
+      weekday: tripDayWeekday(tripConfig.startDate, dayNumber),
+      start: hotel,
+      end: hotel,
+    });
+
+    if (!result.changed) {
+      toast({
+        title: "Already optimized",
+        description: `Day ${dayNumber} is already in the best order we could find.`,
+        duration: 3000,
+      });
+      return;
+    }
+
+    const changeId = updateItinerary((prev) => prev.map((item) => (
+      item.day === dayNumber ? { ...item, stops: result.stops } : item
+    )), `Optimize Day ${dayNumber}`);
+
+    const fixedConflicts = result.before.conflicts - result.after.conflicts;
+    const details = [
+      result.savedMinutes > 0 ? `Saves about ${formatDurationMinutes(result.savedMinutes)} of travel` : null,
+      fixedConflicts > 0 ? `fixes ${fixedConflicts} opening-hours conflict${fixedConflicts === 1 ? "" : "s"}` : null,
+    ].filter(Boolean).join(" and ");
+
+    toast({
+      title: `Day ${dayNumber} optimized`,
+      description: `${details || "Stops reordered"}${hotel ? `, starting and ending at ${hotel.name}` : ""}.`,
+      duration: 6000,
+      action: (
+        <ToastAction altText="Undo optimize day" onClick={() => stepHistory("undo", changeId ?? undefined)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [generatedItinerary, selectedStays, stepHistory, toast, tripConfig.legs, tripConfig.mode, tripConfig.startDate, updateItinerary]);
 
   const handleAddDay = useCallback(() => {
     updateItinerary((prev) => {
@@ -875,7 +1158,7 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
         },
       ];
       return resequenceDayPlans(next);
-    });
+    }, "Add day");
     setAddDay(null);
     onResetDayFocus?.();
     toast({
@@ -887,23 +1170,19 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
   const handleDeleteDay = useCallback((dayNumber: number) => {
     let removed = false;
     let blocked = false;
-    let removedDay: DayPlan | null = null;
-    let removedIndex = -1;
 
-    updateItinerary((prev) => {
+    const changeId = updateItinerary((prev) => {
       if (prev.length <= 1) {
         blocked = true;
         return prev;
       }
 
-      removedIndex = prev.findIndex((day) => day.day === dayNumber);
-      if (removedIndex < 0) return prev;
+      if (!prev.some((day) => day.day === dayNumber)) return prev;
 
-      removedDay = prev[removedIndex];
       const filtered = prev.filter((day) => day.day !== dayNumber);
       removed = true;
       return resequenceDayPlans(filtered);
-    });
+    }, "Remove day");
 
     if (blocked) {
       toast({
@@ -914,11 +1193,7 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
       return;
     }
 
-    if (!removed) return;
-
-    const deletedDay = removedDay;
-    const deletedDayIndex = removedIndex;
-    if (!deletedDay || deletedDayIndex < 0) return;
+    if (!removed || !changeId) return;
 
     setAddDay((current) => {
       if (current === null) return null;
@@ -927,7 +1202,6 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
       return current;
     });
     onResetDayFocus?.();
-    let undone = false;
     toast({
       title: "Day removed",
       description: `Day ${dayNumber} was removed.`,
@@ -936,27 +1210,15 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
         <ToastAction
           altText="Undo remove day"
           onClick={() => {
-            if (undone) return;
-            undone = true;
-            updateItinerary((prev) => {
-              const next = [...prev];
-              const safeIndex = Math.max(0, Math.min(deletedDayIndex, next.length));
-              next.splice(safeIndex, 0, deletedDay);
-              return resequenceDayPlans(next);
-            });
+            stepHistory("undo", changeId);
             onResetDayFocus?.();
-            toast({
-              title: "Day restored",
-              description: "Your day was added back.",
-              duration: 2500,
-            });
           }}
         >
           Undo
         </ToastAction>
       ),
     });
-  }, [onResetDayFocus, toast, updateItinerary]);
+  }, [onResetDayFocus, stepHistory, toast, updateItinerary]);
 
   const handleMoveStop = useCallback((move: { sourceDay: number; stopId: string; targetDay: number; targetStopId?: string }) => {
     const { sourceDay, stopId, targetDay, targetStopId } = move;
@@ -995,7 +1257,7 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
       }
       changed = true;
       return next;
-    });
+    }, "Move activity");
 
     if (!changed) return;
     toast({
@@ -1029,9 +1291,35 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
         ...day,
         stops: resequenceStopTimes(reordered),
       };
-    }));
+    }), "Reorder activities");
   }, [updateItinerary]);
 
+  const handleShiftStops = useCallback((dayNumber: number, shifts: { stopId: string; startMinutes: number }[]) => {
+    if (!shifts.length) return;
+    const shiftById = new Map(shifts.map((shift) => [shift.stopId, shift.startMinutes]));
+
+    updateItinerary((prev) => prev.map((day) => {
+      if (day.day !== dayNumber) return day;
+
+      const stops = day.stops
+        .map((stop) => {
+          const startMinutes = shiftById.get(stop.id);
+          return startMinutes === undefined ? stop : { ...stop, startMinutes, time: formatClockTime(startMinutes) };
+        })
+        .map((stop, idx) => ({ stop, idx, start: stop.startMinutes ?? parseClockTime(stop.time) }))
+        .sort((a, b) => (a.start === null || b.start === null ? a.idx - b.idx : a.start - b.start || a.idx - b.idx))
+        .map(({ stop }) => stop);
+
+      return { ...day, stops };
+    }), shifts.length === 1 ? "Adjust time" : "Adjust times");
+
+    toast({
+      title: shifts.length === 1 ? "Time adjusted" : "Times adjusted",
+      description: `Moved ${shifts.length} stop${shifts.length === 1 ? "" : "s"} on Day ${dayNumber} into opening hours.`,
+      duration: 2500,
+    });
+  }, [toast, updateItinerary]);
+
   const openAddStop = useCallback((dayNumber: number) => {
     setAddDay(dayNumber);
     setAddForm({ name: "", time: "", placeId: null });
@@ -1161,7 +1449,7 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
         day.day === addDay
           ? { ...day, stops: [...day.stops, newStop] }
           : day
-      )));
+      )), "Add activity");
 
       setAddDay(null);
       setAddForm({ name: "", time: "", placeId: null });
@@ -1226,8 +1514,20 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
                         isMobile && !generatedItinerary ? "mb-20" : ""
                       }`}
                     >
-                      <LoadingAnimation />
-                      {isMobile && !generatedItinerary && (
+                      <LoadingAnimation progress={generationProgress} />
+                      {streamingDays.map(day => (
+                        <DayCard
+                          key={day.day}
+                          day={day}
+                          destination={tripConfig.to}
+                          onHighlightStop={onHighlightStop}
+                          highlightedStop={highlightedStop}
+                          onStopClick={onStopClick}
+                          onStopZoom={onStopZoom}
+                          tripStartDate={tripConfig.startDate}
+                        />
+                      ))}
+                      {isMobile && !generatedItinerary && streamingDays.length === 0 && (
                         <MobileCityIntelCard
                           destination={tripConfig.to}
                           startDate={tripConfig.startDate}
@@ -1263,6 +1563,7 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
 
                       {planTab === "itinerary" ? (
                         <div className="space-y-4">
+                          {tripBudget && <BudgetSummary budget={tripBudget} />}
                           {focusedDay !== null && (
                             <div className="rounded-xl border border-border/60 bg-card/70 backdrop-blur-sm px-3 py-2 flex items-center justify-between gap-2">
                               <p className="text-xs font-body text-foreground">
@@ -1293,6 +1594,15 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
                                 onAddStop={openAddStop}
                                 onMoveStop={handleMoveStop}
                                 onReorderStops={handleReorderStops}
+                                onOptimizeDay={handleOptimizeDay}
+                                onRegenerateStop={(dayNumber, stopId) => setRegenerateTarget({ day: dayNumber, stopId })}
+                                onRegenerateDay={(dayNumber) => setRegenerateTarget({ day: dayNumber })}
+                                tripStartDate={tripConfig.startDate}
+                                onShiftStops={handleShiftStops}
+                                viewers={peersByDay.get(day.day)}
+                                remoteDrags={remoteDrags}
+                                onStopDragChange={handleStopDragChange}
+                                onEditTransport={(dayNumber, stopId) => setTransportTarget({ day: dayNumber, stopId })}
                               />
                               {addDay === day.day && (
                                 <AddActivityForm
@@ -1331,6 +1641,16 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
                       )}
                     </div>
                   )}
+                  {msg.type === "adjustment" && pendingAdjustment && (
+                    <AdjustmentPreview
+                      key={pendingAdjustment.request}
+                      patch={pendingAdjustment.patch}
+                      itinerary={pendingAdjustment.base}
+                      onApply={handleApplyAdjustment}
+                      onDiscard={handleDiscardAdjustment}
+                      onPreviewStop={onPreviewPin}
+                    />
+                  )}
                   {msg.type === "stay-intent" && <StayIntentPicker onSelect={handleStayIntentChoice} />}
                   {msg.type === "stay-budget" && <StayBudgetPicker onSelect={handleStayBudgetSelect} />}
                   {msg.type === "actions" && <ActionChips onAction={handleActionChip} onSave={onSaveTrip} />}
@@ -1368,6 +1688,26 @@ export function ChatPanel({ tripConfig, onHighlightStop, highlightedStop, onItin
           </div>
         </div>
       )}
+      {generatedItinerary && (
+        <AlternativesDialog
+          target={regenerateTarget}
+          onClose={() => setRegenerateTarget(null)}
+          tripConfig={tripConfig}
+          itinerary={generatedItinerary}
+          preferences={{ interests: selectedInterests, pace: selectedPace }}
+          onChoose={handleChooseAlternative}
+          onPreviewStop={onPreviewPin}
+        />
+      )}
+      {generatedItinerary && (
+        <TransportLegDialog
+          target={transportTarget}
+          itinerary={generatedItinerary}
+          defaultMode={defaultTransportMode(tripConfig.mode)}
+          onClose={() => setTransportTarget(null)}
+          onSave={handleSaveTransport}
+        />
+      )}
     </div>
   );
 }
@@ -1713,15 +2053,22 @@ function PacePicker({ onSelect }: { onSelect: (s: string) => void }) {
   );
 }
 
-function LoadingAnimation() {
+/** Shows the planner's reported progress, falling back to rotating hints until the first update arrives. */
+function LoadingAnimation({ progress }: { progress?: GenerationProgress | null }) {
   const [step, setStep] = useState(0);
 
   useEffect(() => {
+    if (progress) return;
     const timer = window.setInterval(() => {
       setStep((prev) => (prev + 1) % LOADING_STEPS.length);
     }, 1600);
     return () => window.clearInterval(timer);
-  }, []);
+  }, [progress]);
+
+  const label = progress?.message || LOADING_STEPS[step];
+  const percent = progress && progress.totalDays > 0
+    ? Math.min(100, Math.round((progress.completedDays / progress.totalDays) * 100))
+    : null;
 
   return (
     <div className="w-full max-w-[85%] border border-border/60 bg-card/75 backdrop-blur-sm rounded-2xl rounded-tl-md p-6 flex flex-col items-center gap-3 shadow-sm">
@@ -1758,14 +2105,14 @@ function LoadingAnimation() {
 
       <AnimatePresence mode="wait">
         <motion.p
-          key={LOADING_STEPS[step]}
+          key={label}
           initial={{ opacity: 0, y: 4 }}
           animate={{ opacity: 1, y: 0 }}
           exit={{ opacity: 0, y: -4 }}
           transition={{ duration: 0.2 }}
           className="text-sm font-body text-muted-foreground"
         >
-          {LOADING_STEPS[step]}
+          {label}
           <span className="inline-flex ml-1">
             <span className="animate-typing-dot [animation-delay:0ms]">.</span>
             <span className="animate-typing-dot [animation-delay:160ms]">.</span>
@@ -1775,12 +2122,26 @@ function LoadingAnimation() {
       </AnimatePresence>
 
       <div className="relative h-1.5 w-52 overflow-hidden rounded-full bg-secondary/80">
-        <motion.div
-          className="absolute left-0 top-0 h-full w-16 rounded-full bg-accent/85 shadow-[0_0_14px_hsl(var(--accent)/0.45)]"
-          animate={{ x: ["-30%", "250%"] }}
-          transition={{ duration: 1.15, repeat: Infinity, ease: "easeInOut" }}
-        />
+        {percent !== null && progress?.phase === "drafting" ? (
+          <motion.div
+            className="absolute left-0 top-0 h-full rounded-full bg-accent/85 shadow-[0_0_14px_hsl(var(--accent)/0.45)]"
+            initial={false}
+            animate={{ width: `${Math.max(percent, 6)}%` }}
+            transition={{ duration: 0.4, ease: "easeOut" }}
+          />
+        ) : (
+          <motion.div
+            className="absolute left-0 top-0 h-full w-16 rounded-full bg-accent/85 shadow-[0_0_14px_hsl(var(--accent)/0.45)]"
+            animate={{ x: ["-30%", "250%"] }}
+            transition={{ duration: 1.15, repeat: Infinity, ease: "easeInOut" }}
+          />
+        )}
       </div>
+      {progress && progress.totalDays > 0 && (
+        <p className="text-[11px] font-body text-muted-foreground">
+          {progress.completedDays} of {progress.totalDays} {progress.totalDays === 1 ? "day" : "days"} ready
+        </p>
+      )}
     </div>
   );
 }
@@ -1902,65 +2263,71 @@ function StayRecommendationsPanel({
                     Remove
                   </button>
                 </div>
-                <p className="mt-1 text-[11px] font-body text-muted-foreground">{stay.nightlyPrice} · {stay.neighborhood}</p>
+                <p className="mt-1 text-[11px] font-body text-muted-foreground">
+                  {stay.nightlyPrice} · {stay.city ? `${stay.neighborhood}, ${stay.city}` : stay.neighborhood}
+                </p>
               </div>
             ))}
           </div>
         </div>
       )}
       <div className="space-y-2">
-        {options.map((stay) => (
-          <div
-            key={stay.id}
-            className="w-full text-left rounded-2xl border border-border/60 bg-card/75 backdrop-blur-sm p-3 hover:border-accent/40 hover:shadow-sm transition-all"
-          >
-            <div className="flex items-start justify-between gap-3">
-              <div>
-                <p className="text-sm font-body font-semibold text-foreground">{stay.name}</p>
-                <div className="mt-1 flex flex-wrap gap-2 text-[11px] font-body text-muted-foreground">
-                  <span className="inline-flex items-center gap-1">
-                    <Building2 className="w-3 h-3" />
-                    {stay.type}
-                  </span>
-                  <span className="inline-flex items-center gap-1">
-                    <MapPin className="w-3 h-3" />
-                    {stay.neighborhood}
-                  </span>
+        {options.map((stay, idx) => (
+          <Fragment key={stay.id}>
+            {stay.city && stay.city !== options[idx - 1]?.city && (
+              <p className="pt-1 text-[11px] font-body font-semibold uppercase tracking-wider text-muted-foreground">Stays in {stay.city}</p>
+            )}
+            <div
+              className="w-full text-left rounded-2xl border border-border/60 bg-card/75 backdrop-blur-sm p-3 hover:border-accent/40 hover:shadow-sm transition-all"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <p className="text-sm font-body font-semibold text-foreground">{stay.name}</p>
+                  <div className="mt-1 flex flex-wrap gap-2 text-[11px] font-body text-muted-foreground">
+                    <span className="inline-flex items-center gap-1">
+                      <Building2 className="w-3 h-3" />
+                      {stay.type}
+                    </span>
+                    <span className="inline-flex items-center gap-1">
+                      <MapPin className="w-3 h-3" />
+                      {stay.neighborhood}
+                    </span>
+                  </div>
                 </div>
+                <span className="text-[11px] font-body font-semibold text-accent-foreground bg-accent/15 px-2 py-1 rounded-full">
+                  {stay.nightlyPrice}
+                </span>
               </div>
-              <span className="text-[11px] font-body font-semibold text-accent-foreground bg-accent/15 px-2 py-1 rounded-full">
-                {stay.nightlyPrice}
-              </span>
-            </div>
-            <p className="mt-2 text-xs font-body text-muted-foreground">{stay.why}</p>
-            <p className="mt-2 text-[11px] font-body text-foreground/80">
-              Best for: <span className="font-semibold">{stay.bestFor}</span>
-            </p>
+              <p className="mt-2 text-xs font-body text-muted-foreground">{stay.why}</p>
+              <p className="mt-2 text-[11px] font-body text-foreground/80">
+                Best for: <span className="font-semibold">{stay.bestFor}</span>
+              </p>
 
-            <div className="mt-3 flex flex-wrap items-center gap-2">
-              <button
-                type="button"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onAddToItinerary(stay);
-                }}
-                disabled={selectedIds.has(stay.id)}
-                className="px-3 py-1.5 rounded-lg text-[11px] font-body font-semibold bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-55 disabled:hover:bg-primary"
-              >
-                {selectedIds.has(stay.id) ? "Added to stays" : "Add to stays"}
-              </button>
-              <button
-                type="button"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onViewOnMap(stay);
-                }}
-                className="px-3 py-1.5 rounded-lg text-[11px] font-body font-semibold bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
-              >
-                View on map
-              </button>
+              <div className="mt-3 flex flex-wrap items-center gap-2">
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAddToItinerary(stay);
+                  }}
+                  disabled={selectedIds.has(stay.id)}
+                  className="px-3 py-1.5 rounded-lg text-[11px] font-body font-semibold bg-primary text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-55 disabled:hover:bg-primary"
+                >
+                  {selectedIds.has(stay.id) ? "Added to stays" : "Add to stays"}
+                </button>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onViewOnMap(stay);
+                  }}
+                  className="px-3 py-1.5 rounded-lg text-[11px] font-body font-semibold bg-secondary text-secondary-foreground hover:bg-secondary/80 transition-colors"
+                >
+                  View on map
+                </button>
+              </div>
             </div>
-          </div>
+          </Fragment>
         ))}
       </div>
     </div>
@@ -1,9 +1,13 @@
 import { useEffect, useMemo, useState, type DragEvent, type PointerEvent as ReactPointerEvent, type ReactNode } from "react";
 import { Reorder, motion, useDragControls } from "framer-motion";
-import { Clock, Car, DollarSign, X, MapPin, Plus, GripVertical, Trash2 } from "lucide-react";
-import type { DayPlan, Stop } from "@/data/demoTrip";
+import { Clock, Car, DollarSign, X, MapPin, Plus, GripVertical, Trash2, Route, AlertTriangle, RefreshCw, Plane, TrainFront, Bus, Ship, Ticket, type LucideIcon } from "lucide-react";
+import type { DayPlan, Stop, TransportLeg, TransportMode } from "@/data/demoTrip";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { ActivityImage } from "@/components/ActivityImage";
+import { formatClockTime } from "@/lib/itinerary-fields";
+import { tripDayWeekday, validateDayHours, type HoursConflict } from "@/lib/schedule";
+import { describeTransportLeg, formatTransportRoute, formatTransportTimes } from "@/lib/transport-legs";
+import type { TripPeer } from "@/hooks/useTripRealtime";
 
 const DRAG_MIME_TYPE = "application/x-roamly-stop";
 
@@ -22,6 +26,20 @@ interface DayCardProps {
   onAddStop?: (dayNumber: number) => void;
   onMoveStop?: (move: { sourceDay: number; stopId: string; targetDay: number; targetStopId?: string }) => void;
   onReorderStops?: (dayNumber: number, orderedStopIds: string[]) => void;
+  onOptimizeDay?: (dayNumber: number) => void;
+  /** Ask the planner for alternatives to one stop, keeping the rest of the trip fixed. */
+  onRegenerateStop?: (dayNumber: number, stopId: string) => void;
+  onRegenerateDay?: (dayNumber: number) => void;
+  /** Trip start (yyyy-MM-dd), used to check opening hours against the real weekday. */
+  tripStartDate?: string;
+  onShiftStops?: (dayNumber: number, shifts: { stopId: string; startMinutes: number }[]) => void;
+  /** Collaborators currently looking at this day. */
+  viewers?: TripPeer[];
+  /** Stops other collaborators are dragging, keyed by stop id. */
+  remoteDrags?: Map<string, TripPeer>;
+  onStopDragChange?: (stopId: string | null) => void;
+  /** Add or edit the transport leg that leads to a stop. */
+  onEditTransport?: (dayNumber: number, stopId: string) => void;
 }
 
 interface MobileReorderStopItemProps {
@@ -58,6 +76,70 @@ function MobileReorderStopItem({ stop, index, totalStops, onDragEnd, renderStopC
   );
 }
 
+const TRANSPORT_ICONS: Record<TransportMode, LucideIcon> = {
+  flight: Plane,
+  train: TrainFront,
+  bus: Bus,
+  ferry: Ship,
+  drive: Car,
+};
+
+function TransportLegCard({ leg, color, onEdit }: { leg: TransportLeg; color: string; onEdit?: () => void }) {
+  const Icon = TRANSPORT_ICONS[leg.mode];
+  const route = formatTransportRoute(leg);
+  const times = formatTransportTimes(leg);
+  return (
+    <div
+      onClick={onEdit}
+      className={`ml-6 my-1 flex items-start gap-2.5 rounded-xl border border-dashed bg-secondary/40 px-3 py-2 ${onEdit ? "cursor-pointer hover:bg-secondary/70 transition-colors" : ""}`}
+      style={{ borderColor: color }}
+      title={onEdit ? "Edit transport" : undefined}
+    >
+      <div className="w-6 h-6 rounded-full flex items-center justify-center shrink-0 text-primary-foreground" style={{ background: color }}>
+        <Icon className="w-3.5 h-3.5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-body font-semibold text-foreground">{describeTransportLeg(leg)}</p>
+        {route && <p className="text-[11px] font-body text-muted-foreground truncate">{route}</p>}
+        {times && <p className="text-[11px] font-body text-muted-foreground">{times}</p>}
+        {(leg.bookingRef || leg.cost) && (
+          <div className="flex flex-wrap gap-1.5 mt-1">
+            {leg.bookingRef && (
+              <span className="inline-flex items-center gap-1 text-[10px] font-body px-2 py-0.5 rounded-full bg-card border border-border/60 text-foreground">
+                <Ticket className="w-3 h-3" /> {leg.bookingRef}
+              </span>
+            )}
+            {leg.cost && <span className="text-[10px] font-body px-2 py-0.5 rounded-full bg-secondary text-muted-foreground">{leg.cost}</span>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function HoursConflictBadge({ conflict, onShift }: { conflict: HoursConflict; onShift?: (startMinutes: number) => void }) {
+  const suggested = conflict.suggestedMinutes;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+      <span className="inline-flex items-center gap-1 text-[10px] font-body font-semibold px-2 py-0.5 rounded-full border border-destructive/30 bg-destructive/10 text-destructive">
+        <AlertTriangle className="w-3 h-3" /> {conflict.message}
+      </span>
+      {onShift && suggested !== null && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onShift(suggested);
+          }}
+          className="text-[10px] font-body font-semibold px-2 py-0.5 rounded-full border border-border/60 text-foreground hover:bg-secondary transition-colors"
+        >
+          Shift to {formatClockTime(suggested)}
+        </button>
+      )}
+    </div>
+  );
+}
+
 export function DayCard({
   day,
   destination,
@@ -73,6 +155,15 @@ export function DayCard({
   onAddStop,
   onMoveStop,
   onReorderStops,
+  onOptimizeDay,
+  onRegenerateStop,
+  onRegenerateDay,
+  tripStartDate,
+  onShiftStops,
+  viewers = [],
+  remoteDrags,
+  onStopDragChange,
+  onEditTransport,
 }: DayCardProps) {
   const isMobile = useIsMobile();
   const [dragOverStopId, setDragOverStopId] = useState<string | null>(null);
@@ -85,6 +176,18 @@ export function DayCard({
     setMobileOrderIds(dayStopIds);
   }, [dayStopIds]);
 
+  const hoursConflicts = useMemo(
+    () => validateDayHours(day, tripDayWeekday(tripStartDate, day.day)),
+    [day, tripStartDate],
+  );
+  const conflictByStop = useMemo(
+    () => new Map(hoursConflicts.map((conflict) => [conflict.stopId, conflict])),
+    [hoursConflicts],
+  );
+  const fixableConflicts = hoursConflicts.filter(
+    (conflict): conflict is HoursConflict & { suggestedMinutes: number } => conflict.suggestedMinutes !== null,
+  );
+
   const stopLookup = useMemo(() => new Map(day.stops.map((stop) => [stop.id, stop])), [day.stops]);
 
   const orderedMobileStops = useMemo(() => {
@@ -120,7 +223,13 @@ export function DayCard({
     onMobileHandlePointerDown?: (event: ReactPointerEvent<HTMLButtonElement>) => void,
   ) => (
     <>
-      {stop.driveFromPrev && (
+      {stop.transport ? (
+        <TransportLegCard
+          leg={stop.transport}
+          color={day.color}
+          onEdit={onEditTransport && (() => onEditTransport(day.day, stop.id))}
+        />
+      ) : stop.driveFromPrev && (
         <div className="flex items-center gap-2 py-1.5 pl-6">
           <Car className="w-3 h-3 text-muted-foreground" />
           <span className="text-xs text-muted-foreground font-body">{stop.driveFromPrev}</span>
@@ -134,11 +243,13 @@ export function DayCard({
           e.dataTransfer.effectAllowed = "move";
           e.dataTransfer.setData(DRAG_MIME_TYPE, payload);
           e.dataTransfer.setData("text/plain", payload);
+          onStopDragChange?.(stop.id);
         }}
         onDragEnd={() => {
           if (isMobileSortable) return;
           setDragOverStopId(null);
           setIsDragOverDay(false);
+          onStopDragChange?.(null);
         }}
         onDragOver={(e) => {
           if (isMobileSortable || !onMoveStop) return;
@@ -179,6 +290,7 @@ export function DayCard({
             ? "cursor-pointer touch-pan-y"
             : `cursor-pointer ${dragOverStopId === stop.id ? "ring-2 ring-accent/50 bg-accent/10" : ""}`
         }`}
+        style={remoteDrags?.has(stop.id) ? { boxShadow: `0 0 0 2px ${remoteDrags.get(stop.id)?.color}` } : undefined}
       >
         {(onMoveStop || isMobileSortable) && (
           isMobileSortable ? (
@@ -188,6 +300,7 @@ export function DayCard({
                 e.stopPropagation();
                 e.preventDefault();
                 onMobileHandlePointerDown?.(e);
+                onStopDragChange?.(stop.id);
               }}
               onClick={(e) => e.stopPropagation()}
               className="shrink-0 text-muted-foreground mt-1 cursor-grab active:cursor-grabbing touch-none"
@@ -223,6 +336,11 @@ export function DayCard({
             <div className="order-2 sm:order-1 flex-1 min-w-0">
               <div className="flex items-baseline gap-2 mb-0.5">
                 <span className="text-xs text-muted-foreground font-body font-medium">{stop.time}</span>
+                {remoteDrags?.has(stop.id) && (
+                  <span className="text-[10px] font-body font-semibold" style={{ color: remoteDrags.get(stop.id)?.color }}>
+                    {remoteDrags.get(stop.id)?.name} is moving this
+                  </span>
+                )}
               </div>
               <h4
                 className="font-body font-semibold text-sm text-foreground hover:text-accent cursor-pointer transition-colors"
@@ -243,10 +361,42 @@ export function DayCard({
                   </span>
                 ))}
               </div>
+              {conflictByStop.has(stop.id) && (
+                <HoursConflictBadge
+                  conflict={conflictByStop.get(stop.id) as HoursConflict}
+                  onShift={onShiftStops && ((startMinutes) => onShiftStops(day.day, [{ stopId: stop.id, startMinutes }]))}
+                />
+              )}
             </div>
           </div>
         </div>
         <div className={`flex gap-1 shrink-0 transition-opacity ${isMobileSortable ? "opacity-100" : "opacity-100 sm:opacity-0 sm:group-hover:opacity-100"}`}>
+          {onRegenerateStop && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRegenerateStop(day.day, stop.id);
+              }}
+              className="p-1 rounded-md hover:bg-accent/10 text-muted-foreground hover:text-accent transition-colors"
+              aria-label="Suggest alternatives"
+              title="Suggest alternatives"
+            >
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          )}
+          {onEditTransport && !stop.transport && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onEditTransport(day.day, stop.id);
+              }}
+              className="p-1 rounded-md hover:bg-accent/10 text-muted-foreground hover:text-accent transition-colors"
+              aria-label="Add transport"
+              title="Add a flight, train or other transport to get here"
+            >
+              <Plane className="w-3 h-3" />
+            </button>
+          )}
           <button
             onClick={(e) => {
               e.stopPropagation();
@@ -286,7 +436,47 @@ export function DayCard({
           <p className="text-xs text-muted-foreground font-body">{day.subtitle}</p>
         </div>
         <div className="flex items-center gap-1.5 shrink-0">
+          {viewers.length > 0 && (
+            <div className="flex -space-x-1.5 mr-1">
+              {viewers.slice(0, 3).map((peer) => (
+                <span
+                  key={peer.clientId}
+                  className="w-5 h-5 rounded-full border-2 border-card flex items-center justify-center text-[9px] font-body font-bold text-white"
+                  style={{ background: peer.color }}
+                  title={`${peer.name} is viewing this day`}
+                >
+                  {peer.name[0]?.toUpperCase()}
+                </span>
+              ))}
+            </div>
+          )}
           <MapPin className={`w-3.5 h-3.5 ${isMapFocused ? "text-accent" : "text-muted-foreground"}`} />
+          {onOptimizeDay && day.stops.length > 1 && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onOptimizeDay(day.day);
+              }}
+              className="p-1 rounded-md hover:bg-accent/10 text-muted-foreground hover:text-accent transition-colors"
+              aria-label={`Optimize Day ${day.day}`}
+              title="Optimize stop order"
+            >
+              <Route className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {onRegenerateDay && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onRegenerateDay(day.day);
+              }}
+              className="p-1 rounded-md hover:bg-accent/10 text-muted-foreground hover:text-accent transition-colors"
+              aria-label={`Regenerate Day ${day.day}`}
+              title={`Regenerate Day ${day.day}`}
+            >
+              <RefreshCw className="w-3.5 h-3.5" />
+            </button>
+          )}
           {onDeleteDay && canDeleteDay && (
             <button
               onClick={(e) => {
@@ -303,6 +493,27 @@ export function DayCard({
         </div>
       </div>
 
+      {hoursConflicts.length > 0 && (
+        <div className="px-4 py-2 border-b border-border/40 bg-destructive/5 flex items-center gap-2">
+          <AlertTriangle className="w-3.5 h-3.5 text-destructive shrink-0" />
+          <p className="flex-1 text-xs font-body text-destructive">
+            {hoursConflicts.length} stop{hoursConflicts.length === 1 ? "" : "s"} scheduled outside opening hours
+          </p>
+          {onShiftStops && fixableConflicts.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onShiftStops(
+                day.day,
+                fixableConflicts.map((conflict) => ({ stopId: conflict.stopId, startMinutes: conflict.suggestedMinutes })),
+              )}
+              className="text-[11px] font-body font-semibold px-2.5 py-1 rounded-lg border border-border/60 bg-card text-foreground hover:bg-secondary transition-colors"
+            >
+              Shift {fixableConflicts.length === 1 ? "to valid time" : `all ${fixableConflicts.length}`}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Stops timeline */}
       <div
         className={`px-4 py-3 space-y-1 transition-colors ${isDragOverDay ? "bg-accent/5" : ""}`}
@@ -338,7 +549,10 @@ export function DayCard({
                 stop={stop}
                 index={i}
                 totalStops={orderedMobileStops.length}
-                onDragEnd={() => onReorderStops?.(day.day, mobileOrderIds)}
+                onDragEnd={() => {
+                  onReorderStops?.(day.day, mobileOrderIds);
+                  onStopDragChange?.(null);
+                }}
                 renderStopContent={renderStopContent}
               />
             ))}
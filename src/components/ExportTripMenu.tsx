@@ -1,4 +1,5 @@
-import { Download, ExternalLink, MapPin, Share2 } from "lucide-react";
+import { useState } from "react";
+import { BookOpen, CalendarPlus, Download, ExternalLink, MapPin, Share2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -6,13 +7,25 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { type DayPlan, type TripConfig } from "@/data/demoTrip";
+import { ShareTripDialog } from "@/components/ShareTripDialog";
+import { type DayPlan, type StayOption, type TripConfig, type TripSession } from "@/data/demoTrip";
+import { useAuth } from "@/hooks/useAuth";
 import { toast } from "sonner";
-import { encodeShareData } from "@/lib/share";
+import { shareDataLink } from "@/lib/share";
+import type { SharePreferences, ShareTripData } from "@/lib/share-schema";
+import { toSavedChatHistory } from "@/lib/trip-session";
+import { buildTripCalendar, buildTripGeoJson, buildTripGpx, buildTripKml, exportFileName } from "@/lib/trip-export";
+import { fetchTimeZone } from "@/lib/city-intel";
+import { legSegments, staysForLeg, tripLegs } from "@/lib/trip-legs";
 
 interface ExportTripMenuProps {
   itinerary: DayPlan[];
   tripConfig: TripConfig;
+  session?: TripSession;
+  preferences?: SharePreferences;
+  /** Saved trip id, so short links can be listed and revoked per trip. */
+  tripId?: string;
+  onOpenBooklet?: () => void;
 }
 
 function exportToGoogleMaps(itinerary: DayPlan[]) {
@@ -31,55 +44,75 @@ function exportToGoogleMaps(itinerary: DayPlan[]) {
   toast.success("Opened in Google Maps");
 }
 
-function exportToKML(itinerary: DayPlan[], tripConfig: TripConfig) {
-  const folders = itinerary
-    .map(
-      (day) => `
-    <Folder>
-      <name>Day ${day.day} - ${day.title}</name>
-      ${day.stops
-        .map(
-          (s) => `
-      <Placemark>
-        <name>${escapeXml(s.name)}</name>
-        <description>${escapeXml(s.description)}</description>
-        <Point>
-          <coordinates>${s.lng},${s.lat},0</coordinates>
-        </Point>
-      </Placemark>`
-        )
-        .join("")}
-    </Folder>`
-    )
-    .join("");
-
-  const kml = `<?xml version="1.0" encoding="UTF-8"?>
-<kml xmlns="http://www.opengis.net/kml/2.2">
-  <Document>
-    <name>Trip: ${escapeXml(tripConfig.from)} to ${escapeXml(tripConfig.to)}</name>${folders}
-  </Document>
-</kml>`;
-
-  const blob = new Blob([kml], { type: "application/vnd.google-earth.kml+xml" });
+function downloadFile(contents: string, type: string, fileName: string) {
+  const blob = new Blob([contents], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
   a.href = url;
-  a.download = `trip-${tripConfig.from}-to-${tripConfig.to}.kml`;
+  a.download = fileName;
   a.click();
   URL.revokeObjectURL(url);
+}
+
+function exportToKML(itinerary: DayPlan[], tripConfig: TripConfig) {
+  downloadFile(buildTripKml(itinerary, tripConfig), "application/vnd.google-earth.kml+xml", exportFileName(tripConfig, "kml"));
   toast.success("KML file downloaded");
 }
 
-function escapeXml(str: string) {
-  return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+function exportToGPX(itinerary: DayPlan[], tripConfig: TripConfig) {
+  downloadFile(buildTripGpx(itinerary, tripConfig), "application/gpx+xml", exportFileName(tripConfig, "gpx"));
+  toast.success("GPX file downloaded");
+}
+
+function exportToGeoJSON(itinerary: DayPlan[], tripConfig: TripConfig) {
+  const geojson = JSON.stringify(buildTripGeoJson(itinerary, tripConfig), null, 2);
+  downloadFile(geojson, "application/geo+json", exportFileName(tripConfig, "geojson"));
+  toast.success("GeoJSON file downloaded");
+}
+
+async function exportToCalendar(itinerary: DayPlan[], tripConfig: TripConfig, stays: StayOption[]) {
+  if (!tripConfig.startDate) {
+    toast.error("Add trip dates to export a calendar");
+    return;
+  }
+  const anchor = itinerary.flatMap((day) => day.stops)[0] ?? stays[0];
+  // Multi-city legs take the zone of their first stop, or of their stay.
+  const legAnchors = legSegments(tripLegs(tripConfig), itinerary.length).map((segment) => (
+    itinerary.filter((day) => day.day >= segment.startDay && day.day <= segment.endDay).flatMap((day) => day.stops)[0]
+    ?? staysForLeg(stays, segment)[0]
+  ));
+  const [timeZone, ...legTimeZones] = await Promise.all(
+    [anchor, ...legAnchors].map((point) => (point ? fetchTimeZone(point.lat, point.lng) : null)),
+  );
+  const ics = buildTripCalendar(itinerary, tripConfig, { timeZone, legTimeZones, stays });
+  if (!ics) return;
+
+  downloadFile(ics, "text/calendar;charset=utf-8", exportFileName(tripConfig, "ics"));
+  const zones = [...new Set((legTimeZones.length > 0 ? legTimeZones : [timeZone]).filter(Boolean))];
+  toast.success(zones.length > 0 ? `Calendar downloaded (${zones.join(", ")} times)` : "Calendar downloaded");
 }
 
-async function shareTrip(itinerary: DayPlan[], tripConfig: TripConfig) {
-  const shareUrl = `${window.location.origin}/plan?share=${encodeShareData({
-    v: 1,
+function sharePayload(
+  itinerary: DayPlan[],
+  tripConfig: TripConfig,
+  session?: TripSession,
+  preferences?: SharePreferences,
+): ShareTripData {
+  return {
+    v: 2,
     tripConfig,
     itinerary,
-  })}`;
+    stays: session?.selectedStays ?? [],
+    preferences: preferences ?? null,
+    ...(session && {
+      stayBudgetVibe: session.stayBudgetVibe || undefined,
+      chatHistory: toSavedChatHistory(session.chatHistory),
+    }),
+  };
+}
+
+async function shareLegacyLink(payload: ShareTripData) {
+  const shareUrl = shareDataLink(payload);
   if (navigator.share) {
     try {
       await navigator.share({ title: "My Trip on Roamly", url: shareUrl });
@@ -92,25 +125,61 @@ async function shareTrip(itinerary: DayPlan[], tripConfig: TripConfig) {
   toast.success("Link copied to clipboard");
 }
 
-export function ExportTripMenu({ itinerary, tripConfig }: ExportTripMenuProps) {
+export function ExportTripMenu({ itinerary, tripConfig, session, preferences, tripId, onOpenBooklet }: ExportTripMenuProps) {
+  const { user } = useAuth();
+  const [shareOpen, setShareOpen] = useState(false);
+  const stays = session?.selectedStays ?? [];
+  const payload = sharePayload(itinerary, tripConfig, session, preferences);
+
+  // Short links are stored under an account; signed-out users get the self-contained link.
+  const handleShare = () => {
+    if (user) {
+      setShareOpen(true);
+    } else {
+      void shareLegacyLink(payload);
+    }
+  };
+
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button variant="outline" size="sm" className="font-body text-xs gap-1">
-          <ExternalLink className="w-3.5 h-3.5" /> Export
-        </Button>
-      </DropdownMenuTrigger>
-      <DropdownMenuContent align="end" className="w-52">
-        <DropdownMenuItem onClick={() => exportToGoogleMaps(itinerary)} className="gap-2 cursor-pointer">
-          <MapPin className="w-4 h-4" /> Open in Google Maps
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => exportToKML(itinerary, tripConfig)} className="gap-2 cursor-pointer">
-          <Download className="w-4 h-4" /> Download KML File
-        </DropdownMenuItem>
-        <DropdownMenuItem onClick={() => shareTrip(itinerary, tripConfig)} className="gap-2 cursor-pointer">
-          <Share2 className="w-4 h-4" /> Copy Share Link
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="font-body text-xs gap-1">
+            <ExternalLink className="w-3.5 h-3.5" /> Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-52">
+          <DropdownMenuItem onClick={() => exportToGoogleMaps(itinerary)} className="gap-2 cursor-pointer">
+            <MapPin className="w-4 h-4" /> Open in Google Maps
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportToKML(itinerary, tripConfig)} className="gap-2 cursor-pointer">
+            <Download className="w-4 h-4" /> Download KML File
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportToGPX(itinerary, tripConfig)} className="gap-2 cursor-pointer">
+            <Download className="w-4 h-4" /> Download GPX File
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => exportToGeoJSON(itinerary, tripConfig)} className="gap-2 cursor-pointer">
+            <Download className="w-4 h-4" /> Download GeoJSON
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => void exportToCalendar(itinerary, tripConfig, [])} className="gap-2 cursor-pointer">
+            <CalendarPlus className="w-4 h-4" /> Add to Calendar (.ics)
+          </DropdownMenuItem>
+          {stays.length > 0 && (
+            <DropdownMenuItem onClick={() => void exportToCalendar(itinerary, tripConfig, stays)} className="gap-2 cursor-pointer">
+              <CalendarPlus className="w-4 h-4" /> Calendar with Stay Check-ins
+            </DropdownMenuItem>
+          )}
+          {onOpenBooklet && (
+            <DropdownMenuItem onClick={onOpenBooklet} className="gap-2 cursor-pointer">
+              <BookOpen className="w-4 h-4" /> Print Booklet / PDF
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={handleShare} className="gap-2 cursor-pointer">
+            <Share2 className="w-4 h-4" /> {user ? "Share Link…" : "Copy Share Link"}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <ShareTripDialog open={shareOpen} onOpenChange={setShareOpen} payload={payload} tripId={tripId} />
+    </>
   );
 }
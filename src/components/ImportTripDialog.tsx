@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { AlertTriangle, FileUp, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { DayPlan } from "@/data/demoTrip";
+import { geocodeAddress } from "@/lib/google-maps";
+import { routingProfileForMode } from "@/lib/routing";
+import {
+  TripImportError,
+  buildImportedItinerary,
+  groupByArea,
+  groupByLabel,
+  parseTripFile,
+  resolveImportedPlaces,
+  suggestedDayCount,
+  type ImportedPlace,
+  type ParsedTripFile,
+} from "@/lib/trip-import";
+
+type Grouping = "file" | "area";
+
+interface ImportTripDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Trip destination, used to disambiguate place names; asked for when missing. */
+  destination?: string;
+  mode?: string;
+  onImport: (itinerary: DayPlan[], destination: string) => void;
+}
+
+const FORMAT_LABELS: Record<ParsedTripFile["format"], string> = {
+  kml: "KML",
+  gpx: "GPX",
+  geojson: "GeoJSON",
+  csv: "CSV",
+};
+
+export function ImportTripDialog({ open, onOpenChange, destination, mode, onImport }: ImportTripDialogProps) {
+  const [parsed, setParsed] = useState<ParsedTripFile | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [grouping, setGrouping] = useState<Grouping>("file");
+  const [dayCount, setDayCount] = useState(1);
+  const [place, setPlace] = useState(destination ?? "");
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [review, setReview] = useState<{ itinerary: DayPlan[]; unresolved: ImportedPlace[] } | null>(null);
+
+  const groupCount = parsed ? new Set(parsed.places.map((item) => item.group).filter(Boolean)).size : 0;
+  const destinationLabel = (destination ?? place).trim();
+
+  const reset = () => {
+    setParsed(null);
+    setFileError(null);
+    setReview(null);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    try {
+      const result = parseTripFile(file.name, await file.text());
+      const groups = new Set(result.places.map((item) => item.group).filter(Boolean)).size;
+      setParsed(result);
+      setGrouping(groups > 1 ? "file" : "area");
+      setDayCount(suggestedDayCount(result.places.length));
+      if (!destination && result.title) setPlace(result.title.replace(/^Trip:\s*/i, "").split(" to ").pop() ?? "");
+    } catch (err) {
+      setFileError(err instanceof TripImportError ? err.message : "This file couldn't be read.");
+    }
+  };
+
+  const finish = (itinerary: DayPlan[]) => {
+    onImport(itinerary, destinationLabel || parsed?.title || "Imported places");
+    handleOpenChange(false);
+  };
+
+  const handleBuild = async () => {
+    if (!parsed) return;
+    setIsBuilding(true);
+    try {
+      const { located, unresolved } = await resolveImportedPlaces(parsed.places, geocodeAddress, destinationLabel || undefined);
+      if (located.length === 0) {
+        setFileError("None of the places in this file could be located. Add coordinates or fuller addresses and try again.");
+        return;
+      }
+      const groups = grouping === "file" ? groupByLabel(located) : groupByArea(located, dayCount);
+      const itinerary = buildImportedItinerary(groups, routingProfileForMode(mode));
+      if (unresolved.length === 0) {
+        finish(itinerary);
+      } else {
+        setReview({ itinerary, unresolved });
+      }
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-primary">Import places</DialogTitle>
+          <DialogDescription className="font-body text-sm text-muted-foreground">
+            Bring in a Google My Maps KML, a GPX or GeoJSON file, or a spreadsheet saved as CSV.
+          </DialogDescription>
+        </DialogHeader>
+
+        {review ? (
+          <div className="space-y-3">
+            <div className="rounded-xl border border-amber-300/60 bg-amber-50/60 p-3">
+              <p className="flex items-center gap-1.5 text-sm font-body font-semibold text-foreground">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                {review.unresolved.length} {review.unresolved.length === 1 ? "place" : "places"} couldn't be located
+              </p>
+              <ul className="mt-2 max-h-40 overflow-y-auto space-y-0.5">
+                {review.unresolved.map((item) => (
+                  <li key={item.row} className="text-[11px] font-body text-muted-foreground">
+                    {parsed?.format === "csv" ? "Row" : "Item"} {item.row}: {item.name}
+                    {item.address && item.address !== item.name ? ` — ${item.address}` : ""}
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <p className="text-xs font-body text-muted-foreground">
+              The other {review.itinerary.reduce((sum, day) => sum + day.stops.length, 0)} places are ready across {review.itinerary.length} {review.itinerary.length === 1 ? "day" : "days"}. You can add the missing ones by hand afterwards.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={reset} className="font-body">Choose another file</Button>
+              <Button onClick={() => finish(review.itinerary)} className="font-body bg-accent text-accent-foreground hover:bg-accent/90">
+                Open itinerary
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <label className="flex cursor-pointer flex-col items-center gap-2 rounded-xl border border-dashed border-border p-5 text-center hover:bg-secondary/40 transition-colors">
+              <FileUp className="w-5 h-5 text-muted-foreground" />
+              <span className="text-sm font-body text-foreground">
+                {parsed ? `${parsed.places.length} places found in ${FORMAT_LABELS[parsed.format]} file` : "Choose a file"}
+              </span>
+              <span className="text-[11px] font-body text-muted-foreground">.kml, .gpx, .geojson, .json or .csv</span>
+              <input
+                type="file"
+                accept=".kml,.gpx,.geojson,.json,.csv,.tsv,.txt"
+                className="sr-only"
+                onChange={(e) => {
+                  void handleFile(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+              />
+            </label>
+
+            {fileError && <p className="text-xs font-body text-destructive">{fileError}</p>}
+
+            {parsed && (
+              <>
+                {!destination && (
+                  <div className="space-y-1">
+                    <p className="text-xs font-body font-semibold text-foreground">Destination</p>
+                    <Input
+                      value={place}
+                      onChange={(e) => setPlace(e.target.value)}
+                      placeholder="e.g. Lisbon"
+                      className="font-body"
+                    />
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <p className="text-xs font-body font-semibold text-foreground">Split into days</p>
+                  <div className="inline-flex rounded-lg border border-border/60 p-0.5 text-xs font-body">
+                    {groupCount > 0 && (
+                      <button
+                        type="button"
+                        onClick={() => setGrouping("file")}
+                        className={`rounded-md px-2.5 py-1 ${grouping === "file" ? "bg-primary text-primary-foreground" : "text-muted-foreground"}`}
+                      >
+                        As in file ({groupCount} {groupCount === 1 ? "group" : "groups"})
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setGrouping("area")}
+                      className={`rounded-md px-2.5 py-1 ${grouping === "area" ? "bg-primary text-primary-foreground" : "text-muted-foreground"}`}
+                    >
+                      By area
+                    </button>
+                  </div>
+                  {grouping === "area" && (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={1}
+                        max={Math.min(14, parsed.places.length)}
+                        value={dayCount}
+                        onChange={(e) => setDayCount(Math.max(1, Math.min(14, Number(e.target.value) || 1)))}
+                        className="w-20 font-body"
+                      />
+                      <span className="text-xs font-body text-muted-foreground">days, grouped by nearby places</span>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex justify-end">
+                  <Button
+                    onClick={handleBuild}
+                    disabled={isBuilding}
+                    className="font-body gap-1.5 bg-accent text-accent-foreground hover:bg-accent/90"
+                  >
+                    {isBuilding && <Loader2 className="w-4 h-4 animate-spin" />}
+                    {isBuilding ? "Locating places..." : "Build itinerary"}
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,20 +1,30 @@
 import { CalendarDays, MapPin } from "lucide-react";
 import { ActivityImage } from "@/components/ActivityImage";
+import { BudgetSummary } from "@/components/BudgetSummary";
 import { type DayPlan } from "@/data/demoTrip";
+import { formatBudgetAmount, type DayBudget, type TripBudget } from "@/lib/budget";
+import { shortCityName, type LegSegment } from "@/lib/trip-legs";
 
 interface ItineraryGridPanelProps {
   itinerary: DayPlan[];
   destination?: string;
+  /** Multi-city trips: days are grouped under the city they're spent in. */
+  legs?: LegSegment[];
+  budget?: TripBudget | null;
   onOpenDayOnMap?: (dayNumber: number) => void;
 }
 
 function DayCardTile({
   day,
   destination,
+  dayBudget,
+  currency,
   onOpenDayOnMap,
 }: {
   day: DayPlan;
   destination?: string;
+  dayBudget?: DayBudget;
+  currency?: string;
   onOpenDayOnMap?: (dayNumber: number) => void;
 }) {
   const featuredStop = day.stops[0];
@@ -63,6 +73,11 @@ function DayCardTile({
         <p className="line-clamp-2 text-xs font-body text-muted-foreground">
           {featuredStop ? featuredStop.name : "Add an activity for this day"}
         </p>
+        {dayBudget && currency && dayBudget.total.max > 0 && (
+          <p className="text-[11px] font-body font-semibold text-foreground/80">
+            {formatBudgetAmount(dayBudget.total, currency)}
+          </p>
+        )}
         <div className="inline-flex items-center gap-1 text-[11px] font-body font-semibold text-accent opacity-0 transition-opacity group-hover:opacity-100">
           <MapPin className="h-3 w-3" />
           Open on map
@@ -72,24 +87,48 @@ function DayCardTile({
   );
 }
 
-export function ItineraryGridPanel({ itinerary, destination, onOpenDayOnMap }: ItineraryGridPanelProps) {
+export function ItineraryGridPanel({ itinerary, destination, legs = [], budget, onOpenDayOnMap }: ItineraryGridPanelProps) {
+  const groups = legs.length > 0
+    ? legs.map((leg) => ({
+      leg,
+      days: itinerary.filter((day) => day.day >= leg.startDay && day.day <= leg.endDay),
+    }))
+    : [{ leg: null, days: itinerary }];
+
   return (
     <div className="h-full overflow-y-auto bg-[radial-gradient(95%_80%_at_0%_0%,hsl(var(--accent)/0.08),transparent_45%),radial-gradient(90%_80%_at_100%_0%,hsl(var(--primary)/0.10),transparent_40%),hsl(var(--background))] p-4 pt-20">
-      <div className="mb-3 rounded-xl border border-border/60 bg-card/70 px-3 py-2 backdrop-blur-sm">
-        <p className="text-[11px] font-body uppercase tracking-wide text-muted-foreground">Itinerary Grid</p>
-        <p className="text-sm font-body font-semibold text-foreground">Day-by-day highlights</p>
+      <div className="mb-3 flex flex-wrap items-center justify-between gap-2 rounded-xl border border-border/60 bg-card/70 px-3 py-2 backdrop-blur-sm">
+        <div>
+          <p className="text-[11px] font-body uppercase tracking-wide text-muted-foreground">Itinerary Grid</p>
+          <p className="text-sm font-body font-semibold text-foreground">Day-by-day highlights</p>
+        </div>
+        {budget && <BudgetSummary budget={budget} variant="compact" />}
       </div>
 
-      <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-3">
-        {itinerary.map((day) => (
-          <DayCardTile
-            key={day.day}
-            day={day}
-            destination={destination}
-            onOpenDayOnMap={onOpenDayOnMap}
-          />
-        ))}
-      </div>
+      {groups.map(({ leg, days }) => (
+        <section key={leg?.index ?? "all"} className={leg ? "mb-5" : undefined}>
+          {leg && (
+            <div className="mb-2 flex items-baseline gap-2 border-b border-border/60 pb-1.5">
+              <p className="text-sm font-body font-semibold text-foreground">{shortCityName(leg.city)}</p>
+              <p className="text-[11px] font-body text-muted-foreground">
+                {leg.startDay === leg.endDay ? `Day ${leg.startDay}` : `Days ${leg.startDay}–${leg.endDay}`} · {leg.nights} {leg.nights === 1 ? "night" : "nights"}
+              </p>
+            </div>
+          )}
+          <div className="grid grid-cols-1 gap-3 md:grid-cols-2 xl:grid-cols-3">
+            {days.map((day) => (
+              <DayCardTile
+                key={day.day}
+                day={day}
+                destination={leg ? leg.city : destination}
+                dayBudget={budget?.days.find((entry) => entry.day === day.day)}
+                currency={budget?.currency}
+                onOpenDayOnMap={onOpenDayOnMap}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
     </div>
   );
 }
@@ -0,0 +1,28 @@
+import type { TripPeer } from "@/hooks/useTripRealtime";
+
+const MAX_VISIBLE = 4;
+
+export function PresenceAvatars({ peers }: { peers: TripPeer[] }) {
+  if (peers.length === 0) return null;
+  const visible = peers.slice(0, MAX_VISIBLE);
+
+  return (
+    <div className="flex items-center -space-x-2" aria-label={`${peers.length} other ${peers.length === 1 ? "person" : "people"} here`}>
+      {visible.map((peer) => (
+        <span
+          key={peer.clientId}
+          className="w-7 h-7 rounded-full border-2 border-card flex items-center justify-center text-[11px] font-body font-bold text-white"
+          style={{ background: peer.color }}
+          title={peer.day ? `${peer.name} · viewing Day ${peer.day}` : peer.name}
+        >
+          {peer.name[0]?.toUpperCase()}
+        </span>
+      ))}
+      {peers.length > MAX_VISIBLE && (
+        <span className="w-7 h-7 rounded-full border-2 border-card bg-secondary flex items-center justify-center text-[10px] font-body font-semibold text-muted-foreground">
+          +{peers.length - MAX_VISIBLE}
+        </span>
+      )}
+    </div>
+  );
+}
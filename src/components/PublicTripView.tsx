@@ -0,0 +1,207 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { BedDouble, Copy, Loader2, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RoamlyLogo } from "@/components/RoamlyLogo";
+import { UserMenu } from "@/components/UserMenu";
+import { AuthDialog } from "@/components/AuthDialog";
+import { CityImage } from "@/components/CityImage";
+import { TripMap } from "@/components/TripMap";
+import { BudgetSummary } from "@/components/BudgetSummary";
+import type { TripOrigin } from "@/data/demoTrip";
+import { useAuth } from "@/hooks/useAuth";
+import { useSaveTrip } from "@/hooks/useSaveTrip";
+import { usePageMeta } from "@/hooks/usePageMeta";
+import { buildTripBudget } from "@/lib/budget";
+import { summarizeTransportLeg } from "@/lib/transport-legs";
+import { getMapboxToken } from "@/lib/mapbox";
+import { buildDayStaticMapUrl } from "@/lib/static-map";
+import { parseTripSession } from "@/lib/trip-session";
+import { tripRouteLabel } from "@/lib/trip-legs";
+import type { ShareTripData } from "@/lib/share-schema";
+
+interface PublicTripViewProps {
+  trip: ShareTripData;
+  /** Who shared the trip; null for legacy links, which carry no account. */
+  origin: TripOrigin | null;
+}
+
+// Self-contained links carry no account, so a copy can only be marked as duplicated.
+const LEGACY_ORIGIN: TripOrigin = { sourceTripId: null, shareSlug: null, authorName: null };
+
+function tripDates(trip: ShareTripData): string {
+  const { startDate, endDate, days } = trip.tripConfig;
+  return startDate && endDate ? `${format(parseISO(startDate), "MMM d")} – ${format(parseISO(endDate), "MMM d, yyyy")}` : days;
+}
+
+/** Read-only view of a shared trip: itinerary, map and stays, with a way to copy it into your own trips. */
+export function PublicTripView({ trip, origin }: PublicTripViewProps) {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { saveTrip, isSaving } = useSaveTrip();
+  const [authOpen, setAuthOpen] = useState(false);
+  const [highlightedStop, setHighlightedStop] = useState<string | null>(null);
+  const [focusedDay, setFocusedDay] = useState<number | null>(null);
+  const { tripConfig, itinerary, stays } = trip;
+  const title = tripRouteLabel(tripConfig);
+  const stopCount = itinerary.reduce((sum, day) => sum + day.stops.length, 0);
+  const budget = useMemo(
+    () => buildTripBudget(itinerary, { stays, budget: tripConfig.budget, legs: tripConfig.legs }),
+    [itinerary, stays, tripConfig.budget, tripConfig.legs],
+  );
+
+  const { data: token } = useQuery({ queryKey: ["mapbox-token"], queryFn: getMapboxToken, staleTime: Infinity });
+  const previewImage =
+    itinerary.flatMap((day) => day.stops).find((stop) => stop.imageUrl)?.imageUrl ||
+    (token && itinerary[0] ? buildDayStaticMapUrl(itinerary[0], tripConfig, token, { width: 1200, height: 630 }) : null);
+
+  usePageMeta({
+    title: `${tripConfig.to} trip · Roamly`,
+    description: `${itinerary.length} ${itinerary.length === 1 ? "day" : "days"} and ${stopCount} stops in ${tripConfig.to} (${tripDates(trip)})${origin?.authorName ? `, shared by ${origin.authorName}` : ""}.`,
+    image: previewImage,
+    url: window.location.href,
+  });
+
+  const handleDuplicate = async () => {
+    if (!user) {
+      setAuthOpen(true);
+      return;
+    }
+    const session = parseTripSession({ ...trip, selectedStays: stays });
+    const id = await saveTrip(tripConfig, itinerary, trip.preferences ?? undefined, undefined, undefined, session, origin ?? LEGACY_ORIGIN);
+    if (!id) return;
+    navigate("/plan", {
+      state: {
+        ...tripConfig,
+        savedTripId: id,
+        savedItinerary: itinerary,
+        savedPreferences: trip.preferences ?? undefined,
+        savedSession: session,
+      },
+    });
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <nav className="h-14 flex items-center justify-between px-4 border-b border-border bg-background/80 backdrop-blur-md z-20 shrink-0">
+        <button onClick={() => navigate("/")} className="shrink-0">
+          <RoamlyLogo size="sm" className="text-primary" />
+        </button>
+        <div className="hidden sm:flex items-center gap-2 px-4 py-1.5 rounded-full bg-secondary text-xs font-body font-medium text-foreground">
+          {title} | {tripDates(trip)} | {tripConfig.budget}
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            onClick={handleDuplicate}
+            disabled={isSaving}
+            className="font-body text-xs gap-1 bg-accent text-accent-foreground hover:bg-accent/90"
+          >
+            {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Copy className="w-3.5 h-3.5" />}
+            Duplicate to my trips
+          </Button>
+          <UserMenu />
+        </div>
+      </nav>
+
+      <div className="flex-1 flex flex-col-reverse lg:flex-row overflow-hidden">
+        <div className="flex-1 lg:w-[45%] lg:flex-none lg:min-w-[380px] overflow-y-auto border-r border-border">
+          <div className="relative">
+            <CityImage city={tripConfig.to} size="1200x600" alt={tripConfig.to} className="h-44 w-full" />
+            <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent" />
+            <div className="absolute bottom-3 left-4 right-4 text-white">
+              <h1 className="font-display text-2xl font-semibold">{tripConfig.to}</h1>
+              <p className="text-xs font-body opacity-90">
+                {tripDates(trip)} · {itinerary.length} {itinerary.length === 1 ? "day" : "days"} · {stopCount} stops · {tripConfig.mode}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-4 p-4">
+            {origin?.authorName && (
+              <p className="text-xs font-body text-muted-foreground">Shared by {origin.authorName}</p>
+            )}
+            <BudgetSummary budget={budget} variant="compact" />
+
+            {itinerary.map((day) => (
+              <section key={day.day} className="rounded-xl border border-border/60 bg-card">
+                <button
+                  type="button"
+                  onClick={() => setFocusedDay((prev) => (prev === day.day ? null : day.day))}
+                  className="flex w-full items-center gap-2 px-3 py-2 text-left"
+                >
+                  <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: day.color }} />
+                  <span className="flex-1 text-sm font-body font-semibold text-foreground">Day {day.day}: {day.title}</span>
+                  <span className="text-[11px] font-body text-muted-foreground">{day.estimatedCost}</span>
+                </button>
+                <ol className="divide-y divide-border/50 border-t border-border/60">
+                  {day.stops.map((stop) => (
+                    <li
+                      key={stop.id}
+                      onMouseEnter={() => setHighlightedStop(stop.id)}
+                      onMouseLeave={() => setHighlightedStop(null)}
+                      className={`px-3 py-2 transition-colors ${highlightedStop === stop.id ? "bg-secondary/60" : ""}`}
+                    >
+                      {stop.transport && (
+                        <p className="text-[11px] font-body font-semibold" style={{ color: day.color }}>
+                          {summarizeTransportLeg(stop.transport)}
+                        </p>
+                      )}
+                      <div className="flex items-baseline justify-between gap-2">
+                        <p className="text-sm font-body font-medium text-foreground">
+                          <span className="mr-2 text-[11px] text-muted-foreground">{stop.time}</span>
+                          {stop.name}
+                        </p>
+                        <span className="shrink-0 text-[11px] font-body text-muted-foreground">{stop.cost}</span>
+                      </div>
+                      <p className="text-xs font-body text-muted-foreground">{stop.description}</p>
+                      {stop.hours && <p className="text-[11px] font-body text-muted-foreground">Hours: {stop.hours}</p>}
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            ))}
+
+            {stays.length > 0 && (
+              <section className="space-y-2">
+                <h2 className="flex items-center gap-1.5 font-display text-lg text-primary">
+                  <BedDouble className="w-4 h-4" /> Where to stay
+                </h2>
+                {stays.map((stay) => (
+                  <div key={stay.id} className="rounded-xl border border-border/60 bg-card p-3">
+                    <div className="flex items-baseline justify-between gap-2">
+                      <p className="text-sm font-body font-semibold text-foreground">{stay.name}</p>
+                      <span className="text-[11px] font-body text-muted-foreground">{stay.nightlyPrice}/night</span>
+                    </div>
+                    <p className="flex items-center gap-1 text-xs font-body text-muted-foreground">
+                      <MapPin className="w-3 h-3" /> {[stay.type, stay.neighborhood].filter(Boolean).join(" · ")}
+                    </p>
+                    {stay.why && <p className="mt-1 text-xs font-body text-foreground">{stay.why}</p>}
+                  </div>
+                ))}
+              </section>
+            )}
+          </div>
+        </div>
+
+        <div className="h-[40vh] lg:h-auto lg:flex-1 relative shrink-0">
+          <TripMap
+            itinerary={itinerary}
+            highlightedStop={highlightedStop}
+            onHighlightStop={setHighlightedStop}
+            focusedDay={focusedDay}
+            onResetFocus={() => setFocusedDay(null)}
+            onFocusDay={setFocusedDay}
+            destination={tripConfig.to}
+            startDate={tripConfig.startDate}
+            endDate={tripConfig.endDate}
+          />
+        </div>
+      </div>
+
+      <AuthDialog open={authOpen} onOpenChange={setAuthOpen} />
+    </div>
+  );
+}
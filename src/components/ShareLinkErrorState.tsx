@@ -0,0 +1,41 @@
+import { useNavigate } from "react-router-dom";
+import { Link2Off } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RoamlyLogo } from "@/components/RoamlyLogo";
+import type { ShareLinkError, ShareLinkErrorReason } from "@/lib/share-schema";
+
+const TITLES: Record<ShareLinkErrorReason, string> = {
+  corrupt: "This link is broken",
+  unsupported: "This link needs a newer Roamly",
+  invalid: "This link can't be opened",
+  "not-found": "This trip isn't available",
+  expired: "This link has expired",
+  revoked: "This link was turned off",
+};
+
+interface ShareLinkErrorStateProps {
+  error: ShareLinkError;
+}
+
+/** Full-page explanation shown instead of the workspace when a share link can't be used. */
+export function ShareLinkErrorState({ error }: ShareLinkErrorStateProps) {
+  const navigate = useNavigate();
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center px-4 text-center">
+      <RoamlyLogo size="md" className="text-primary mb-8" />
+      <Link2Off className="w-10 h-10 text-accent mb-4" />
+      <h1 className="text-2xl font-display font-semibold text-primary mb-2">{TITLES[error.reason]}</h1>
+      <p className="max-w-md text-muted-foreground font-body mb-6">{error.message}</p>
+      <div className="flex gap-2">
+        {error.reason === "unsupported" && (
+          <Button variant="outline" onClick={() => window.location.reload()} className="font-body">
+            Refresh
+          </Button>
+        )}
+        <Button onClick={() => navigate("/")} className="bg-accent text-accent-foreground hover:bg-accent/90 font-body">
+          Plan your own trip
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import { Ban, Copy, Eye, Link2, Loader2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useSharedTrips, type SharedTripLink } from "@/hooks/useSharedTrips";
+import { shareLinkStatus, shareSlugLink, type ShareLinkStatus } from "@/lib/share";
+import type { ShareTripData } from "@/lib/share-schema";
+
+interface ShareTripDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  payload: ShareTripData;
+  /** Saved trip the links belong to; links for unsaved trips are only listed right after creation. */
+  tripId?: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never expires", days: null },
+  { value: "1", label: "Expires in 1 day", days: 1 },
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+] as const;
+
+const STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: "Active",
+  expired: "Expired",
+  revoked: "Revoked",
+};
+
+async function copyLink(link: SharedTripLink) {
+  const url = shareSlugLink(link.slug);
+  if (navigator.share) {
+    try {
+      await navigator.share({ title: "My Trip on Roamly", url });
+      return;
+    } catch {
+      // user cancelled or not supported
+    }
+  }
+  try {
+    await navigator.clipboard.writeText(url);
+    toast.success("Link copied to clipboard");
+  } catch {
+    toast.error("Couldn't copy the link");
+  }
+}
+
+function linkDetails(link: SharedTripLink, status: ShareLinkStatus): string {
+  const views = `${link.view_count} ${link.view_count === 1 ? "view" : "views"}`;
+  if (status === "revoked") return `${views} · revoked`;
+  if (!link.expires_at) return `${views} · no expiry`;
+  const expires = parseISO(link.expires_at);
+  return status === "expired"
+    ? `${views} · expired ${format(expires, "MMM d")}`
+    : `${views} · expires in ${formatDistanceToNow(expires)}`;
+}
+
+export function ShareTripDialog({ open, onOpenChange, payload, tripId }: ShareTripDialogProps) {
+  const { links, isLoading, create, revoke } = useSharedTrips(open ? tripId : undefined);
+  const [expiry, setExpiry] = useState<(typeof EXPIRY_OPTIONS)[number]["value"]>("never");
+  const [isCreating, setIsCreating] = useState(false);
+  const [created, setCreated] = useState<SharedTripLink | null>(null);
+  const shown = tripId ? links : created ? [created] : [];
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    const option = EXPIRY_OPTIONS.find((entry) => entry.value === expiry);
+    const link = await create(payload, option?.days ?? null);
+    setIsCreating(false);
+    if (!link) return;
+    setCreated(link);
+    await copyLink(link);
+  };
+
+  const handleRevoke = async (link: SharedTripLink) => {
+    await revoke(link.id);
+    if (created?.id === link.id) setCreated({ ...link, revoked_at: new Date().toISOString() });
+    toast.success("Link revoked");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-primary">Share this trip</DialogTitle>
+          <DialogDescription className="font-body text-sm text-muted-foreground">
+            Anyone with a link can view a snapshot of the trip as it is now. Revoke a link to turn it off.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Select value={expiry} onValueChange={(value) => setExpiry(value as typeof expiry)}>
+            <SelectTrigger className="flex-1 font-body">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value} className="font-body">{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={isCreating} className="font-body gap-1.5 bg-accent text-accent-foreground hover:bg-accent/90">
+            {isCreating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+            Create link
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : shown.length > 0 ? (
+          <ul className="divide-y divide-border/60">
+            {shown.map((link) => {
+              const status = shareLinkStatus(link);
+              return (
+                <li key={link.id} className="flex items-center gap-3 py-2.5">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-body font-medium truncate ${status === "active" ? "text-foreground" : "text-muted-foreground line-through"}`}>
+                      {shareSlugLink(link.slug).replace(/^https?:\/\//, "")}
+                    </p>
+                    <p className="flex items-center gap-1 text-[11px] font-body text-muted-foreground">
+                      <Eye className="w-3 h-3" /> {linkDetails(link, status)}
+                    </p>
+                  </div>
+                  {status === "active" ? (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyLink(link)} title="Copy link">
+                        <Copy className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => handleRevoke(link)}
+                        title="Revoke link"
+                      >
+                        <Ban className="w-3.5 h-3.5" />
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-[11px] font-body font-semibold text-muted-foreground">{STATUS_LABELS[status]}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="py-2 text-xs font-body text-muted-foreground">No share links yet.</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
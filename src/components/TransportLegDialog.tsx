@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TRANSPORT_MODES, type DayPlan, type TransportLeg, type TransportMode } from "@/data/demoTrip";
+import { normalizeTransportLeg } from "@/lib/itinerary-fields";
+import { TRANSPORT_MODE_LABELS } from "@/lib/transport-legs";
+
+/** The stop whose incoming journey is being edited. */
+export interface TransportTarget {
+  day: number;
+  stopId: string;
+}
+
+interface TransportLegDialogProps {
+  /** The dialog is open while this is set. */
+  target: TransportTarget | null;
+  itinerary: DayPlan[];
+  /** Mode for a new leg, e.g. from the trip's travel mode. */
+  defaultMode: TransportMode;
+  onClose: () => void;
+  /** Saves the leg, or removes it when `leg` is null. */
+  onSave: (target: TransportTarget, leg: TransportLeg | null) => void;
+}
+
+interface TransportForm {
+  mode: TransportMode;
+  carrier: string;
+  departurePlace: string;
+  arrivalPlace: string;
+  departureTime: string;
+  arrivalTime: string;
+  bookingRef: string;
+  cost: string;
+}
+
+function toTimeInput(minutes: number | null | undefined): string {
+  if (typeof minutes !== "number") return "";
+  const normalized = minutes % (24 * 60);
+  return `${String(Math.floor(normalized / 60)).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+}
+
+function fromTimeInput(value: string): number | null {
+  const match = value.match(/^(\d{2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/** The stop before `stopId`, looking back into the previous day for a day's first stop. */
+function previousStopName(itinerary: DayPlan[], target: TransportTarget): string {
+  const stops = itinerary.flatMap((day) => day.stops);
+  const index = stops.findIndex((stop) => stop.id === target.stopId);
+  return index > 0 ? stops[index - 1].name : "";
+}
+
+function initialForm(itinerary: DayPlan[], target: TransportTarget, defaultMode: TransportMode): TransportForm {
+  const stop = itinerary.find((day) => day.day === target.day)?.stops.find((item) => item.id === target.stopId);
+  const leg = stop?.transport;
+  return {
+    mode: leg?.mode ?? defaultMode,
+    carrier: leg?.carrier ?? "",
+    departurePlace: leg ? leg.departurePlace : previousStopName(itinerary, target),
+    arrivalPlace: leg ? leg.arrivalPlace : stop?.name ?? "",
+    departureTime: toTimeInput(leg?.departureMinutes),
+    arrivalTime: toTimeInput(leg?.arrivalMinutes),
+    bookingRef: leg?.bookingRef ?? "",
+    cost: leg?.cost ?? "",
+  };
+}
+
+/** Keyed by stop, so the fields start over each time the dialog opens on a different one. */
+function TransportLegForm({ target, itinerary, defaultMode, onClose, onSave }: TransportLegDialogProps & { target: TransportTarget }) {
+  const [form, setForm] = useState(() => initialForm(itinerary, target, defaultMode));
+  const stop = itinerary.find((day) => day.day === target.day)?.stops.find((item) => item.id === target.stopId);
+
+  const update = (fields: Partial<TransportForm>) => setForm((prev) => ({ ...prev, ...fields }));
+
+  const handleSave = () => {
+    const leg = normalizeTransportLeg({
+      mode: form.mode,
+      carrier: form.carrier,
+      departurePlace: form.departurePlace,
+      arrivalPlace: form.arrivalPlace,
+      departureMinutes: fromTimeInput(form.departureTime),
+      arrivalMinutes: fromTimeInput(form.arrivalTime),
+      bookingRef: form.bookingRef,
+      cost: form.cost,
+    });
+    onSave(target, leg);
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle className="font-display text-xl text-primary">
+          {stop?.transport ? "Edit transport" : "Add transport"}
+        </DialogTitle>
+        <DialogDescription className="font-body text-sm text-muted-foreground">
+          How you get to {stop?.name ?? "this stop"}, e.g. a flight or train you've booked.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label className="font-body text-xs">Mode</Label>
+          <Select value={form.mode} onValueChange={(value) => update({ mode: value as TransportMode })}>
+            <SelectTrigger className="font-body">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSPORT_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode} className="font-body">{TRANSPORT_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="transport-carrier" className="font-body text-xs">Carrier</Label>
+          <Input
+            id="transport-carrier"
+            value={form.carrier}
+            onChange={(e) => update({ carrier: e.target.value })}
+            placeholder="e.g. TAP Air Portugal"
+            className="font-body"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="transport-from" className="font-body text-xs">From</Label>
+          <Input
+            id="transport-from"
+            value={form.departurePlace}
+            onChange={(e) => update({ departurePlace: e.target.value })}
+            className="font-body"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="transport-to" className="font-body text-xs">To</Label>
+          <Input
+            id="transport-to"
+            value={form.arrivalPlace}
+            onChange={(e) => update({ arrivalPlace: e.target.value })}
+            className="font-body"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="transport-departs" className="font-body text-xs">Departs</Label>
+          <Input
+            id="transport-departs"
+            type="time"
+            value={form.departureTime}
+            onChange={(e) => update({ departureTime: e.target.value })}
+            className="font-body"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="transport-arrives" className="font-body text-xs">Arrives</Label>
+          <Input
+            id="transport-arrives"
+            type="time"
+            value={form.arrivalTime}
+            onChange={(e) => update({ arrivalTime: e.target.value })}
+            className="font-body"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="transport-ref" className="font-body text-xs">Booking reference</Label>
+          <Input
+            id="transport-ref"
+            value={form.bookingRef}
+            onChange={(e) => update({ bookingRef: e.target.value })}
+            className="font-body"
+          />
+        </div>
+        <div className="space-y-1.5">
+          <Label htmlFor="transport-cost" className="font-body text-xs">Cost</Label>
+          <Input
+            id="transport-cost"
+            value={form.cost}
+            onChange={(e) => update({ cost: e.target.value })}
+            placeholder="e.g. $120"
+            className="font-body"
+          />
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2 sm:justify-between">
+        {stop?.transport ? (
+          <Button
+            variant="ghost"
+            onClick={() => onSave(target, null)}
+            className="font-body gap-1.5 text-destructive hover:text-destructive"
+          >
+            <Trash2 className="w-3.5 h-3.5" /> Remove
+          </Button>
+        ) : <span />}
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={onClose} className="font-body">Cancel</Button>
+          <Button onClick={handleSave} className="font-body bg-accent text-accent-foreground hover:bg-accent/90">Save</Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
+
+export function TransportLegDialog({ target, itinerary, defaultMode, onClose, onSave }: TransportLegDialogProps) {
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[480px] max-h-[85vh] overflow-y-auto">
+        {target && (
+          <TransportLegForm
+            key={`${target.day}:${target.stopId}`}
+            target={target}
+            itinerary={itinerary}
+            defaultMode={defaultMode}
+            onClose={onClose}
+            onSave={onSave}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect } from "react";
+import { createPortal } from "react-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { Printer, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CityImage } from "@/components/CityImage";
+import type { DayPlan, StayOption, TripConfig } from "@/data/demoTrip";
+import { supabase } from "@/integrations/supabase/client";
+import { getMapboxToken } from "@/lib/mapbox";
+import { buildDayStaticMapUrl } from "@/lib/static-map";
+import { exportFileName } from "@/lib/trip-export";
+import { formatBudgetAmount, type TripBudget } from "@/lib/budget";
+import { summarizeTransportLeg } from "@/lib/transport-legs";
+
+interface TripBookletProps {
+  open: boolean;
+  onClose: () => void;
+  itinerary: DayPlan[];
+  tripConfig: TripConfig;
+  stays: StayOption[];
+  budget?: TripBudget | null;
+}
+
+interface DestinationOverview {
+  description: string;
+  bestTimeToVisit: string;
+  knownFor: string[];
+  safetyTips: string;
+  language: string;
+  currency: string;
+}
+
+function dayDate(tripConfig: TripConfig, day: number): string | null {
+  if (!tripConfig.startDate) return null;
+  const date = parseISO(tripConfig.startDate);
+  date.setDate(date.getDate() + day - 1);
+  return format(date, "EEEE, MMM d");
+}
+
+function OverviewFact({ label, value }: { label: string; value?: string }) {
+  if (!value) return null;
+  return (
+    <div>
+      <p className="text-[10px] font-body font-semibold uppercase tracking-wider text-muted-foreground">{label}</p>
+      <p className="text-sm font-body text-foreground">{value}</p>
+    </div>
+  );
+}
+
+export function TripBooklet({ open, onClose, itinerary, tripConfig, stays, budget }: TripBookletProps) {
+  const anchor = itinerary.flatMap((day) => day.stops)[0] ?? stays[0];
+
+  const { data: token } = useQuery({
+    queryKey: ["mapbox-token"],
+    queryFn: getMapboxToken,
+    enabled: open,
+    staleTime: Infinity,
+  });
+
+  const { data: overview, isLoading: overviewLoading } = useQuery({
+    queryKey: ["destination-overview", tripConfig.to],
+    enabled: open && !!anchor,
+    staleTime: Infinity,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke("get-destination-details", {
+        body: { name: tripConfig.to, lat: anchor?.lat, lng: anchor?.lng },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      return (data?.overview ?? null) as DestinationOverview | null;
+    },
+  });
+
+  // Only the booklet should reach the printer while it is open.
+  useEffect(() => {
+    if (!open) return;
+    document.body.classList.add("booklet-open");
+    return () => document.body.classList.remove("booklet-open");
+  }, [open]);
+
+  if (!open) return null;
+
+  const handlePrint = () => {
+    const previousTitle = document.title;
+    // Browsers use the document title as the suggested PDF file name.
+    document.title = exportFileName(tripConfig, "pdf").replace(/\.pdf$/, "");
+    window.print();
+    document.title = previousTitle;
+  };
+
+  const dates = tripConfig.startDate && tripConfig.endDate
+    ? `${format(parseISO(tripConfig.startDate), "MMM d")} – ${format(parseISO(tripConfig.endDate), "MMM d, yyyy")}`
+    : tripConfig.days;
+  const stopCount = itinerary.reduce((sum, day) => sum + day.stops.length, 0);
+
+  return createPortal(
+    <div className="trip-booklet fixed inset-0 z-50 overflow-y-auto bg-secondary print:static print:overflow-visible print:bg-white">
+      <div className="sticky top-0 z-10 flex items-center justify-between border-b border-border bg-background/95 px-4 py-2 backdrop-blur print:hidden">
+        <p className="text-sm font-body font-semibold text-foreground">Trip booklet</p>
+        <div className="flex items-center gap-2">
+          <Button size="sm" onClick={handlePrint} className="font-body text-xs gap-1 bg-accent text-accent-foreground hover:bg-accent/90">
+            <Printer className="w-3.5 h-3.5" /> Print / Save as PDF
+          </Button>
+          <Button variant="ghost" size="sm" onClick={onClose} className="font-body text-xs gap-1">
+            <X className="w-3.5 h-3.5" /> Close
+          </Button>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-[820px] space-y-6 py-6 print:max-w-none print:space-y-0 print:py-0">
+        {/* Cover */}
+        <section className="break-after-page overflow-hidden rounded-2xl bg-white shadow-sm print:rounded-none print:shadow-none">
+          <CityImage city={tripConfig.to} size="1200x800" alt={tripConfig.to} className="h-[420px] w-full print:h-[55vh]" />
+          <div className="space-y-2 p-8">
+            <p className="text-xs font-body font-semibold uppercase tracking-widest text-accent">Roamly trip booklet</p>
+            <h1 className="font-display text-4xl text-primary">{tripConfig.to}</h1>
+            {tripConfig.from && tripConfig.from !== tripConfig.to && (
+              <p className="text-sm font-body text-muted-foreground">From {tripConfig.from}</p>
+            )}
+            <p className="text-sm font-body text-foreground">
+              {dates} · {itinerary.length} {itinerary.length === 1 ? "day" : "days"} · {stopCount} stops · {tripConfig.mode} · {tripConfig.budget}
+            </p>
+            {budget && (
+              <p className="text-sm font-body text-foreground">
+                Estimated spend: {formatBudgetAmount(budget.total, budget.currency)}
+              </p>
+            )}
+          </div>
+        </section>
+
+        {/* Destination overview and stays */}
+        <section className="break-after-page space-y-6 rounded-2xl bg-white p-8 shadow-sm print:rounded-none print:shadow-none">
+          <h2 className="font-display text-2xl text-primary">About {tripConfig.to}</h2>
+          {overviewLoading ? (
+            <p className="text-sm font-body text-muted-foreground print:hidden">Loading destination overview...</p>
+          ) : overview ? (
+            <div className="space-y-4">
+              {overview.description && <p className="text-sm font-body leading-relaxed text-foreground">{overview.description}</p>}
+              <div className="grid grid-cols-2 gap-4">
+                <OverviewFact label="Language" value={overview.language} />
+                <OverviewFact label="Currency" value={overview.currency} />
+                <OverviewFact label="Best time to visit" value={overview.bestTimeToVisit} />
+                <OverviewFact label="Known for" value={overview.knownFor?.join(", ")} />
+              </div>
+              <OverviewFact label="Safety tips" value={overview.safetyTips} />
+            </div>
+          ) : (
+            <p className="text-sm font-body text-muted-foreground">No destination overview available.</p>
+          )}
+
+          {stays.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="font-display text-lg text-primary">Where you're staying</h3>
+              {stays.map((stay) => (
+                <div key={stay.id} className="break-inside-avoid rounded-xl border border-border p-3">
+                  <div className="flex items-baseline justify-between gap-3">
+                    <p className="text-sm font-body font-semibold text-foreground">{stay.name}</p>
+                    <p className="text-xs font-body text-muted-foreground">{stay.nightlyPrice}/night</p>
+                  </div>
+                  <p className="text-xs font-body text-muted-foreground">
+                    {[stay.type, stay.neighborhood].filter(Boolean).join(" · ")}
+                  </p>
+                  {stay.address && <p className="text-xs font-body text-foreground">{stay.address}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        {/* One page per day */}
+        {itinerary.map((day) => {
+          const mapUrl = token ? buildDayStaticMapUrl(day, tripConfig, token, { width: 760, height: 340 }) : null;
+          const date = dayDate(tripConfig, day.day);
+          return (
+            <section
+              key={day.day}
+              className="break-after-page space-y-4 rounded-2xl bg-white p-8 shadow-sm last:break-after-auto print:rounded-none print:shadow-none"
+            >
+              <div className="flex items-baseline justify-between gap-3 border-b-2 pb-2" style={{ borderColor: day.color }}>
+                <h2 className="font-display text-2xl text-primary">Day {day.day}: {day.title}</h2>
+                {date && <p className="text-xs font-body text-muted-foreground">{date}</p>}
+              </div>
+              {day.subtitle && <p className="text-sm font-body text-muted-foreground">{day.subtitle}</p>}
+              {mapUrl && (
+                <img src={mapUrl} alt={`Map of day ${day.day}`} className="w-full rounded-xl border border-border" />
+              )}
+              <table className="w-full text-left text-xs font-body">
+                <thead>
+                  <tr className="border-b border-border text-[10px] uppercase tracking-wider text-muted-foreground">
+                    <th className="w-6 py-1.5">#</th>
+                    <th className="w-20 py-1.5">Time</th>
+                    <th className="py-1.5">Stop</th>
+                    <th className="w-28 py-1.5">Hours</th>
+                    <th className="w-20 py-1.5 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {day.stops.map((stop, index) => (
+                    <tr key={stop.id} className="break-inside-avoid border-b border-border/60 align-top">
+                      <td className="py-2 font-semibold" style={{ color: day.color }}>{index + 1}</td>
+                      <td className="py-2 text-foreground">{stop.time}</td>
+                      <td className="py-2 pr-3">
+                        {stop.transport && (
+                          <p className="text-[10px] font-semibold" style={{ color: day.color }}>
+                            {summarizeTransportLeg(stop.transport)}
+                            {stop.transport.bookingRef ? ` · Ref ${stop.transport.bookingRef}` : ""}
+                            {stop.transport.cost ? ` · ${stop.transport.cost}` : ""}
+                          </p>
+                        )}
+                        <p className="font-semibold text-foreground">{stop.name}</p>
+                        {stop.description && <p className="text-muted-foreground">{stop.description}</p>}
+                        <p className="text-[10px] text-muted-foreground">
+                          {stop.address || `${stop.lat.toFixed(5)}, ${stop.lng.toFixed(5)}`}
+                          {stop.driveFromPrev ? ` · ${stop.driveFromPrev} from previous stop` : ""}
+                        </p>
+                      </td>
+                      <td className="py-2 text-muted-foreground">{stop.hours}</td>
+                      <td className="py-2 text-right text-foreground">{stop.cost}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs font-body text-muted-foreground">
+                {day.totalDriving ? `Travel: ${day.totalDriving} · ` : ""}Estimated cost: {day.estimatedCost}
+              </p>
+            </section>
+          );
+        })}
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -1,10 +1,13 @@
-import { useEffect, useMemo, useRef, useState } from "react";
+import { Fragment, useEffect, useMemo, useRef, useState } from "react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
 import { AnimatePresence, motion } from "framer-motion";
 import { ChevronLeft, ChevronRight, CloudSun, Sparkles, ThermometerSun } from "lucide-react";
 import { type DayPlan } from "@/data/demoTrip";
 import { getMapboxToken, MAPBOX_STYLES } from "@/lib/mapbox";
+import { routeSignature } from "@/lib/routing";
+import { legForDay, shortCityName, type LegSegment } from "@/lib/trip-legs";
+import { arcCoordinates } from "@/lib/transport-legs";
 import { fetchCityInsights, normalizeDestinationLabel, type CityInsightData } from "@/lib/city-intel";
 import { MapLayerSwitcher } from "@/components/MapLayerSwitcher";
 import { useIsMobile } from "@/hooks/use-mobile";
@@ -22,6 +25,8 @@ interface TripMapProps {
   onZoomComplete?: () => void;
   previewPin?: { name: string; lat: number; lng: number } | null;
   destination?: string;
+  /** Multi-city trips: connectors between cities are drawn as transfers and the legend groups days by city. */
+  legs?: LegSegment[];
   startDate?: string;
   endDate?: string;
 }
@@ -56,6 +61,28 @@ function getDayColor(day: DayPlan, fallbackIndex: number): string {
   return day.color || DAY_COLORS[fallbackIndex % DAY_COLORS.length];
 }
 
+function hasFreshRoute(day: DayPlan): boolean {
+  return Boolean(day.route && day.route.coordinates.length > 1 && day.route.signature === routeSignature(day, day.route.profile));
+}
+
+/** How a line joins two stops: "transfer" links the cities of a multi-city trip, "transport" is a flight, train or other transport leg. */
+type RouteLink = "local" | "transfer" | "transport";
+
+type RouteFeature = GeoJSON.Feature<GeoJSON.LineString, { color: string; routed: boolean; link: RouteLink }>;
+
+function lineFeature(
+  coordinates: [number, number][],
+  color: string,
+  routed: boolean,
+  link: RouteLink = "local",
+): RouteFeature {
+  return {
+    type: "Feature",
+    properties: { color, routed, link },
+    geometry: { type: "LineString", coordinates },
+  };
+}
+
 function ensureTerrainSource(map: mapboxgl.Map) {
   if (map.getSource(TERRAIN_SOURCE_ID)) return;
   map.addSource(TERRAIN_SOURCE_ID, {
@@ -146,6 +173,7 @@ export function TripMap({
   onZoomComplete,
   previewPin,
   destination,
+  legs = [],
   startDate,
   endDate,
 }: TripMapProps) {
@@ -321,12 +349,49 @@ export function TripMap({
     // Remove old route layer/source
     if (map.getLayer("route-line")) map.removeLayer("route-line");
     if (map.getLayer("route-line-dashed")) map.removeLayer("route-line-dashed");
+    if (map.getLayer("route-line-transfer")) map.removeLayer("route-line-transfer");
+    if (map.getLayer("route-line-transport")) map.removeLayer("route-line-transport");
     if (map.getSource("route")) map.removeSource("route");
 
     const coords: [number, number][] = [];
+    const routeFeatures: RouteFeature[] = [];
+    let previousDayEnd: [number, number] | null = null;
+    let previousLeg: LegSegment | null = null;
 
     daysToRender.forEach((day, dayIdx) => {
       const color = getDayColor(day, dayIdx);
+      const leg = legForDay(legs, day.day);
+      const dayCoords: [number, number][] = day.stops.map((stop) => [stop.lng, stop.lat]);
+      if (previousDayEnd && dayCoords.length > 0) {
+        if (day.stops[0].transport) {
+          routeFeatures.push(lineFeature(arcCoordinates(previousDayEnd, dayCoords[0]), color, false, "transport"));
+        } else {
+          const transfer = Boolean(leg && previousLeg && leg.index !== previousLeg.index);
+          routeFeatures.push(lineFeature([previousDayEnd, dayCoords[0]], color, false, transfer ? "transfer" : "local"));
+        }
+      }
+      if (dayCoords.length > 1 && day.stops.some((stop, idx) => idx > 0 && stop.transport)) {
+        // Transport legs break the day into stretches that are drawn on either side of an arc.
+        let stretch: [number, number][] = [dayCoords[0]];
+        dayCoords.slice(1).forEach((point, idx) => {
+          if (!day.stops[idx + 1].transport) {
+            stretch.push(point);
+            return;
+          }
+          if (stretch.length > 1) routeFeatures.push(lineFeature(stretch, color, false));
+          routeFeatures.push(lineFeature(arcCoordinates(dayCoords[idx], point), color, false, "transport"));
+          stretch = [point];
+        });
+        if (stretch.length > 1) routeFeatures.push(lineFeature(stretch, color, false));
+      } else if (dayCoords.length > 1) {
+        const routed = hasFreshRoute(day);
+        routeFeatures.push(lineFeature(routed ? day.route!.coordinates : dayCoords, color, routed));
+      }
+      if (dayCoords.length > 0) {
+        previousDayEnd = dayCoords[dayCoords.length - 1];
+        previousLeg = leg;
+      }
+
       day.stops.forEach((stop) => {
         coords.push([stop.lng, stop.lat]);
 
@@ -377,21 +442,31 @@ export function TripMap({
       });
     });
 
-    // Route polyline
-    if (coords.length > 1) {
+    // Route polylines: routed days follow the road network, the rest fall back to straight dashed segments
+    if (routeFeatures.length > 0) {
       map.addSource("route", {
         type: "geojson",
-        data: {
-          type: "Feature",
-          properties: {},
-          geometry: { type: "LineString", coordinates: coords },
-        },
+        data: { type: "FeatureCollection", features: routeFeatures },
       });
 
       map.addLayer({
         id: "route-line",
         type: "line",
         source: "route",
+        filter: ["==", ["get", "routed"], true],
+        layout: { "line-join": "round", "line-cap": "round" },
+        paint: {
+          "line-color": ["get", "color"],
+          "line-width": 4,
+          "line-opacity": 0.75,
+        },
+      });
+
+      map.addLayer({
+        id: "route-line-dashed",
+        type: "line",
+        source: "route",
+        filter: ["all", ["==", ["get", "routed"], false], ["==", ["get", "link"], "local"]],
         layout: { "line-join": "round", "line-cap": "round" },
         paint: {
           "line-color": "#1B4332",
@@ -400,6 +475,36 @@ export function TripMap({
           "line-dasharray": [2, 2],
         },
       });
+
+      // Moves between the cities of a multi-city trip
+      map.addLayer({
+        id: "route-line-transfer",
+        type: "line",
+        source: "route",
+        filter: ["==", ["get", "link"], "transfer"],
+        layout: { "line-join": "round", "line-cap": "round" },
+        paint: {
+          "line-color": "#F4A261",
+          "line-width": 3.5,
+          "line-opacity": 0.85,
+          "line-dasharray": [0.5, 2],
+        },
+      });
+
+      // Flights, trains and other transport legs, drawn as arcs
+      map.addLayer({
+        id: "route-line-transport",
+        type: "line",
+        source: "route",
+        filter: ["==", ["get", "link"], "transport"],
+        layout: { "line-join": "round", "line-cap": "round" },
+        paint: {
+          "line-color": ["get", "color"],
+          "line-width": 3,
+          "line-opacity": 0.9,
+          "line-dasharray": [3, 1.5],
+        },
+      });
     }
 
     // Fit bounds only on initial load
@@ -572,20 +677,29 @@ export function TripMap({
             >
               All pins
             </button>
-            {itinerary.map((day, i) => (
-              <button
-                key={day.day}
-                onClick={() => onFocusDay?.(day.day)}
-                className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-[11px] font-body font-semibold transition-colors ${
-                  focusedDay === day.day
-                    ? "bg-primary text-primary-foreground border-primary"
-                    : "bg-card text-foreground border-border hover:bg-secondary"
-                }`}
-              >
-                <span className="w-2 h-2 rounded-full" style={{ background: getDayColor(day, i) }} />
-                Day {day.day}
-              </button>
-            ))}
+            {itinerary.map((day, i) => {
+              const leg = legForDay(legs, day.day);
+              return (
+                <Fragment key={day.day}>
+                  {leg && leg.startDay === day.day && (
+                    <span className="basis-full pt-1 text-[10px] font-body font-semibold text-muted-foreground">
+                      {shortCityName(leg.city)}
+                    </span>
+                  )}
+                  <button
+                    onClick={() => onFocusDay?.(day.day)}
+                    className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-[11px] font-body font-semibold transition-colors ${
+                      focusedDay === day.day
+                        ? "bg-primary text-primary-foreground border-primary"
+                        : "bg-card text-foreground border-border hover:bg-secondary"
+                    }`}
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ background: getDayColor(day, i) }} />
+                    Day {day.day}
+                  </button>
+                </Fragment>
+              );
+            })}
           </div>
           <p className="text-[10px] font-body text-muted-foreground mt-2">
             {focusedDay !== null ? `Showing pins for Day ${focusedDay}` : "Showing pins for all days"}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Copy, Loader2, UserMinus } from "lucide-react";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { TRIP_ROLE_LABELS, tripInviteLink, useTripMembers, type TripMember, type TripRole } from "@/hooks/useTripMembers";
+
+type InviteRole = Exclude<TripRole, "owner">;
+
+interface TripMembersPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tripId: string;
+  role: TripRole | null;
+}
+
+export function TripMembersPanel({ open, onOpenChange, tripId, role }: TripMembersPanelProps) {
+  const { user } = useAuth();
+  const { members, isLoading, invite, updateRole, remove } = useTripMembers(open ? tripId : undefined);
+  const [email, setEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<InviteRole>("editor");
+  const [isInviting, setIsInviting] = useState(false);
+  const isOwner = role === "owner";
+
+  // Invitations are not emailed; the owner passes the link on themselves.
+  const copyInviteLink = async (member: TripMember) => {
+    try {
+      await navigator.clipboard.writeText(tripInviteLink(member.invite_token));
+      toast.success(`Invite link for ${member.email} copied — send it to them to join`);
+    } catch {
+      toast.error("Couldn't copy the invite link");
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    setIsInviting(true);
+    const member = await invite(email, inviteRole);
+    setIsInviting(false);
+    if (!member) return;
+    setEmail("");
+    await copyInviteLink(member);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="font-display text-xl text-primary">Trip members</DialogTitle>
+          <DialogDescription className="font-body text-sm text-muted-foreground">
+            {isOwner
+              ? "Invite people to plan this trip with you. Roamly doesn't email invitations — copy each invite link and send it yourself."
+              : "People who can see or edit this trip."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="friend@example.com"
+              required
+              className="font-body flex-1"
+            />
+            <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as InviteRole)}>
+              <SelectTrigger className="w-[120px] font-body">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="editor" className="font-body">{TRIP_ROLE_LABELS.editor}</SelectItem>
+                <SelectItem value="viewer" className="font-body">{TRIP_ROLE_LABELS.viewer}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button type="submit" disabled={isInviting} className="font-body bg-accent text-accent-foreground hover:bg-accent/90">
+              {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : "Create link"}
+            </Button>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-border/60">
+            {members.map((member) => {
+              const isSelf = member.user_id === user?.id;
+              const isPending = member.status === "pending";
+              return (
+                <li key={member.id} className="flex items-center gap-3 py-2.5">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-body font-medium text-foreground truncate">
+                      {member.email}
+                      {isSelf && <span className="text-muted-foreground"> (you)</span>}
+                    </p>
+                    <p className="text-[11px] font-body text-muted-foreground">
+                      {isPending ? "Invitation pending" : TRIP_ROLE_LABELS[member.role]}
+                    </p>
+                  </div>
+
+                  {isOwner && isPending && (
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => copyInviteLink(member)} title="Copy invite link">
+                      <Copy className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+
+                  {isOwner && member.role !== "owner" ? (
+                    <Select value={member.role} onValueChange={(value) => updateRole(member.id, value as InviteRole)}>
+                      <SelectTrigger className="h-8 w-[110px] text-xs font-body">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="editor" className="font-body">{TRIP_ROLE_LABELS.editor}</SelectItem>
+                        <SelectItem value="viewer" className="font-body">{TRIP_ROLE_LABELS.viewer}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    !isPending && (
+                      <span className="text-[11px] font-body font-semibold text-muted-foreground">{TRIP_ROLE_LABELS[member.role]}</span>
+                    )
+                  )}
+
+                  {member.role !== "owner" && (isOwner || isSelf) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      onClick={() => remove(member.id)}
+                      title={isSelf ? "Leave trip" : "Remove member"}
+                    >
+                      <UserMinus className="w-3.5 h-3.5" />
+                    </Button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,173 @@
+import { useMemo, useState } from "react";
+import { formatDistanceToNow, parseISO } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import type { DayPlan } from "@/data/demoTrip";
+import { normalizeItinerary } from "@/lib/itinerary-fields";
+import { describeItineraryChanges, type DayChangeSummary } from "@/lib/itinerary-diff";
+import { VERSION_SOURCE_LABELS, useTripVersions, type TripVersion, type TripVersionSource } from "@/hooks/useTripVersions";
+
+interface VersionHistoryPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tripId: string;
+  currentItinerary: DayPlan[] | null;
+  canEdit: boolean;
+  onRestore: (itinerary: DayPlan[], version: TripVersion) => void;
+  onRestoreDay: (itinerary: DayPlan[], dayNumber: number, version: TripVersion) => void;
+}
+
+function DayChangeList({ day }: { day: DayChangeSummary }) {
+  const lines = [
+    ...day.added.map((name) => `+ ${name}`),
+    ...day.removed.map((name) => `− ${name}`),
+    ...day.movedIn.map((name) => `→ ${name}`),
+    ...day.reordered.map((name) => `↕ ${name} reordered`),
+    ...day.timeChanges.map((change) => `⏱ ${change.name}: ${change.from} → ${change.to}`),
+  ];
+  return (
+    <ul className="space-y-0.5">
+      {lines.map((line) => (
+        <li key={line} className="text-[11px] font-body text-muted-foreground">{line}</li>
+      ))}
+    </ul>
+  );
+}
+
+export function VersionHistoryPanel({
+  open,
+  onOpenChange,
+  tripId,
+  currentItinerary,
+  canEdit,
+  onRestore,
+  onRestoreDay,
+}: VersionHistoryPanelProps) {
+  const { versions, isLoading } = useTripVersions(tripId, open);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareTo, setCompareTo] = useState<"current" | "previous">("current");
+
+  const selectedIndex = versions.findIndex((version) => version.id === selectedId);
+  const selected = selectedIndex >= 0 ? versions[selectedIndex] : null;
+  const selectedItinerary = useMemo(() => (selected ? normalizeItinerary(selected.itinerary) : null), [selected]);
+
+  const changes = useMemo(() => {
+    if (!selectedItinerary) return null;
+    if (compareTo === "current") {
+      // Read as "what restoring this version would change".
+      return currentItinerary ? describeItineraryChanges(currentItinerary, selectedItinerary) : null;
+    }
+    const previous = versions[selectedIndex + 1];
+    return previous ? describeItineraryChanges(normalizeItinerary(previous.itinerary), selectedItinerary) : null;
+  }, [compareTo, currentItinerary, selectedIndex, selectedItinerary, versions]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-display text-xl text-primary flex items-center gap-2">
+            <History className="w-5 h-5" /> Version history
+          </SheetTitle>
+          <SheetDescription className="font-body text-sm">
+            Every save and AI adjustment is kept here. Restore a whole version or bring back a single day.
+          </SheetDescription>
+        </SheetHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="py-10 text-center text-sm font-body text-muted-foreground">No versions yet. Save the trip to start its history.</p>
+        ) : (
+          <ul className="mt-4 space-y-2">
+            {versions.map((version) => {
+              const isSelected = version.id === selectedId;
+              return (
+                <li key={version.id} className={`rounded-xl border transition-colors ${isSelected ? "border-accent/60 bg-accent/5" : "border-border/60"}`}>
+                  <button
+                    type="button"
+                    onClick={() => setSelectedId(isSelected ? null : version.id)}
+                    className="w-full text-left px-3 py-2.5"
+                  >
+                    <p className="text-sm font-body font-semibold text-foreground">
+                      {VERSION_SOURCE_LABELS[version.source as TripVersionSource] ?? version.source}
+                      <span className="font-normal text-muted-foreground"> · {version.author_name || "Someone"}</span>
+                    </p>
+                    <p className="text-[11px] font-body text-muted-foreground">
+                      {formatDistanceToNow(parseISO(version.created_at), { addSuffix: true })}
+                    </p>
+                    {version.prompt && (
+                      <p className="mt-1 text-xs font-body italic text-muted-foreground line-clamp-2">“{version.prompt}”</p>
+                    )}
+                  </button>
+
+                  {isSelected && selectedItinerary && (
+                    <div className="px-3 pb-3 space-y-3 border-t border-border/40 pt-2.5">
+                      <div className="inline-flex rounded-lg border border-border/60 p-0.5 text-[11px] font-body">
+                        {(["current", "previous"] as const).map((option) => (
+                          <button
+                            key={option}
+                            type="button"
+                            onClick={() => setCompareTo(option)}
+                            className={`rounded-md px-2 py-0.5 ${compareTo === option ? "bg-primary text-primary-foreground" : "text-muted-foreground"}`}
+                          >
+                            {option === "current" ? "vs current plan" : "vs previous version"}
+                          </button>
+                        ))}
+                      </div>
+
+                      {!changes ? (
+                        <p className="text-[11px] font-body text-muted-foreground">Nothing to compare against.</p>
+                      ) : changes.totalChanges === 0 ? (
+                        <p className="text-[11px] font-body text-muted-foreground">No differences.</p>
+                      ) : (
+                        <div className="space-y-2">
+                          {changes.addedDays.length > 0 && (
+                            <p className="text-[11px] font-body text-muted-foreground">+ Day {changes.addedDays.join(", ")}</p>
+                          )}
+                          {changes.removedDays.length > 0 && (
+                            <p className="text-[11px] font-body text-muted-foreground">− Day {changes.removedDays.join(", ")}</p>
+                          )}
+                          {changes.days.map((day) => (
+                            <div key={day.day} className="flex items-start justify-between gap-2">
+                              <div className="min-w-0">
+                                <p className="text-xs font-body font-semibold text-foreground">Day {day.day} — {day.title}</p>
+                                <DayChangeList day={day} />
+                              </div>
+                              {canEdit && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-7 shrink-0 text-[11px] font-body"
+                                  onClick={() => onRestoreDay(selectedItinerary, day.day, version)}
+                                >
+                                  Use this day
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
+                      {canEdit && (
+                        <Button
+                          size="sm"
+                          onClick={() => onRestore(selectedItinerary, version)}
+                          className="w-full font-body gap-1.5 bg-accent text-accent-foreground hover:bg-accent/90"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" /> Restore this version
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
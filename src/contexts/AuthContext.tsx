@@ -2,6 +2,8 @@ import { createContext, useEffect, useState, useCallback, type ReactNode } from
 import type { User, AuthChangeEvent, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { clearOfflineTrips } from "@/lib/offline-trips";
+import { clearServiceWorkerTripCache } from "@/lib/service-worker";
 
 type Profile = Tables<"profiles">;
 
@@ -62,6 +64,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const signOut = useCallback(async () => {
     await supabase.auth.signOut();
+    // Local trip copies and cached trip reads belong to the account that just left.
+    await clearOfflineTrips();
+    clearServiceWorkerTripCache();
     setUser(null);
     setProfile(null);
     setIsAdmin(false);
@@ -1,3 +1,42 @@
+export interface MoneyRange {
+  min: number;
+  max: number;
+  currency: string;
+}
+
+export interface OpeningPeriod {
+  /** 0 = Sunday … 6 = Saturday */
+  day: number;
+  /** Minutes since midnight. */
+  open: number;
+  /** Minutes since midnight; may exceed 1440 when a venue closes after midnight. */
+  close: number;
+}
+
+export interface OpeningHours {
+  alwaysOpen: boolean;
+  periods: OpeningPeriod[];
+}
+
+export const TRANSPORT_MODES = ["flight", "train", "bus", "ferry", "drive"] as const;
+
+export type TransportMode = (typeof TRANSPORT_MODES)[number];
+
+/** A journey between places that is more than a local hop, e.g. a flight or an intercity train. */
+export interface TransportLeg {
+  mode: TransportMode;
+  carrier?: string;
+  departurePlace: string;
+  arrivalPlace: string;
+  /** Minutes since midnight on the day of the stop it leads to. */
+  departureMinutes?: number | null;
+  /** Minutes since midnight; may exceed 1440 for overnight journeys. */
+  arrivalMinutes?: number | null;
+  bookingRef?: string;
+  cost?: string;
+  costRange?: MoneyRange | null;
+}
+
 export interface Stop {
   id: string;
   time: string;
@@ -6,10 +45,30 @@ export interface Stop {
   hours: string;
   cost: string;
   driveFromPrev?: string;
+  address?: string;
   lat: number;
   lng: number;
   imageUrl?: string;
   tags: string[];
+  // Structured values parsed from (and kept in sync with) the display strings above.
+  startMinutes?: number | null;
+  costRange?: MoneyRange | null;
+  driveMinutes?: number | null;
+  openingHours?: OpeningHours | null;
+  distanceFromPrevMeters?: number | null;
+  /** The journey that gets you to this stop, when it is a flight, train or other booked leg. */
+  transport?: TransportLeg | null;
+}
+
+export type RoutingProfile = "driving" | "walking" | "transit";
+
+export interface DayRoute {
+  profile: RoutingProfile;
+  provider: string;
+  /** Stop coordinates the geometry was computed for; a mismatch means the route is stale. */
+  signature: string;
+  coordinates: [number, number][];
+  distanceMeters: number;
 }
 
 export interface DayPlan {
@@ -20,6 +79,53 @@ export interface DayPlan {
   stops: Stop[];
   estimatedCost: string;
   color: string;
+  totalDrivingMinutes?: number | null;
+  estimatedCostRange?: MoneyRange | null;
+  route?: DayRoute | null;
+}
+
+export interface StayOption {
+  id: string;
+  name: string;
+  type: string;
+  neighborhood: string;
+  address: string;
+  nightlyPrice: string;
+  style: string;
+  why: string;
+  bestFor: string;
+  lat: number;
+  lng: number;
+  /** Multi-city trips: the leg city this stay was recommended for. */
+  city?: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  sender: "bot" | "user";
+  content: string;
+  type: "text" | "interests" | "pace" | "loading" | "itinerary" | "actions" | "stay-intent" | "stay-budget" | "adjustment";
+}
+
+/** Planner state that lives beside the itinerary and is restored when a trip is reopened. */
+export interface TripSession {
+  selectedStays: StayOption[];
+  stayBudgetVibe: string;
+  /** Plain text exchanges only; interactive pickers are rebuilt by the chat. */
+  chatHistory: ChatMessage[];
+}
+
+/** Credit kept on a trip that was duplicated from someone else's share link. */
+export interface TripOrigin {
+  sourceTripId: string | null;
+  shareSlug: string | null;
+  authorName: string | null;
+}
+
+/** One city of a multi-city trip and how many nights are spent there. */
+export interface TripLeg {
+  city: string;
+  nights: number;
 }
 
 export interface TripConfig {
@@ -30,6 +136,8 @@ export interface TripConfig {
   mode: string;
   startDate?: string;
   endDate?: string;
+  /** Multi-city trips only: the cities in travel order. `to` is the last of them. */
+  legs?: TripLeg[];
 }
 
 export const INTEREST_OPTIONS = [
@@ -0,0 +1,86 @@
+import { useEffect, useRef, useState } from "react";
+import type { DayPlan } from "@/data/demoTrip";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import {
+  applyRouteToDay,
+  getRoutingProvider,
+  hasCurrentRoute,
+  routeDay,
+  routeSignature,
+  routingProfileForMode,
+  routingRetryDelayMs,
+} from "@/lib/routing";
+
+interface RoutingFailure {
+  attempts: number;
+  retryAt: number;
+}
+
+/**
+ * Routes every day whose stops changed since it was last routed and writes the
+ * geometry and leg durations back through `onRouted`, which should apply them
+ * outside the user's edit history. Failed days are retried with a growing
+ * backoff, and straight away when the browser comes back online.
+ */
+export function useItineraryRouting(
+  itinerary: DayPlan[] | null,
+  mode: string,
+  onRouted: (updater: (prev: DayPlan[]) => DayPlan[]) => void,
+) {
+  const profile = routingProfileForMode(mode);
+  const isOnline = useOnlineStatus();
+  const inFlightRef = useRef(new Set<string>());
+  const failedRef = useRef(new Map<string, RoutingFailure>());
+  const retryTimersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+  const [retryTick, setRetryTick] = useState(0);
+
+  useEffect(() => {
+    if (isOnline) failedRef.current.clear();
+  }, [isOnline]);
+
+  useEffect(() => {
+    const timers = retryTimersRef.current;
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!itinerary || !isOnline) return;
+    const provider = getRoutingProvider();
+
+    itinerary.forEach((day) => {
+      if (day.stops.length < 2 || hasCurrentRoute(day, profile)) return;
+      const signature = routeSignature(day, profile);
+      const failure = failedRef.current.get(signature);
+      if (inFlightRef.current.has(signature) || (failure && failure.retryAt > Date.now())) return;
+
+      inFlightRef.current.add(signature);
+      routeDay(day, profile, provider)
+        .then((route) => {
+          failedRef.current.delete(signature);
+          if (!route) return;
+          onRouted((prev) => prev.map((current) => (
+            current.day === day.day && routeSignature(current, profile) === signature
+              ? applyRouteToDay(current, route, profile, provider.id)
+              : current
+          )));
+        })
+        .catch((err: unknown) => {
+          const attempts = (failedRef.current.get(signature)?.attempts ?? 0) + 1;
+          const delay = routingRetryDelayMs(attempts);
+          failedRef.current.set(signature, { attempts, retryAt: Date.now() + delay });
+          const timer = setTimeout(() => {
+            retryTimersRef.current.delete(timer);
+            setRetryTick((tick) => tick + 1);
+          }, delay);
+          retryTimersRef.current.add(timer);
+          console.error(`[routing] Day ${day.day} could not be routed:`, err);
+        })
+        .finally(() => {
+          inFlightRef.current.delete(signature);
+        });
+    });
+  }, [itinerary, onRouted, profile, isOnline, retryTick]);
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from "react";
+import type { DayPlan } from "@/data/demoTrip";
+import type { TripRealtime } from "@/hooks/useTripRealtime";
+import {
+  applyItineraryOps,
+  diffItinerary,
+  resolveMoveConflicts,
+  type ItineraryOp,
+  type OpStamp,
+} from "@/lib/itinerary-ops";
+
+/**
+ * Keeps a local itinerary in step with collaborators. Local changes are diffed
+ * against a shadow copy of the last synced state and broadcast as ops; remote
+ * ops are applied to both the shadow and the live itinerary so they are not
+ * echoed back.
+ */
+export function useItinerarySync(
+  realtime: TripRealtime | null | undefined,
+  itinerary: DayPlan[] | null,
+  applyRemote: (ops: ItineraryOp[]) => void,
+  options: { canBroadcast: boolean; normalize: (days: DayPlan[]) => DayPlan[] },
+) {
+  const { canBroadcast, normalize } = options;
+  const shadowRef = useRef<DayPlan[] | null>(itinerary);
+  const clockRef = useRef(0);
+  const moveStampsRef = useRef(new Map<string, OpStamp>());
+
+  useEffect(() => {
+    const shadow = shadowRef.current;
+    shadowRef.current = itinerary;
+    if (!realtime || !canBroadcast || !shadow || !itinerary) return;
+
+    const ops = diffItinerary(shadow, itinerary);
+    if (ops.length === 0) return;
+
+    clockRef.current += 1;
+    const stamp: OpStamp = { clock: clockRef.current, clientId: realtime.clientId };
+    ops.forEach((op) => {
+      if (op.type === "move-stop") moveStampsRef.current.set(op.stopId, stamp);
+    });
+    realtime.sendPatch({ id: crypto.randomUUID(), ...stamp, ops });
+  }, [canBroadcast, itinerary, realtime]);
+
+  useEffect(() => {
+    if (!realtime) return;
+    return realtime.onPatch((patch) => {
+      clockRef.current = Math.max(clockRef.current, patch.clock) + 1;
+      const ops = resolveMoveConflicts(patch.ops, patch, moveStampsRef.current);
+      if (ops.length === 0) return;
+
+      if (shadowRef.current) shadowRef.current = normalize(applyItineraryOps(shadowRef.current, ops));
+      applyRemote(ops);
+    });
+  }, [applyRemote, normalize, realtime]);
+}
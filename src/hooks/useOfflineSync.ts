@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  deleteLocalTrip,
+  deleteTripMutation,
+  listTripMutations,
+  localTripKey,
+  patchLocalTrip,
+  pruneLocalDrafts,
+  putTripMutation,
+} from "@/lib/offline-trips";
+import { replayTripMutations, supabaseTripRemote, type TripMutation } from "@/lib/trip-sync-queue";
+
+/**
+ * Replays trip saves queued while offline whenever the browser comes back online.
+ * Saves that collide with a newer edit made elsewhere wait for the user to choose.
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const flushingRef = useRef(false);
+  const shownConflictsRef = useRef(new Set<number>());
+  const flushRef = useRef<() => Promise<void>>(async () => {});
+
+  const resolveConflict = useCallback(
+    async (mutation: TripMutation, keepMine: boolean) => {
+      shownConflictsRef.current.delete(mutation.id ?? -1);
+      if (keepMine) {
+        const { conflict, ...rest } = mutation;
+        await putTripMutation({ ...rest, baseUpdatedAt: conflict?.remoteUpdatedAt ?? rest.baseUpdatedAt });
+        await flushRef.current();
+        return;
+      }
+      await deleteTripMutation(mutation.id);
+      await deleteLocalTrip(localTripKey(mutation.tripId));
+      queryClient.invalidateQueries({ queryKey: ["trips"] });
+      toast.success(`Dropped your offline edits to "${mutation.title}"`);
+    },
+    [queryClient],
+  );
+
+  const showConflict = useCallback(
+    (mutation: TripMutation) => {
+      if (mutation.id === undefined || shownConflictsRef.current.has(mutation.id)) return;
+      shownConflictsRef.current.add(mutation.id);
+      toast.error(`"${mutation.title}" was changed elsewhere while you were offline`, {
+        description: "Keep your offline edits, or drop them and use the latest saved version.",
+        duration: Infinity,
+        action: { label: "Keep mine", onClick: () => void resolveConflict(mutation, true) },
+        cancel: { label: "Use theirs", onClick: () => void resolveConflict(mutation, false) },
+      });
+    },
+    [resolveConflict],
+  );
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current || !navigator.onLine) return;
+    flushingRef.current = true;
+    try {
+      const queued = await listTripMutations();
+      queued.filter((mutation) => mutation.conflict).forEach(showConflict);
+
+      const outcome = await replayTripMutations(queued, supabaseTripRemote);
+      for (const { mutation, updatedAt } of outcome.synced) {
+        await deleteTripMutation(mutation.id);
+        await patchLocalTrip(localTripKey(mutation.tripId), { serverUpdatedAt: updatedAt });
+      }
+      for (const mutation of outcome.conflicts) {
+        await putTripMutation(mutation);
+        showConflict(mutation);
+      }
+      for (const mutation of outcome.rejected) {
+        await deleteTripMutation(mutation.id);
+        toast.error(`Couldn't sync "${mutation.title}": it was deleted or you can no longer edit it`);
+      }
+
+      if (outcome.synced.length > 0) {
+        const count = outcome.synced.length;
+        toast.success(`Synced ${count} ${count === 1 ? "trip" : "trips"} saved while offline`);
+        queryClient.invalidateQueries({ queryKey: ["trips"] });
+      }
+    } catch (err) {
+      console.error("Offline sync failed:", err);
+    } finally {
+      flushingRef.current = false;
+    }
+  }, [queryClient, showConflict]);
+
+  flushRef.current = flush;
+
+  useEffect(() => {
+    void pruneLocalDrafts();
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    const onOnline = () => void flush();
+    onOnline();
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [flush, user]);
+}
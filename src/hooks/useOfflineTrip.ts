@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from "react";
+import type { DayPlan, TripConfig, TripSession } from "@/data/demoTrip";
+import {
+  deleteLocalTrip,
+  getLocalTrip,
+  putLocalTrip,
+  shouldRestoreLocalTrip,
+  type LocalTrip,
+} from "@/lib/offline-trips";
+
+const PERSIST_DELAY_MS = 400;
+
+interface OfflineTripState {
+  tripConfig: TripConfig;
+  itinerary: DayPlan[] | null;
+  preferences?: { interests: string[]; pace: string; mustSees: string };
+  session: TripSession;
+}
+
+function contentOf(trip: Pick<LocalTrip, "itinerary" | "preferences" | "session">): string {
+  return JSON.stringify([trip.itinerary, trip.preferences ?? null, trip.session]);
+}
+
+/**
+ * Mirrors the workspace into IndexedDB as it changes. On mount, a local copy with
+ * edits on top of the server row being opened (or any local draft) is handed to
+ * `onRestore` instead of being overwritten.
+ */
+export function useOfflineTrip(
+  key: string,
+  tripId: string | undefined,
+  serverUpdatedAt: string | undefined,
+  state: OfflineTripState,
+  onRestore: (trip: LocalTrip) => void,
+) {
+  const [ready, setReady] = useState(false);
+  const keyRef = useRef(key);
+  // Only the trip the workspace opened with is restored.
+  const openedRef = useRef({ tripId, serverUpdatedAt });
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    let cancelled = false;
+    const opened = openedRef.current;
+    void getLocalTrip(keyRef.current).then(async (local) => {
+      if (cancelled) return;
+      if (shouldRestoreLocalTrip(local, opened.serverUpdatedAt)) {
+        onRestoreRef.current(local);
+      } else if (stateRef.current.itinerary) {
+        const { tripConfig, itinerary, preferences, session } = stateRef.current;
+        await putLocalTrip({
+          key: keyRef.current,
+          tripId: opened.tripId,
+          tripConfig,
+          itinerary,
+          preferences,
+          session,
+          savedAt: Date.now(),
+          serverUpdatedAt: opened.serverUpdatedAt ?? local?.serverUpdatedAt ?? null,
+          dirty: false,
+        });
+      }
+      setReady(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // A draft becomes `trip:<id>` on its first save; the draft copy is no longer needed.
+  useEffect(() => {
+    const previous = keyRef.current;
+    keyRef.current = key;
+    if (previous !== key && previous.startsWith("draft:")) void deleteLocalTrip(previous);
+  }, [key]);
+
+  const { itinerary, preferences, session } = state;
+  useEffect(() => {
+    if (!ready || !itinerary) return;
+    const timer = window.setTimeout(async () => {
+      const next = { itinerary, preferences, session };
+      const current = await getLocalTrip(key);
+      await putLocalTrip({
+        key,
+        tripId,
+        tripConfig: stateRef.current.tripConfig,
+        ...next,
+        savedAt: Date.now(),
+        serverUpdatedAt: current?.serverUpdatedAt ?? serverUpdatedAt ?? null,
+        dirty: !current || current.dirty || contentOf(current) !== contentOf(next),
+      });
+    }, PERSIST_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [itinerary, key, preferences, ready, serverUpdatedAt, session, tripId]);
+}
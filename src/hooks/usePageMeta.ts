@@ -0,0 +1,55 @@
+import { useEffect } from "react";
+
+interface PageMeta {
+  title: string;
+  description: string;
+  image?: string | null;
+  url?: string;
+}
+
+type MetaKey = { attribute: "name" | "property"; key: string };
+
+function metaElement({ attribute, key }: MetaKey): HTMLMetaElement {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`);
+  if (!element) {
+    element = document.createElement("meta");
+    element.setAttribute(attribute, key);
+    document.head.appendChild(element);
+  }
+  return element;
+}
+
+/**
+ * Sets the document title plus description/Open Graph/Twitter tags for the
+ * current page and puts the previous values back when it unmounts.
+ */
+export function usePageMeta({ title, description, image, url }: PageMeta) {
+  useEffect(() => {
+    const values: [MetaKey, string | null | undefined][] = [
+      [{ attribute: "name", key: "description" }, description],
+      [{ attribute: "property", key: "og:title" }, title],
+      [{ attribute: "property", key: "og:description" }, description],
+      [{ attribute: "property", key: "og:image" }, image],
+      [{ attribute: "property", key: "og:url" }, url],
+      [{ attribute: "name", key: "twitter:title" }, title],
+      [{ attribute: "name", key: "twitter:description" }, description],
+      [{ attribute: "name", key: "twitter:image" }, image],
+    ];
+    const previousTitle = document.title;
+    const restore: (() => void)[] = [];
+
+    document.title = title;
+    values.forEach(([key, value]) => {
+      if (!value) return;
+      const element = metaElement(key);
+      const previous = element.getAttribute("content");
+      element.setAttribute("content", value);
+      restore.push(() => (previous === null ? element.remove() : element.setAttribute("content", previous)));
+    });
+
+    return () => {
+      document.title = previousTitle;
+      restore.forEach((undo) => undo());
+    };
+  }, [description, image, title, url]);
+}
@@ -1,8 +1,25 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { canEditTrip, type TripRole } from "@/hooks/useTripMembers";
+import { recordTripVersion } from "@/hooks/useTripVersions";
 import { toast } from "sonner";
-import type { DayPlan, TripConfig } from "@/data/demoTrip";
+import type { Json } from "@/integrations/supabase/types";
+import type { DayPlan, TripConfig, TripOrigin, TripSession } from "@/data/demoTrip";
+import { EMPTY_TRIP_SESSION, toSavedChatHistory } from "@/lib/trip-session";
+import { enqueueTripMutation, getLocalTrip, localTripKey, patchLocalTrip, putLocalTrip } from "@/lib/offline-trips";
+import {
+  isOfflineError,
+  rememberServerVersion,
+  saveTripFields,
+  serverVersion,
+  supabaseTripRemote,
+  type TripSaveOutcome,
+  type TripUpdateFields,
+} from "@/lib/trip-sync-queue";
+import { tripRouteLabel } from "@/lib/trip-legs";
+import { withoutRouteGeometry } from "@/lib/itinerary-ops";
 
 interface Preferences {
   interests: string[];
@@ -10,37 +27,159 @@ interface Preferences {
   mustSees: string;
 }
 
-export function useSaveTrip() {
-  const { user } = useAuth();
+// Autosave runs after every pause in editing, so it only adds to version history this often.
+const AUTOSAVE_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+interface SaveTripOptions {
+  /** Background save: no success toast, and a version history entry at most every few minutes. */
+  autosave?: boolean;
+  /** Save even if the trip was saved elsewhere since this tab last did. */
+  overwrite?: boolean;
+}
+
+/**
+ * Saves trips to Supabase. `opened` is the trip row as the page loaded it; its `updated_at`
+ * is the base for this tab's first save, so edits made elsewhere since then aren't overwritten.
+ */
+export function useSaveTrip(opened?: { tripId?: string; updatedAt?: string }) {
+  const { user, profile } = useAuth();
+  const queryClient = useQueryClient();
   const [isSaving, setIsSaving] = useState(false);
+  // Set when the last save lost to a newer one; autosave holds off until the user decides.
+  const [hasConflict, setHasConflict] = useState(false);
+  const saveTripRef = useRef<typeof saveTrip>(null);
+  const lastVersionAtRef = useRef(new Map<string, number>());
+
+  const openedTripId = opened?.tripId;
+  const openedUpdatedAt = opened?.updatedAt;
+  useEffect(() => {
+    if (openedTripId && openedUpdatedAt) rememberServerVersion(openedTripId, { updatedAt: openedUpdatedAt });
+  }, [openedTripId, openedUpdatedAt]);
 
   const saveTrip = useCallback(
     async (
       tripConfig: TripConfig,
       itinerary: DayPlan[],
       preferences?: Preferences,
-      existingTripId?: string
+      existingTripId?: string,
+      role?: TripRole | null,
+      session?: TripSession,
+      origin?: TripOrigin,
+      options: SaveTripOptions = {}
     ): Promise<string | null> => {
       if (!user) return null;
+      if (existingTripId && role && !canEditTrip(role)) {
+        toast.error("You have view-only access to this trip");
+        return null;
+      }
 
       setIsSaving(true);
-      const title = `${tripConfig.from} → ${tripConfig.to}`;
+      const title = tripRouteLabel(tripConfig);
+      // Route geometry can run to thousands of points a day, so the server copy leaves it out
+      // and it is recomputed on open. The device copy keeps it for offline maps.
+      const storedItinerary = withoutRouteGeometry(itinerary);
+      const sessionFields = session
+        ? {
+            selected_stays: session.selectedStays as unknown as Json,
+            stay_budget_vibe: session.stayBudgetVibe || null,
+            chat_history: toSavedChatHistory(session.chatHistory) as unknown as Json,
+          }
+        : {};
+      const recordSave = async (tripId: string) => {
+        await recordTripVersion({
+          tripId,
+          userId: user.id,
+          authorName: profile?.display_name ?? user.email ?? null,
+          source: "save",
+          tripConfig,
+          itinerary: storedItinerary,
+        });
+        queryClient.invalidateQueries({ queryKey: ["trip-versions", tripId] });
+      };
+      // The device copy now matches the server row; later offline saves are based on it.
+      const storeLocally = (tripId: string, updatedAt: string) =>
+        putLocalTrip({
+          key: localTripKey(tripId),
+          tripId,
+          tripConfig,
+          itinerary,
+          preferences,
+          session: session ?? EMPTY_TRIP_SESSION,
+          savedAt: Date.now(),
+          serverUpdatedAt: updatedAt,
+          dirty: false,
+        });
+      const queueOfflineSave = async (tripId: string, fields: TripUpdateFields) => {
+        const local = await getLocalTrip(localTripKey(tripId));
+        await enqueueTripMutation({
+          tripId,
+          title,
+          fields,
+          baseUpdatedAt: serverVersion(tripId)?.updatedAt ?? local?.serverUpdatedAt ?? null,
+          queuedAt: Date.now(),
+        });
+        await patchLocalTrip(localTripKey(tripId), { dirty: false });
+        // Once the queued save syncs, the row holds these values; later saves from this tab build on them.
+        const known = serverVersion(tripId);
+        if (known) rememberServerVersion(tripId, { ...known, fields });
+        if (!options.autosave) toast.success("Saved on this device. It will sync when you're back online.");
+      };
+      const reportConflict = (tripId: string) => {
+        setHasConflict(true);
+        toast.error("This trip was saved somewhere else since you opened it", {
+          id: `trip-conflict-${tripId}`,
+          description: "Reload to get the latest version, or overwrite it with yours.",
+          duration: Infinity,
+          action: {
+            label: "Overwrite",
+            onClick: () => {
+              void saveTripRef.current?.(tripConfig, itinerary, preferences, tripId, role, session, origin, { overwrite: true });
+            },
+          },
+        });
+      };
 
       try {
         if (existingTripId) {
-          const { error } = await supabase
-            .from("trips")
-            .update({
-              title,
-              trip_config: tripConfig as any,
-              itinerary: itinerary as any,
-              preferences: preferences as any ?? null,
-              updated_at: new Date().toISOString(),
-            })
-            .eq("id", existingTripId);
+          const fields: TripUpdateFields = {
+            title,
+            trip_config: tripConfig as any,
+            itinerary: storedItinerary as any,
+            preferences: preferences as any ?? null,
+            ...sessionFields,
+          };
+          if (!navigator.onLine) {
+            await queueOfflineSave(existingTripId, fields);
+            return existingTripId;
+          }
 
-          if (error) throw error;
-          toast.success("Trip updated!");
+          // Only overwrite the row this tab last saw, so a stale tab can't clobber a newer save.
+          const base = options.overwrite ? null : serverVersion(existingTripId);
+          let outcome: TripSaveOutcome;
+          try {
+            outcome = await saveTripFields(supabaseTripRemote, existingTripId, fields, base);
+          } catch (err) {
+            if (!isOfflineError(err)) throw err;
+            await queueOfflineSave(existingTripId, fields);
+            return existingTripId;
+          }
+
+          if (outcome.status === "conflict") {
+            reportConflict(existingTripId);
+            return null;
+          }
+          // RLS filters out trips the user can't edit, so a silent no-op means no access.
+          if (outcome.status === "rejected") throw new Error("You don't have permission to edit this trip");
+          rememberServerVersion(existingTripId, outcome.base);
+          setHasConflict(false);
+          toast.dismiss(`trip-conflict-${existingTripId}`);
+          await storeLocally(existingTripId, outcome.base.updatedAt);
+          const lastVersionAt = lastVersionAtRef.current.get(existingTripId) ?? 0;
+          if (!options.autosave || Date.now() - lastVersionAt >= AUTOSAVE_VERSION_INTERVAL_MS) {
+            await recordSave(existingTripId);
+            lastVersionAtRef.current.set(existingTripId, Date.now());
+          }
+          if (!options.autosave) toast.success("Trip updated!");
           return existingTripId;
         } else {
           const { data, error } = await supabase
@@ -49,14 +188,23 @@ export function useSaveTrip() {
               user_id: user.id,
               title,
               trip_config: tripConfig as any,
-              itinerary: itinerary as any,
+              itinerary: storedItinerary as any,
               preferences: preferences as any ?? null,
+              ...sessionFields,
+              ...(origin && {
+                source_trip_id: origin.sourceTripId,
+                source_share_slug: origin.shareSlug,
+                source_author_name: origin.authorName,
+              }),
             })
-            .select("id")
+            .select("id, updated_at")
             .single();
 
           if (error) throw error;
-          toast.success("Trip saved!");
+          rememberServerVersion(data.id, { updatedAt: data.updated_at });
+          await storeLocally(data.id, data.updated_at);
+          await recordSave(data.id);
+          toast.success(origin ? "Trip copied to My Trips!" : "Trip saved!");
           return data.id;
         }
       } catch (err: any) {
@@ -66,8 +214,9 @@ export function useSaveTrip() {
         setIsSaving(false);
       }
     },
-    [user]
+    [profile?.display_name, queryClient, user]
   );
+  saveTripRef.current = saveTrip;
 
-  return { saveTrip, isSaving };
+  return { saveTrip, isSaving, hasConflict };
 }
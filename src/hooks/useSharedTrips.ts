@@ -0,0 +1,125 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { TripOrigin } from "@/data/demoTrip";
+import { useAuth } from "@/hooks/useAuth";
+import { createShareSlug, shareLinkErrorFromServer } from "@/lib/share";
+import { parseSharePayload, type ShareLinkError, type ShareTripData } from "@/lib/share-schema";
+import { tripRouteLabel } from "@/lib/trip-legs";
+import { toast } from "sonner";
+
+export type SharedTripLink = Tables<"shared_trips">;
+
+const SLUG_ATTEMPTS = 3;
+
+/** Short links the signed-in user has created for a saved trip. */
+export function useSharedTrips(tripId?: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["shared-trips", tripId, user?.id];
+
+  const { data: links = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("shared_trips")
+        .select("*")
+        .eq("trip_id", tripId as string)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!tripId,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["shared-trips", tripId] }),
+    [queryClient, tripId],
+  );
+
+  const create = useCallback(
+    async (payload: ShareTripData, expiresInDays: number | null): Promise<SharedTripLink | null> => {
+      if (!user) return null;
+      const { tripConfig } = payload;
+      for (let attempt = 0; attempt < SLUG_ATTEMPTS; attempt += 1) {
+        const { data, error } = await supabase
+          .from("shared_trips")
+          .insert({
+            slug: createShareSlug(),
+            trip_id: tripId ?? null,
+            created_by: user.id,
+            title: tripRouteLabel(tripConfig),
+            payload: payload as unknown as Json,
+            expires_at: expiresInDays ? addDays(new Date(), expiresInDays).toISOString() : null,
+          })
+          .select("*")
+          .single();
+        // A slug collision is astronomically rare; just draw another one.
+        if (error?.code === "23505") continue;
+        if (error) {
+          toast.error(error.message);
+          return null;
+        }
+        await refresh();
+        return data;
+      }
+      toast.error("Couldn't create a share link. Please try again.");
+      return null;
+    },
+    [refresh, tripId, user],
+  );
+
+  const revoke = useCallback(
+    async (linkId: string) => {
+      const { error } = await supabase
+        .from("shared_trips")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", linkId);
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  return { links, isLoading, create, revoke };
+}
+
+interface SharedTripLookup {
+  payload?: unknown;
+  slug?: string;
+  tripId?: string | null;
+  authorName?: string | null;
+}
+
+/** Loads a short link's trip snapshot and who shared it; each successful load counts as a view. */
+export function useSharedTrip(slug?: string) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["shared-trip", slug],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_shared_trip", { _slug: slug as string });
+      if (error) throw shareLinkErrorFromServer(error.message);
+      const lookup = (data ?? {}) as SharedTripLookup;
+      const origin: TripOrigin = {
+        sourceTripId: lookup.tripId ?? null,
+        shareSlug: lookup.slug ?? slug ?? null,
+        authorName: lookup.authorName ?? null,
+      };
+      // Snapshots are validated on the way out too; older rows hold v1 payloads.
+      return { trip: parseSharePayload(lookup.payload), origin };
+    },
+    enabled: !!slug,
+    retry: false,
+    staleTime: Infinity,
+  });
+  return {
+    sharedTrip: data?.trip ?? null,
+    origin: data?.origin ?? null,
+    isLoading,
+    error: error as ShareLinkError | null,
+  };
+}
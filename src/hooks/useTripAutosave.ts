@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { DayPlan, TripSession } from "@/data/demoTrip";
+import { withoutRoutingFields } from "@/lib/itinerary-ops";
+
+const AUTOSAVE_DELAY_MS = 2000;
+
+export type SaveStatus = "saved" | "saving" | "unsaved";
+
+interface AutosaveOptions {
+  /** Autosave only runs for trips that already exist and that this user can edit. */
+  enabled: boolean;
+  itinerary: DayPlan[] | null;
+  session: TripSession;
+  preferences?: { interests: string[]; pace: string; mustSees: string };
+  /** Saves the current trip; resolves with whether it worked. */
+  save: () => Promise<boolean>;
+  /** A save started elsewhere, e.g. from the Save button. */
+  isSaving: boolean;
+  /** Holds autosave back, e.g. while a save conflict is waiting on the user. */
+  paused?: boolean;
+}
+
+/**
+ * Tracks whether the trip has changed since it was opened or last saved, and saves it
+ * a couple of seconds after the user stops editing. Chat history is saved along with
+ * everything else but doesn't count as a change on its own, since the greeting shown
+ * on every open would otherwise mark the trip unsaved. Routing output is left out for
+ * the same reason: opening a trip routes it.
+ */
+export function useTripAutosave({ enabled, itinerary, session, preferences, save, isSaving, paused = false }: AutosaveOptions) {
+  const signature = useMemo(
+    () => (itinerary
+      ? JSON.stringify([withoutRoutingFields(itinerary), session.selectedStays, session.stayBudgetVibe, preferences ?? null])
+      : null),
+    [itinerary, preferences, session.selectedStays, session.stayBudgetVibe],
+  );
+  const [savedSignature, setSavedSignature] = useState<string | null>(null);
+  const [failedSignature, setFailedSignature] = useState<string | null>(null);
+  const [isAutosaving, setIsAutosaving] = useState(false);
+  const saveRef = useRef(save);
+  saveRef.current = save;
+
+  // The first complete itinerary is what was opened, so it counts as saved.
+  useEffect(() => {
+    if (signature && savedSignature === null) setSavedSignature(signature);
+  }, [savedSignature, signature]);
+
+  const isDirty = Boolean(signature && savedSignature !== null && signature !== savedSignature);
+
+  useEffect(() => {
+    if (!enabled || !isDirty || paused || isSaving || isAutosaving || signature === failedSignature) return;
+    const timer = window.setTimeout(async () => {
+      setIsAutosaving(true);
+      const saved = await saveRef.current();
+      setIsAutosaving(false);
+      if (saved) setSavedSignature(signature);
+      else setFailedSignature(signature);
+    }, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [enabled, failedSignature, isAutosaving, isDirty, isSaving, paused, signature]);
+
+  useEffect(() => {
+    if (!enabled || (!isDirty && !isAutosaving)) return;
+    const onBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => window.removeEventListener("beforeunload", onBeforeUnload);
+  }, [enabled, isAutosaving, isDirty]);
+
+  /** Records a save made outside autosave, e.g. from the Save button. */
+  const markSaved = useCallback(() => setSavedSignature(signature), [signature]);
+
+  const status: SaveStatus = isSaving || isAutosaving ? "saving" : isDirty ? "unsaved" : "saved";
+  return { status, isDirty, markSaved };
+}
@@ -0,0 +1,107 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Database, Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+export type TripRole = Database["public"]["Enums"]["trip_member_role"];
+export type TripMember = Tables<"trip_members">;
+
+export const TRIP_ROLE_LABELS: Record<TripRole, string> = {
+  owner: "Owner",
+  editor: "Can edit",
+  viewer: "Can view",
+};
+
+export function canEditTrip(role: TripRole | null | undefined): boolean {
+  return role === "owner" || role === "editor";
+}
+
+export function tripInviteLink(token: string): string {
+  return `${window.location.origin}/invite/${token}`;
+}
+
+/** The signed-in user's role on a saved trip, or null when they have no access. */
+export function useTripRole(tripId?: string) {
+  const { user } = useAuth();
+  const { data: role = null, isLoading } = useQuery({
+    queryKey: ["trip-role", tripId, user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("trip_role", { _trip_id: tripId as string, _user_id: user!.id });
+      if (error) throw error;
+      return (data as TripRole | null) ?? null;
+    },
+    enabled: !!user && !!tripId,
+  });
+  return { role, isLoading };
+}
+
+export function useTripMembers(tripId?: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ["trip-members", tripId];
+
+  const { data: members = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("trip_members")
+        .select("*")
+        .eq("trip_id", tripId as string)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!tripId,
+  });
+
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ["trip-members", tripId] }),
+    [queryClient, tripId],
+  );
+
+  const invite = useCallback(
+    async (email: string, role: Exclude<TripRole, "owner">): Promise<TripMember | null> => {
+      if (!user || !tripId) return null;
+      const { data, error } = await supabase
+        .from("trip_members")
+        .insert({ trip_id: tripId, email: email.trim().toLowerCase(), role, invited_by: user.id })
+        .select("*")
+        .single();
+      if (error) {
+        toast.error(error.code === "23505" ? "That person is already invited" : error.message);
+        return null;
+      }
+      await refresh();
+      return data;
+    },
+    [refresh, tripId, user],
+  );
+
+  const updateRole = useCallback(
+    async (memberId: string, role: Exclude<TripRole, "owner">) => {
+      const { error } = await supabase.from("trip_members").update({ role }).eq("id", memberId);
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  const remove = useCallback(
+    async (memberId: string) => {
+      const { error } = await supabase.from("trip_members").delete().eq("id", memberId);
+      if (error) {
+        toast.error(error.message);
+        return;
+      }
+      await refresh();
+    },
+    [refresh],
+  );
+
+  return { members, isLoading, invite, updateRole, remove };
+}
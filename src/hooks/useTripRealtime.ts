@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { ItineraryPatch } from "@/lib/itinerary-ops";
+
+const PEER_COLORS = ["#E76F51", "#2A9D8F", "#8338EC", "#F4A261", "#3A86FF", "#D62828", "#06A77D"];
+
+interface PresenceState {
+  day: number | null;
+  draggingStopId: string | null;
+}
+
+interface PresencePayload extends PresenceState {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+}
+
+export type TripPeer = PresencePayload;
+
+export interface TripRealtime {
+  clientId: string;
+  connected: boolean;
+  /** Other open sessions on this trip (the local session is excluded). */
+  peers: TripPeer[];
+  sendPatch: (patch: ItineraryPatch) => void;
+  onPatch: (listener: (patch: ItineraryPatch) => void) => () => void;
+  updatePresence: (state: Partial<PresenceState>) => void;
+}
+
+function colorForUser(userId: string): string {
+  let hash = 0;
+  for (let idx = 0; idx < userId.length; idx += 1) hash = (hash * 31 + userId.charCodeAt(idx)) | 0;
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length];
+}
+
+/**
+ * Joins the trip's Realtime channel: broadcasts itinerary patches between
+ * collaborators and tracks who is looking at (or dragging in) which day.
+ */
+export function useTripRealtime(tripId: string | undefined, focusedDay: number | null): TripRealtime {
+  const { user, profile } = useAuth();
+  const clientId = useMemo(() => crypto.randomUUID(), []);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const listenersRef = useRef(new Set<(patch: ItineraryPatch) => void>());
+  const presenceRef = useRef<PresenceState>({ day: focusedDay, draggingStopId: null });
+  const [peers, setPeers] = useState<TripPeer[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  const name = profile?.display_name || user?.email?.split("@")[0] || "Traveler";
+
+  const buildPresence = useCallback((): PresencePayload | null => {
+    if (!user) return null;
+    return { clientId, userId: user.id, name, color: colorForUser(user.id), ...presenceRef.current };
+  }, [clientId, name, user]);
+
+  useEffect(() => {
+    if (!tripId || !user) return;
+
+    const channel = supabase.channel(`trip:${tripId}`, {
+      config: { private: true, broadcast: { self: false }, presence: { key: clientId } },
+    });
+
+    channel
+      .on("broadcast", { event: "patch" }, ({ payload }) => {
+        listenersRef.current.forEach((listener) => listener(payload as ItineraryPatch));
+      })
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<PresencePayload>();
+        setPeers(
+          Object.values(state)
+            .flat()
+            .filter((peer) => peer.clientId !== clientId),
+        );
+      })
+      .subscribe((status) => {
+        setConnected(status === "SUBSCRIBED");
+        const presence = buildPresence();
+        if (status === "SUBSCRIBED" && presence) void channel.track(presence);
+      });
+
+    channelRef.current = channel;
+    return () => {
+      channelRef.current = null;
+      setConnected(false);
+      setPeers([]);
+      void supabase.removeChannel(channel);
+    };
+  }, [buildPresence, clientId, tripId, user]);
+
+  const updatePresence = useCallback((state: Partial<PresenceState>) => {
+    presenceRef.current = { ...presenceRef.current, ...state };
+    const presence = buildPresence();
+    if (channelRef.current && presence) void channelRef.current.track(presence);
+  }, [buildPresence]);
+
+  useEffect(() => {
+    updatePresence({ day: focusedDay });
+  }, [focusedDay, updatePresence]);
+
+  const sendPatch = useCallback((patch: ItineraryPatch) => {
+    void channelRef.current?.send({ type: "broadcast", event: "patch", payload: patch });
+  }, []);
+
+  const onPatch = useCallback((listener: (patch: ItineraryPatch) => void) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return useMemo(
+    () => ({ clientId, connected, peers, sendPatch, onPatch, updatePresence }),
+    [clientId, connected, peers, sendPatch, onPatch, updatePresence],
+  );
+}
@@ -0,0 +1,77 @@
+import { useCallback } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { DayPlan, TripConfig } from "@/data/demoTrip";
+
+export type TripVersion = Tables<"trip_versions">;
+export type TripVersionSource = "save" | "adjustment";
+
+export const VERSION_SOURCE_LABELS: Record<TripVersionSource, string> = {
+  save: "Saved",
+  adjustment: "AI adjustment",
+};
+
+interface RecordVersionInput {
+  tripId: string;
+  userId: string;
+  authorName: string | null;
+  source: TripVersionSource;
+  prompt?: string | null;
+  tripConfig: TripConfig;
+  itinerary: DayPlan[];
+}
+
+/** Stores a snapshot; history is best-effort, so failures are logged rather than surfaced. */
+export async function recordTripVersion(input: RecordVersionInput): Promise<void> {
+  const { error } = await supabase.from("trip_versions").insert({
+    trip_id: input.tripId,
+    created_by: input.userId,
+    author_name: input.authorName,
+    source: input.source,
+    prompt: input.prompt ?? null,
+    trip_config: input.tripConfig as unknown as Json,
+    itinerary: input.itinerary.map(({ route: _route, ...day }) => day) as unknown as Json,
+  });
+  if (error) console.warn("[versions] Could not record trip version:", error.message);
+}
+
+export function useTripVersions(tripId?: string, enabled = true) {
+  const { user, profile } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["trip-versions", tripId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("trip_versions")
+        .select("*")
+        .eq("trip_id", tripId as string)
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user && !!tripId && enabled,
+  });
+
+  const record = useCallback(
+    async (source: TripVersionSource, tripConfig: TripConfig, itinerary: DayPlan[], prompt?: string | null) => {
+      if (!user || !tripId) return;
+      await recordTripVersion({
+        tripId,
+        userId: user.id,
+        authorName: profile?.display_name ?? user.email ?? null,
+        source,
+        prompt,
+        tripConfig,
+        itinerary,
+      });
+      queryClient.invalidateQueries({ queryKey: ["trip-versions", tripId] });
+    },
+    [profile?.display_name, queryClient, tripId, user],
+  );
+
+  return { versions, isLoading, record };
+}
@@ -44,38 +44,205 @@ export type Database = {
         }
         Relationships: []
       }
+      shared_trips: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string | null
+          id: string
+          last_viewed_at: string | null
+          payload: Json
+          revoked_at: string | null
+          slug: string
+          title: string
+          trip_id: string | null
+          view_count: number
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at?: string | null
+          id?: string
+          last_viewed_at?: string | null
+          payload: Json
+          revoked_at?: string | null
+          slug: string
+          title: string
+          trip_id?: string | null
+          view_count?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string | null
+          id?: string
+          last_viewed_at?: string | null
+          payload?: Json
+          revoked_at?: string | null
+          slug?: string
+          title?: string
+          trip_id?: string | null
+          view_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shared_trips_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_members: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          id: string
+          invite_token: string
+          invited_by: string | null
+          role: Database["public"]["Enums"]["trip_member_role"]
+          status: string
+          trip_id: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          id?: string
+          invite_token?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["trip_member_role"]
+          status?: string
+          trip_id: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          id?: string
+          invite_token?: string
+          invited_by?: string | null
+          role?: Database["public"]["Enums"]["trip_member_role"]
+          status?: string
+          trip_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_members_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      trip_versions: {
+        Row: {
+          author_name: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          itinerary: Json
+          prompt: string | null
+          source: string
+          trip_config: Json
+          trip_id: string
+        }
+        Insert: {
+          author_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          itinerary: Json
+          prompt?: string | null
+          source: string
+          trip_config: Json
+          trip_id: string
+        }
+        Update: {
+          author_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          itinerary?: Json
+          prompt?: string | null
+          source?: string
+          trip_config?: Json
+          trip_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "trip_versions_trip_id_fkey"
+            columns: ["trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       trips: {
         Row: {
+          chat_history: Json
           created_at: string
           id: string
           itinerary: Json
           preferences: Json | null
+          selected_stays: Json
+          source_author_name: string | null
+          source_share_slug: string | null
+          source_trip_id: string | null
+          stay_budget_vibe: string | null
           title: string
           trip_config: Json
           updated_at: string
           user_id: string
         }
         Insert: {
+          chat_history?: Json
           created_at?: string
           id?: string
           itinerary: Json
           preferences?: Json | null
+          selected_stays?: Json
+          source_author_name?: string | null
+          source_share_slug?: string | null
+          source_trip_id?: string | null
+          stay_budget_vibe?: string | null
           title: string
           trip_config: Json
           updated_at?: string
           user_id: string
         }
         Update: {
+          chat_history?: Json
           created_at?: string
           id?: string
           itinerary?: Json
           preferences?: Json | null
+          selected_stays?: Json
+          source_author_name?: string | null
+          source_share_slug?: string | null
+          source_trip_id?: string | null
+          stay_budget_vibe?: string | null
           title?: string
           trip_config?: Json
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "trips_source_trip_id_fkey"
+            columns: ["source_trip_id"]
+            isOneToOne: false
+            referencedRelation: "trips"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       user_roles: {
         Row: {
@@ -100,6 +267,25 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_trip_invitation: {
+        Args: {
+          _token: string
+        }
+        Returns: string
+      }
+      can_edit_trip: {
+        Args: {
+          _trip_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      get_shared_trip: {
+        Args: {
+          _slug: string
+        }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -107,9 +293,17 @@ export type Database = {
         }
         Returns: boolean
       }
+      trip_role: {
+        Args: {
+          _trip_id: string
+          _user_id: string
+        }
+        Returns: Database["public"]["Enums"]["trip_member_role"]
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
+      trip_member_role: "owner" | "editor" | "viewer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -238,6 +432,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "moderator", "user"],
+      trip_member_role: ["owner", "editor", "viewer"],
     },
   },
 } as const
@@ -0,0 +1,150 @@
+import type { DayPlan, Stop, TripConfig } from "@/data/demoTrip";
+import { supabase } from "@/integrations/supabase/client";
+import { asRecord, outlineForPlanner, parseStop } from "@/lib/itinerary-patch";
+import { haversineKm } from "@/lib/routing";
+
+/** What to regenerate: one stop, or a whole day when `stopId` is omitted. */
+export interface AlternativesTarget {
+  day: number;
+  stopId?: string;
+}
+
+export interface NeighborDistance {
+  name: string;
+  km: number;
+}
+
+export interface StopAlternative {
+  kind: "stop";
+  stop: Stop;
+  reason: string;
+  /** Distance from the stop before the slot and to the stop after it, within the same day. */
+  fromPrev: NeighborDistance | null;
+  toNext: NeighborDistance | null;
+}
+
+export interface DayAlternative {
+  kind: "day";
+  day: DayPlan;
+  reason: string;
+  /** Distance from the previous day's last stop and to the next day's first stop. */
+  fromPrev: NeighborDistance | null;
+  toNext: NeighborDistance | null;
+}
+
+export type Alternative = StopAlternative | DayAlternative;
+
+function distance(from: Stop | undefined, to: Stop | undefined, name: string | undefined): NeighborDistance | null {
+  if (!from || !to || !name) return null;
+  return { name, km: haversineKm(from, to) };
+}
+
+function textOr(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.trim() ? value.trim() : fallback;
+}
+
+/**
+ * Validates regenerate candidates against the itinerary they were requested for and measures
+ * each one against its fixed neighbours. Candidates without usable coordinates are dropped.
+ */
+export function parseAlternatives(raw: unknown, itinerary: DayPlan[], target: AlternativesTarget): Alternative[] {
+  const dayIndex = itinerary.findIndex((day) => day.day === target.day);
+  const current = itinerary[dayIndex];
+  if (!current || !Array.isArray(raw)) return [];
+
+  // Candidates get ids that no stop in the itinerary (or another candidate) already uses.
+  const usedIds = new Set(itinerary.flatMap((day) => day.stops.map((stop) => stop.id)));
+  const freshId = (prefix: string) => {
+    let n = 1;
+    while (usedIds.has(`${prefix}${n}`)) n += 1;
+    const id = `${prefix}${n}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  if (target.stopId) {
+    const slot = current.stops.findIndex((stop) => stop.id === target.stopId);
+    if (slot < 0) return [];
+    const prev = current.stops[slot - 1];
+    const next = current.stops[slot + 1];
+    return raw.flatMap((value): StopAlternative[] => {
+      const candidate = asRecord(value);
+      const stop = parseStop(candidate?.stop, freshId(`${target.stopId}-alt`));
+      if (!stop) return [];
+      return [{
+        kind: "stop",
+        stop,
+        reason: typeof candidate?.reason === "string" ? candidate.reason : "",
+        fromPrev: distance(prev, stop, prev?.name),
+        toNext: distance(stop, next, next?.name),
+      }];
+    });
+  }
+
+  const previousStops = itinerary[dayIndex - 1]?.stops ?? [];
+  const before = previousStops[previousStops.length - 1];
+  const after = itinerary[dayIndex + 1]?.stops[0];
+  return raw.flatMap((value, idx): DayAlternative[] => {
+    const candidate = asRecord(value);
+    const plan = asRecord(candidate?.day);
+    const stops = (Array.isArray(plan?.stops) ? plan.stops : [])
+      .map((stop) => parseStop(stop, freshId(`d${current.day}r${idx + 1}s`)))
+      .filter((stop): stop is Stop => stop !== null);
+    if (!plan || stops.length === 0) return [];
+    // Only the fields a candidate may change are taken from it; cost and drive totals are
+    // re-parsed from their text when the plan is sanitized.
+    const day: DayPlan = {
+      day: current.day,
+      title: textOr(plan.title, current.title),
+      subtitle: textOr(plan.subtitle, current.subtitle),
+      totalDriving: textOr(plan.totalDriving, current.totalDriving),
+      estimatedCost: textOr(plan.estimatedCost, current.estimatedCost),
+      color: current.color,
+      stops,
+      route: null,
+    };
+    return [{
+      kind: "day",
+      day,
+      reason: typeof candidate?.reason === "string" ? candidate.reason : "",
+      fromPrev: distance(before, stops[0], before?.name),
+      toNext: distance(stops[stops.length - 1], after, after?.name),
+    }];
+  });
+}
+
+/** Swaps a chosen candidate into the itinerary, leaving every other stop and day untouched. */
+export function applyAlternative(itinerary: DayPlan[], target: AlternativesTarget, alternative: Alternative): DayPlan[] {
+  return itinerary.map((day) => {
+    if (day.day !== target.day) return day;
+    if (alternative.kind === "day") return alternative.day;
+    return { ...day, stops: day.stops.map((stop) => (stop.id === target.stopId ? alternative.stop : stop)) };
+  });
+}
+
+/** Asks the planner for three candidates for `target`, with the rest of the itinerary as fixed context. */
+export async function fetchAlternatives(
+  tripConfig: TripConfig,
+  itinerary: DayPlan[],
+  target: AlternativesTarget,
+  preferences: { interests?: string[]; pace?: string } = {},
+): Promise<Alternative[]> {
+  const { data, error } = await supabase.functions.invoke("generate-itinerary", {
+    body: {
+      from: tripConfig.from,
+      to: tripConfig.to,
+      days: tripConfig.days,
+      mode: tripConfig.mode,
+      startDate: tripConfig.startDate,
+      endDate: tripConfig.endDate,
+      legs: tripConfig.legs,
+      interests: preferences.interests,
+      pace: preferences.pace,
+      currentItinerary: JSON.stringify(outlineForPlanner(itinerary)),
+      alternatives: target,
+    },
+  });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return parseAlternatives(data?.alternatives, itinerary, target);
+}
@@ -0,0 +1,230 @@
+import type { DayPlan, MoneyRange, StayOption, Stop, TripLeg } from "@/data/demoTrip";
+import { parseMoneyRange } from "@/lib/itinerary-fields";
+import { legSegments, staysForLeg, tripLegs, type LegSegment } from "@/lib/trip-legs";
+
+export type BudgetCategory = "food" | "lodging" | "transport" | "activities";
+export type BudgetTier = "$" | "$$" | "$$$";
+export type BudgetStatus = "under" | "within" | "over" | "unknown";
+
+export interface BudgetAmount {
+  min: number;
+  max: number;
+}
+
+export interface DayBudget {
+  day: number;
+  categories: Record<BudgetCategory, BudgetAmount>;
+  total: BudgetAmount;
+  /** Stops whose cost could not be parsed (e.g. "Cost varies"). */
+  unpricedStops: number;
+}
+
+export interface TripBudget {
+  currency: string;
+  days: DayBudget[];
+  categories: Record<BudgetCategory, BudgetAmount>;
+  total: BudgetAmount;
+  nights: number;
+  tier: BudgetTier | null;
+  target: BudgetAmount | null;
+  status: BudgetStatus;
+  /** Priced items skipped because they were quoted in a different currency. */
+  excludedItems: number;
+}
+
+export const BUDGET_CATEGORIES: { id: BudgetCategory; label: string }[] = [
+  { id: "food", label: "Food" },
+  { id: "lodging", label: "Lodging" },
+  { id: "transport", label: "Transport" },
+  { id: "activities", label: "Activities" },
+];
+
+// Rough per-traveler daily spend (USD) for each budget vibe on the landing page.
+const DAILY_TIER_TARGETS: Record<BudgetTier, BudgetAmount> = {
+  "$": { min: 0, max: 120 },
+  "$$": { min: 120, max: 320 },
+  "$$$": { min: 320, max: 800 },
+};
+
+// Whole words only, so "Seattle", "Theater" or "Barcelona" don't read as food.
+const FOOD_WORDS = /(?:^|[^a-z])(?:food|drinks?|restaurants?|eat(?:s|ery|eries)?|caf[eé]s?|coffee|bars?|bakery|bakeries|markets?|brunch|lunch|dinner|breakfast)(?![a-z])/;
+
+function emptyAmount(): BudgetAmount {
+  return { min: 0, max: 0 };
+}
+
+function emptyCategories(): Record<BudgetCategory, BudgetAmount> {
+  return { food: emptyAmount(), lodging: emptyAmount(), transport: emptyAmount(), activities: emptyAmount() };
+}
+
+function addInto(target: BudgetAmount, amount: BudgetAmount) {
+  target.min += amount.min;
+  target.max += amount.max;
+}
+
+function sumCategories(categories: Record<BudgetCategory, BudgetAmount>): BudgetAmount {
+  const total = emptyAmount();
+  BUDGET_CATEGORIES.forEach(({ id }) => addInto(total, categories[id]));
+  return total;
+}
+
+export function parseBudgetTier(budget: string | undefined): BudgetTier | null {
+  const match = budget?.trim().match(/^\$+/);
+  if (!match) return null;
+  const tier = match[0].slice(0, 3) as BudgetTier;
+  return tier in DAILY_TIER_TARGETS ? tier : null;
+}
+
+export function categorizeStop(stop: Pick<Stop, "name" | "tags">): BudgetCategory {
+  const text = `${stop.tags.join(" ")} ${stop.name}`.toLowerCase();
+  return FOOD_WORDS.test(text) ? "food" : "activities";
+}
+
+function pickCurrency(ranges: (MoneyRange | null | undefined)[]): string {
+  const counts = new Map<string, number>();
+  ranges.forEach((range) => {
+    if (!range || range.max === 0) return;
+    counts.set(range.currency, (counts.get(range.currency) || 0) + 1);
+  });
+  let best = "USD";
+  let bestCount = 0;
+  counts.forEach((count, currency) => {
+    if (count > bestCount) {
+      best = currency;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+/** Spreads the nights from `firstDay` to `lastDay` across the stays in contiguous blocks. */
+function spreadNights(perDay: Map<number, MoneyRange>, stays: StayOption[], firstDay: number, lastDay: number) {
+  const priced = stays
+    .map((stay) => parseMoneyRange(stay.nightlyPrice))
+    .filter((range): range is MoneyRange => Boolean(range));
+  const nights = lastDay - firstDay + 1;
+  if (priced.length === 0 || nights <= 0) return;
+
+  for (let night = 0; night < nights; night += 1) {
+    const stayIndex = Math.min(priced.length - 1, Math.floor((night * priced.length) / nights));
+    perDay.set(firstDay + night, priced[stayIndex]);
+  }
+}
+
+/**
+ * One night per day from Day 1. On multi-city trips each leg's nights go to the stays
+ * picked for its city, and a leg without one has no lodging cost.
+ */
+function lodgingByDay(stays: StayOption[], nights: number, segments: LegSegment[]): Map<number, MoneyRange> {
+  const perDay = new Map<number, MoneyRange>();
+  if (segments.length === 0) {
+    spreadNights(perDay, stays, 1, nights);
+  } else {
+    segments.forEach((segment) => {
+      spreadNights(perDay, staysForLeg(stays, segment), segment.startDay, Math.min(segment.endDay, nights));
+    });
+  }
+  return perDay;
+}
+
+function compareToTarget(total: BudgetAmount, target: BudgetAmount | null): BudgetStatus {
+  if (!target || total.max === 0) return "unknown";
+  const midpoint = (total.min + total.max) / 2;
+  if (midpoint > target.max) return "over";
+  if (midpoint < target.min) return "under";
+  return "within";
+}
+
+/**
+ * Rolls stop costs, selected stays and travel into per-day, per-category and
+ * whole-trip totals. Transport is the priced transport legs, or whatever the
+ * planner's day estimate holds beyond the priced stops if that is more.
+ */
+export function buildTripBudget(
+  itinerary: DayPlan[],
+  options: { stays?: StayOption[]; budget?: string; legs?: TripLeg[] } = {},
+): TripBudget {
+  const stays = options.stays ?? [];
+  const nights = stays.length > 0 ? Math.max(0, itinerary.length - 1) : 0;
+  const segments = legSegments(tripLegs({ legs: options.legs }), itinerary.length);
+  const lodging = lodgingByDay(stays, nights, segments);
+
+  const currency = pickCurrency([
+    ...itinerary.flatMap((day) => day.stops.map((stop) => stop.costRange)),
+    ...itinerary.flatMap((day) => day.stops.map((stop) => stop.transport?.costRange)),
+    ...itinerary.map((day) => day.estimatedCostRange),
+    ...lodging.values(),
+  ]);
+
+  let excludedItems = 0;
+  const accept = (range: MoneyRange | null | undefined): range is MoneyRange => {
+    if (!range) return false;
+    if (range.currency !== currency && range.max > 0) {
+      excludedItems += 1;
+      return false;
+    }
+    return true;
+  };
+
+  const days: DayBudget[] = itinerary.map((day) => {
+    const categories = emptyCategories();
+    let unpricedStops = 0;
+
+    day.stops.forEach((stop) => {
+      if (!stop.costRange) {
+        unpricedStops += 1;
+        return;
+      }
+      if (!accept(stop.costRange)) return;
+      addInto(categories[categorizeStop(stop)], stop.costRange);
+    });
+    day.stops.forEach((stop) => {
+      if (accept(stop.transport?.costRange)) addInto(categories.transport, stop.transport.costRange);
+    });
+
+    const stopTotal = { min: categories.food.min + categories.activities.min, max: categories.food.max + categories.activities.max };
+    if (accept(day.estimatedCostRange)) {
+      categories.transport = {
+        min: Math.max(categories.transport.min, day.estimatedCostRange.min - stopTotal.min),
+        max: Math.max(categories.transport.max, day.estimatedCostRange.max - stopTotal.max),
+      };
+    }
+
+    const nightly = lodging.get(day.day);
+    if (accept(nightly)) addInto(categories.lodging, nightly);
+
+    return { day: day.day, categories, total: sumCategories(categories), unpricedStops };
+  });
+
+  const categories = emptyCategories();
+  days.forEach((day) => BUDGET_CATEGORIES.forEach(({ id }) => addInto(categories[id], day.categories[id])));
+  const total = sumCategories(categories);
+
+  const tier = parseBudgetTier(options.budget);
+  const daily = tier && currency === "USD" ? DAILY_TIER_TARGETS[tier] : null;
+  const target = daily && itinerary.length > 0
+    ? { min: daily.min * itinerary.length, max: daily.max * itinerary.length }
+    : null;
+
+  return {
+    currency,
+    days,
+    categories,
+    total,
+    nights,
+    tier,
+    target,
+    status: compareToTarget(total, target),
+    excludedItems,
+  };
+}
+
+export function formatBudgetAmount(amount: BudgetAmount, currency: string): string {
+  const symbol = currency === "USD" ? "$" : currency === "EUR" ? "€" : currency === "GBP" ? "£" : currency === "JPY" ? "¥" : "";
+  const format = (value: number) => {
+    const rounded = Math.round(value).toLocaleString("en-US");
+    return symbol ? `${symbol}${rounded}` : `${rounded} ${currency}`;
+  };
+  if (Math.round(amount.min) === Math.round(amount.max)) return format(amount.max);
+  return `${format(amount.min)}–${format(amount.max)}`;
+}
@@ -78,6 +78,7 @@ const WEATHER_CODE_LOOKUP: Record<number, { label: string; glyph: string }> = {
 };
 
 const insightCache = new Map<string, CityInsightData>();
+const timeZoneCache = new Map<string, string | null>();
 
 function pickWeatherMeta(code?: number): { label: string; glyph: string } {
   if (typeof code !== "number") return { label: "Mild conditions", glyph: "🌤️" };
@@ -445,3 +446,25 @@ export async function fetchCityInsights(destination?: string, startDate?: string
   insightCache.set(cacheKey, insight);
   return insight;
 }
+
+/** IANA time zone at a coordinate (e.g. "Europe/Paris"), or null when the lookup fails. */
+export async function fetchTimeZone(lat: number, lng: number): Promise<string | null> {
+  const cacheKey = `${lat.toFixed(2)},${lng.toFixed(2)}`;
+  if (timeZoneCache.has(cacheKey)) return timeZoneCache.get(cacheKey)!;
+
+  try {
+    const url = new URL("https://api.open-meteo.com/v1/forecast");
+    url.searchParams.set("latitude", String(lat));
+    url.searchParams.set("longitude", String(lng));
+    url.searchParams.set("timezone", "auto");
+    url.searchParams.set("forecast_days", "1");
+    const response = await fetch(url.toString());
+    if (!response.ok) return null;
+    const data = await response.json();
+    const timeZone = typeof data?.timezone === "string" && data.timezone ? data.timezone : null;
+    timeZoneCache.set(cacheKey, timeZone);
+    return timeZone;
+  } catch {
+    return null;
+  }
+}
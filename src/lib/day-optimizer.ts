@@ -0,0 +1,172 @@
+import type { RoutingProfile, Stop } from "@/data/demoTrip";
+import { formatClockTime } from "@/lib/itinerary-fields";
+import { estimateTravelMinutes } from "@/lib/routing";
+import { DEFAULT_DAY_START_MINUTES, estimateDwellMinutes, openWindowsOn } from "@/lib/schedule";
+
+type Point = { lat: number; lng: number };
+
+export interface OptimizeDayOptions {
+  profile: RoutingProfile;
+  /** Weekday (0 = Sunday) used to read opening hours; null when the trip has no dates. */
+  weekday: number | null;
+  /** Fixed point the day leaves from, e.g. the selected hotel. */
+  start?: Point | null;
+  /** Fixed point the day returns to. */
+  end?: Point | null;
+  dayStartMinutes?: number;
+}
+
+export interface DaySchedule {
+  arrivals: number[];
+  travelMinutes: number;
+  waitMinutes: number;
+  /** Stops reached when closed, or too late to finish the visit before closing. */
+  conflicts: number;
+}
+
+export interface OptimizeDayResult {
+  stops: Stop[];
+  changed: boolean;
+  before: DaySchedule;
+  after: DaySchedule;
+  savedMinutes: number;
+}
+
+// Permutations are exhaustive up to this many stops; longer days fall back to 2-opt.
+const EXACT_LIMIT = 8;
+const CONFLICT_PENALTY = 600;
+const WAIT_WEIGHT = 0.25;
+
+function simulate(stops: Stop[], options: OptimizeDayOptions): DaySchedule {
+  const { profile, weekday, start, end } = options;
+  let clock = options.dayStartMinutes ?? DEFAULT_DAY_START_MINUTES;
+  let travelMinutes = 0;
+  let waitMinutes = 0;
+  let conflicts = 0;
+  let previous: Point | null = start ?? null;
+  const arrivals: number[] = [];
+
+  stops.forEach((stop) => {
+    if (previous) {
+      const leg = estimateTravelMinutes(previous, stop, profile);
+      travelMinutes += leg;
+      clock += leg;
+    }
+
+    const dwell = estimateDwellMinutes(stop);
+    if (stop.openingHours) {
+      const windows = openWindowsOn(stop.openingHours, weekday);
+      const usable = windows.find((window) => Math.max(clock, window.open) + dwell <= window.close);
+      if (usable) {
+        waitMinutes += Math.max(0, usable.open - clock);
+        clock = Math.max(clock, usable.open);
+      } else {
+        conflicts += 1;
+      }
+    }
+
+    arrivals.push(clock);
+    clock += dwell;
+    previous = stop;
+  });
+
+  if (end && previous) travelMinutes += estimateTravelMinutes(previous, end, profile);
+
+  return { arrivals, travelMinutes, waitMinutes, conflicts };
+}
+
+function scheduleCost(schedule: DaySchedule): number {
+  return schedule.conflicts * CONFLICT_PENALTY + schedule.travelMinutes + schedule.waitMinutes * WAIT_WEIGHT;
+}
+
+function bestPermutation(stops: Stop[], options: OptimizeDayOptions): Stop[] {
+  let best = stops;
+  let bestCost = scheduleCost(simulate(stops, options));
+  const order: Stop[] = [];
+  const used = new Array(stops.length).fill(false);
+
+  const visit = () => {
+    if (order.length === stops.length) {
+      const cost = scheduleCost(simulate(order, options));
+      if (cost < bestCost) {
+        bestCost = cost;
+        best = [...order];
+      }
+      return;
+    }
+    for (let idx = 0; idx < stops.length; idx += 1) {
+      if (used[idx]) continue;
+      used[idx] = true;
+      order.push(stops[idx]);
+      visit();
+      order.pop();
+      used[idx] = false;
+    }
+  };
+
+  visit();
+  return best;
+}
+
+function improveByTwoOpt(stops: Stop[], options: OptimizeDayOptions): Stop[] {
+  let best = stops;
+  let bestCost = scheduleCost(simulate(best, options));
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i += 1) {
+      for (let j = i + 1; j < best.length; j += 1) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const cost = scheduleCost(simulate(candidate, options));
+        if (cost < bestCost - 0.01) {
+          best = candidate;
+          bestCost = cost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Reorders a day's stops to minimise travel while respecting opening hours,
+ * then re-times them from the resulting schedule. The original order is kept
+ * unless the new one is strictly better.
+ */
+export function optimizeDayStops(stops: Stop[], options: OptimizeDayOptions): OptimizeDayResult {
+  const timedStops = stops.filter((stop) => typeof stop.startMinutes === "number");
+  const resolved: OptimizeDayOptions = {
+    ...options,
+    dayStartMinutes: options.dayStartMinutes
+      ?? (timedStops.length > 0 ? Math.min(...timedStops.map((stop) => stop.startMinutes as number)) : undefined),
+  };
+
+  const baseline = simulate(stops, resolved);
+  if (stops.length < 2) {
+    return { stops, changed: false, before: baseline, after: baseline, savedMinutes: 0 };
+  }
+
+  const ordered = stops.length <= EXACT_LIMIT ? bestPermutation(stops, resolved) : improveByTwoOpt(stops, resolved);
+  const after = simulate(ordered, resolved);
+  const changed = ordered.some((stop, idx) => stop.id !== stops[idx].id)
+    && scheduleCost(after) < scheduleCost(baseline) - 0.01;
+
+  if (!changed) {
+    return { stops, changed: false, before: baseline, after: baseline, savedMinutes: 0 };
+  }
+
+  const retimed = ordered.map((stop, idx) => {
+    const minutes = Math.round(after.arrivals[idx] / 5) * 5;
+    return { ...stop, startMinutes: minutes, time: formatClockTime(minutes) };
+  });
+
+  return {
+    stops: retimed,
+    changed: true,
+    before: baseline,
+    after,
+    savedMinutes: Math.max(0, baseline.travelMinutes - after.travelMinutes),
+  };
+}
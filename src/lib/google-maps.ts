@@ -24,3 +24,33 @@ export function loadGoogleMaps(): Promise<void> {
 }
 
 export { GOOGLE_MAPS_API_KEY };
+
+interface GeocoderLike {
+  geocode: (
+    request: { address: string },
+    callback: (
+      results: { geometry?: { location?: { lat: () => number; lng: () => number } } }[] | null,
+      status: string,
+    ) => void,
+  ) => void;
+}
+
+/** Resolves free-text (an address or "place, city") to coordinates, or null when Google finds nothing. */
+export async function geocodeAddress(query: string): Promise<{ lat: number; lng: number } | null> {
+  await loadGoogleMaps();
+  const Geocoder = (window as Window & { google?: { maps?: { Geocoder?: new () => GeocoderLike } } }).google?.maps?.Geocoder;
+  if (!Geocoder) return null;
+
+  return new Promise((resolve) => {
+    new Geocoder().geocode({ address: query }, (results, status) => {
+      const location = results?.[0]?.geometry?.location;
+      if (status !== "OK" || !location) {
+        resolve(null);
+        return;
+      }
+      const lat = location.lat();
+      const lng = location.lng();
+      resolve(Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : null);
+    });
+  });
+}
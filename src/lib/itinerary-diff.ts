@@ -0,0 +1,128 @@
+import type { DayPlan, Stop } from "@/data/demoTrip";
+
+export interface StopTimeChange {
+  name: string;
+  from: string;
+  to: string;
+}
+
+export interface DayChangeSummary {
+  day: number;
+  title: string;
+  added: string[];
+  removed: string[];
+  /** Stops that arrived from another day, e.g. "Pike Place Market (from Day 2)". */
+  movedIn: string[];
+  /** Stops whose position within the day changed. */
+  reordered: string[];
+  timeChanges: StopTimeChange[];
+}
+
+export interface ItineraryChangeSummary {
+  days: DayChangeSummary[];
+  addedDays: number[];
+  removedDays: number[];
+  totalChanges: number;
+}
+
+function locate(itinerary: DayPlan[]): Map<string, { day: number; index: number; stop: Stop }> {
+  const located = new Map<string, { day: number; index: number; stop: Stop }>();
+  itinerary.forEach((day) => day.stops.forEach((stop, index) => located.set(stop.id, { day: day.day, index, stop })));
+  return located;
+}
+
+/** Ids that had to move for `oldOrder` to become `newOrder`: everything outside the longest kept run. */
+function reorderedIds(oldOrder: string[], newOrder: string[]): string[] {
+  const ranks = newOrder.map((id) => oldOrder.indexOf(id));
+  const lengths = ranks.map(() => 1);
+  const previous = ranks.map(() => -1);
+  ranks.forEach((rank, i) => {
+    for (let j = 0; j < i; j += 1) {
+      if (ranks[j] < rank && lengths[j] + 1 > lengths[i]) {
+        lengths[i] = lengths[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+
+  const kept = new Set<string>();
+  let cursor = lengths.indexOf(Math.max(0, ...lengths));
+  while (cursor >= 0) {
+    kept.add(newOrder[cursor]);
+    cursor = previous[cursor];
+  }
+  return newOrder.filter((id) => !kept.has(id));
+}
+
+/**
+ * Summarises how `newer` differs from `older` per day, in terms a traveler
+ * reads: stops added, removed, moved between days, reordered, or re-timed.
+ */
+export function describeItineraryChanges(older: DayPlan[], newer: DayPlan[]): ItineraryChangeSummary {
+  const before = locate(older);
+  const after = locate(newer);
+  const olderDays = new Set(older.map((day) => day.day));
+  const newerDays = new Set(newer.map((day) => day.day));
+
+  const days = newer.map<DayChangeSummary>((day) => {
+    const previousDay = older.find((item) => item.day === day.day);
+    const survivors = previousDay?.stops.filter((stop) => after.get(stop.id)?.day === day.day).map((stop) => stop.id) ?? [];
+    const currentOrder = day.stops.filter((stop) => before.get(stop.id)?.day === day.day).map((stop) => stop.id);
+
+    const summary: DayChangeSummary = {
+      day: day.day,
+      title: day.title,
+      added: [],
+      removed: (previousDay?.stops ?? [])
+        .filter((stop) => !after.has(stop.id))
+        .map((stop) => stop.name),
+      movedIn: [],
+      reordered: reorderedIds(survivors, currentOrder).map((id) => (after.get(id) as { stop: Stop }).stop.name),
+      timeChanges: [],
+    };
+
+    day.stops.forEach((stop) => {
+      const previous = before.get(stop.id);
+      if (!previous) {
+        summary.added.push(stop.name);
+        return;
+      }
+      if (previous.day !== day.day) {
+        summary.movedIn.push(`${stop.name} (from Day ${previous.day})`);
+      }
+      if (previous.stop.time !== stop.time) {
+        summary.timeChanges.push({ name: stop.name, from: previous.stop.time, to: stop.time });
+      }
+    });
+
+    return summary;
+  }).filter((day) => (
+    day.added.length + day.removed.length + day.movedIn.length + day.reordered.length + day.timeChanges.length > 0
+  ));
+
+  const addedDays = newer.filter((day) => !olderDays.has(day.day)).map((day) => day.day);
+  const removedDays = older.filter((day) => !newerDays.has(day.day)).map((day) => day.day);
+  const totalChanges = days.reduce(
+    (sum, day) => sum + day.added.length + day.removed.length + day.movedIn.length + day.reordered.length + day.timeChanges.length,
+    addedDays.length + removedDays.length,
+  );
+
+  return { days, addedDays, removedDays, totalChanges };
+}
+
+/**
+ * Replaces one day of `current` with the same day from an older version. Stops
+ * that the restored day brings back are removed from any other day first so
+ * nothing appears twice.
+ */
+export function restoreDayFromVersion(current: DayPlan[], version: DayPlan[], dayNumber: number): DayPlan[] {
+  const restored = version.find((day) => day.day === dayNumber);
+  if (!restored) return current;
+  const restoredIds = new Set(restored.stops.map((stop) => stop.id));
+
+  const next = current.map((day) => {
+    if (day.day === dayNumber) return { ...restored, day: day.day, color: day.color, route: null };
+    return { ...day, stops: day.stops.filter((stop) => !restoredIds.has(stop.id)) };
+  });
+  return current.some((day) => day.day === dayNumber) ? next : current;
+}
@@ -0,0 +1,406 @@
+import { TRANSPORT_MODES, type DayPlan, type MoneyRange, type OpeningHours, type OpeningPeriod, type Stop, type TransportLeg, type TransportMode } from "@/data/demoTrip";
+
+const MINUTES_PER_DAY = 24 * 60;
+const DEFAULT_CURRENCY = "USD";
+
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ["US$", "USD"],
+  ["A$", "AUD"],
+  ["C$", "CAD"],
+  ["NZ$", "NZD"],
+  ["HK$", "HKD"],
+  ["S$", "SGD"],
+  ["R$", "BRL"],
+  ["€", "EUR"],
+  ["£", "GBP"],
+  ["¥", "JPY"],
+  ["₹", "INR"],
+  ["₩", "KRW"],
+  ["฿", "THB"],
+  ["₺", "TRY"],
+  ["$", "USD"],
+];
+
+const CURRENCY_CODES = [
+  "USD", "EUR", "GBP", "JPY", "CAD", "AUD", "NZD", "CHF", "MXN", "BRL", "INR", "KRW",
+  "THB", "SGD", "HKD", "CNY", "TRY", "AED", "ZAR", "MAD", "CZK", "HUF", "SEK", "NOK", "DKK",
+];
+
+const DAY_TOKENS: Record<string, number> = {
+  sun: 0, sunday: 0, sundays: 0,
+  mon: 1, monday: 1, mondays: 1,
+  tue: 2, tues: 2, tuesday: 2, tuesdays: 2,
+  wed: 3, weds: 3, wednesday: 3, wednesdays: 3,
+  thu: 4, thur: 4, thurs: 4, thursday: 4, thursdays: 4,
+  fri: 5, friday: 5, fridays: 5,
+  sat: 6, saturday: 6, saturdays: 6,
+};
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_PATTERN = Object.keys(DAY_TOKENS).sort((a, b) => b.length - a.length).join("|");
+const CLOCK_PATTERN = "(?:\\d{1,2}(?::\\d{2}|\\.\\d{2})?\\s*(?:a\\.?m\\.?|p\\.?m\\.?)?|noon|midnight)";
+const TIME_RANGE_REGEX = new RegExp(`(${CLOCK_PATTERN})\\s*(?:-|to|until|till)\\s*(${CLOCK_PATTERN})`, "i");
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Clock times
+// ---------------------------------------------------------------------------
+
+/** Parses "9:00 AM", "9am", "14:30" or "noon" into minutes since midnight. */
+export function parseClockTime(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+  if (text === "noon") return 12 * 60;
+  if (text === "midnight") return 0;
+
+  const match = text.match(/^(\d{1,2})(?:[:.](\d{2}))?\s*(a\.?m\.?|p\.?m\.?)?$/);
+  if (!match) return null;
+
+  const [, hoursStr, minutesStr, periodRaw] = match;
+  const hours = Number.parseInt(hoursStr, 10);
+  const minutes = minutesStr ? Number.parseInt(minutesStr, 10) : 0;
+  if (minutes > 59) return null;
+
+  if (periodRaw) {
+    if (hours < 1 || hours > 12) return null;
+    const isPm = periodRaw.startsWith("p");
+    return ((hours % 12) + (isPm ? 12 : 0)) * 60 + minutes;
+  }
+
+  // Bare numbers without a colon ("9") are too ambiguous to be a clock time.
+  if (!minutesStr || hours > 23) return null;
+  return hours * 60 + minutes;
+}
+
+export function formatClockTime(totalMinutes: number): string {
+  const normalized = ((totalMinutes % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const hours24 = Math.floor(normalized / 60);
+  const minutes = normalized % 60;
+  const period = hours24 >= 12 ? "PM" : "AM";
+  const hours12 = hours24 % 12 || 12;
+  return `${hours12}:${minutes.toString().padStart(2, "0")} ${period}`;
+}
+
+// ---------------------------------------------------------------------------
+// Durations
+// ---------------------------------------------------------------------------
+
+/** Parses "2h flight", "4h 30m drive", "45 min walk" or "1.5 hours" into minutes. */
+export function parseDurationMinutes(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+  const text = value.toLowerCase();
+
+  let total = 0;
+  let matched = false;
+  const unitRegex = /(\d+(?:\.\d+)?)\s*(days?|d\b|hours?|hrs?|h\b|minutes?|mins?|m\b)/g;
+  let unitMatch: RegExpExecArray | null;
+  while ((unitMatch = unitRegex.exec(text)) !== null) {
+    const amount = Number.parseFloat(unitMatch[1]);
+    const unit = unitMatch[2];
+    if (!Number.isFinite(amount)) continue;
+    matched = true;
+    if (unit.startsWith("d")) total += amount * MINUTES_PER_DAY;
+    else if (unit.startsWith("h")) total += amount * 60;
+    else total += amount;
+  }
+
+  if (matched) return Math.round(total);
+
+  const clockMatch = text.match(/\b(\d{1,2}):(\d{2})\b/);
+  if (clockMatch) {
+    return Number.parseInt(clockMatch[1], 10) * 60 + Number.parseInt(clockMatch[2], 10);
+  }
+
+  return null;
+}
+
+export function formatDurationMinutes(totalMinutes: number): string {
+  const rounded = Math.max(0, Math.round(totalMinutes));
+  const hours = Math.floor(rounded / 60);
+  const minutes = rounded % 60;
+  if (hours === 0) return `${minutes}m`;
+  if (minutes === 0) return `${hours}h`;
+  return `${hours}h ${minutes}m`;
+}
+
+// ---------------------------------------------------------------------------
+// Money
+// ---------------------------------------------------------------------------
+
+function detectCurrency(value: string): string | null {
+  const upper = value.toUpperCase();
+  const code = CURRENCY_CODES.find((candidate) => new RegExp(`\\b${candidate}\\b`).test(upper));
+  if (code) return code;
+  const symbol = CURRENCY_SYMBOLS.find(([prefix]) => value.includes(prefix));
+  return symbol ? symbol[1] : null;
+}
+
+/** Parses "$25-40", "$180-$240/night", "€15" or "Free" into a numeric range. */
+export function parseMoneyRange(value: unknown): MoneyRange | null {
+  if (typeof value !== "string") return null;
+  const text = value.trim();
+  if (!text) return null;
+
+  const currency = detectCurrency(text) ?? DEFAULT_CURRENCY;
+  const amounts = (text.match(/\d[\d,]*(?:\.\d+)?/g) || [])
+    .map((raw) => Number.parseFloat(raw.replace(/,/g, "")))
+    .filter((amount) => Number.isFinite(amount));
+
+  if (amounts.length === 0) {
+    return /\bfree\b/i.test(text) ? { min: 0, max: 0, currency } : null;
+  }
+
+  const [first, second] = amounts;
+  const hasRange = amounts.length > 1 && /\d\s*(?:[-–—]|to)\s*\D{0,4}\d/i.test(text);
+  const min = hasRange ? Math.min(first, second) : first;
+  const max = hasRange ? Math.max(first, second) : first;
+  return { min, max, currency };
+}
+
+export function formatMoneyRange(range: MoneyRange): string {
+  const symbol = CURRENCY_SYMBOLS.find(([, code]) => code === range.currency)?.[0];
+  const format = (amount: number) => {
+    const rounded = Math.round(amount);
+    return symbol ? `${symbol}${rounded}` : `${rounded} ${range.currency}`;
+  };
+  if (range.max === 0) return "Free";
+  if (range.min === range.max) return format(range.min);
+  return symbol ? `${format(range.min)}-${Math.round(range.max)}` : `${Math.round(range.min)}-${format(range.max)}`;
+}
+
+export function isMoneyRange(value: unknown): value is MoneyRange {
+  return (
+    isRecord(value) &&
+    isFiniteNumber(value.min) &&
+    isFiniteNumber(value.max) &&
+    value.min >= 0 &&
+    value.min <= value.max &&
+    typeof value.currency === "string" &&
+    value.currency.trim().length > 0
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Opening hours
+// ---------------------------------------------------------------------------
+
+function parseDaySpec(text: string): number[] | null {
+  const lower = text.toLowerCase();
+  if (/\b(daily|every ?day|7 days)\b/.test(lower)) return ALL_DAYS;
+  if (/\bweekdays?\b/.test(lower)) return [1, 2, 3, 4, 5];
+  if (/\bweekends?\b/.test(lower)) return [0, 6];
+
+  const days = new Set<number>();
+  const rangeRegex = new RegExp(`\\b(${DAY_PATTERN})\\b\\.?\\s*(?:-|to|through|thru)\\s*\\b(${DAY_PATTERN})\\b`, "g");
+  const remainder = lower.replace(rangeRegex, (_match, startToken: string, endToken: string) => {
+    const start = DAY_TOKENS[startToken];
+    const end = DAY_TOKENS[endToken];
+    for (let offset = 0; offset <= 6; offset += 1) {
+      const day = (start + offset) % 7;
+      days.add(day);
+      if (day === end) break;
+    }
+    return " ";
+  });
+
+  const singleRegex = new RegExp(`\\b(${DAY_PATTERN})\\b`, "g");
+  for (const match of remainder.matchAll(singleRegex)) {
+    days.add(DAY_TOKENS[match[1]]);
+  }
+
+  return days.size > 0 ? [...days].sort((a, b) => a - b) : null;
+}
+
+function hasMeridiem(value: string): boolean {
+  return /[ap]\.?m\.?/i.test(value) || /noon|midnight/i.test(value);
+}
+
+function parseRangeEndpoint(value: string, fallbackMeridiem?: "am" | "pm"): number | null {
+  const direct = parseClockTime(value);
+  if (direct !== null) return direct;
+  const bare = value.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?$/);
+  if (!bare) return null;
+  const hours = Number.parseInt(bare[1], 10);
+  const minutes = bare[2] ? Number.parseInt(bare[2], 10) : 0;
+  if (fallbackMeridiem && hours >= 1 && hours <= 12) {
+    return parseClockTime(`${hours}:${minutes.toString().padStart(2, "0")} ${fallbackMeridiem}`);
+  }
+  if (hours > 24 || minutes > 59) return null;
+  return (hours % 24) * 60 + minutes;
+}
+
+function parseTimeRange(openRaw: string, closeRaw: string): { open: number; close: number } | null {
+  const closeMeridiem = /p\.?m/i.test(closeRaw) ? "pm" : /a\.?m/i.test(closeRaw) ? "am" : undefined;
+  const openMeridiem = /p\.?m/i.test(openRaw) ? "pm" : /a\.?m/i.test(openRaw) ? "am" : undefined;
+
+  let close = parseRangeEndpoint(closeRaw, closeMeridiem ?? openMeridiem);
+  let open = parseRangeEndpoint(openRaw, openMeridiem);
+  if (open === null || close === null) return null;
+
+  if (!hasMeridiem(openRaw) && closeMeridiem) {
+    // "11-6 PM": borrow the closing meridiem unless that would start after closing.
+    const borrowed = parseRangeEndpoint(openRaw, closeMeridiem);
+    open = borrowed !== null && borrowed < close ? borrowed : parseRangeEndpoint(openRaw, "am") ?? open;
+  } else if (!hasMeridiem(openRaw) && !hasMeridiem(closeRaw) && close <= open && close < 12 * 60) {
+    // "9-5" without meridiems reads as a daytime range.
+    close += 12 * 60;
+  }
+
+  if (close <= open) close += MINUTES_PER_DAY;
+  return { open, close };
+}
+
+/** Parses display hours such as "Mon–Fri 9 AM–5 PM; Sat 10 AM–2 PM" or "Open 24 hours". */
+export function parseOpeningHours(value: unknown): OpeningHours | null {
+  if (typeof value !== "string") return null;
+  const text = value.replace(/[–—]/g, "-").trim();
+  if (!text) return null;
+
+  if (/24\s*(?:hours|hrs|h\b|\/\s*7)/i.test(text)) {
+    return { alwaysOpen: true, periods: [] };
+  }
+
+  const periods: OpeningPeriod[] = [];
+  const closedDays = new Set<number>();
+  let pendingDays: number[] | null = null;
+
+  const segments = text.split(/[;,\n|]/).map((segment) => segment.trim()).filter(Boolean);
+  for (const segment of segments) {
+    const closedMatch = segment.match(/closed\s+(?:on\s+)?(.+)/i);
+    if (closedMatch) {
+      parseDaySpec(closedMatch[1])?.forEach((day) => closedDays.add(day));
+      continue;
+    }
+
+    const rangeMatch = segment.match(TIME_RANGE_REGEX);
+    if (!rangeMatch) {
+      const days = parseDaySpec(segment);
+      if (days) pendingDays = [...(pendingDays ?? []), ...days];
+      continue;
+    }
+
+    const range = parseTimeRange(rangeMatch[1], rangeMatch[2]);
+    if (!range) continue;
+
+    const prefix = segment.slice(0, rangeMatch.index ?? 0);
+    const suffix = segment.slice((rangeMatch.index ?? 0) + rangeMatch[0].length);
+    // "Mon, Wed, Fri 9 AM-5 PM": days listed in earlier segments share this range.
+    const ownDays = parseDaySpec(prefix) ?? parseDaySpec(suffix);
+    const days = ownDays ? [...new Set([...(pendingDays ?? []), ...ownDays])] : pendingDays ?? ALL_DAYS;
+    pendingDays = null;
+
+    days.forEach((day) => periods.push({ day, open: range.open, close: range.close }));
+  }
+
+  const openPeriods = periods.filter((period) => !closedDays.has(period.day));
+  if (openPeriods.length === 0) return null;
+  return {
+    alwaysOpen: false,
+    periods: openPeriods.sort((a, b) => a.day - b.day || a.open - b.open),
+  };
+}
+
+export function isOpeningHours(value: unknown): value is OpeningHours {
+  if (!isRecord(value) || typeof value.alwaysOpen !== "boolean" || !Array.isArray(value.periods)) {
+    return false;
+  }
+  if (!value.alwaysOpen && value.periods.length === 0) return false;
+  return value.periods.every((period) => (
+    isRecord(period) &&
+    Number.isInteger(period.day) &&
+    (period.day as number) >= 0 &&
+    (period.day as number) <= 6 &&
+    isFiniteNumber(period.open) &&
+    isFiniteNumber(period.close) &&
+    period.open >= 0 &&
+    period.close > period.open
+  ));
+}
+
+function isClockMinutes(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0 && value < MINUTES_PER_DAY;
+}
+
+function isDurationMinutes(value: unknown): value is number {
+  return isFiniteNumber(value) && value >= 0;
+}
+
+// ---------------------------------------------------------------------------
+// Transport legs
+// ---------------------------------------------------------------------------
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Checks a transport leg from the planner or saved JSON. Legs without a known mode are
+ * dropped; times outside a day (or two, for arrivals) are cleared rather than trusted.
+ */
+export function normalizeTransportLeg(value: unknown): TransportLeg | null {
+  if (!isRecord(value) || !TRANSPORT_MODES.includes(value.mode as TransportMode)) return null;
+  const cost = optionalText(value.cost);
+  return {
+    mode: value.mode as TransportMode,
+    carrier: optionalText(value.carrier),
+    departurePlace: optionalText(value.departurePlace) ?? "",
+    arrivalPlace: optionalText(value.arrivalPlace) ?? "",
+    departureMinutes: isClockMinutes(value.departureMinutes) ? value.departureMinutes : null,
+    arrivalMinutes: isFiniteNumber(value.arrivalMinutes) && value.arrivalMinutes >= 0 && value.arrivalMinutes < MINUTES_PER_DAY * 2
+      ? value.arrivalMinutes
+      : null,
+    bookingRef: optionalText(value.bookingRef),
+    cost,
+    costRange: isMoneyRange(value.costRange) ? value.costRange : parseMoneyRange(cost),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Itinerary normalization
+// ---------------------------------------------------------------------------
+
+/**
+ * Fills in the structured fields on a stop. Valid structured values (e.g. emitted
+ * directly by the planner) win; otherwise they are parsed from the display text.
+ */
+export function normalizeStop(stop: Stop): Stop {
+  return {
+    ...stop,
+    startMinutes: isClockMinutes(stop.startMinutes) ? stop.startMinutes : parseClockTime(stop.time),
+    costRange: isMoneyRange(stop.costRange) ? stop.costRange : parseMoneyRange(stop.cost),
+    driveMinutes: isDurationMinutes(stop.driveMinutes) ? stop.driveMinutes : parseDurationMinutes(stop.driveFromPrev),
+    openingHours: isOpeningHours(stop.openingHours) ? stop.openingHours : parseOpeningHours(stop.hours),
+    ...(stop.transport !== undefined && { transport: normalizeTransportLeg(stop.transport) }),
+  };
+}
+
+export function normalizeDayPlan(day: DayPlan): DayPlan {
+  const stops = Array.isArray(day.stops) ? day.stops.filter(isRecord).map((stop) => normalizeStop(stop as Stop)) : [];
+  return {
+    ...day,
+    stops,
+    totalDrivingMinutes: isDurationMinutes(day.totalDrivingMinutes)
+      ? day.totalDrivingMinutes
+      : parseDurationMinutes(day.totalDriving),
+    estimatedCostRange: isMoneyRange(day.estimatedCostRange)
+      ? day.estimatedCostRange
+      : parseMoneyRange(day.estimatedCost),
+  };
+}
+
+/**
+ * Upgrades itinerary JSON (e.g. `trips.itinerary` saved before structured fields
+ * existed) to the current shape. Unknown or malformed days are dropped.
+ */
+export function normalizeItinerary(raw: unknown): DayPlan[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(isRecord).map((day) => normalizeDayPlan(day as unknown as DayPlan));
+}
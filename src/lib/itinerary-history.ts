@@ -0,0 +1,80 @@
+import type { DayPlan } from "@/data/demoTrip";
+import { applyItineraryOps, diffItinerary, type ItineraryOp } from "@/lib/itinerary-ops";
+
+/** Older steps are dropped first once the history is this long. */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * One undoable edit, kept as ops in both directions rather than as snapshots, so
+ * undoing it leaves changes made since (by collaborators, say) to other stops alone.
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  undo: ItineraryOp[];
+  redo: ItineraryOp[];
+}
+
+export interface ItineraryHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: ItineraryHistory = { past: [], future: [] };
+
+export interface HistoryStep {
+  entry: HistoryEntry;
+  history: ItineraryHistory;
+  itinerary: DayPlan[];
+}
+
+/** Records `before → after` as a new step and clears the redo stack. Edits that change nothing aren't recorded. */
+export function recordChange(
+  history: ItineraryHistory,
+  before: DayPlan[],
+  after: DayPlan[],
+  change: { id: string; label: string },
+  limit = HISTORY_LIMIT,
+): ItineraryHistory {
+  const redo = diffItinerary(before, after);
+  if (redo.length === 0) return history;
+  const entry: HistoryEntry = { ...change, undo: diffItinerary(after, before), redo };
+  return { past: [...history.past, entry].slice(-limit), future: [] };
+}
+
+export function undoStep(history: ItineraryHistory, itinerary: DayPlan[]): HistoryStep | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    itinerary: applyItineraryOps(itinerary, entry.undo),
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+  };
+}
+
+export function redoStep(history: ItineraryHistory, itinerary: DayPlan[]): HistoryStep | null {
+  const [entry, ...future] = history.future;
+  if (!entry) return null;
+  return {
+    entry,
+    itinerary: applyItineraryOps(itinerary, entry.redo),
+    history: { past: [...history.past, entry], future },
+  };
+}
+
+/** What the undo and redo controls need to know. */
+export interface HistoryAvailability {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+}
+
+export function historyAvailability(history: ItineraryHistory): HistoryAvailability {
+  return {
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[0]?.label,
+  };
+}
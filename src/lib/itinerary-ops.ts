@@ -0,0 +1,218 @@
+import type { DayPlan, Stop } from "@/data/demoTrip";
+
+/** Operation-level edits exchanged between collaborators on the same trip. */
+export type ItineraryOp =
+  | { type: "add-stop"; day: number; index: number; stop: Stop }
+  | { type: "delete-stop"; stopId: string }
+  | { type: "move-stop"; stopId: string; toDay: number; index: number }
+  | { type: "reorder-stops"; day: number; order: string[] }
+  /** Only the changed fields travel, so concurrent edits to different fields of a stop both survive. */
+  | { type: "update-stop"; stopId: string; fields: Partial<Stop>; removed?: string[] }
+  | { type: "update-day"; day: number; fields: Partial<Omit<DayPlan, "day" | "stops">> }
+  | { type: "replace-days"; days: DayPlan[] };
+
+/** Lamport timestamp; ties break on client id so every peer orders edits the same way. */
+export interface OpStamp {
+  clock: number;
+  clientId: string;
+}
+
+export interface ItineraryPatch extends OpStamp {
+  id: string;
+  ops: ItineraryOp[];
+}
+
+export function compareStamps(a: OpStamp, b: OpStamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.clientId < b.clientId ? -1 : a.clientId > b.clientId ? 1 : 0;
+}
+
+function clampIndex(index: number, length: number): number {
+  return Math.max(0, Math.min(Number.isFinite(index) ? index : length, length));
+}
+
+function withoutStop(days: DayPlan[], stopId: string): { days: DayPlan[]; removed: Stop | null } {
+  let removed: Stop | null = null;
+  const next = days.map((day) => {
+    const idx = day.stops.findIndex((stop) => stop.id === stopId);
+    if (idx < 0) return day;
+    removed = day.stops[idx];
+    return { ...day, stops: day.stops.filter((stop) => stop.id !== stopId) };
+  });
+  return { days: removed ? next : days, removed };
+}
+
+function insertStop(days: DayPlan[], dayNumber: number, index: number, stop: Stop): DayPlan[] {
+  return days.map((day) => {
+    if (day.day !== dayNumber) return day;
+    const stops = [...day.stops];
+    stops.splice(clampIndex(index, stops.length), 0, stop);
+    return { ...day, stops };
+  });
+}
+
+/** Applies one op; ops that reference stops or days that no longer exist are no-ops. */
+export function applyItineraryOp(days: DayPlan[], op: ItineraryOp): DayPlan[] {
+  switch (op.type) {
+    case "add-stop": {
+      if (days.some((day) => day.stops.some((stop) => stop.id === op.stop.id))) return days;
+      return insertStop(days, op.day, op.index, op.stop);
+    }
+    case "delete-stop":
+      return withoutStop(days, op.stopId).days;
+    case "move-stop": {
+      if (!days.some((day) => day.day === op.toDay)) return days;
+      const { days: remaining, removed } = withoutStop(days, op.stopId);
+      return removed ? insertStop(remaining, op.toDay, op.index, removed) : days;
+    }
+    case "reorder-stops":
+      return days.map((day) => {
+        if (day.day !== op.day) return day;
+        const lookup = new Map(day.stops.map((stop) => [stop.id, stop]));
+        const ordered = op.order.map((id) => lookup.get(id)).filter((stop): stop is Stop => Boolean(stop));
+        const seen = new Set(ordered.map((stop) => stop.id));
+        return { ...day, stops: [...ordered, ...day.stops.filter((stop) => !seen.has(stop.id))] };
+      });
+    case "update-stop": {
+      const removed = new Set(op.removed ?? []);
+      return days.map((day) => (
+        day.stops.some((stop) => stop.id === op.stopId)
+          ? {
+              ...day,
+              stops: day.stops.map((stop) => (
+                stop.id === op.stopId ? ({ ...withoutKeys(stop, removed), ...op.fields, id: op.stopId } as Stop) : stop
+              )),
+            }
+          : day
+      ));
+    }
+    case "update-day":
+      return days.map((day) => (day.day === op.day ? { ...day, ...op.fields } : day));
+    case "replace-days":
+      return op.days;
+    default:
+      return days;
+  }
+}
+
+export function applyItineraryOps(days: DayPlan[], ops: ItineraryOp[]): DayPlan[] {
+  return ops.reduce(applyItineraryOp, days);
+}
+
+// Routing output is recomputed by every client, so it is never sent as an edit of its own.
+// Geometry doesn't travel in a patch at all; leg times only ride along with other changes.
+const LOCAL_DAY_FIELDS = new Set(["route", "totalDriving", "totalDrivingMinutes"]);
+const LOCAL_STOP_FIELDS = new Set(["driveFromPrev", "driveMinutes", "distanceFromPrevMeters"]);
+
+function withoutLocalFields(day: DayPlan): DayPlan {
+  const { route: _route, ...shared } = day;
+  return shared;
+}
+
+function withoutKeys<T extends object>(value: T, keys: Set<string>): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([key]) => !keys.has(key))) as Partial<T>;
+}
+
+/** The itinerary as stored: without route geometry, which is recomputed when the trip opens. */
+export function withoutRouteGeometry(days: DayPlan[]): DayPlan[] {
+  return days.map(withoutLocalFields);
+}
+
+/** The itinerary without routing output, e.g. to tell whether the user changed anything. */
+export function withoutRoutingFields(days: DayPlan[]): Partial<DayPlan>[] {
+  return days.map((day) => ({
+    ...withoutKeys(day, LOCAL_DAY_FIELDS),
+    stops: day.stops.map((stop) => withoutKeys(stop, LOCAL_STOP_FIELDS) as Stop),
+  }));
+}
+
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Expresses the change from `prev` to `next` as ops. Adding or removing days
+ * renumbers everything, so those fall back to a single `replace-days`.
+ */
+export function diffItinerary(prev: DayPlan[], next: DayPlan[]): ItineraryOp[] {
+  if (prev === next) return [];
+  if (prev.length !== next.length || prev.some((day, idx) => day.day !== next[idx].day)) {
+    return [{ type: "replace-days", days: next.map(withoutLocalFields) }];
+  }
+
+  const prevLocation = new Map<string, { day: number; stop: Stop }>();
+  prev.forEach((day) => day.stops.forEach((stop) => prevLocation.set(stop.id, { day: day.day, stop })));
+  const nextIds = new Set(next.flatMap((day) => day.stops.map((stop) => stop.id)));
+
+  const ops: ItineraryOp[] = [];
+  prevLocation.forEach((_, stopId) => {
+    if (!nextIds.has(stopId)) ops.push({ type: "delete-stop", stopId });
+  });
+
+  next.forEach((day) => {
+    day.stops.forEach((stop, index) => {
+      const before = prevLocation.get(stop.id);
+      if (!before) {
+        ops.push({ type: "add-stop", day: day.day, index, stop });
+      } else if (before.day !== day.day) {
+        ops.push({ type: "move-stop", stopId: stop.id, toDay: day.day, index });
+      }
+    });
+  });
+
+  const interim = applyItineraryOps(prev, ops);
+  next.forEach((day, idx) => {
+    const order = day.stops.map((stop) => stop.id);
+    if (!sameJson(order, interim[idx].stops.map((stop) => stop.id))) {
+      ops.push({ type: "reorder-stops", day: day.day, order });
+    }
+  });
+
+  next.forEach((day) => {
+    day.stops.forEach((stop) => {
+      const before = prevLocation.get(stop.id);
+      if (!before) return;
+      const prevFields = before.stop as unknown as Record<string, unknown>;
+      const nextFields = stop as unknown as Record<string, unknown>;
+      // Patches travel as JSON, so a field set to undefined is sent as removed.
+      const fields = Object.fromEntries(
+        Object.entries(nextFields).filter(([key, value]) => (
+          value !== undefined && !LOCAL_STOP_FIELDS.has(key) && !sameJson(value, prevFields[key])
+        )),
+      ) as Partial<Stop>;
+      const removed = Object.keys(prevFields).filter((key) => (
+        !LOCAL_STOP_FIELDS.has(key) && prevFields[key] !== undefined && nextFields[key] === undefined
+      ));
+      if (Object.keys(fields).length === 0 && removed.length === 0) return;
+      ops.push({ type: "update-stop", stopId: stop.id, fields, ...(removed.length > 0 && { removed }) });
+    });
+  });
+
+  next.forEach((day, idx) => {
+    const { stops: _nextStops, day: _nextDay, ...nextFields } = day;
+    const { stops: _prevStops, day: _prevDay, ...prevFields } = prev[idx];
+    const fields = Object.fromEntries(
+      Object.entries(nextFields).filter(([key, value]) => (
+        !LOCAL_DAY_FIELDS.has(key) && !sameJson(value, (prevFields as Record<string, unknown>)[key])
+      )),
+    );
+    if (Object.keys(fields).length > 0) ops.push({ type: "update-day", day: day.day, fields });
+  });
+
+  return ops;
+}
+
+/**
+ * Last-writer-wins for concurrent moves of the same stop: a remote move is
+ * dropped when a later (by stamp) move of that stop has already been applied.
+ * `moveStamps` records the winning stamp per stop and is updated in place.
+ */
+export function resolveMoveConflicts(ops: ItineraryOp[], stamp: OpStamp, moveStamps: Map<string, OpStamp>): ItineraryOp[] {
+  return ops.filter((op) => {
+    if (op.type !== "move-stop") return true;
+    const current = moveStamps.get(op.stopId);
+    if (current && compareStamps(stamp, current) < 0) return false;
+    moveStamps.set(op.stopId, stamp);
+    return true;
+  });
+}
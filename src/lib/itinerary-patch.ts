@@ -0,0 +1,206 @@
+import type { DayPlan, Stop } from "@/data/demoTrip";
+import { normalizeStop } from "@/lib/itinerary-fields";
+import { applyItineraryOps, type ItineraryOp } from "@/lib/itinerary-ops";
+
+/** One targeted edit proposed by the planner; the user accepts or rejects each one. */
+export type ItineraryChange =
+  | { id: string; type: "add-stop"; day: number; index: number; stop: Stop; reason: string }
+  | { id: string; type: "remove-stop"; day: number; stopId: string; reason: string }
+  | { id: string; type: "replace-stop"; day: number; stopId: string; stop: Stop; reason: string }
+  | { id: string; type: "move-stop"; stopId: string; fromDay: number; toDay: number; index: number; reason: string }
+  | { id: string; type: "retitle-day"; day: number; title: string; subtitle?: string; reason: string };
+
+export interface AdjustmentPatch {
+  summary: string;
+  changes: ItineraryChange[];
+}
+
+export function asRecord(value: unknown): Record<string, unknown> | null {
+  return typeof value === "object" && value !== null ? (value as Record<string, unknown>) : null;
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function position(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.floor(value)) : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * New stops need a name and coordinates. Only known stop fields are kept, so stray keys from
+ * the model never reach the itinerary; structured fields are parsed from the display text.
+ */
+export function parseStop(value: unknown, id: string): Stop | null {
+  const stop = asRecord(value);
+  const name = text(stop?.name);
+  if (!stop || !name || !Number.isFinite(stop.lat) || !Number.isFinite(stop.lng)) return null;
+  const driveFromPrev = text(stop.driveFromPrev);
+  const address = text(stop.address);
+  const imageUrl = text(stop.imageUrl);
+  return normalizeStop({
+    id,
+    time: text(stop.time),
+    name,
+    description: text(stop.description),
+    hours: text(stop.hours),
+    cost: text(stop.cost),
+    lat: stop.lat as number,
+    lng: stop.lng as number,
+    tags: Array.isArray(stop.tags) ? stop.tags.filter((tag): tag is string => typeof tag === "string") : [],
+    ...(driveFromPrev && { driveFromPrev }),
+    ...(address && { address }),
+    ...(/^https?:\/\//i.test(imageUrl) && { imageUrl }),
+    // normalizeStop keeps these only when they are well formed.
+    startMinutes: stop.startMinutes as Stop["startMinutes"],
+    costRange: stop.costRange as Stop["costRange"],
+    openingHours: stop.openingHours as Stop["openingHours"],
+    ...(stop.transport !== undefined && { transport: stop.transport as Stop["transport"] }),
+  });
+}
+
+/**
+ * Validates a patch from `generate-itinerary` against the itinerary it was made for. Changes
+ * that reference unknown days or stops are dropped, and new stops get ids that cannot collide.
+ */
+export function parseAdjustmentPatch(raw: unknown, itinerary: DayPlan[]): AdjustmentPatch {
+  const patch = asRecord(raw);
+  const days = new Set(itinerary.map((day) => day.day));
+  const stopDay = new Map<string, number>();
+  itinerary.forEach((day) => day.stops.forEach((stop) => stopDay.set(stop.id, day.day)));
+  const usedIds = new Set(stopDay.keys());
+
+  const freshId = (day: number) => {
+    let n = 1;
+    while (usedIds.has(`d${day}a${n}`)) n += 1;
+    const id = `d${day}a${n}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  const changes: ItineraryChange[] = [];
+  (Array.isArray(patch?.changes) ? patch.changes : []).forEach((value, idx) => {
+    const change = asRecord(value);
+    if (!change) return;
+    const id = `change-${idx}`;
+    const reason = text(change.reason);
+    const stopId = text(change.stopId);
+    const day = Number(change.day);
+
+    switch (change.type) {
+      case "add-stop": {
+        if (!days.has(day)) return;
+        const stop = parseStop(change.stop, freshId(day));
+        if (stop) changes.push({ id, type: "add-stop", day, index: position(change.position), stop, reason });
+        return;
+      }
+      case "remove-stop": {
+        const from = stopDay.get(stopId);
+        if (from !== undefined) changes.push({ id, type: "remove-stop", day: from, stopId, reason });
+        return;
+      }
+      case "replace-stop": {
+        const from = stopDay.get(stopId);
+        if (from === undefined) return;
+        const stop = parseStop(change.stop, freshId(from));
+        if (stop) changes.push({ id, type: "replace-stop", day: from, stopId, stop, reason });
+        return;
+      }
+      case "move-stop": {
+        const from = stopDay.get(stopId);
+        const toDay = Number(change.toDay);
+        if (from === undefined || !days.has(toDay)) return;
+        changes.push({ id, type: "move-stop", stopId, fromDay: from, toDay, index: position(change.position), reason });
+        return;
+      }
+      case "retitle-day": {
+        const title = text(change.title);
+        if (!days.has(day) || !title) return;
+        changes.push({ id, type: "retitle-day", day, title, subtitle: text(change.subtitle) || undefined, reason });
+        return;
+      }
+    }
+  });
+
+  return { summary: text(patch?.summary), changes };
+}
+
+/**
+ * What the planner reads of the current itinerary when proposing changes: day and stop
+ * references plus enough to place them. Route geometry and display fields stay behind.
+ */
+export function outlineForPlanner(days: DayPlan[]) {
+  return days.map((day) => ({
+    day: day.day,
+    title: day.title,
+    subtitle: day.subtitle,
+    stops: day.stops.map((stop) => ({ id: stop.id, time: stop.time, name: stop.name, lat: stop.lat, lng: stop.lng, tags: stop.tags })),
+  }));
+}
+
+/** Translates a change into the same ops collaborators exchange, resolved against `days`. */
+export function changeToOps(days: DayPlan[], change: ItineraryChange): ItineraryOp[] {
+  switch (change.type) {
+    case "add-stop":
+      return [{ type: "add-stop", day: change.day, index: change.index, stop: change.stop }];
+    case "remove-stop":
+      return [{ type: "delete-stop", stopId: change.stopId }];
+    case "replace-stop": {
+      const day = days.find((item) => item.stops.some((stop) => stop.id === change.stopId));
+      if (!day) return [];
+      const index = day.stops.findIndex((stop) => stop.id === change.stopId);
+      return [
+        { type: "delete-stop", stopId: change.stopId },
+        { type: "add-stop", day: day.day, index, stop: change.stop },
+      ];
+    }
+    case "move-stop":
+      return [{ type: "move-stop", stopId: change.stopId, toDay: change.toDay, index: change.index }];
+    case "retitle-day":
+      return [{
+        type: "update-day",
+        day: change.day,
+        fields: change.subtitle ? { title: change.title, subtitle: change.subtitle } : { title: change.title },
+      }];
+  }
+}
+
+/** Applies changes in order; ones whose stop has since disappeared are skipped. */
+export function applyItineraryChanges(days: DayPlan[], changes: ItineraryChange[]): DayPlan[] {
+  return changes.reduce((current, change) => applyItineraryOps(current, changeToOps(current, change)), days);
+}
+
+/** Day numbers a set of changes touches, in order. */
+export function affectedDays(changes: ItineraryChange[]): number[] {
+  const touched = new Set<number>();
+  changes.forEach((change) => {
+    if (change.type === "move-stop") {
+      touched.add(change.fromDay);
+      touched.add(change.toDay);
+    } else {
+      touched.add(change.day);
+    }
+  });
+  return [...touched].sort((a, b) => a - b);
+}
+
+/** A one-line, traveler-facing label for a change, e.g. "Replace Pike Place Market with Ballard Locks". */
+export function describeChange(change: ItineraryChange, itinerary: DayPlan[]): string {
+  const stopName = (stopId: string) =>
+    itinerary.flatMap((day) => day.stops).find((stop) => stop.id === stopId)?.name ?? "a stop";
+
+  switch (change.type) {
+    case "add-stop":
+      return `Add ${change.stop.name} to Day ${change.day}`;
+    case "remove-stop":
+      return `Remove ${stopName(change.stopId)} from Day ${change.day}`;
+    case "replace-stop":
+      return `Replace ${stopName(change.stopId)} with ${change.stop.name}`;
+    case "move-stop":
+      return change.fromDay === change.toDay
+        ? `Reorder ${stopName(change.stopId)} within Day ${change.toDay}`
+        : `Move ${stopName(change.stopId)} from Day ${change.fromDay} to Day ${change.toDay}`;
+    case "retitle-day":
+      return `Rename Day ${change.day} to "${change.title}"`;
+  }
+}
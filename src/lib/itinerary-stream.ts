@@ -0,0 +1,89 @@
+import type { DayPlan } from "@/data/demoTrip";
+
+export type GenerationPhase = "locating" | "drafting" | "checking" | "retrying";
+
+export interface GenerationProgress {
+  phase: GenerationPhase;
+  message: string;
+  completedDays: number;
+  totalDays: number;
+}
+
+export interface ItineraryStreamHandlers {
+  onProgress?: (progress: GenerationProgress) => void;
+  /** A validated day, in order; `index` is its position in the itinerary. */
+  onDay?: (day: DayPlan, index: number) => void;
+  /** The server discarded its draft from `fromIndex` on and is redrafting it; drop those days. */
+  onReset?: (reason: string, fromIndex: number) => void;
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/** Splits buffered `text/event-stream` text into complete events plus the unfinished remainder. */
+export function parseServerSentEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, "\n").split("\n\n");
+  const rest = blocks.pop() ?? "";
+  const events: ServerSentEvent[] = [];
+
+  for (const block of blocks) {
+    let event = "message";
+    const data: string[] = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith(":")) continue;
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+      if (field === "event") event = value;
+      else if (field === "data") data.push(value);
+    }
+    if (data.length > 0) events.push({ event, data: data.join("\n") });
+  }
+
+  return { events, rest };
+}
+
+/** Reads a `generate-itinerary` event stream to the end and returns the final itinerary. */
+export async function readItineraryStream(response: Response, handlers: ItineraryStreamHandlers = {}): Promise<DayPlan[]> {
+  if (!response.body) throw new Error("The itinerary stream could not be opened.");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+    const { events, rest } = parseServerSentEvents(done ? `${buffer}\n\n` : buffer);
+    buffer = rest;
+
+    for (const { event, data } of events) {
+      const payload = JSON.parse(data);
+      switch (event) {
+        case "progress":
+          handlers.onProgress?.(payload as GenerationProgress);
+          break;
+        case "day":
+          handlers.onDay?.(payload.day as DayPlan, payload.index as number);
+          break;
+        case "reset":
+          handlers.onReset?.(
+            typeof payload.reason === "string" ? payload.reason : "",
+            typeof payload.fromIndex === "number" ? payload.fromIndex : 0,
+          );
+          break;
+        case "done":
+          await reader.cancel();
+          return Array.isArray(payload.itinerary) ? (payload.itinerary as DayPlan[]) : [];
+        case "error":
+          await reader.cancel();
+          throw new Error(typeof payload.error === "string" ? payload.error : "Something went wrong. Please try again.");
+      }
+    }
+
+    if (done) break;
+  }
+
+  throw new Error("The itinerary stream ended before the plan was finished.");
+}
@@ -0,0 +1,133 @@
+import type { DayPlan, TripConfig, TripSession } from "@/data/demoTrip";
+import { mergeTripMutations, type TripMutation } from "@/lib/trip-sync-queue";
+
+const DB_NAME = "roamly-offline";
+const DB_VERSION = 1;
+const TRIPS_STORE = "trips";
+const MUTATIONS_STORE = "mutations";
+/** Unsaved drafts older than this are dropped the next time the app starts. */
+export const DRAFT_MAX_AGE_MS = 14 * 24 * 60 * 60 * 1000;
+
+/** The workspace as last seen on this device, so a refresh or lost connection doesn't lose edits. */
+export interface LocalTrip {
+  /** `trip:<id>` for saved trips, `draft:<history key>` for ones that were never saved. */
+  key: string;
+  tripId?: string;
+  tripConfig: TripConfig;
+  itinerary: DayPlan[];
+  preferences?: { interests: string[]; pace: string; mustSees: string };
+  session: TripSession;
+  savedAt: number;
+  /** `updated_at` of the server row this copy is based on. */
+  serverUpdatedAt: string | null;
+  /** True while the copy has edits that haven't been saved or queued. */
+  dirty: boolean;
+}
+
+export function localTripKey(tripId: string | undefined, draftId = ""): string {
+  return tripId ? `trip:${tripId}` : `draft:${draftId}`;
+}
+
+/**
+ * Picks which copy to open with. Drafts only exist locally. For saved trips the local
+ * copy wins when it's based on a newer row than the one being opened (it was saved from
+ * this device since), or on the same row with edits on top; otherwise the server's does.
+ */
+export function shouldRestoreLocalTrip(local: LocalTrip | null, serverUpdatedAt: string | null | undefined): boolean {
+  if (!local || local.itinerary.length === 0) return false;
+  if (!local.tripId) return true;
+  if (!serverUpdatedAt) return local.dirty;
+  if (!local.serverUpdatedAt) return false;
+  const localBase = Date.parse(local.serverUpdatedAt);
+  const openedBase = Date.parse(serverUpdatedAt);
+  return localBase > openedBase || (localBase === openedBase && local.dirty);
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(TRIPS_STORE)) db.createObjectStore(TRIPS_STORE, { keyPath: "key" });
+      if (!db.objectStoreNames.contains(MUTATIONS_STORE)) {
+        db.createObjectStore(MUTATIONS_STORE, { keyPath: "id", autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.error("Couldn't open offline storage:", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+/** Runs one request against a store; resolves with null when IndexedDB isn't available. */
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getLocalTrip(key: string): Promise<LocalTrip | null> {
+  return (await run<LocalTrip | undefined>(TRIPS_STORE, "readonly", (store) => store.get(key))) ?? null;
+}
+
+export async function putLocalTrip(trip: LocalTrip): Promise<void> {
+  await run(TRIPS_STORE, "readwrite", (store) => store.put(trip));
+}
+
+/** Updates fields on a stored trip; does nothing if there is no copy of it. */
+export async function patchLocalTrip(key: string, patch: Partial<Omit<LocalTrip, "key">>): Promise<void> {
+  const current = await getLocalTrip(key);
+  if (current) await putLocalTrip({ ...current, ...patch });
+}
+
+export async function deleteLocalTrip(key: string): Promise<void> {
+  await run(TRIPS_STORE, "readwrite", (store) => store.delete(key));
+}
+
+export async function pruneLocalDrafts(maxAgeMs = DRAFT_MAX_AGE_MS): Promise<void> {
+  const trips = (await run<LocalTrip[]>(TRIPS_STORE, "readonly", (store) => store.getAll())) ?? [];
+  const cutoff = Date.now() - maxAgeMs;
+  await Promise.all(
+    trips.filter((trip) => !trip.tripId && trip.savedAt < cutoff).map((trip) => deleteLocalTrip(trip.key)),
+  );
+}
+
+export async function listTripMutations(): Promise<TripMutation[]> {
+  return (await run<TripMutation[]>(MUTATIONS_STORE, "readonly", (store) => store.getAll())) ?? [];
+}
+
+/** Queues a save, merging it into one already waiting for the same trip. */
+export async function enqueueTripMutation(mutation: TripMutation): Promise<void> {
+  const queued = (await listTripMutations()).find((item) => item.tripId === mutation.tripId);
+  await putTripMutation(queued ? mergeTripMutations(queued, mutation) : mutation);
+}
+
+export async function putTripMutation(mutation: TripMutation): Promise<void> {
+  await run(MUTATIONS_STORE, "readwrite", (store) => store.put(mutation));
+}
+
+export async function deleteTripMutation(id: number | undefined): Promise<void> {
+  if (id === undefined) return;
+  await run(MUTATIONS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+/** Forgets every trip and queued save on this device, e.g. when signing out. */
+export async function clearOfflineTrips(): Promise<void> {
+  await run(TRIPS_STORE, "readwrite", (store) => store.clear());
+  await run(MUTATIONS_STORE, "readwrite", (store) => store.clear());
+}
@@ -0,0 +1,242 @@
+import type { DayPlan, DayRoute, RoutingProfile } from "@/data/demoTrip";
+import { formatDurationMinutes } from "@/lib/itinerary-fields";
+import { getMapboxToken } from "@/lib/mapbox";
+
+export type LngLat = [number, number];
+
+export interface RouteLeg {
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+export interface RouteResult {
+  coordinates: LngLat[];
+  legs: RouteLeg[];
+}
+
+export interface RoutingProvider {
+  id: string;
+  route: (points: LngLat[], profile: RoutingProfile) => Promise<RouteResult>;
+}
+
+type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const MAPBOX_MAX_WAYPOINTS = 25;
+
+// Neither Mapbox nor OSRM route public transit, so transit legs use the street
+// network for walking between stations. Only the geometry is kept for them; see
+// `applyRouteToDay`.
+const MAPBOX_PROFILES: Record<RoutingProfile, string> = {
+  driving: "driving",
+  walking: "walking",
+  transit: "walking",
+};
+
+const OSRM_PROFILES: Record<RoutingProfile, string> = {
+  driving: "driving",
+  walking: "foot",
+  transit: "foot",
+};
+
+const LEG_VERBS: Record<RoutingProfile, string> = {
+  driving: "drive",
+  walking: "walk",
+  transit: "transit",
+};
+
+export function routingProfileForMode(mode: string | undefined): RoutingProfile {
+  const value = mode?.toLowerCase() ?? "";
+  if (value.includes("car") || value.includes("drive") || value.includes("road")) return "driving";
+  if (value.includes("walk") || value.includes("foot")) return "walking";
+  return "transit";
+}
+
+function chunkWaypoints(points: LngLat[], size: number): LngLat[][] {
+  if (points.length <= size) return [points];
+  const chunks: LngLat[][] = [];
+  for (let start = 0; start < points.length - 1; start += size - 1) {
+    chunks.push(points.slice(start, start + size));
+  }
+  return chunks;
+}
+
+function readDirectionsResponse(data: unknown, provider: string): RouteResult {
+  const route = (data as { routes?: { geometry?: { coordinates?: LngLat[] }; legs?: { distance?: number; duration?: number }[] }[] })
+    ?.routes?.[0];
+  if (!route?.geometry?.coordinates || !Array.isArray(route.legs)) {
+    throw new Error(`${provider} returned no route`);
+  }
+  return {
+    coordinates: route.geometry.coordinates,
+    legs: route.legs.map((leg) => ({
+      distanceMeters: Number(leg.distance) || 0,
+      durationSeconds: Number(leg.duration) || 0,
+    })),
+  };
+}
+
+function mergeRoutes(parts: RouteResult[]): RouteResult {
+  return parts.reduce<RouteResult>(
+    (merged, part, idx) => ({
+      coordinates: [...merged.coordinates, ...(idx === 0 ? part.coordinates : part.coordinates.slice(1))],
+      legs: [...merged.legs, ...part.legs],
+    }),
+    { coordinates: [], legs: [] },
+  );
+}
+
+export function createMapboxRoutingProvider(
+  getToken: () => Promise<string> = getMapboxToken,
+  fetchImpl: FetchLike = (input, init) => fetch(input, init),
+): RoutingProvider {
+  return {
+    id: "mapbox",
+    route: async (points, profile) => {
+      const token = await getToken();
+      const parts = await Promise.all(
+        chunkWaypoints(points, MAPBOX_MAX_WAYPOINTS).map(async (chunk) => {
+          const path = chunk.map(([lng, lat]) => `${lng},${lat}`).join(";");
+          const params = new URLSearchParams({ access_token: token, geometries: "geojson", overview: "full" });
+          const response = await fetchImpl(
+            `https://api.mapbox.com/directions/v5/mapbox/${MAPBOX_PROFILES[profile]}/${path}?${params.toString()}`,
+          );
+          if (!response.ok) throw new Error(`Mapbox directions failed (${response.status})`);
+          return readDirectionsResponse(await response.json(), "Mapbox");
+        }),
+      );
+      return mergeRoutes(parts);
+    },
+  };
+}
+
+/** Provider for any OSRM-compatible `/route/v1` server, e.g. a local stand-in. */
+export function createOsrmRoutingProvider(
+  baseUrl: string,
+  fetchImpl: FetchLike = (input, init) => fetch(input, init),
+): RoutingProvider {
+  const root = baseUrl.replace(/\/+$/, "");
+  return {
+    id: "osrm",
+    route: async (points, profile) => {
+      const path = points.map(([lng, lat]) => `${lng},${lat}`).join(";");
+      const response = await fetchImpl(
+        `${root}/route/v1/${OSRM_PROFILES[profile]}/${path}?overview=full&geometries=geojson`,
+      );
+      if (!response.ok) throw new Error(`OSRM route failed (${response.status})`);
+      const data = await response.json();
+      if (data?.code && data.code !== "Ok") throw new Error(`OSRM route failed (${data.code})`);
+      return readDirectionsResponse(data, "OSRM");
+    },
+  };
+}
+
+let activeProvider: RoutingProvider | null = null;
+
+export function getRoutingProvider(): RoutingProvider {
+  if (activeProvider) return activeProvider;
+  const osrmUrl = import.meta.env.VITE_ROUTING_OSRM_URL as string | undefined;
+  activeProvider = osrmUrl ? createOsrmRoutingProvider(osrmUrl) : createMapboxRoutingProvider();
+  return activeProvider;
+}
+
+export function setRoutingProvider(provider: RoutingProvider | null) {
+  activeProvider = provider;
+}
+
+/** Identifies the stop coordinates a route was computed for, so stale routes can be detected. */
+export function routeSignature(day: Pick<DayPlan, "stops">, profile: RoutingProfile): string {
+  return `${profile}|${day.stops.map((stop) => `${stop.lat.toFixed(5)},${stop.lng.toFixed(5)}`).join(";")}`;
+}
+
+export function hasCurrentRoute(day: DayPlan, profile: RoutingProfile): boolean {
+  return Boolean(day.route && day.route.signature === routeSignature(day, profile));
+}
+
+export async function routeDay(
+  day: DayPlan,
+  profile: RoutingProfile,
+  provider: RoutingProvider = getRoutingProvider(),
+): Promise<RouteResult | null> {
+  if (day.stops.length < 2) return null;
+  return provider.route(day.stops.map((stop) => [stop.lng, stop.lat]), profile);
+}
+
+/**
+ * Writes routed geometry plus leg durations back into the day's stops and totals.
+ * Durations come from the route only where the provider routed the labelled profile.
+ */
+export function applyRouteToDay(day: DayPlan, route: RouteResult, profile: RoutingProfile, providerId: string): DayPlan {
+  let totalMinutes = 0;
+  const stops = day.stops.map((stop, idx) => {
+    // Transport legs keep their own schedule; only driven ones take the routed time.
+    if (idx === 0 || (stop.transport && stop.transport.mode !== "drive")) return stop;
+    const leg = route.legs[idx - 1];
+    if (!leg) return stop;
+    // A walking route's duration says nothing about a bus or metro ride, so transit
+    // legs are timed with the same estimate used before routing.
+    const minutes = profile === "transit"
+      ? Math.max(1, estimateTravelMinutes(day.stops[idx - 1], stop, "transit"))
+      : Math.max(1, Math.round(leg.durationSeconds / 60));
+    totalMinutes += minutes;
+    return {
+      ...stop,
+      driveMinutes: minutes,
+      driveFromPrev: `${formatDurationMinutes(minutes)} ${LEG_VERBS[profile]}`,
+      distanceFromPrevMeters: Math.round(leg.distanceMeters),
+    };
+  });
+
+  const dayRoute: DayRoute = {
+    profile,
+    provider: providerId,
+    signature: routeSignature(day, profile),
+    coordinates: route.coordinates,
+    distanceMeters: Math.round(route.legs.reduce((sum, leg) => sum + leg.distanceMeters, 0)),
+  };
+
+  return {
+    ...day,
+    stops,
+    totalDrivingMinutes: totalMinutes,
+    totalDriving: formatDurationMinutes(totalMinutes),
+    route: dayRoute,
+  };
+}
+
+// Rough door-to-door speeds used when no routed legs are available (e.g. while optimizing).
+const ESTIMATE_SPEED_KMH: Record<RoutingProfile, number> = {
+  driving: 30,
+  walking: 4.8,
+  transit: 18,
+};
+const DETOUR_FACTOR = 1.3;
+const TRANSIT_OVERHEAD_MINUTES = 6;
+
+export function haversineKm(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (value: number) => value * (Math.PI / 180);
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return 6371 * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+export function estimateTravelMinutes(
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number },
+  profile: RoutingProfile,
+): number {
+  const km = haversineKm(a, b) * DETOUR_FACTOR;
+  if (km < 0.05) return 0;
+  const minutes = (km / ESTIMATE_SPEED_KMH[profile]) * 60;
+  return Math.round(profile === "transit" ? minutes + TRANSIT_OVERHEAD_MINUTES : minutes);
+}
+
+const ROUTING_RETRY_BASE_MS = 30_000;
+const ROUTING_RETRY_MAX_MS = 10 * 60_000;
+
+/** How long to wait before routing a day again after `attempts` failures in a row. */
+export function routingRetryDelayMs(attempts: number): number {
+  return Math.min(ROUTING_RETRY_MAX_MS, ROUTING_RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
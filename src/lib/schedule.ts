@@ -0,0 +1,106 @@
+import type { DayPlan, OpeningHours, Stop } from "@/data/demoTrip";
+import { categorizeStop } from "@/lib/budget";
+import { formatClockTime, parseClockTime, parseOpeningHours } from "@/lib/itinerary-fields";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const DEFAULT_DAY_START_MINUTES = 9 * 60 + 30;
+
+export interface OpenWindow {
+  open: number;
+  close: number;
+}
+
+/** Weekday (0 = Sunday) of a 1-based trip day, or null when the trip has no start date. */
+export function tripDayWeekday(startDate: string | undefined, dayNumber: number): number | null {
+  const match = startDate?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + dayNumber - 1));
+  return Number.isNaN(date.getTime()) ? null : date.getUTCDay();
+}
+
+/**
+ * Windows (minutes since midnight) in which a venue is open on `weekday`,
+ * including the tail of the previous night's late closing. With no weekday,
+ * every day's windows are considered.
+ */
+export function openWindowsOn(hours: OpeningHours, weekday: number | null): OpenWindow[] {
+  if (hours.alwaysOpen) return [{ open: 0, close: MINUTES_PER_DAY }];
+
+  const windows: OpenWindow[] = [];
+  hours.periods.forEach((period) => {
+    if (weekday === null || period.day === weekday) {
+      windows.push({ open: period.open, close: period.close });
+    }
+    if (weekday !== null && period.day === (weekday + 6) % 7 && period.close > MINUTES_PER_DAY) {
+      windows.push({ open: 0, close: period.close - MINUTES_PER_DAY });
+    }
+  });
+  return windows.sort((a, b) => a.open - b.open);
+}
+
+/** How long a visit typically lasts, so schedules can check the stop is still open on departure. */
+export function estimateDwellMinutes(stop: Pick<Stop, "name" | "tags">): number {
+  return categorizeStop(stop) === "food" ? 60 : 90;
+}
+
+export type HoursConflictKind = "closed" | "before-open" | "after-close" | "closes-during-visit";
+
+export interface HoursConflict {
+  stopId: string;
+  kind: HoursConflictKind;
+  message: string;
+  /** Nearest start time (minutes) that fits the visit inside opening hours, if any. */
+  suggestedMinutes: number | null;
+}
+
+function describeWindow(window: OpenWindow): string {
+  return `${formatClockTime(window.open)}–${formatClockTime(window.close)}`;
+}
+
+/** Checks one stop's scheduled visit (start plus dwell) against its opening hours on `weekday`. */
+export function checkStopHours(stop: Stop, weekday: number | null): HoursConflict | null {
+  const start = stop.startMinutes ?? parseClockTime(stop.time);
+  const hours = stop.openingHours ?? parseOpeningHours(stop.hours);
+  if (start === null || !hours || hours.alwaysOpen) return null;
+
+  const windows = openWindowsOn(hours, weekday);
+  if (windows.length === 0) {
+    return { stopId: stop.id, kind: "closed", message: "Closed this day", suggestedMinutes: null };
+  }
+
+  const dwell = estimateDwellMinutes(stop);
+  if (windows.some((window) => start >= window.open && start + dwell <= window.close)) return null;
+
+  const fitting = windows.filter((window) => window.close - window.open >= dwell);
+  const nearest = fitting
+    .map((window) => Math.min(Math.max(start, window.open), window.close - dwell))
+    .sort((a, b) => Math.abs(a - start) - Math.abs(b - start))[0];
+  const suggestedMinutes = nearest === undefined ? null : nearest;
+
+  const containing = windows.find((window) => start >= window.open && start < window.close);
+  if (containing) {
+    return {
+      stopId: stop.id,
+      kind: "closes-during-visit",
+      message: `Closes at ${formatClockTime(containing.close)}, before a ${dwell}m visit ends`,
+      suggestedMinutes,
+    };
+  }
+
+  const later = windows.find((window) => window.open > start);
+  return later
+    ? { stopId: stop.id, kind: "before-open", message: `Opens at ${formatClockTime(later.open)}`, suggestedMinutes }
+    : {
+      stopId: stop.id,
+      kind: "after-close",
+      message: `Closed by then (open ${windows.map(describeWindow).join(", ")})`,
+      suggestedMinutes,
+    };
+}
+
+export function validateDayHours(day: Pick<DayPlan, "stops">, weekday: number | null): HoursConflict[] {
+  return day.stops
+    .map((stop) => checkStopHours(stop, weekday))
+    .filter((conflict): conflict is HoursConflict => Boolean(conflict));
+}
@@ -0,0 +1,14 @@
+/** Registers `public/sw.js`, which caches the app shell and trip reads for offline use. */
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator)) return;
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((err) => {
+      console.error("Service worker registration failed:", err);
+    });
+  });
+}
+
+/** Drops cached trip responses so the next account on this device can't read them offline. */
+export function clearServiceWorkerTripCache() {
+  navigator.serviceWorker?.controller?.postMessage({ type: "clear-trip-cache" });
+}
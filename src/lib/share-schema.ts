@@ -0,0 +1,223 @@
+import { z } from "zod";
+import { TRANSPORT_MODES, type ChatMessage, type DayPlan, type StayOption, type TripConfig } from "@/data/demoTrip";
+import { CHAT_HISTORY_LIMIT } from "@/lib/trip-session";
+import { MAX_LEG_NIGHTS, MAX_TRIP_LEGS } from "@/lib/trip-legs";
+
+/**
+ * Runtime schema for share link payloads. Links arrive from outside the app
+ * (pasted URLs, stored snapshots), so everything is bounded and unknown keys
+ * are stripped before the workspace sees it.
+ */
+
+export const SHARE_LIMITS = {
+  days: 30,
+  stopsPerDay: 40,
+  stays: 20,
+  tags: 20,
+  routePoints: 5000,
+  openingPeriods: 50,
+} as const;
+
+export type ShareLinkErrorReason = "corrupt" | "unsupported" | "invalid" | "not-found" | "expired" | "revoked";
+
+export class ShareLinkError extends Error {
+  readonly reason: ShareLinkErrorReason;
+
+  constructor(reason: ShareLinkErrorReason, message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+    this.reason = reason;
+  }
+}
+
+const text = (max: number) => z.string().max(max);
+const latitude = z.number().finite().min(-90).max(90);
+const longitude = z.number().finite().min(-180).max(180);
+const finite = z.number().finite();
+// Colors end up in inline styles and map URLs, so only plain hex or hsl() values are allowed.
+const dayColor = z
+  .string()
+  .max(40)
+  .regex(/^(#[0-9a-fA-F]{3,8}|hsla?\(\s*[\d.]+(deg)?\s*,\s*[\d.]+%\s*,\s*[\d.]+%\s*(,\s*[\d.]+\s*)?\))$/);
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const webUrl = z.string().max(2000).url().refine((value) => /^https?:\/\//i.test(value), "Only http(s) URLs are allowed");
+
+const moneyRangeSchema = z.object({ min: finite, max: finite, currency: text(10) });
+
+const openingHoursSchema = z.object({
+  alwaysOpen: z.boolean(),
+  periods: z
+    .array(z.object({ day: z.number().int().min(0).max(6), open: finite, close: finite }))
+    .max(SHARE_LIMITS.openingPeriods),
+});
+
+const transportLegSchema = z.object({
+  mode: z.enum(TRANSPORT_MODES),
+  carrier: text(100).optional(),
+  departurePlace: text(200),
+  arrivalPlace: text(200),
+  departureMinutes: finite.nullable().optional(),
+  arrivalMinutes: finite.nullable().optional(),
+  bookingRef: text(100).optional(),
+  cost: text(100).optional(),
+  costRange: moneyRangeSchema.nullable().optional(),
+});
+
+const stopSchema = z.object({
+  id: text(100).min(1),
+  time: text(40),
+  name: text(200).min(1),
+  description: text(2000),
+  hours: text(200),
+  cost: text(100),
+  driveFromPrev: text(100).optional(),
+  address: text(300).optional(),
+  lat: latitude,
+  lng: longitude,
+  imageUrl: webUrl.or(z.literal("")).optional(),
+  tags: z.array(text(60)).max(SHARE_LIMITS.tags),
+  startMinutes: finite.nullable().optional(),
+  costRange: moneyRangeSchema.nullable().optional(),
+  driveMinutes: finite.nullable().optional(),
+  openingHours: openingHoursSchema.nullable().optional(),
+  distanceFromPrevMeters: finite.nullable().optional(),
+  transport: transportLegSchema.nullable().optional(),
+});
+
+const dayRouteSchema = z.object({
+  profile: z.enum(["driving", "walking", "transit"]),
+  provider: text(50),
+  signature: text(4000),
+  coordinates: z.array(z.tuple([longitude, latitude])).max(SHARE_LIMITS.routePoints),
+  distanceMeters: finite,
+});
+
+const dayPlanSchema = z.object({
+  day: z.number().int().min(1).max(SHARE_LIMITS.days),
+  title: text(200),
+  subtitle: text(500),
+  totalDriving: text(100),
+  stops: z.array(stopSchema).max(SHARE_LIMITS.stopsPerDay),
+  estimatedCost: text(100),
+  color: dayColor,
+  totalDrivingMinutes: finite.nullable().optional(),
+  estimatedCostRange: moneyRangeSchema.nullable().optional(),
+  route: dayRouteSchema.nullable().optional(),
+});
+
+const stayOptionSchema = z.object({
+  id: text(100).min(1),
+  name: text(200).min(1),
+  type: text(100),
+  neighborhood: text(200),
+  address: text(300),
+  nightlyPrice: text(100),
+  style: text(500),
+  why: text(1000),
+  bestFor: text(500),
+  lat: latitude,
+  lng: longitude,
+  city: text(200).optional(),
+});
+
+const tripConfigSchema = z.object({
+  from: text(200),
+  to: text(200),
+  days: text(100),
+  budget: text(100),
+  mode: text(100),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+  legs: z.array(z.object({ city: text(200).min(1), nights: z.number().int().min(1).max(MAX_LEG_NIGHTS) })).max(MAX_TRIP_LEGS).optional(),
+});
+
+const preferencesSchema = z.object({
+  interests: z.array(text(100)).max(30),
+  pace: text(100),
+  mustSees: text(2000),
+});
+
+const chatMessageSchema = z.object({
+  id: text(100),
+  sender: z.enum(["bot", "user"]),
+  content: text(4000),
+  // Only text messages are shared, but the chat rebuilds from any known type.
+  type: z.enum(["text", "interests", "pace", "loading", "itinerary", "actions", "stay-intent", "stay-budget", "adjustment"]),
+});
+
+const shareCommon = {
+  tripConfig: tripConfigSchema,
+  itinerary: z.array(dayPlanSchema).max(SHARE_LIMITS.days),
+  stayBudgetVibe: text(200).optional(),
+  chatHistory: z.array(chatMessageSchema).max(CHAT_HISTORY_LIMIT).optional(),
+};
+
+export const shareTripV1Schema = z.object({
+  v: z.literal(1),
+  ...shareCommon,
+  preferences: preferencesSchema.optional(),
+  selectedStays: z.array(stayOptionSchema).max(SHARE_LIMITS.stays).optional(),
+});
+
+export const shareTripV2Schema = z.object({
+  v: z.literal(2),
+  ...shareCommon,
+  stays: z.array(stayOptionSchema).max(SHARE_LIMITS.stays),
+  preferences: preferencesSchema.nullable(),
+});
+
+export interface SharePreferences {
+  interests: string[];
+  pace: string;
+  mustSees: string;
+}
+
+interface ShareTripBase {
+  tripConfig: TripConfig;
+  itinerary: DayPlan[];
+  stayBudgetVibe?: string;
+  chatHistory?: ChatMessage[];
+}
+
+export interface ShareTripDataV1 extends ShareTripBase {
+  v: 1;
+  preferences?: SharePreferences;
+  selectedStays?: StayOption[];
+}
+
+/** Current share payload. Stays and preferences are always present so recipients see the full plan. */
+export interface ShareTripData extends ShareTripBase {
+  v: 2;
+  stays: StayOption[];
+  preferences: SharePreferences | null;
+}
+
+export const SHARE_PAYLOAD_VERSION = 2;
+
+export function migrateShareV1(data: ShareTripDataV1): ShareTripData {
+  const { selectedStays, preferences, ...rest } = data;
+  return { ...rest, v: 2, stays: selectedStays ?? [], preferences: preferences ?? null };
+}
+
+function describeIssue(error: z.ZodError): string {
+  const [issue] = error.issues;
+  const path = issue.path.join(".");
+  return path ? `${path}: ${issue.message}` : issue.message;
+}
+
+/** Validates a decoded payload of any known version and returns it as the current version. */
+export function parseSharePayload(raw: unknown): ShareTripData {
+  const version = typeof raw === "object" && raw !== null ? (raw as { v?: unknown }).v : undefined;
+  if (version !== 1 && version !== 2) {
+    throw typeof version === "number" && version > SHARE_PAYLOAD_VERSION
+      ? new ShareLinkError("unsupported", "This link was made with a newer version of Roamly. Refresh the page and try again.")
+      : new ShareLinkError("invalid", "This link doesn't contain a Roamly trip.");
+  }
+
+  const result = version === 1 ? shareTripV1Schema.safeParse(raw) : shareTripV2Schema.safeParse(raw);
+  if (!result.success) {
+    throw new ShareLinkError("invalid", `This link contains trip data we can't open (${describeIssue(result.error)}).`);
+  }
+  // The schemas mirror the domain types field for field; the casts only bridge zod's inferred shapes.
+  return result.data.v === 1 ? migrateShareV1(result.data as ShareTripDataV1) : (result.data as ShareTripData);
+}
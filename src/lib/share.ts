@@ -1,12 +1,40 @@
-import type { DayPlan, TripConfig } from "@/data/demoTrip";
 import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from "lz-string";
+import { ShareLinkError, parseSharePayload, type ShareTripData } from "@/lib/share-schema";
 
-export type ShareTripData = {
-  v: 1;
-  tripConfig: TripConfig;
-  itinerary: DayPlan[];
-  preferences?: { interests: string[]; pace: string; mustSees: string };
-};
+export type ShareLinkStatus = "active" | "expired" | "revoked";
+
+const SLUG_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz23456789";
+export const SHARE_SLUG_LENGTH = 10;
+
+/** Random slug for a short link; ambiguous characters (0/O, 1/l/I) are left out. */
+export function createShareSlug(length = SHARE_SLUG_LENGTH): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  // 256 is not a multiple of the alphabet size, so reject the biased tail.
+  const limit = 256 - (256 % SLUG_ALPHABET.length);
+  let slug = "";
+  for (const byte of bytes) {
+    if (byte < limit) slug += SLUG_ALPHABET[byte % SLUG_ALPHABET.length];
+  }
+  return slug.length === length ? slug : slug + createShareSlug(length - slug.length);
+}
+
+export function shareSlugLink(slug: string): string {
+  return `${window.location.origin}/s/${slug}`;
+}
+
+/** Legacy self-contained link; still used when there is no account to store a short link under. */
+export function shareDataLink(data: ShareTripData): string {
+  return `${window.location.origin}/shared?share=${encodeShareData(data)}`;
+}
+
+export function shareLinkStatus(
+  link: { expires_at: string | null; revoked_at: string | null },
+  now = new Date(),
+): ShareLinkStatus {
+  if (link.revoked_at) return "revoked";
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now.getTime()) return "expired";
+  return "active";
+}
 
 function toBase64Url(input: string): string {
   const bytes = new TextEncoder().encode(input);
@@ -32,27 +60,43 @@ export function encodeShareData(data: ShareTripData): string {
   return compressed || toBase64Url(json);
 }
 
-export function decodeShareData(search: string): ShareTripData | null {
+function parseJson(text: string | null | undefined): unknown {
+  if (!text || text.trim().length === 0) return undefined;
   try {
-    const params = new URLSearchParams(search);
-    const raw = params.get("share");
-    if (!raw) return null;
-    const decompressed = decompressFromEncodedURIComponent(raw);
-    if (decompressed && decompressed.trim().length > 0) {
-      try {
-        const parsed = JSON.parse(decompressed) as ShareTripData;
-        if (parsed && parsed.v === 1 && parsed.tripConfig && Array.isArray(parsed.itinerary)) {
-          return parsed;
-        }
-      } catch {
-        // fall through to base64
-      }
-    }
-    const json = fromBase64Url(raw);
-    const parsed = JSON.parse(json) as ShareTripData;
-    if (!parsed || parsed.v !== 1 || !parsed.tripConfig || !Array.isArray(parsed.itinerary)) return null;
-    return parsed;
+    return JSON.parse(text);
   } catch {
-    return null;
+    return undefined;
   }
 }
+
+function readSharePayload(raw: string): unknown {
+  const compressed = parseJson(decompressFromEncodedURIComponent(raw));
+  if (compressed !== undefined) return compressed;
+  try {
+    return parseJson(fromBase64Url(raw));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads a legacy `?share=` link. Returns null when the URL has no share
+ * payload and throws a `ShareLinkError` when it has one we can't use.
+ */
+export function decodeShareData(search: string): ShareTripData | null {
+  const raw = new URLSearchParams(search).get("share");
+  if (!raw) return null;
+  const payload = readSharePayload(raw);
+  if (payload === undefined) {
+    throw new ShareLinkError("corrupt", "This link is incomplete or damaged. It may have been cut off when it was copied.");
+  }
+  return parseSharePayload(payload);
+}
+
+/** Maps the errors raised by `get_shared_trip` onto share link error reasons. */
+export function shareLinkErrorFromServer(message: string): ShareLinkError {
+  if (/revoked/i.test(message)) return new ShareLinkError("revoked", "The owner turned off this share link.");
+  if (/expired/i.test(message)) return new ShareLinkError("expired", "This share link has expired. Ask the owner for a new one.");
+  if (/not found/i.test(message)) return new ShareLinkError("not-found", "There's no trip at this link. Check that it was copied in full.");
+  return new ShareLinkError("invalid", message);
+}
@@ -0,0 +1,88 @@
+import type { DayPlan, TripConfig } from "@/data/demoTrip";
+import { dayPath } from "@/lib/trip-export";
+
+/** Static Images API URLs are capped at 8192 characters; thinning the path keeps long routes well under it. */
+const MAX_PATH_POINTS = 120;
+const MAX_PINS = 30;
+
+const FALLBACK_COLOR = "1b4332";
+
+/** Mapbox overlays only take hex colors, while generated days use `hsl(...)` strings. */
+function overlayColor(color: string): string {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (hex) return hex[1].toLowerCase();
+
+  const hsl = color.match(/^hsla?\(\s*([\d.]+)(?:deg)?[\s,]+([\d.]+)%[\s,]+([\d.]+)%/i);
+  if (!hsl) return FALLBACK_COLOR;
+  const h = Number(hsl[1]) % 360;
+  const s = Number(hsl[2]) / 100;
+  const l = Number(hsl[3]) / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255).toString(16).padStart(2, "0");
+  };
+  return `${channel(0)}${channel(8)}${channel(4)}`;
+}
+
+/** Encodes [lng, lat] pairs with Google's polyline algorithm (precision 5), as Mapbox path overlays expect. */
+export function encodePolyline(coordinates: [number, number][]): string {
+  let previousLat = 0;
+  let previousLng = 0;
+  let output = "";
+
+  const encodeValue = (value: number) => {
+    let shifted = value < 0 ? ~(value << 1) : value << 1;
+    let chunk = "";
+    while (shifted >= 0x20) {
+      chunk += String.fromCharCode((0x20 | (shifted & 0x1f)) + 63);
+      shifted >>= 5;
+    }
+    return chunk + String.fromCharCode(shifted + 63);
+  };
+
+  coordinates.forEach(([lng, lat]) => {
+    const latE5 = Math.round(lat * 1e5);
+    const lngE5 = Math.round(lng * 1e5);
+    output += encodeValue(latE5 - previousLat) + encodeValue(lngE5 - previousLng);
+    previousLat = latE5;
+    previousLng = lngE5;
+  });
+  return output;
+}
+
+/** Keeps every n-th point (always including both ends) so the path fits in a URL. */
+function thin(coordinates: [number, number][], limit: number): [number, number][] {
+  if (coordinates.length <= limit) return coordinates;
+  const step = (coordinates.length - 1) / (limit - 1);
+  return Array.from({ length: limit }, (_, index) => coordinates[Math.round(index * step)]);
+}
+
+/**
+ * Mapbox Static Images URL showing one day's numbered stops and its path in
+ * the day's color. Returns null for days without stops.
+ */
+export function buildDayStaticMapUrl(
+  day: DayPlan,
+  tripConfig: TripConfig,
+  token: string,
+  { width = 640, height = 320 }: { width?: number; height?: number } = {},
+): string | null {
+  if (day.stops.length === 0) return null;
+
+  const color = overlayColor(day.color);
+  const pins = day.stops
+    .slice(0, MAX_PINS)
+    .map((stop, index) => `pin-s-${index + 1}+${color}(${stop.lng.toFixed(5)},${stop.lat.toFixed(5)})`);
+  const path = dayPath(day, tripConfig);
+  const overlays = path.length > 1
+    ? [`path-3+${color}-0.75(${encodeURIComponent(encodePolyline(thin(path, MAX_PATH_POINTS)))})`, ...pins]
+    : pins;
+
+  const size = `${Math.min(width, 1280)}x${Math.min(height, 1280)}@2x`;
+  // Mapbox only accepts padding alongside an "auto" viewport.
+  const viewport = day.stops.length === 1 ? `${day.stops[0].lng},${day.stops[0].lat},14` : "auto";
+  const padding = viewport === "auto" ? "padding=40&" : "";
+  return `https://api.mapbox.com/styles/v1/mapbox/streets-v12/static/${overlays.join(",")}/${viewport}/${size}?${padding}access_token=${encodeURIComponent(token)}`;
+}
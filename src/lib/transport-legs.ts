@@ -0,0 +1,77 @@
+import type { TransportLeg, TransportMode } from "@/data/demoTrip";
+import { formatClockTime, formatDurationMinutes } from "@/lib/itinerary-fields";
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const TRANSPORT_MODE_LABELS: Record<TransportMode, string> = {
+  flight: "Flight",
+  train: "Train",
+  bus: "Bus",
+  ferry: "Ferry",
+  drive: "Drive",
+};
+
+/** "Flight · TAP Air Portugal", or just the mode when no carrier is known. */
+export function describeTransportLeg(leg: Pick<TransportLeg, "mode" | "carrier">): string {
+  const label = TRANSPORT_MODE_LABELS[leg.mode];
+  return leg.carrier ? `${label} · ${leg.carrier}` : label;
+}
+
+/** The mode a new leg starts with, from the trip's travel mode on the landing page ("Car" or "Plane"). */
+export function defaultTransportMode(tripMode: string | undefined): TransportMode {
+  return tripMode?.toLowerCase() === "car" ? "drive" : "flight";
+}
+
+/** "Lisbon → Porto", or null when neither end is known. */
+export function formatTransportRoute(leg: Pick<TransportLeg, "departurePlace" | "arrivalPlace">): string | null {
+  if (!leg.departurePlace && !leg.arrivalPlace) return null;
+  return `${leg.departurePlace || "?"} → ${leg.arrivalPlace || "?"}`;
+}
+
+/** Time on the road, rail or in the air; arrivals before departure are taken as next-day. */
+export function transportDurationMinutes(leg: Pick<TransportLeg, "departureMinutes" | "arrivalMinutes">): number | null {
+  if (typeof leg.departureMinutes !== "number" || typeof leg.arrivalMinutes !== "number") return null;
+  const duration = leg.arrivalMinutes - leg.departureMinutes;
+  return duration >= 0 ? duration : duration + MINUTES_PER_DAY;
+}
+
+/** "9:40 AM → 11:05 AM · 1h 25m", with "(+1)" on arrivals the next day. */
+export function formatTransportTimes(leg: TransportLeg): string | null {
+  const { departureMinutes, arrivalMinutes } = leg;
+  if (typeof departureMinutes !== "number" && typeof arrivalMinutes !== "number") return null;
+  if (typeof arrivalMinutes !== "number") return `Departs ${formatClockTime(departureMinutes)}`;
+  const nextDay = arrivalMinutes >= MINUTES_PER_DAY || (typeof departureMinutes === "number" && arrivalMinutes < departureMinutes);
+  const arrive = `${formatClockTime(arrivalMinutes)}${nextDay ? " (+1)" : ""}`;
+  if (typeof departureMinutes !== "number") return `Arrives ${arrive}`;
+  const depart = formatClockTime(departureMinutes);
+  const duration = transportDurationMinutes(leg);
+  return `${depart} → ${arrive}${duration ? ` · ${formatDurationMinutes(duration)}` : ""}`;
+}
+
+/** One line for lists and print: mode and carrier, route, then times. */
+export function summarizeTransportLeg(leg: TransportLeg): string {
+  return [describeTransportLeg(leg), formatTransportRoute(leg), formatTransportTimes(leg)].filter(Boolean).join(" · ");
+}
+
+/**
+ * Points along a gentle curve between two [lng, lat] positions, so journeys read as arcs
+ * on the map rather than as another road segment. The bend grows with distance.
+ */
+export function arcCoordinates(from: [number, number], to: [number, number], steps = 32): [number, number][] {
+  const [x1, y1] = from;
+  const [x2, y2] = to;
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  if (dx === 0 && dy === 0) return [from, to];
+  // Control point sits off the midpoint, perpendicular to the chord.
+  const bend = 0.2;
+  const cx = (x1 + x2) / 2 - dy * bend;
+  const cy = (y1 + y2) / 2 + dx * bend;
+  const points: [number, number][] = [];
+  for (let i = 0; i <= steps; i += 1) {
+    const t = i / steps;
+    const u = 1 - t;
+    points.push([u * u * x1 + 2 * u * t * cx + t * t * x2, u * u * y1 + 2 * u * t * cy + t * t * y2]);
+  }
+  return points;
+}
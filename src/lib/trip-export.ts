@@ -0,0 +1,395 @@
+import type { DayPlan, StayOption, Stop, TripConfig } from "@/data/demoTrip";
+import { parseClockTime, parseDurationMinutes } from "@/lib/itinerary-fields";
+import { hasCurrentRoute, routingProfileForMode } from "@/lib/routing";
+import { DEFAULT_DAY_START_MINUTES, estimateDwellMinutes } from "@/lib/schedule";
+import { legForDay, legSegments, staysForLeg, tripLegs, tripRouteLabel } from "@/lib/trip-legs";
+
+const MINUTES_PER_DAY = 24 * 60;
+const ICS_LINE_OCTETS = 75;
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export interface TripCalendarOptions {
+  /** IANA zone of the destination; without one, events use floating local times. */
+  timeZone?: string | null;
+  /** Multi-city trips: the zone of each leg by leg index; days of a leg without one use `timeZone`. */
+  legTimeZones?: (string | null)[];
+  /** Adds all-day check-in / check-out events for each chosen stay. */
+  stays?: StayOption[];
+  /** DTSTAMP for every event; defaults to now. */
+  now?: Date;
+}
+
+export function exportFileName(tripConfig: TripConfig, extension: string): string {
+  return `trip-${tripConfig.from}-to-${tripConfig.to}.${extension}`;
+}
+
+/**
+ * The day's path as [lng, lat] pairs: routed geometry when it matches the
+ * current stops, otherwise straight lines between them.
+ */
+export function dayPath(day: DayPlan, tripConfig: TripConfig): [number, number][] {
+  if (day.route?.coordinates.length && hasCurrentRoute(day, routingProfileForMode(tripConfig.mode))) {
+    return day.route.coordinates;
+  }
+  return day.stops.map((stop) => [stop.lng, stop.lat]);
+}
+
+export function escapeXml(str: string): string {
+  return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// ---------------------------------------------------------------------------
+// KML
+// ---------------------------------------------------------------------------
+
+/** Google Earth / My Maps document with a folder per day: stop placemarks plus the day's path. */
+export function buildTripKml(itinerary: DayPlan[], tripConfig: TripConfig): string {
+  const folders = itinerary
+    .map((day) => {
+      const placemarks = day.stops
+        .map(
+          (s) => `
+      <Placemark>
+        <name>${escapeXml(s.name)}</name>
+        <description>${escapeXml(s.description)}</description>
+        <Point>
+          <coordinates>${s.lng},${s.lat},0</coordinates>
+        </Point>
+      </Placemark>`
+        )
+        .join("");
+      const path = dayPath(day, tripConfig);
+      const route = path.length > 1
+        ? `
+      <Placemark>
+        <name>Day ${day.day} route</name>
+        <LineString>
+          <tessellate>1</tessellate>
+          <coordinates>${path.map(([lng, lat]) => `${lng},${lat},0`).join(" ")}</coordinates>
+        </LineString>
+      </Placemark>`
+        : "";
+      return `
+    <Folder>
+      <name>Day ${day.day} - ${escapeXml(day.title)}</name>${placemarks}${route}
+    </Folder>`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Trip: ${escapeXml(tripConfig.from)} to ${escapeXml(tripConfig.to)}</name>${folders}
+  </Document>
+</kml>`;
+}
+
+// ---------------------------------------------------------------------------
+// GPX
+// ---------------------------------------------------------------------------
+
+/** GPS-app friendly file: a waypoint per stop and a track per day. */
+export function buildTripGpx(itinerary: DayPlan[], tripConfig: TripConfig): string {
+  const waypoints = itinerary
+    .flatMap((day) =>
+      day.stops.map(
+        (s) => `
+  <wpt lat="${s.lat}" lon="${s.lng}">
+    <name>${escapeXml(s.name)}</name>
+    <desc>${escapeXml(s.description)}</desc>
+    <type>Day ${day.day}</type>
+  </wpt>`
+      )
+    )
+    .join("");
+  const tracks = itinerary
+    .map((day) => ({ day, path: dayPath(day, tripConfig) }))
+    .filter(({ path }) => path.length > 1)
+    .map(
+      ({ day, path }) => `
+  <trk>
+    <name>Day ${day.day} - ${escapeXml(day.title)}</name>
+    <trkseg>${path.map(([lng, lat]) => `
+      <trkpt lat="${lat}" lon="${lng}" />`).join("")}
+    </trkseg>
+  </trk>`
+    )
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Roamly" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>Trip: ${escapeXml(tripConfig.from)} to ${escapeXml(tripConfig.to)}</name>
+  </metadata>${waypoints}${tracks}
+</gpx>`;
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+export interface TripGeoJsonFeature {
+  type: "Feature";
+  geometry: { type: "Point"; coordinates: [number, number] } | { type: "LineString"; coordinates: [number, number][] };
+  properties: Record<string, unknown>;
+}
+
+export interface TripGeoJson {
+  type: "FeatureCollection";
+  properties: { from: string; to: string; startDate: string | null; endDate: string | null };
+  features: TripGeoJsonFeature[];
+}
+
+/** FeatureCollection for GIS tools: stop points carry every stop field, lines carry each day's path. */
+export function buildTripGeoJson(itinerary: DayPlan[], tripConfig: TripConfig): TripGeoJson {
+  const features = itinerary.flatMap<TripGeoJsonFeature>((day) => {
+    const stops = day.stops.map<TripGeoJsonFeature>(({ lat, lng, ...stop }, index) => ({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [lng, lat] },
+      properties: { ...stop, kind: "stop", day: day.day, dayTitle: day.title, order: index + 1, color: day.color },
+    }));
+    const path = dayPath(day, tripConfig);
+    if (path.length < 2) return stops;
+    const routed = Boolean(day.route && path === day.route.coordinates);
+    return [
+      ...stops,
+      {
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: path },
+        properties: {
+          kind: "route",
+          day: day.day,
+          dayTitle: day.title,
+          color: day.color,
+          routed,
+          distanceMeters: routed ? day.route?.distanceMeters ?? null : null,
+        },
+      },
+    ];
+  });
+
+  return {
+    type: "FeatureCollection",
+    properties: {
+      from: tripConfig.from,
+      to: tripConfig.to,
+      startDate: tripConfig.startDate ?? null,
+      endDate: tripConfig.endDate ?? null,
+    },
+    features,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Dates and time zones
+// ---------------------------------------------------------------------------
+
+function parseCalendarDate(value: string | undefined): CalendarDate | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return null;
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+}
+
+/** Wall-clock instant (as a UTC timestamp) `offsetMinutes` after midnight of `date`, rolling over days as needed. */
+function wallClock(date: CalendarDate, offsetMinutes: number): number {
+  return Date.UTC(date.year, date.month - 1, date.day, 0, offsetMinutes);
+}
+
+/** Minutes `timeZone` is ahead of UTC at `utcMs`. */
+function zoneOffsetMinutes(utcMs: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  }).formatToParts(new Date(utcMs));
+  const value = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(value("year"), value("month") - 1, value("day"), value("hour"), value("minute"));
+  return Math.round((asUtc - Math.floor(utcMs / 60000) * 60000) / 60000);
+}
+
+/** Converts a destination wall-clock time to UTC, re-checking the offset once so DST changes land correctly. */
+function zonedToUtc(wallMs: number, timeZone: string): number {
+  const firstGuess = wallMs - zoneOffsetMinutes(wallMs, timeZone) * 60000;
+  return wallMs - zoneOffsetMinutes(firstGuess, timeZone) * 60000;
+}
+
+function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function pad(value: number, length = 2): string {
+  return value.toString().padStart(length, "0");
+}
+
+function formatIcsDate(ms: number): string {
+  const date = new Date(ms);
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`;
+}
+
+function formatIcsDateTime(ms: number, utc: boolean): string {
+  const date = new Date(ms);
+  const time = `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}`;
+  return `${formatIcsDate(ms)}T${time}${utc ? "Z" : ""}`;
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar text
+// ---------------------------------------------------------------------------
+
+/** Escapes TEXT values per RFC 5545 §3.3.11. */
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/** Folds a content line to 75 octets, never splitting a multi-byte character. */
+export function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const chunks: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts toward their limit.
+    const limit = chunks.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function stopStartMinutes(stop: Stop, previousEnd: number | null): number {
+  const scheduled = stop.startMinutes ?? parseClockTime(stop.time);
+  if (scheduled !== null) {
+    // A time earlier than the previous visit ended means the plan runs past midnight.
+    return previousEnd !== null && scheduled < previousEnd - MINUTES_PER_DAY / 2 ? scheduled + MINUTES_PER_DAY : scheduled;
+  }
+  if (previousEnd === null) return DEFAULT_DAY_START_MINUTES;
+  return previousEnd + (stop.driveMinutes ?? parseDurationMinutes(stop.driveFromPrev) ?? 0);
+}
+
+function stopDescription(day: DayPlan, stop: Stop): string {
+  return [
+    `Day ${day.day} — ${day.title}`,
+    stop.description,
+    stop.hours && `Hours: ${stop.hours}`,
+    stop.cost && `Cost: ${stop.cost}`,
+  ].filter(Boolean).join("\n");
+}
+
+function mapsUrl(lat: number, lng: number): string {
+  return `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
+}
+
+/**
+ * Builds an iCalendar file with one event per stop, timed from the stop's
+ * scheduled start and a dwell estimate on the matching trip date. Returns
+ * null when the trip has no start date to anchor the days to. On multi-city
+ * trips each day is timed in its leg's zone and each stay runs over its leg.
+ */
+export function buildTripCalendar(itinerary: DayPlan[], tripConfig: TripConfig, options: TripCalendarOptions = {}): string | null {
+  const start = parseCalendarDate(tripConfig.startDate);
+  if (!start) return null;
+
+  const timeZone = isValidTimeZone(options.timeZone) ? options.timeZone : null;
+  const segments = legSegments(tripLegs(tripConfig), itinerary.length);
+  const zoneForDay = (dayNumber: number) => {
+    const legZone = options.legTimeZones?.[legForDay(segments, dayNumber)?.index ?? -1];
+    return isValidTimeZone(legZone) ? legZone : timeZone;
+  };
+  const stamp = formatIcsDateTime((options.now ?? new Date()).getTime(), true);
+  const toIcs = (wallMs: number, zone: string | null) => formatIcsDateTime(zone ? zonedToUtc(wallMs, zone) : wallMs, Boolean(zone));
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Roamly//Trip Planner//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(tripRouteLabel(tripConfig))}`,
+  ];
+  if (timeZone) lines.push(`X-WR-TIMEZONE:${timeZone}`);
+
+  itinerary.forEach((day) => {
+    const date = { ...start, day: start.day + day.day - 1 };
+    const zone = zoneForDay(day.day);
+    let previousEnd: number | null = null;
+    day.stops.forEach((stop) => {
+      const begin = stopStartMinutes(stop, previousEnd);
+      const end = begin + estimateDwellMinutes(stop);
+      previousEnd = end;
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${stop.id}-day${day.day}@roamly`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${toIcs(wallClock(date, begin), zone)}`,
+        `DTEND:${toIcs(wallClock(date, end), zone)}`,
+        `SUMMARY:${escapeIcsText(stop.name)}`,
+        `DESCRIPTION:${escapeIcsText(stopDescription(day, stop))}`,
+        `LOCATION:${escapeIcsText(stop.name)}`,
+        `GEO:${stop.lat};${stop.lng}`,
+        `URL:${mapsUrl(stop.lat, stop.lng)}`,
+        "END:VEVENT",
+      );
+    });
+  });
+
+  const checkOut = parseCalendarDate(tripConfig.endDate) ?? { ...start, day: start.day + Math.max(itinerary.length - 1, 0) };
+  const tripDates = { checkInMs: wallClock(start, 0), checkOutMs: wallClock(checkOut, 0) };
+  const stayDates = (stay: StayOption) => {
+    const leg = segments.find((segment) => staysForLeg([stay], segment).length > 0);
+    if (!leg) return tripDates;
+    return {
+      checkInMs: wallClock(start, (leg.startDay - 1) * MINUTES_PER_DAY),
+      checkOutMs: wallClock(start, (leg.startDay - 1 + leg.nights) * MINUTES_PER_DAY),
+    };
+  };
+  (options.stays ?? []).forEach((stay) => {
+    const details = [stay.address, stay.nightlyPrice && `Nightly: ${stay.nightlyPrice}`].filter(Boolean).join("\n");
+    const { checkInMs, checkOutMs } = stayDates(stay);
+    [
+      { kind: "checkin", label: "Check in", dayMs: checkInMs },
+      { kind: "checkout", label: "Check out", dayMs: checkOutMs },
+    ].forEach(({ kind, label, dayMs }) => {
+      lines.push(
+        "BEGIN:VEVENT",
+        `UID:${stay.id}-${kind}@roamly`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatIcsDate(dayMs)}`,
+        `DTEND;VALUE=DATE:${formatIcsDate(dayMs + MINUTES_PER_DAY * 60000)}`,
+        `SUMMARY:${escapeIcsText(`${label}: ${stay.name}`)}`,
+        `DESCRIPTION:${escapeIcsText(details)}`,
+        `LOCATION:${escapeIcsText(stay.address || stay.name)}`,
+        `GEO:${stay.lat};${stay.lng}`,
+        "TRANSP:TRANSPARENT",
+        "END:VEVENT",
+      );
+    });
+  });
+
+  lines.push("END:VCALENDAR");
+  return `${lines.map(foldIcsLine).join("\r\n")}\r\n`;
+}
@@ -0,0 +1,494 @@
+import type { DayPlan, RoutingProfile, Stop } from "@/data/demoTrip";
+import { formatClockTime, formatDurationMinutes, parseClockTime } from "@/lib/itinerary-fields";
+import { estimateTravelMinutes, haversineKm } from "@/lib/routing";
+import { DEFAULT_DAY_START_MINUTES, estimateDwellMinutes } from "@/lib/schedule";
+
+const DAY_COLORS = ["#1B4332", "#2563EB", "#F4A261", "#D6336C", "#6D28D9", "#0D9488", "#EAB308"];
+
+/** Lookups beyond this are reported as unresolved rather than spending the whole geocoding quota on one file. */
+export const MAX_GEOCODE_LOOKUPS = 50;
+
+export type ImportFormat = "kml" | "gpx" | "geojson" | "csv";
+
+export interface ImportedPlace {
+  /** 1-based row / placemark / feature number, for reporting back to the traveler. */
+  row: number;
+  name: string;
+  description: string;
+  address: string;
+  time: string;
+  /** Folder, layer or day column the place came from, if any. */
+  group: string | null;
+  lat: number | null;
+  lng: number | null;
+}
+
+export interface LocatedPlace extends ImportedPlace {
+  lat: number;
+  lng: number;
+}
+
+export interface ParsedTripFile {
+  format: ImportFormat;
+  /** Document / layer name, when the file has one. */
+  title: string | null;
+  places: ImportedPlace[];
+}
+
+export interface ImportGroup {
+  label: string | null;
+  places: LocatedPlace[];
+}
+
+export class TripImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TripImportError";
+  }
+}
+
+function toCoordinate(value: unknown, limit: number): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const number = Number(typeof value === "string" ? value.trim().replace(",", ".") : value);
+  return Number.isFinite(number) && Math.abs(number) <= limit ? number : null;
+}
+
+function stripHtml(value: string): string {
+  return value.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, "").replace(/&nbsp;/g, " ").trim();
+}
+
+function place(row: number, fields: Partial<ImportedPlace>): ImportedPlace {
+  return {
+    row,
+    name: fields.name?.trim() ?? "",
+    description: stripHtml(fields.description ?? ""),
+    address: fields.address?.trim() ?? "",
+    time: fields.time?.trim() ?? "",
+    group: fields.group?.trim() || null,
+    lat: fields.lat ?? null,
+    lng: fields.lng ?? null,
+  };
+}
+
+/** A place needs coordinates or something to geocode. */
+function isUsable(item: ImportedPlace): boolean {
+  return (item.lat !== null && item.lng !== null) || Boolean(item.name || item.address);
+}
+
+// ---------------------------------------------------------------------------
+// Format detection
+// ---------------------------------------------------------------------------
+
+export function detectImportFormat(fileName: string, text: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split(".").pop() ?? "";
+  if (extension === "kml") return "kml";
+  if (extension === "gpx") return "gpx";
+  if (extension === "geojson" || extension === "json") return "geojson";
+  if (extension === "csv" || extension === "tsv" || extension === "txt") return "csv";
+
+  const head = text.trimStart().slice(0, 500).toLowerCase();
+  if (head.includes("<kml")) return "kml";
+  if (head.includes("<gpx")) return "gpx";
+  if (head.startsWith("{")) return "geojson";
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// XML formats
+// ---------------------------------------------------------------------------
+
+function parseXml(text: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new TripImportError(`This ${label} file couldn't be read. Check that it isn't truncated.`);
+  }
+  return doc;
+}
+
+function childText(element: Element, tagName: string): string {
+  const child = Array.from(element.children).find((node) => node.localName === tagName);
+  return child?.textContent?.trim() ?? "";
+}
+
+function parseKml(text: string): ParsedTripFile {
+  const doc = parseXml(text, "KML");
+  const documentElement = doc.getElementsByTagName("Document")[0];
+  const places = Array.from(doc.getElementsByTagName("Placemark")).flatMap((placemark, index) => {
+    const point = placemark.getElementsByTagName("Point")[0];
+    const address = childText(placemark, "address");
+    // Lines and polygons are drawn shapes, not places to visit.
+    if (!point && !address) return [];
+
+    const [lng, lat] = (point?.getElementsByTagName("coordinates")[0]?.textContent ?? "").trim().split(",");
+    const folder = placemark.parentElement?.localName === "Folder" ? childText(placemark.parentElement, "name") : "";
+    return [place(index + 1, {
+      name: childText(placemark, "name"),
+      description: childText(placemark, "description"),
+      address,
+      group: folder,
+      lat: toCoordinate(lat, 90),
+      lng: toCoordinate(lng, 180),
+    })];
+  });
+
+  return { format: "kml", title: documentElement ? childText(documentElement, "name") || null : null, places };
+}
+
+function parseGpx(text: string): ParsedTripFile {
+  const doc = parseXml(text, "GPX");
+  const metadata = doc.getElementsByTagName("metadata")[0];
+  const points = [...Array.from(doc.getElementsByTagName("wpt")), ...Array.from(doc.getElementsByTagName("rtept"))];
+  const places = points.map((point, index) => place(index + 1, {
+    name: childText(point, "name"),
+    description: childText(point, "desc") || childText(point, "cmt"),
+    group: childText(point, "type"),
+    lat: toCoordinate(point.getAttribute("lat"), 90),
+    lng: toCoordinate(point.getAttribute("lon"), 180),
+  }));
+
+  return { format: "gpx", title: metadata ? childText(metadata, "name") || null : null, places };
+}
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+function firstString(properties: Record<string, unknown>, keys: string[]): string {
+  for (const key of keys) {
+    const value = properties[key] ?? properties[key.toLowerCase()] ?? properties[key[0].toUpperCase() + key.slice(1)];
+    if (typeof value === "string" && value.trim()) return value;
+    if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  }
+  return "";
+}
+
+function parseGeoJson(text: string): ParsedTripFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TripImportError("This GeoJSON file isn't valid JSON.");
+  }
+
+  const root = (data ?? {}) as { type?: string; features?: unknown[]; properties?: Record<string, unknown>; name?: unknown };
+  const features = root.type === "FeatureCollection" && Array.isArray(root.features)
+    ? root.features
+    : root.type === "Feature"
+      ? [root]
+      : null;
+  if (!features) throw new TripImportError("Expected a GeoJSON Feature or FeatureCollection.");
+
+  const places = features.flatMap((raw, index) => {
+    const feature = (raw ?? {}) as { geometry?: { type?: string; coordinates?: unknown } | null; properties?: Record<string, unknown> | null };
+    const properties = feature.properties ?? {};
+    const geometry = feature.geometry;
+    // Route lines (including the ones Roamly exports) aren't places.
+    if (geometry && geometry.type !== "Point") return [];
+
+    const coordinates = Array.isArray(geometry?.coordinates) ? geometry.coordinates : [];
+    const day = firstString(properties, ["day"]);
+    return [place(index + 1, {
+      name: firstString(properties, ["name", "title"]),
+      description: firstString(properties, ["description", "desc", "notes"]),
+      address: firstString(properties, ["address", "location"]),
+      time: firstString(properties, ["time"]),
+      group: day ? `Day ${day}` : firstString(properties, ["group", "folder", "layer"]),
+      lat: toCoordinate(coordinates[1], 90),
+      lng: toCoordinate(coordinates[0], 180),
+    })];
+  });
+
+  const title = root.properties
+    ? [root.properties.to, root.properties.name].find((value): value is string => typeof value === "string" && Boolean(value.trim())) ?? null
+    : typeof root.name === "string" ? root.name : null;
+  return { format: "geojson", title, places };
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/** Splits delimited text into rows, honouring quoted fields with embedded delimiters, quotes and newlines. */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = [",", ";", "\t"].reduce((best, candidate) => (
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  ), ",");
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const CSV_COLUMNS: Record<string, string[]> = {
+  name: ["name", "title", "place", "placename", "poi", "stop"],
+  lat: ["lat", "latitude"],
+  lng: ["lng", "lon", "long", "longitude"],
+  coordinates: ["coordinates", "coords", "latlng", "latlon"],
+  address: ["address", "location", "addr", "fulladdress"],
+  group: ["day", "group", "folder", "layer", "list"],
+  description: ["description", "desc", "notes", "note", "comment", "comments"],
+  time: ["time", "start", "starttime"],
+};
+
+function parseCsvFile(text: string): ParsedTripFile {
+  const rows = parseCsv(text);
+  const headerIndex = rows.findIndex((cells) => cells.some((cell) => cell.trim()));
+  if (headerIndex < 0) throw new TripImportError("This CSV file is empty.");
+  const header = rows[headerIndex];
+  const body = rows.slice(headerIndex + 1);
+
+  const normalized = header.map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ""));
+  const column = (key: string) => normalized.findIndex((cell) => CSV_COLUMNS[key].includes(cell));
+  const columns = Object.fromEntries(Object.keys(CSV_COLUMNS).map((key) => [key, column(key)])) as Record<string, number>;
+  if (columns.name < 0 && columns.address < 0) {
+    throw new TripImportError("Couldn't find a name or address column. Add a header row such as “Name, Address, Day”.");
+  }
+
+  const places = body.map((cells, index) => {
+    const cell = (key: string) => (columns[key] >= 0 ? cells[columns[key]]?.trim() ?? "" : "");
+    const [pairLat, pairLng] = cell("coordinates").split(/[,;\s]+/);
+    const group = cell("group");
+    // Spreadsheet row numbers: 1-based and counting the header.
+    return place(headerIndex + index + 2, {
+      name: cell("name"),
+      description: cell("description"),
+      address: cell("address"),
+      time: cell("time"),
+      group: /^\d+$/.test(group) ? `Day ${group}` : group,
+      lat: toCoordinate(cell("lat") || pairLat, 90),
+      lng: toCoordinate(cell("lng") || pairLng, 180),
+    });
+  });
+
+  return { format: "csv", title: null, places };
+}
+
+/** Reads a KML, GPX, GeoJSON or CSV file into places; throws {@link TripImportError} with a readable message. */
+export function parseTripFile(fileName: string, text: string): ParsedTripFile {
+  const format = detectImportFormat(fileName, text);
+  if (!format) throw new TripImportError("Unsupported file. Use KML, GPX, GeoJSON or CSV.");
+
+  const parsed = format === "kml"
+    ? parseKml(text)
+    : format === "gpx"
+      ? parseGpx(text)
+      : format === "geojson"
+        ? parseGeoJson(text)
+        : parseCsvFile(text);
+  const places = parsed.places
+    .filter(isUsable)
+    .map((item) => (item.name ? item : { ...item, name: item.address || `Place ${item.row}` }));
+  if (places.length === 0) throw new TripImportError("No places were found in this file.");
+  return { ...parsed, places };
+}
+
+// ---------------------------------------------------------------------------
+// Geocoding
+// ---------------------------------------------------------------------------
+
+export type Geocoder = (query: string) => Promise<{ lat: number; lng: number } | null>;
+
+/** Looks up places that came without coordinates; anything that can't be found is returned for reporting. */
+export async function resolveImportedPlaces(
+  places: ImportedPlace[],
+  geocode: Geocoder,
+  near?: string,
+): Promise<{ located: LocatedPlace[]; unresolved: ImportedPlace[] }> {
+  const located: LocatedPlace[] = [];
+  const unresolved: ImportedPlace[] = [];
+  let lookups = 0;
+
+  for (const item of places) {
+    if (item.lat !== null && item.lng !== null) {
+      located.push({ ...item, lat: item.lat, lng: item.lng });
+      continue;
+    }
+    if (lookups >= MAX_GEOCODE_LOOKUPS) {
+      unresolved.push(item);
+      continue;
+    }
+    lookups += 1;
+    const base = item.address || item.name;
+    const query = near && !base.toLowerCase().includes(near.toLowerCase()) ? `${base}, ${near}` : base;
+    const result = await geocode(query).catch(() => null);
+    if (result) {
+      located.push({ ...item, lat: result.lat, lng: result.lng });
+    } else {
+      unresolved.push(item);
+    }
+  }
+
+  return { located, unresolved };
+}
+
+// ---------------------------------------------------------------------------
+// Grouping into days
+// ---------------------------------------------------------------------------
+
+function groupOrder(label: string): number | null {
+  const match = label.match(/^day\s*(\d+)/i) ?? label.match(/^(\d+)$/);
+  return match ? Number(match[1]) : null;
+}
+
+/** Keeps the file's own folders / day column, ordering "Day N" labels numerically and the rest as they appear. */
+export function groupByLabel(places: LocatedPlace[]): ImportGroup[] {
+  const groups = new Map<string, LocatedPlace[]>();
+  places.forEach((item) => {
+    const key = item.group ?? "";
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+  return Array.from(groups, ([label, items]) => ({ label: label || null, places: items }))
+    .map((group, index) => ({ group, index, order: group.label ? groupOrder(group.label) : null }))
+    .sort((a, b) => (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER) || a.index - b.index)
+    .map(({ group }) => group);
+}
+
+/** Orders one day's places by walking to the nearest unvisited one, starting from the first in the file. */
+function nearestNeighbourOrder(places: LocatedPlace[]): LocatedPlace[] {
+  if (places.length < 3) return places;
+  const remaining = [...places];
+  const ordered = [remaining.shift() as LocatedPlace];
+  while (remaining.length) {
+    const last = ordered[ordered.length - 1];
+    let best = 0;
+    remaining.forEach((candidate, index) => {
+      if (haversineKm(last, candidate) < haversineKm(last, remaining[best])) best = index;
+    });
+    ordered.push(...remaining.splice(best, 1));
+  }
+  return ordered;
+}
+
+/**
+ * Splits places into `dayCount` geographic clusters (k-means seeded with
+ * far-apart points so results are stable), ordered by where each cluster's
+ * places first appear in the file.
+ */
+export function groupByArea(places: LocatedPlace[], dayCount: number): ImportGroup[] {
+  const k = Math.max(1, Math.min(Math.round(dayCount), places.length));
+  const centers: { lat: number; lng: number }[] = [places[0]];
+  while (centers.length < k) {
+    const farthest = places.reduce((best, candidate) => {
+      const distance = Math.min(...centers.map((center) => haversineKm(center, candidate)));
+      return distance > best.distance ? { candidate, distance } : best;
+    }, { candidate: places[0], distance: -1 });
+    centers.push(farthest.candidate);
+  }
+
+  let assignment = places.map(() => 0);
+  for (let iteration = 0; iteration < 25; iteration += 1) {
+    const next = places.map((item) => centers.reduce((best, center, index) => (
+      haversineKm(center, item) < haversineKm(centers[best], item) ? index : best
+    ), 0));
+    const settled = next.every((cluster, index) => cluster === assignment[index]) && iteration > 0;
+    assignment = next;
+    centers.forEach((_, cluster) => {
+      const members = places.filter((__, index) => assignment[index] === cluster);
+      if (!members.length) return;
+      centers[cluster] = {
+        lat: members.reduce((sum, item) => sum + item.lat, 0) / members.length,
+        lng: members.reduce((sum, item) => sum + item.lng, 0) / members.length,
+      };
+    });
+    if (settled) break;
+  }
+
+  return centers
+    .map((_, cluster) => places.filter((__, index) => assignment[index] === cluster))
+    .filter((members) => members.length > 0)
+    .sort((a, b) => places.indexOf(a[0]) - places.indexOf(b[0]))
+    .map((members) => ({ label: null, places: nearestNeighbourOrder(members) }));
+}
+
+/** A sensible default number of days when grouping by area: about five places a day. */
+export function suggestedDayCount(placeCount: number): number {
+  return Math.max(1, Math.min(14, Math.ceil(placeCount / 5)));
+}
+
+// ---------------------------------------------------------------------------
+// Itinerary
+// ---------------------------------------------------------------------------
+
+function importedStop(item: LocatedPlace, dayNumber: number, index: number, startMinutes: number, driveMinutes: number | null): Stop {
+  return {
+    id: `import-${dayNumber}-${index + 1}-${item.row}`,
+    time: formatClockTime(startMinutes),
+    name: item.name,
+    description: item.description || item.address || "Imported place.",
+    hours: "Hours vary",
+    cost: "Cost varies",
+    driveFromPrev: driveMinutes === null ? undefined : formatDurationMinutes(driveMinutes),
+    address: item.address || undefined,
+    lat: item.lat,
+    lng: item.lng,
+    tags: ["Imported"],
+  };
+}
+
+/**
+ * Turns grouped places into editable days. Times from the file are kept when
+ * every place in a day has one; otherwise the day is laid out from the usual
+ * start time using dwell and travel estimates.
+ */
+export function buildImportedItinerary(groups: ImportGroup[], profile: RoutingProfile): DayPlan[] {
+  return groups.map((group, dayIndex) => {
+    const dayNumber = dayIndex + 1;
+    const fileTimes = group.places.map((item) => parseClockTime(item.time));
+    const useFileTimes = fileTimes.every((minutes) => minutes !== null);
+    let clock = DEFAULT_DAY_START_MINUTES;
+    let totalTravel = 0;
+
+    const stops = group.places.map((item, index) => {
+      const previous = index > 0 ? group.places[index - 1] : null;
+      const travel = previous ? estimateTravelMinutes(previous, item, profile) : null;
+      totalTravel += travel ?? 0;
+      if (previous) clock += estimateDwellMinutes({ name: previous.name, tags: [] }) + (travel ?? 0);
+      clock = Math.ceil(clock / 15) * 15;
+      return importedStop(item, dayNumber, index, useFileTimes ? (fileTimes[index] as number) : clock, travel);
+    });
+
+    const label = group.label && groupOrder(group.label) === null ? group.label : null;
+    return {
+      day: dayNumber,
+      title: label ?? `${group.places[0]?.name ?? "Imported"} area`,
+      subtitle: `${stops.length} imported ${stops.length === 1 ? "place" : "places"}`,
+      totalDriving: formatDurationMinutes(totalTravel),
+      estimatedCost: "Cost varies",
+      color: DAY_COLORS[dayIndex % DAY_COLORS.length],
+      stops,
+    };
+  });
+}
@@ -0,0 +1,91 @@
+import type { StayOption, TripConfig, TripLeg } from "@/data/demoTrip";
+
+export const MAX_TRIP_LEGS = 8;
+export const MAX_LEG_NIGHTS = 30;
+
+/** Where a leg falls in the itinerary. */
+export interface LegSegment {
+  index: number;
+  city: string;
+  nights: number;
+  startDay: number;
+  endDay: number;
+}
+
+/** The legs of a multi-city trip, or an empty list when the trip has a single destination. */
+export function tripLegs(config: Pick<TripConfig, "legs">): TripLeg[] {
+  const legs = (config.legs ?? []).filter((leg) => leg.city.trim() && leg.nights > 0);
+  return legs.length > 1 ? legs : [];
+}
+
+export function isMultiCityTrip(config: Pick<TripConfig, "legs">): boolean {
+  return tripLegs(config).length > 0;
+}
+
+/** Days needed to cover every night, plus the day you leave. */
+export function legTripDays(legs: TripLeg[]): number {
+  return legs.reduce((sum, leg) => sum + leg.nights, 0) + 1;
+}
+
+/** "Lisbon → Porto → Madrid" for multi-city trips, "Seattle → Portland" otherwise. */
+export function tripRouteLabel(config: Pick<TripConfig, "from" | "to" | "legs">): string {
+  const legs = tripLegs(config);
+  if (legs.length === 0) return `${config.from} → ${config.to}`;
+  return legs.map((leg) => shortCityName(leg.city)).join(" → ");
+}
+
+export function shortCityName(city: string): string {
+  return city.split(",")[0]?.trim() || city.trim();
+}
+
+/**
+ * Lays the legs over the itinerary's days. A travel day belongs to the city being arrived
+ * in, so each leg starts on the day after the previous leg's last night. The final leg also
+ * takes the departure day and any days added beyond the planned length. Legs that no longer
+ * fit because days were removed are left out.
+ */
+export function legSegments(legs: TripLeg[], dayCount: number): LegSegment[] {
+  const segments: LegSegment[] = [];
+  let startDay = 1;
+  legs.forEach((leg, index) => {
+    if (startDay > dayCount) return;
+    const isLast = index === legs.length - 1;
+    const endDay = isLast ? dayCount : Math.min(dayCount, startDay + leg.nights - 1);
+    segments.push({ index, city: leg.city, nights: leg.nights, startDay, endDay });
+    startDay += leg.nights;
+  });
+  const last = segments[segments.length - 1];
+  if (last) last.endDay = dayCount;
+  return segments;
+}
+
+export function legForDay(segments: LegSegment[], dayNumber: number): LegSegment | null {
+  return segments.find((segment) => dayNumber >= segment.startDay && dayNumber <= segment.endDay) ?? null;
+}
+
+/** The stays picked for a leg's city. Stays are tagged with the short city name when recommended. */
+export function staysForLeg<T extends Pick<StayOption, "city">>(stays: T[], segment: LegSegment): T[] {
+  const city = shortCityName(segment.city);
+  return stays.filter((stay) => stay.city === city);
+}
+
+/**
+ * The stay a day starts and ends at: the first stay picked for the day's city on multi-city
+ * trips (none when that city has no stay), otherwise the first stay picked.
+ */
+export function stayForDay<T extends Pick<StayOption, "city">>(stays: T[], segments: LegSegment[], dayNumber: number): T | null {
+  if (segments.length === 0) return stays[0] ?? null;
+  const leg = legForDay(segments, dayNumber);
+  return (leg && staysForLeg(stays, leg)[0]) ?? null;
+}
+
+/** Check-in and check-out dates for a leg, when the trip has specific dates. */
+export function legDates(startDate: string | undefined, segment: LegSegment): { startDate?: string; endDate?: string } {
+  const match = startDate?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) return {};
+  const at = (day: number) => {
+    const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]) + day - 1));
+    return date.toISOString().slice(0, 10);
+  };
+  return { startDate: at(segment.startDay), endDate: at(segment.startDay + segment.nights) };
+}
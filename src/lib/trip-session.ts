@@ -0,0 +1,68 @@
+import type { ChatMessage, StayOption, TripSession } from "@/data/demoTrip";
+
+/** Older messages are dropped first so long conversations don't bloat the trip row or share link. */
+export const CHAT_HISTORY_LIMIT = 200;
+
+export const EMPTY_TRIP_SESSION: TripSession = { selectedStays: [], stayBudgetVibe: "", chatHistory: [] };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+function text(value: unknown, fallback = ""): string {
+  return typeof value === "string" ? value : fallback;
+}
+
+/** Keeps the readable part of a conversation: text bubbles with content, newest last. */
+export function toSavedChatHistory(messages: ChatMessage[]): ChatMessage[] {
+  return messages
+    .filter((message) => message.type === "text" && message.content.trim().length > 0)
+    .slice(-CHAT_HISTORY_LIMIT);
+}
+
+export function parseSavedStays(raw: unknown): StayOption[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  return raw.flatMap<StayOption>((item) => {
+    if (!isRecord(item)) return [];
+    const lat = Number(item.lat);
+    const lng = Number(item.lng);
+    const id = text(item.id).trim();
+    const name = text(item.name).trim();
+    if (!id || !name || !Number.isFinite(lat) || !Number.isFinite(lng) || seen.has(id)) return [];
+    seen.add(id);
+    return [{
+      id,
+      name,
+      type: text(item.type, "Hotel"),
+      neighborhood: text(item.neighborhood),
+      address: text(item.address),
+      nightlyPrice: text(item.nightlyPrice, "Price varies"),
+      style: text(item.style),
+      why: text(item.why),
+      bestFor: text(item.bestFor),
+      lat,
+      lng,
+      ...(text(item.city).trim() ? { city: text(item.city).trim() } : {}),
+    }];
+  });
+}
+
+export function parseChatHistory(raw: unknown): ChatMessage[] {
+  if (!Array.isArray(raw)) return [];
+  return toSavedChatHistory(raw.flatMap<ChatMessage>((item, index) => {
+    if (!isRecord(item)) return [];
+    if (item.sender !== "bot" && item.sender !== "user") return [];
+    const id = text(item.id).trim() || `saved-${index}`;
+    return [{ id, sender: item.sender, content: text(item.content), type: "text" }];
+  }));
+}
+
+/** Rebuilds a session from stored or shared JSON, dropping anything malformed. */
+export function parseTripSession(raw: { selectedStays?: unknown; stayBudgetVibe?: unknown; chatHistory?: unknown }): TripSession {
+  return {
+    selectedStays: parseSavedStays(raw.selectedStays),
+    stayBudgetVibe: text(raw.stayBudgetVibe).trim(),
+    chatHistory: parseChatHistory(raw.chatHistory),
+  };
+}
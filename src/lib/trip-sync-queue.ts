@@ -0,0 +1,194 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TablesUpdate } from "@/integrations/supabase/types";
+
+export type TripUpdateFields = TablesUpdate<"trips">;
+
+/** A `trips` update saved while offline, replayed once the connection is back. */
+export interface TripMutation {
+  id?: number;
+  tripId: string;
+  title: string;
+  fields: TripUpdateFields;
+  /** The row's `updated_at` when the edit was made; null if it was never seen. */
+  baseUpdatedAt: string | null;
+  queuedAt: number;
+  /** Set when the row changed elsewhere in the meantime; the user has to pick a side. */
+  conflict?: { remoteUpdatedAt: string };
+}
+
+/** The two calls replay needs, so it can run against something other than Supabase in tests. */
+export interface TripRemote {
+  /** Applies `fields` only if the row still has `expectedUpdatedAt`; resolves with the new `updated_at`, or null if nothing matched. */
+  update(tripId: string, fields: TripUpdateFields, expectedUpdatedAt: string | null): Promise<string | null>;
+  /** The row's current `updated_at`, or null if it's gone or not visible to this user. */
+  fetchUpdatedAt(tripId: string): Promise<string | null>;
+}
+
+export interface ReplayOutcome {
+  synced: { mutation: TripMutation; updatedAt: string }[];
+  conflicts: TripMutation[];
+  /** Trips that were deleted or can no longer be edited. */
+  rejected: TripMutation[];
+  /** Not attempted because a request failed, most likely because the connection dropped again. */
+  pending: TripMutation[];
+}
+
+/** What this tab last knew of a trip row, used as the base for its next save. */
+export interface TripSaveBase {
+  updatedAt: string;
+  /** The values this tab last wrote; unknown until it has saved once. */
+  fields?: TripUpdateFields;
+}
+
+export type TripSaveOutcome =
+  | { status: "saved"; base: TripSaveBase }
+  | { status: "conflict" }
+  /** Nothing matched: the trip is gone or this user can't edit it. */
+  | { status: "rejected" };
+
+/** Replay's calls plus a read of the stored values, so a save can tell a real conflict from a harmless one. */
+export interface TripSaveRemote extends TripRemote {
+  fetchFields(tripId: string, columns: string[]): Promise<{ updatedAt: string; fields: TripUpdateFields } | null>;
+}
+
+// Kept in memory rather than on the device: every tab in the browser shares the device copy,
+// so a base read from there would let a stale tab save over a newer save from another tab.
+const serverVersions = new Map<string, TripSaveBase>();
+
+export function rememberServerVersion(tripId: string, base: TripSaveBase) {
+  serverVersions.set(tripId, base);
+}
+
+export function serverVersion(tripId: string): TripSaveBase | null {
+  return serverVersions.get(tripId) ?? null;
+}
+
+/** True for failures that mean "no connection" rather than a rejected request. */
+export function isOfflineError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = typeof error === "object" && error !== null && "message" in error ? String(error.message) : "";
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(message);
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (typeof value !== "object" || value === null) return value;
+  return Object.fromEntries(
+    Object.keys(value)
+      .sort()
+      .map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]),
+  );
+}
+
+/** Compares JSON values the way Postgres `jsonb` stores them, where object key order isn't kept. */
+export function sameStoredJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(sortKeys(a)) === JSON.stringify(sortKeys(b));
+}
+
+/** Folds a newer save into one already queued for the same trip, keeping the original base. */
+export function mergeTripMutations(queued: TripMutation, next: TripMutation): TripMutation {
+  return {
+    ...queued,
+    title: next.title,
+    fields: { ...queued.fields, ...next.fields },
+    queuedAt: next.queuedAt,
+  };
+}
+
+/**
+ * Replays queued mutations oldest first. Each update is conditional on the row's
+ * `updated_at` still matching what the user last saw, so an edit made elsewhere is
+ * reported as a conflict instead of being overwritten. Conflicted mutations are skipped.
+ */
+export async function replayTripMutations(mutations: TripMutation[], remote: TripRemote): Promise<ReplayOutcome> {
+  const outcome: ReplayOutcome = { synced: [], conflicts: [], rejected: [], pending: [] };
+  const queue = mutations.filter((mutation) => !mutation.conflict).sort((a, b) => a.queuedAt - b.queuedAt);
+
+  for (let idx = 0; idx < queue.length; idx += 1) {
+    const mutation = queue[idx];
+    try {
+      const updatedAt = await remote.update(mutation.tripId, mutation.fields, mutation.baseUpdatedAt);
+      if (updatedAt) {
+        outcome.synced.push({ mutation, updatedAt });
+        continue;
+      }
+      const remoteUpdatedAt = await remote.fetchUpdatedAt(mutation.tripId);
+      if (remoteUpdatedAt && remoteUpdatedAt !== mutation.baseUpdatedAt) {
+        outcome.conflicts.push({ ...mutation, conflict: { remoteUpdatedAt } });
+      } else {
+        outcome.rejected.push(mutation);
+      }
+    } catch {
+      outcome.pending.push(...queue.slice(idx));
+      break;
+    }
+  }
+
+  return outcome;
+}
+
+function pickFields(fields: TripUpdateFields, keys: string[]): TripUpdateFields {
+  return Object.fromEntries(keys.map((key) => [key, fields[key as keyof TripUpdateFields]])) as TripUpdateFields;
+}
+
+/**
+ * Saves `fields` over the row as this tab last saw it (`base`). When someone else saved
+ * in between, only the fields this tab changed are written, and only if the other save
+ * left those fields alone (or already wrote the same values); otherwise it's a conflict.
+ * Without a base the save is unconditional.
+ */
+export async function saveTripFields(
+  remote: TripSaveRemote,
+  tripId: string,
+  fields: TripUpdateFields,
+  base: TripSaveBase | null,
+): Promise<TripSaveOutcome> {
+  const updatedAt = await remote.update(tripId, fields, base?.updatedAt ?? null);
+  if (updatedAt) return { status: "saved", base: { updatedAt, fields } };
+  if (!base) return { status: "rejected" };
+
+  const keys = Object.keys(fields);
+  const stored = await remote.fetchFields(tripId, keys);
+  if (!stored || stored.updatedAt === base.updatedAt) return { status: "rejected" };
+
+  const changed = keys.filter((key) => !base.fields || !sameStoredJson(fields[key], base.fields[key]));
+  const clash = changed.some((key) => (
+    !sameStoredJson(stored.fields[key], fields[key]) &&
+    (!base.fields || !sameStoredJson(stored.fields[key], base.fields[key]))
+  ));
+  if (clash) return { status: "conflict" };
+
+  const merged = { ...stored.fields, ...pickFields(fields, changed) };
+  if (changed.length === 0) return { status: "saved", base: { updatedAt: stored.updatedAt, fields: merged } };
+  const retried = await remote.update(tripId, pickFields(fields, changed), stored.updatedAt);
+  return retried ? { status: "saved", base: { updatedAt: retried, fields: merged } } : { status: "conflict" };
+}
+
+export const supabaseTripRemote: TripSaveRemote = {
+  async update(tripId, fields, expectedUpdatedAt) {
+    let query = supabase
+      .from("trips")
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq("id", tripId);
+    if (expectedUpdatedAt) query = query.eq("updated_at", expectedUpdatedAt);
+    const { data, error } = await query.select("updated_at");
+    if (error) throw error;
+    return data?.[0]?.updated_at ?? null;
+  },
+  async fetchUpdatedAt(tripId) {
+    const { data, error } = await supabase.from("trips").select("updated_at").eq("id", tripId).maybeSingle();
+    if (error) throw error;
+    return data?.updated_at ?? null;
+  },
+  async fetchFields(tripId, columns) {
+    const { data, error } = await supabase
+      .from("trips")
+      .select(["updated_at", ...columns].join(", "))
+      .eq("id", tripId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+    const { updated_at: updatedAt, ...fields } = data as unknown as TripUpdateFields & { updated_at: string };
+    return { updatedAt, fields };
+  },
+};
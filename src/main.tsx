@@ -1,6 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App.tsx";
 import "./index.css";
+import { registerServiceWorker } from "./lib/service-worker";
 // cache-bust-2
 
+if (import.meta.env.PROD) registerServiceWorker();
+
 createRoot(document.getElementById("root")!).render(<App />);
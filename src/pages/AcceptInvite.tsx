@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { RoamlyLogo } from "@/components/RoamlyLogo";
+import { AuthDialog } from "@/components/AuthDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+
+export default function AcceptInvite() {
+  const navigate = useNavigate();
+  const { token } = useParams<{ token: string }>();
+  const { user, isLoading: authLoading } = useAuth();
+  const [authOpen, setAuthOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const attemptedRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (authLoading || !user || !token || attemptedRef.current === `${user.id}:${token}`) return;
+    attemptedRef.current = `${user.id}:${token}`;
+
+    supabase.rpc("accept_trip_invitation", { _token: token }).then(({ error: rpcError }) => {
+      if (rpcError) {
+        setError(rpcError.message);
+        return;
+      }
+      toast.success("You've joined the trip!");
+      navigate("/trips", { replace: true });
+    });
+  }, [authLoading, navigate, token, user]);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center px-4 text-center">
+      <RoamlyLogo size="md" className="text-primary mb-8" />
+      <Users className="w-10 h-10 text-accent mb-4" />
+      {!authLoading && !user ? (
+        <>
+          <h1 className="text-2xl font-display font-semibold text-primary mb-2">You've been invited to a trip</h1>
+          <p className="text-muted-foreground font-body mb-6">Sign in with the email address you were invited with.</p>
+          <Button onClick={() => setAuthOpen(true)} className="bg-accent text-accent-foreground hover:bg-accent/90 font-body">
+            Sign in to accept
+          </Button>
+        </>
+      ) : error ? (
+        <>
+          <h1 className="text-2xl font-display font-semibold text-primary mb-2">Couldn't accept invitation</h1>
+          <p className="text-muted-foreground font-body mb-6">{error}</p>
+          <Button variant="outline" onClick={() => navigate("/trips")} className="font-body">
+            Go to My Trips
+          </Button>
+        </>
+      ) : (
+        <p className="flex items-center gap-2 text-muted-foreground font-body">
+          <Loader2 className="w-4 h-4 animate-spin" /> Joining trip...
+        </p>
+      )}
+      <AuthDialog open={authOpen} onOpenChange={setAuthOpen} />
+    </div>
+  );
+}
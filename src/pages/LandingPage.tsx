@@ -1,8 +1,8 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { AnimatePresence, motion } from "framer-motion";
-import { ArrowRight, CalendarIcon, Map, Check } from "lucide-react";
-import { format, differenceInDays } from "date-fns";
+import { ArrowRight, CalendarIcon, Map, Check, Upload, Plus, Minus, X } from "lucide-react";
+import { addDays, format, differenceInDays } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
@@ -13,6 +13,9 @@ import { UserMenu } from "@/components/UserMenu";
 import { useIsMobile } from "@/hooks/use-mobile";
 import type { DateRange } from "react-day-picker";
 import { CityImage } from "@/components/CityImage";
+import { ImportTripDialog } from "@/components/ImportTripDialog";
+import type { DayPlan, TripLeg } from "@/data/demoTrip";
+import { legTripDays, MAX_LEG_NIGHTS, MAX_TRIP_LEGS } from "@/lib/trip-legs";
 
 const tripLengths = ["Day trip", "Weekend", "Full week"];
 const budgetVibes = [
@@ -21,8 +24,33 @@ const budgetVibes = [
   { tier: "$$$", label: "Suite life energy", hint: "Premium picks, iconic spots, less compromise." },
 ];
 
-
-
+function NightsStepper({ nights, onChange }: { nights: number; onChange: (nights: number) => void }) {
+  return (
+    <div className="inline-flex shrink-0 items-center gap-1 rounded-full border border-border bg-card px-1 py-0.5">
+      <button
+        type="button"
+        onClick={() => onChange(Math.max(1, nights - 1))}
+        disabled={nights <= 1}
+        aria-label="One night fewer"
+        className="w-6 h-6 rounded-full flex items-center justify-center text-muted-foreground hover:bg-secondary disabled:opacity-40"
+      >
+        <Minus className="w-3 h-3" />
+      </button>
+      <span className="min-w-[56px] text-center text-xs font-body font-semibold text-foreground">
+        {nights} {nights === 1 ? "night" : "nights"}
+      </span>
+      <button
+        type="button"
+        onClick={() => onChange(Math.min(MAX_LEG_NIGHTS, nights + 1))}
+        disabled={nights >= MAX_LEG_NIGHTS}
+        aria-label="One night more"
+        className="w-6 h-6 rounded-full flex items-center justify-center text-muted-foreground hover:bg-secondary disabled:opacity-40"
+      >
+        <Plus className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
 
 export default function LandingPage() {
   const navigate = useNavigate();
@@ -36,16 +64,49 @@ export default function LandingPage() {
   const [dateMode, setDateMode] = useState<"flexible" | "specific">("flexible");
   const [dateRange, setDateRange] = useState<DateRange | undefined>(undefined);
   const [budgetVibe, setBudgetVibe] = useState(budgetVibes[1].label);
+  const [importOpen, setImportOpen] = useState(false);
+  // Cities after the first one; any at all makes this a multi-city trip.
+  const [nextCities, setNextCities] = useState<TripLeg[]>([]);
+  const [firstCityNights, setFirstCityNights] = useState(2);
+  const isMultiCity = nextCities.length > 0;
+  const legs: TripLeg[] = isMultiCity
+    ? [{ city: to.trim(), nights: firstCityNights }, ...nextCities.map((leg) => ({ ...leg, city: leg.city.trim() }))]
+    : [];
+  const legNights = legs.reduce((sum, leg) => sum + leg.nights, 0);
+
+  const updateNextCity = (index: number, patch: Partial<TripLeg>) => {
+    setNextCities((prev) => prev.map((leg, idx) => (idx === index ? { ...leg, ...patch } : leg)));
+  };
+
   const handlePlanTrip = () => {
     if (!to.trim()) return;
     if (roadTrip && !from.trim()) return;
 
-    const origin = roadTrip ? from.trim() : to.trim();
-    const destination = to.trim();
     const selectedBudget = budgetVibes.find((option) => option.label === budgetVibe);
     const budget = `${selectedBudget?.tier || "$$"} ${budgetVibe}`;
     const mode = roadTrip ? "Car" : "Plane";
 
+    if (isMultiCity) {
+      const startDate = dateMode === "specific" && dateRange?.from ? dateRange.from : null;
+      navigate("/plan", {
+        state: {
+          from: roadTrip ? from.trim() : legs[0].city,
+          to: legs[legs.length - 1].city,
+          days: String(legTripDays(legs)),
+          budget,
+          mode,
+          legs,
+          ...(startDate
+            ? { startDate: format(startDate, "yyyy-MM-dd"), endDate: format(addDays(startDate, legNights), "yyyy-MM-dd") }
+            : {}),
+        },
+      });
+      return;
+    }
+
+    const origin = roadTrip ? from.trim() : to.trim();
+    const destination = to.trim();
+
     if (dateMode === "specific" && dateRange?.from && dateRange?.to) {
       const numDays = differenceInDays(dateRange.to, dateRange.from) + 1;
       navigate("/plan", {
@@ -64,8 +125,23 @@ export default function LandingPage() {
     }
   };
 
-  const canMoveToStepTwo = to.trim() && (!roadTrip || from.trim());
-  const canSubmit = canMoveToStepTwo && (dateMode === "flexible" || dateRange?.from && dateRange?.to);
+  const handleImport = (itinerary: DayPlan[], destination: string) => {
+    const selectedBudget = budgetVibes.find((option) => option.label === budgetVibe);
+    navigate("/plan", {
+      state: {
+        from: destination,
+        to: destination,
+        days: String(itinerary.length),
+        budget: `${selectedBudget?.tier || "$$"} ${budgetVibe}`,
+        mode: "Plane",
+        savedItinerary: itinerary,
+        imported: true,
+      },
+    });
+  };
+
+  const canMoveToStepTwo = to.trim() && (!roadTrip || from.trim()) && nextCities.every((leg) => leg.city.trim());
+  const canSubmit = canMoveToStepTwo && (dateMode === "flexible" || dateRange?.from && (isMultiCity || dateRange?.to));
 
   return (
     <div className="min-h-screen bg-background">
@@ -153,6 +229,13 @@ export default function LandingPage() {
                     >
                       Start chatting <ArrowRight className="ml-2 w-4 h-4" />
                     </Button>
+                    <button
+                      type="button"
+                      onClick={() => setImportOpen(true)}
+                      className="mt-3 inline-flex items-center gap-1.5 text-xs font-body text-white/75 hover:text-white transition-colors"
+                    >
+                      <Upload className="w-3.5 h-3.5" /> Or import places from KML, GPX, GeoJSON or CSV
+                    </button>
                   </div>
                 </motion.div>
               ) : plannerStep === 1 ? (
@@ -172,21 +255,59 @@ export default function LandingPage() {
                       transition={{ duration: 0.28 }}
                       className="overflow-hidden"
                     >
-                      <PlacesAutocomplete value={to} onChange={setTo} placeholder="Enter a city or destination" iconClassName="text-accent" />
+                      <div className="flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <PlacesAutocomplete value={to} onChange={setTo} placeholder="Enter a city or destination" iconClassName="text-accent" />
+                        </div>
+                        {isMultiCity && <NightsStepper nights={firstCityNights} onChange={setFirstCityNights} />}
+                      </div>
                     </motion.div>
 
-                    <button
-                      onClick={() => {
-                        setRoadTrip((prev) => !prev);
-                      }}
-                      className="mt-3 inline-flex items-center gap-2 text-xs font-body text-foreground"
-                      type="button"
-                    >
-                      <span className={`w-4 h-4 rounded border flex items-center justify-center ${roadTrip ? "border-primary bg-primary text-primary-foreground" : "border-border bg-card"}`}>
-                        {roadTrip ? <Check className="w-3 h-3" /> : null}
-                      </span>
-                      Road trip
-                    </button>
+                    {nextCities.map((leg, idx) => (
+                      <div key={idx} className="mt-2 flex items-center gap-2">
+                        <div className="flex-1 min-w-0">
+                          <PlacesAutocomplete
+                            value={leg.city}
+                            onChange={(city) => updateNextCity(idx, { city })}
+                            placeholder="Then on to..."
+                            iconClassName="text-accent"
+                          />
+                        </div>
+                        <NightsStepper nights={leg.nights} onChange={(nights) => updateNextCity(idx, { nights })} />
+                        <button
+                          type="button"
+                          onClick={() => setNextCities((prev) => prev.filter((_, i) => i !== idx))}
+                          aria-label="Remove city"
+                          className="w-7 h-7 shrink-0 rounded-full flex items-center justify-center text-muted-foreground hover:bg-secondary"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ))}
+
+                    <div className="mt-3 flex flex-wrap items-center gap-x-5 gap-y-2">
+                      <button
+                        onClick={() => {
+                          setRoadTrip((prev) => !prev);
+                        }}
+                        className="inline-flex items-center gap-2 text-xs font-body text-foreground"
+                        type="button"
+                      >
+                        <span className={`w-4 h-4 rounded border flex items-center justify-center ${roadTrip ? "border-primary bg-primary text-primary-foreground" : "border-border bg-card"}`}>
+                          {roadTrip ? <Check className="w-3 h-3" /> : null}
+                        </span>
+                        Road trip
+                      </button>
+                      {nextCities.length + 1 < MAX_TRIP_LEGS && (
+                        <button
+                          type="button"
+                          onClick={() => setNextCities((prev) => [...prev, { city: "", nights: 2 }])}
+                          className="inline-flex items-center gap-1.5 text-xs font-body font-semibold text-accent hover:underline"
+                        >
+                          <Plus className="w-3.5 h-3.5" /> Add another city
+                        </button>
+                      )}
+                    </div>
                   </div>
 
                   <AnimatePresence>
@@ -246,7 +367,12 @@ export default function LandingPage() {
                         <PopoverTrigger asChild>
                           <button className="flex items-center gap-2 px-4 py-2.5 rounded-xl border border-border bg-card text-sm font-body font-medium text-foreground hover:bg-secondary/50 transition-all w-full sm:w-auto">
                             <CalendarIcon className="w-4 h-4 text-muted-foreground" />
-                            {dateRange?.from && dateRange?.to ? (
+                            {isMultiCity && dateRange?.from ? (
+                              <span>
+                                {format(dateRange.from, "MMM d")} - {format(addDays(dateRange.from, legNights), "MMM d")}
+                                <span className="text-muted-foreground ml-1">({legNights} nights across {legs.length} cities)</span>
+                              </span>
+                            ) : dateRange?.from && dateRange?.to ? (
                               <span>
                                 {format(dateRange.from, "MMM d")} - {format(dateRange.to, "MMM d")}
                                 <span className="text-muted-foreground ml-1">
@@ -254,7 +380,7 @@ export default function LandingPage() {
                                 </span>
                               </span>
                             ) : (
-                              <span className="text-muted-foreground">Pick your dates</span>
+                              <span className="text-muted-foreground">{isMultiCity ? "Pick a start date" : "Pick your dates"}</span>
                             )}
                           </button>
                         </PopoverTrigger>
@@ -268,6 +394,10 @@ export default function LandingPage() {
                           />
                         </PopoverContent>
                       </Popover>
+                    ) : isMultiCity ? (
+                      <p className="text-sm font-body text-muted-foreground">
+                        {legTripDays(legs)} days, {legNights} nights across {legs.length} cities
+                      </p>
                     ) : (
                       <div className="flex flex-wrap gap-2">
                         {tripLengths.map((t) => (
@@ -333,6 +463,8 @@ export default function LandingPage() {
         </div>
       </section>
 
+      <ImportTripDialog open={importOpen} onOpenChange={setImportOpen} onImport={handleImport} />
+
       {/* Destination Carousel */}
       <DestinationCarousel />
 
@@ -1,14 +1,17 @@
 import { useNavigate } from "react-router-dom";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
-import { ArrowLeft, MapPin, Trash2, Calendar, DollarSign, CalendarRange } from "lucide-react";
+import { ArrowLeft, MapPin, Trash2, Calendar, DollarSign, CalendarRange, Users, Check, X, Copy } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { RoamlyLogo } from "@/components/RoamlyLogo";
 import { UserMenu } from "@/components/UserMenu";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { TRIP_ROLE_LABELS, type TripRole } from "@/hooks/useTripMembers";
 import { toast } from "sonner";
+import { normalizeItinerary } from "@/lib/itinerary-fields";
+import { parseTripSession } from "@/lib/trip-session";
 import type { DayPlan, TripConfig } from "@/data/demoTrip";
 
 export default function MyTrips() {
@@ -29,14 +32,68 @@ export default function MyTrips() {
     enabled: !!user,
   });
 
+  const { data: memberships } = useQuery({
+    queryKey: ["trip-memberships", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("trip_members")
+        .select("id, trip_id, user_id, role, status, invite_token, email")
+        .neq("role", "owner");
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user,
+  });
+
+  const ownTrips = trips?.filter((trip) => trip.user_id === user?.id) ?? [];
+  const sharedRoles = new Map<string, TripRole>(
+    (memberships ?? [])
+      .filter((member) => member.status === "accepted" && member.user_id === user?.id)
+      .map((member) => [member.trip_id, member.role]),
+  );
+  const sharedTrips = trips?.filter((trip) => trip.user_id !== user?.id && sharedRoles.has(trip.id)) ?? [];
+  const pendingInvites = (memberships ?? []).filter(
+    (member) => member.status === "pending" && member.email.toLowerCase() === user?.email?.toLowerCase(),
+  );
+
+  const refreshShared = () => {
+    queryClient.invalidateQueries({ queryKey: ["trips", user?.id] });
+    queryClient.invalidateQueries({ queryKey: ["trip-memberships", user?.id] });
+  };
+
+  const handleAcceptInvite = async (token: string) => {
+    const { error } = await supabase.rpc("accept_trip_invitation", { _token: token });
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success("Invitation accepted");
+      refreshShared();
+    }
+  };
+
+  const handleDeclineInvite = async (memberId: string) => {
+    const { error } = await supabase.from("trip_members").delete().eq("id", memberId);
+    if (error) {
+      toast.error("Failed to decline invitation");
+    } else {
+      refreshShared();
+    }
+  };
+
   const handleOpen = (trip: NonNullable<typeof trips>[number]) => {
     const config = trip.trip_config as unknown as TripConfig;
     navigate("/plan", {
       state: {
         ...config,
         savedTripId: trip.id,
-        savedItinerary: trip.itinerary as unknown as DayPlan[],
+        savedUpdatedAt: trip.updated_at,
+        savedItinerary: normalizeItinerary(trip.itinerary),
         savedPreferences: trip.preferences,
+        savedSession: parseTripSession({
+          selectedStays: trip.selected_stays,
+          stayBudgetVibe: trip.stay_budget_vibe,
+          chatHistory: trip.chat_history,
+        }),
       },
     });
   };
@@ -65,6 +122,65 @@ export default function MyTrips() {
     }
   };
 
+  const renderTripCard = (trip: NonNullable<typeof trips>[number], i: number, shared = false) => {
+    const config = trip.trip_config as unknown as TripConfig;
+    const role = sharedRoles.get(trip.id);
+    return (
+      <motion.div
+        key={trip.id}
+        initial={{ opacity: 0, y: 15 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: i * 0.05 }}
+        className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden hover:shadow-md transition-shadow cursor-pointer group"
+        onClick={() => handleOpen(trip)}
+      >
+        <div className="p-5">
+          <h3 className="font-display font-semibold text-lg text-primary mb-1 truncate">{trip.title}</h3>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground font-body mb-3">
+            <span className="flex items-center gap-1">
+              <Calendar className="w-3 h-3" /> {config?.startDate && config?.endDate ? `${format(parseISO(config.startDate), "MMM d")} – ${format(parseISO(config.endDate), "MMM d")}` : config?.days || "—"}
+            </span>
+            <span className="flex items-center gap-1">
+              <DollarSign className="w-3 h-3" /> {config?.budget || "—"}
+            </span>
+            <span className="flex items-center gap-1">
+              <MapPin className="w-3 h-3" /> {stopCount(trip.itinerary)} stops
+            </span>
+          </div>
+          {shared && role && (
+            <p className="flex items-center gap-1 text-xs text-accent font-body font-semibold mb-1">
+              <Users className="w-3 h-3" /> {TRIP_ROLE_LABELS[role]}
+            </p>
+          )}
+          {(trip.source_author_name || trip.source_share_slug) && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground font-body mb-1">
+              <Copy className="w-3 h-3" />
+              {trip.source_author_name ? `Copied from ${trip.source_author_name}'s trip` : "Copied from a shared trip"}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground font-body">
+            {new Date(trip.updated_at).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+          </p>
+        </div>
+        {!shared && (
+          <div className="px-5 pb-4 flex justify-end">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(trip.id);
+              }}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+      </motion.div>
+    );
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <nav className="fixed top-0 w-full z-50 bg-background/80 backdrop-blur-md border-b border-border/50">
@@ -92,7 +208,7 @@ export default function MyTrips() {
               <div key={i} className="h-48 rounded-2xl bg-secondary animate-pulse" />
             ))}
           </div>
-        ) : !trips || trips.length === 0 ? (
+        ) : ownTrips.length === 0 && sharedTrips.length === 0 && pendingInvites.length === 0 ? (
           <div className="text-center py-20">
             <MapPin className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
             <h2 className="text-xl font-display font-semibold text-primary mb-2">No saved trips yet</h2>
@@ -102,51 +218,43 @@ export default function MyTrips() {
             </Button>
           </div>
         ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {trips.map((trip, i) => {
-              const config = trip.trip_config as unknown as TripConfig;
-              return (
-                <motion.div
-                  key={trip.id}
-                  initial={{ opacity: 0, y: 15 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ delay: i * 0.05 }}
-                  className="bg-card rounded-2xl border border-border/60 shadow-sm overflow-hidden hover:shadow-md transition-shadow cursor-pointer group"
-                  onClick={() => handleOpen(trip)}
-                >
-                  <div className="p-5">
-                    <h3 className="font-display font-semibold text-lg text-primary mb-1 truncate">{trip.title}</h3>
-                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground font-body mb-3">
-                      <span className="flex items-center gap-1">
-                        <Calendar className="w-3 h-3" /> {config?.startDate && config?.endDate ? `${format(parseISO(config.startDate), "MMM d")} – ${format(parseISO(config.endDate), "MMM d")}` : config?.days || "—"}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <DollarSign className="w-3 h-3" /> {config?.budget || "—"}
-                      </span>
-                      <span className="flex items-center gap-1">
-                        <MapPin className="w-3 h-3" /> {stopCount(trip.itinerary)} stops
-                      </span>
+          <div className="space-y-10">
+            {pendingInvites.length > 0 && (
+              <section>
+                <h2 className="text-lg font-display font-semibold text-primary mb-3">Invitations</h2>
+                <div className="space-y-2">
+                  {pendingInvites.map((invite) => (
+                    <div key={invite.id} className="flex items-center gap-3 rounded-2xl border border-border/60 bg-card px-4 py-3">
+                      <Users className="w-4 h-4 text-accent shrink-0" />
+                      <p className="flex-1 text-sm font-body text-foreground">
+                        You've been invited to a trip ({TRIP_ROLE_LABELS[invite.role].toLowerCase()}).
+                      </p>
+                      <Button size="sm" onClick={() => handleAcceptInvite(invite.invite_token)} className="font-body gap-1 bg-accent text-accent-foreground hover:bg-accent/90">
+                        <Check className="w-3.5 h-3.5" /> Accept
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => handleDeclineInvite(invite.id)} className="font-body gap-1 text-muted-foreground">
+                        <X className="w-3.5 h-3.5" /> Decline
+                      </Button>
                     </div>
-                    <p className="text-xs text-muted-foreground font-body">
-                      {new Date(trip.updated_at).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
-                    </p>
-                  </div>
-                  <div className="px-5 pb-4 flex justify-end">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        handleDelete(trip.id);
-                      }}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </motion.div>
-              );
-            })}
+                  ))}
+                </div>
+              </section>
+            )}
+
+            {ownTrips.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {ownTrips.map((trip, i) => renderTripCard(trip, i))}
+              </div>
+            )}
+
+            {sharedTrips.length > 0 && (
+              <section>
+                <h2 className="text-lg font-display font-semibold text-primary mb-3">Shared with me</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                  {sharedTrips.map((trip, i) => renderTripCard(trip, i, true))}
+                </div>
+              </section>
+            )}
           </div>
         )}
       </main>
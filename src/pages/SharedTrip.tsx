@@ -0,0 +1,43 @@
+import { useMemo } from "react";
+import { useLocation, useParams } from "react-router-dom";
+import { Loader2 } from "lucide-react";
+import { RoamlyLogo } from "@/components/RoamlyLogo";
+import { PublicTripView } from "@/components/PublicTripView";
+import { ShareLinkErrorState } from "@/components/ShareLinkErrorState";
+import { useSharedTrip } from "@/hooks/useSharedTrips";
+import { decodeShareData } from "@/lib/share";
+import { ShareLinkError } from "@/lib/share-schema";
+
+/** Public page for `/s/:slug` short links and legacy `/shared?share=` payload links. */
+export default function SharedTrip() {
+  const { slug } = useParams<{ slug: string }>();
+  const location = useLocation();
+  const { sharedTrip, origin, isLoading, error } = useSharedTrip(slug);
+
+  const legacy = useMemo(() => {
+    if (slug) return { trip: null, error: null };
+    try {
+      const trip = decodeShareData(location.search);
+      return { trip, error: trip ? null : new ShareLinkError("not-found", "There's no trip at this link.") };
+    } catch (err) {
+      return { trip: null, error: err instanceof ShareLinkError ? err : new ShareLinkError("corrupt", "This link is incomplete or damaged.") };
+    }
+  }, [location.search, slug]);
+
+  const trip = sharedTrip ?? legacy.trip;
+  if (trip) return <PublicTripView trip={trip} origin={origin} />;
+
+  const linkError = error ?? legacy.error;
+  if (linkError || !isLoading) {
+    return <ShareLinkErrorState error={linkError ?? new ShareLinkError("not-found", "There's no trip at this link.")} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center px-4 text-center">
+      <RoamlyLogo size="md" className="text-primary mb-8" />
+      <p className="flex items-center gap-2 text-muted-foreground font-body">
+        <Loader2 className="w-4 h-4 animate-spin" /> Opening shared trip...
+      </p>
+    </div>
+  );
+}
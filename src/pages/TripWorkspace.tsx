@@ -1,6 +1,6 @@
-import { useEffect, useMemo, useState } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
-import { Map, MessageSquare, Plus, Save, Loader2, LayoutGrid } from "lucide-react";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Navigate, useNavigate, useLocation } from "react-router-dom";
+import { Map, MessageSquare, Plus, Save, Loader2, LayoutGrid, Users, Eye, History, Upload, CloudOff, Undo2, Redo2 } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { RoamlyLogo } from "@/components/RoamlyLogo";
@@ -11,11 +11,28 @@ import { DestinationPanel } from "@/components/DestinationPanel";
 import { ExportTripMenu } from "@/components/ExportTripMenu";
 import { UserMenu } from "@/components/UserMenu";
 import { AuthDialog } from "@/components/AuthDialog";
-import { type DayPlan, type TripConfig } from "@/data/demoTrip";
+import { TripMembersPanel } from "@/components/TripMembersPanel";
+import { PresenceAvatars } from "@/components/PresenceAvatars";
+import { VersionHistoryPanel } from "@/components/VersionHistoryPanel";
+import { ImportTripDialog } from "@/components/ImportTripDialog";
+import { TripBooklet } from "@/components/TripBooklet";
+import { type DayPlan, type TripConfig, type TripLeg, type TripSession } from "@/data/demoTrip";
 import { useIsMobile } from "@/hooks/use-mobile";
 import { useAuth } from "@/hooks/useAuth";
 import { useSaveTrip } from "@/hooks/useSaveTrip";
-import { decodeShareData } from "@/lib/share";
+import { useOfflineTrip } from "@/hooks/useOfflineTrip";
+import { useOnlineStatus } from "@/hooks/useOnlineStatus";
+import { useTripAutosave, type SaveStatus } from "@/hooks/useTripAutosave";
+import { canEditTrip, useTripRole } from "@/hooks/useTripMembers";
+import { useTripRealtime } from "@/hooks/useTripRealtime";
+import { useTripVersions, type TripVersion } from "@/hooks/useTripVersions";
+import { EMPTY_TRIP_SESSION } from "@/lib/trip-session";
+import { localTripKey, type LocalTrip } from "@/lib/offline-trips";
+import { buildTripBudget } from "@/lib/budget";
+import { legSegments, tripLegs, tripRouteLabel } from "@/lib/trip-legs";
+import { restoreDayFromVersion } from "@/lib/itinerary-diff";
+import type { HistoryAvailability } from "@/lib/itinerary-history";
+import { toast } from "sonner";
 
 interface SavedTripState {
   from: string;
@@ -25,17 +42,29 @@ interface SavedTripState {
   mode: string;
   startDate?: string;
   endDate?: string;
+  legs?: TripLeg[];
   savedTripId?: string;
+  /** The trip row's `updated_at` when it was opened. */
+  savedUpdatedAt?: string;
   savedItinerary?: DayPlan[];
   savedPreferences?: { interests: string[]; pace: string; mustSees: string };
+  savedSession?: TripSession;
+  /** Set when `savedItinerary` was built from an imported file rather than loaded from a saved trip. */
+  imported?: boolean;
 }
 
+const SAVE_STATUS_LABELS: Record<SaveStatus, string> = {
+  saved: "Saved",
+  saving: "Saving...",
+  unsaved: "Unsaved changes",
+};
+
 export default function TripWorkspace() {
   const navigate = useNavigate();
   const location = useLocation();
   const isMobile = useIsMobile();
   const { user } = useAuth();
-  const { saveTrip, isSaving } = useSaveTrip();
+  const isOnline = useOnlineStatus();
   const [highlightedStop, setHighlightedStop] = useState<string | null>(null);
   const [showMap, setShowMap] = useState(false);
   const [mapViewMode, setMapViewMode] = useState<"map" | "grid">("map");
@@ -44,22 +73,74 @@ export default function TripWorkspace() {
   const [zoomTarget, setZoomTarget] = useState<{ lat: number; lng: number } | null>(null);
   const [previewPin, setPreviewPin] = useState<{ name: string; lat: number; lng: number } | null>(null);
   const [authOpen, setAuthOpen] = useState(false);
+  const [membersOpen, setMembersOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [itineraryOverride, setItineraryOverride] = useState<{ itinerary: DayPlan[]; key: number; label?: string } | null>(null);
+  const [editHistory, setEditHistory] = useState<HistoryAvailability>({ canUndo: false, canRedo: false });
+  const [historyCommand, setHistoryCommand] = useState<{ action: "undo" | "redo"; key: number } | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const [bookletOpen, setBookletOpen] = useState(false);
+  // Imports before any plan exists restart the chat with the imported itinerary.
+  const [importedPlan, setImportedPlan] = useState<{ itinerary: DayPlan[]; key: number } | null>(null);
+  // Unsaved edits kept on this device from an earlier visit restart the chat the same way.
+  const [restoredPlan, setRestoredPlan] = useState<{ itinerary: DayPlan[]; session: TripSession; key: number } | null>(null);
 
   const state = (location.state || {}) as SavedTripState;
-  const shared = useMemo(() => decodeShareData(location.search), [location.search]);
+  const { saveTrip, isSaving, hasConflict } = useSaveTrip({ tripId: state.savedTripId, updatedAt: state.savedUpdatedAt });
+  // Share links open on the public trip page; this keeps links made before it existed working.
+  const legacyShareSearch = new URLSearchParams(location.search).has("share") ? location.search : null;
   const tripConfig: TripConfig = {
-    from: shared?.tripConfig.from || state.from || "Unknown",
-    to: shared?.tripConfig.to || state.to || "Unknown",
-    days: shared?.tripConfig.days || state.days || "Weekend",
-    budget: shared?.tripConfig.budget || state.budget || "$$",
-    mode: shared?.tripConfig.mode || state.mode || "Car",
-    startDate: shared?.tripConfig.startDate || state.startDate,
-    endDate: shared?.tripConfig.endDate || state.endDate,
+    from: state.from || "Unknown",
+    to: state.to || "Unknown",
+    days: state.days || "Weekend",
+    budget: state.budget || "$$",
+    mode: state.mode || "Car",
+    startDate: state.startDate,
+    endDate: state.endDate,
+    ...(state.legs?.length ? { legs: state.legs } : {}),
   };
   const [savedTripId, setSavedTripId] = useState<string | undefined>(state.savedTripId);
-  const [itinerary, setItinerary] = useState<DayPlan[] | null>(shared?.itinerary ?? state.savedItinerary ?? null);
+  const { role: tripRole } = useTripRole(savedTripId);
+  const isViewOnly = Boolean(savedTripId && tripRole && !canEditTrip(tripRole));
+  const realtime = useTripRealtime(user && tripRole ? savedTripId : undefined, focusedDay);
+  const { record: recordVersion } = useTripVersions(savedTripId, false);
+  const [itinerary, setItinerary] = useState<DayPlan[] | null>(state.savedItinerary ?? null);
   const [preferences, setPreferences] = useState<{ interests: string[]; pace: string; mustSees: string } | undefined>(
-    shared?.preferences ?? state.savedPreferences
+    state.savedPreferences
+  );
+  // Only the session the workspace opened with seeds the chat; later edits flow back through onSessionChange.
+  const [initialSession] = useState<TripSession>(
+    () => state.savedSession ?? EMPTY_TRIP_SESSION,
+  );
+  const [session, setSession] = useState<TripSession>(initialSession);
+  const selectedStays = session.selectedStays;
+  const handleRestoreLocal = useCallback((local: LocalTrip) => {
+    setRestoredPlan({ itinerary: local.itinerary, session: local.session, key: Date.now() });
+    setSession(local.session);
+    if (local.preferences) setPreferences(local.preferences);
+    toast.success("Picked up where you left off on this device.");
+  }, []);
+  useOfflineTrip(
+    localTripKey(savedTripId, location.key),
+    savedTripId,
+    state.savedUpdatedAt,
+    { tripConfig, itinerary, preferences, session },
+    handleRestoreLocal,
+  );
+  const { status: saveStatus, markSaved } = useTripAutosave({
+    enabled: Boolean(user && savedTripId && tripRole && canEditTrip(tripRole)),
+    itinerary,
+    session,
+    preferences,
+    save: async () =>
+      Boolean(itinerary && await saveTrip(tripConfig, itinerary, preferences, savedTripId, tripRole, session, undefined, { autosave: true })),
+    isSaving,
+    paused: hasConflict,
+  });
+  const legs = useMemo(() => legSegments(tripLegs({ legs: state.legs }), itinerary?.length ?? 0), [itinerary?.length, state.legs]);
+  const tripBudget = useMemo(
+    () => (itinerary ? buildTripBudget(itinerary, { stays: selectedStays, budget: tripConfig.budget, legs: tripConfig.legs }) : null),
+    [itinerary, selectedStays, tripConfig.budget, tripConfig.legs],
   );
 
   useEffect(() => {
@@ -69,6 +150,31 @@ export default function TripWorkspace() {
     }
   }, [itinerary]);
 
+  const requestHistoryStep = useCallback((action: "undo" | "redo") => {
+    setHistoryCommand({ action, key: Date.now() });
+  }, []);
+
+  // Ctrl/Cmd+Z undoes an itinerary edit and Shift+Ctrl/Cmd+Z (or Ctrl+Y) redoes it, except while typing.
+  const hasItinerary = Boolean(itinerary);
+  useEffect(() => {
+    if (!hasItinerary || isViewOnly) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+      const key = event.key.toLowerCase();
+      if (key === "z") {
+        event.preventDefault();
+        requestHistoryStep(event.shiftKey ? "redo" : "undo");
+      } else if (key === "y" && !event.shiftKey) {
+        event.preventDefault();
+        requestHistoryStep("redo");
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [hasItinerary, isViewOnly, requestHistoryStep]);
+
   const handleStopClick = (name: string, lat: number, lng: number) => {
     setSelectedStop({ name, lat, lng });
   };
@@ -97,8 +203,40 @@ export default function TripWorkspace() {
       return;
     }
     if (!itinerary) return;
-    const id = await saveTrip(tripConfig, itinerary, preferences, savedTripId);
-    if (id) setSavedTripId(id);
+    const id = await saveTrip(tripConfig, itinerary, preferences, savedTripId, tripRole, session);
+    if (!id) return;
+    setSavedTripId(id);
+    markSaved();
+  };
+
+  const handleItineraryAdjusted = (adjusted: DayPlan[], prompt: string) => {
+    if (savedTripId && !isViewOnly) void recordVersion("adjustment", tripConfig, adjusted, prompt);
+  };
+
+  const handleRestoreVersion = (restored: DayPlan[], version: TripVersion) => {
+    setItineraryOverride({ itinerary: restored, key: Date.now(), label: "Restore version" });
+    setHistoryOpen(false);
+    toast.success(`Restored the version from ${format(parseISO(version.created_at), "MMM d, h:mm a")}.`);
+  };
+
+  const handleRestoreDay = (versionItinerary: DayPlan[], dayNumber: number) => {
+    if (!itinerary) return;
+    setItineraryOverride({
+      itinerary: restoreDayFromVersion(itinerary, versionItinerary, dayNumber),
+      key: Date.now(),
+      label: `Restore Day ${dayNumber}`,
+    });
+    toast.success(`Day ${dayNumber} restored.`);
+  };
+
+  const handleImport = (imported: DayPlan[]) => {
+    const placeCount = imported.reduce((sum, day) => sum + day.stops.length, 0);
+    if (itinerary) {
+      setItineraryOverride({ itinerary: imported, key: Date.now(), label: "Import places" });
+    } else {
+      setImportedPlan({ itinerary: imported, key: Date.now() });
+    }
+    toast.success(`Imported ${placeCount} places into ${imported.length} ${imported.length === 1 ? "day" : "days"}.`);
   };
 
   const handlePreferencesUpdate = (prefs: { interests: string[]; pace: string; mustSees: string }) => {
@@ -111,6 +249,8 @@ export default function TripWorkspace() {
       ? "calc(env(safe-area-inset-bottom, 0px) + 5.75rem)"
       : "calc(env(safe-area-inset-bottom, 0px) + 1rem)";
 
+  if (legacyShareSearch) return <Navigate to={{ pathname: "/shared", search: legacyShareSearch }} replace />;
+
   return (
     <div className="h-screen flex flex-col bg-background">
       {/* Top Nav */}
@@ -119,16 +259,77 @@ export default function TripWorkspace() {
           <RoamlyLogo size="sm" className="text-primary" />
         </button>
         <div className="hidden sm:flex items-center gap-2 px-4 py-1.5 rounded-full bg-secondary text-xs font-body font-medium text-foreground">
-          {tripConfig.from} → {tripConfig.to} | {tripConfig.startDate && tripConfig.endDate ? `${format(parseISO(tripConfig.startDate), "MMM d")} – ${format(parseISO(tripConfig.endDate), "MMM d")}` : tripConfig.days} | {tripConfig.budget}
+          {tripRouteLabel(tripConfig)} | {tripConfig.startDate && tripConfig.endDate ? `${format(parseISO(tripConfig.startDate), "MMM d")} – ${format(parseISO(tripConfig.endDate), "MMM d")}` : tripConfig.days} | {tripConfig.budget}
         </div>
         <div className="flex items-center gap-2">
-          {itinerary && (
-            <Button variant="ghost" size="sm" onClick={handleSave} disabled={isSaving} className="font-body text-xs gap-1">
-              {isSaving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
-              {savedTripId ? "Saved" : "Save"}
+          {!isOnline && (
+            <span className="inline-flex items-center gap-1 rounded-full bg-secondary px-2.5 py-1 text-[11px] font-body font-semibold text-muted-foreground">
+              <CloudOff className="w-3 h-3" /> Offline
+            </span>
+          )}
+          <PresenceAvatars peers={realtime.peers} />
+          {isViewOnly && (
+            <span className="inline-flex items-center gap-1 rounded-full bg-secondary px-2.5 py-1 text-[11px] font-body font-semibold text-muted-foreground">
+              <Eye className="w-3 h-3" /> View only
+            </span>
+          )}
+          {user && savedTripId && (
+            <Button variant="ghost" size="sm" onClick={() => setMembersOpen(true)} className="font-body text-xs gap-1">
+              <Users className="w-3.5 h-3.5" /> Members
             </Button>
           )}
-          {itinerary && <ExportTripMenu itinerary={itinerary} tripConfig={tripConfig} />}
+          {user && savedTripId && (
+            <Button variant="ghost" size="sm" onClick={() => setHistoryOpen(true)} className="font-body text-xs gap-1">
+              <History className="w-3.5 h-3.5" /> History
+            </Button>
+          )}
+          {itinerary && !isViewOnly && (
+            <div className="flex items-center">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => requestHistoryStep("undo")}
+                disabled={!editHistory.canUndo}
+                title={editHistory.undoLabel ? `Undo ${editHistory.undoLabel.toLowerCase()}` : "Undo"}
+                aria-label="Undo"
+                className="h-8 w-8"
+              >
+                <Undo2 className="w-3.5 h-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => requestHistoryStep("redo")}
+                disabled={!editHistory.canRedo}
+                title={editHistory.redoLabel ? `Redo ${editHistory.redoLabel.toLowerCase()}` : "Redo"}
+                aria-label="Redo"
+                className="h-8 w-8"
+              >
+                <Redo2 className="w-3.5 h-3.5" />
+              </Button>
+            </div>
+          )}
+          {itinerary && !isViewOnly && (
+            <Button variant="ghost" size="sm" onClick={handleSave} disabled={saveStatus === "saving"} className="font-body text-xs gap-1">
+              {saveStatus === "saving" ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Save className="w-3.5 h-3.5" />}
+              {savedTripId ? SAVE_STATUS_LABELS[saveStatus] : "Save"}
+            </Button>
+          )}
+          {!isViewOnly && (
+            <Button variant="ghost" size="sm" onClick={() => setImportOpen(true)} className="font-body text-xs gap-1">
+              <Upload className="w-3.5 h-3.5" /> Import
+            </Button>
+          )}
+          {itinerary && (
+            <ExportTripMenu
+              itinerary={itinerary}
+              tripConfig={tripConfig}
+              session={session}
+              preferences={preferences}
+              tripId={savedTripId}
+              onOpenBooklet={() => setBookletOpen(true)}
+            />
+          )}
           <Button variant="ghost" size="sm" onClick={() => navigate("/")} className="font-body text-xs gap-1">
             <Plus className="w-3.5 h-3.5" /> New Trip
           </Button>
@@ -143,6 +344,7 @@ export default function TripWorkspace() {
           <>
             <div className="w-[45%] min-w-[360px] border-r border-border overflow-hidden">
               <ChatPanel
+                key={importedPlan?.key ?? restoredPlan?.key ?? "chat"}
                 tripConfig={tripConfig}
                 onHighlightStop={setHighlightedStop}
                 highlightedStop={highlightedStop}
@@ -155,7 +357,16 @@ export default function TripWorkspace() {
                 onPreviewPin={(name, lat, lng) => setPreviewPin({ name, lat, lng })}
                 onSaveTrip={handleSave}
                 onPreferencesUpdate={handlePreferencesUpdate}
-                initialItinerary={shared?.itinerary ?? state.savedItinerary}
+                onSessionChange={setSession}
+                realtime={savedTripId ? realtime : null}
+                canEdit={!isViewOnly}
+                onItineraryAdjusted={handleItineraryAdjusted}
+                itineraryOverride={itineraryOverride}
+                historyCommand={historyCommand}
+                onHistoryChange={setEditHistory}
+                initialItinerary={importedPlan?.itinerary ?? restoredPlan?.itinerary ?? state.savedItinerary}
+                initialSession={restoredPlan?.session ?? initialSession}
+                initialItineraryOrigin={importedPlan || state.imported ? "imported" : "saved"}
                 reserveBottomSpace={isMobile && !!itinerary}
               />
             </div>
@@ -190,10 +401,10 @@ export default function TripWorkspace() {
               )}
 
               {mapViewMode === "grid" && itinerary ? (
-                <ItineraryGridPanel itinerary={itinerary} destination={tripConfig.to} onOpenDayOnMap={handleOpenDayOnMap} />
+                <ItineraryGridPanel itinerary={itinerary} destination={tripConfig.to} legs={legs} budget={tripBudget} onOpenDayOnMap={handleOpenDayOnMap} />
               ) : (
                 <>
-                  <TripMap itinerary={itinerary} highlightedStop={highlightedStop} onHighlightStop={setHighlightedStop} focusedDay={focusedDay} onResetFocus={() => setFocusedDay(null)} onFocusDay={handleDayFocus} onStopClick={handleStopClick} visible={!selectedStop} zoomTarget={zoomTarget} onZoomComplete={() => setZoomTarget(null)} previewPin={previewPin} destination={tripConfig.to} startDate={tripConfig.startDate} endDate={tripConfig.endDate} />
+                  <TripMap itinerary={itinerary} highlightedStop={highlightedStop} onHighlightStop={setHighlightedStop} focusedDay={focusedDay} onResetFocus={() => setFocusedDay(null)} onFocusDay={handleDayFocus} onStopClick={handleStopClick} visible={!selectedStop} zoomTarget={zoomTarget} onZoomComplete={() => setZoomTarget(null)} previewPin={previewPin} destination={tripConfig.to} legs={legs} startDate={tripConfig.startDate} endDate={tripConfig.endDate} />
                   <DestinationPanel stop={selectedStop} onClose={() => setSelectedStop(null)} />
                 </>
               )}
@@ -232,16 +443,17 @@ export default function TripWorkspace() {
               )}
 
               {mapViewMode === "grid" && itinerary ? (
-                <ItineraryGridPanel itinerary={itinerary} destination={tripConfig.to} onOpenDayOnMap={handleOpenDayOnMap} />
+                <ItineraryGridPanel itinerary={itinerary} destination={tripConfig.to} legs={legs} budget={tripBudget} onOpenDayOnMap={handleOpenDayOnMap} />
               ) : (
                 <>
-                  <TripMap itinerary={itinerary} highlightedStop={highlightedStop} onHighlightStop={setHighlightedStop} focusedDay={focusedDay} onResetFocus={() => setFocusedDay(null)} onFocusDay={handleDayFocus} onStopClick={handleStopClick} visible={showMap && !selectedStop} zoomTarget={zoomTarget} onZoomComplete={() => setZoomTarget(null)} previewPin={previewPin} destination={tripConfig.to} startDate={tripConfig.startDate} endDate={tripConfig.endDate} />
+                  <TripMap itinerary={itinerary} highlightedStop={highlightedStop} onHighlightStop={setHighlightedStop} focusedDay={focusedDay} onResetFocus={() => setFocusedDay(null)} onFocusDay={handleDayFocus} onStopClick={handleStopClick} visible={showMap && !selectedStop} zoomTarget={zoomTarget} onZoomComplete={() => setZoomTarget(null)} previewPin={previewPin} destination={tripConfig.to} legs={legs} startDate={tripConfig.startDate} endDate={tripConfig.endDate} />
                   <DestinationPanel stop={selectedStop} onClose={() => setSelectedStop(null)} />
                 </>
               )}
             </div>
             <div className={`flex-1 overflow-hidden ${showMap ? 'hidden' : ''}`}>
               <ChatPanel
+                key={importedPlan?.key ?? restoredPlan?.key ?? "chat"}
                 tripConfig={tripConfig}
                 onHighlightStop={setHighlightedStop}
                 highlightedStop={highlightedStop}
@@ -257,7 +469,16 @@ export default function TripWorkspace() {
                 }}
                 onSaveTrip={handleSave}
                 onPreferencesUpdate={handlePreferencesUpdate}
-                initialItinerary={shared?.itinerary ?? state.savedItinerary}
+                onSessionChange={setSession}
+                realtime={savedTripId ? realtime : null}
+                canEdit={!isViewOnly}
+                onItineraryAdjusted={handleItineraryAdjusted}
+                itineraryOverride={itineraryOverride}
+                historyCommand={historyCommand}
+                onHistoryChange={setEditHistory}
+                initialItinerary={importedPlan?.itinerary ?? restoredPlan?.itinerary ?? state.savedItinerary}
+                initialSession={restoredPlan?.session ?? initialSession}
+                initialItineraryOrigin={importedPlan || state.imported ? "imported" : "saved"}
                 reserveBottomSpace={isMobile && !!itinerary}
               />
             </div>
@@ -266,6 +487,42 @@ export default function TripWorkspace() {
       </div>
 
       <AuthDialog open={authOpen} onOpenChange={setAuthOpen} />
+      <ImportTripDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        destination={tripConfig.to}
+        mode={tripConfig.mode}
+        onImport={handleImport}
+      />
+      {itinerary && (
+        <TripBooklet
+          open={bookletOpen}
+          onClose={() => setBookletOpen(false)}
+          itinerary={itinerary}
+          tripConfig={tripConfig}
+          stays={selectedStays}
+          budget={tripBudget}
+        />
+      )}
+      {savedTripId && (
+        <TripMembersPanel
+          open={membersOpen}
+          onOpenChange={setMembersOpen}
+          tripId={savedTripId}
+          role={tripRole}
+        />
+      )}
+      {savedTripId && (
+        <VersionHistoryPanel
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          tripId={savedTripId}
+          currentItinerary={itinerary}
+          canEdit={!isViewOnly}
+          onRestore={handleRestoreVersion}
+          onRestoreDay={handleRestoreDay}
+        />
+      )}
 
       {/* Mobile sticky bottom map/chat toggle */}
       {isMobile && (
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import type { Stop } from "@/data/demoTrip";
+import { applyAlternative, parseAlternatives } from "@/lib/alternatives";
+import { makeDay, makeStop } from "./fixtures";
+
+const stop = (id: string, lat: number, lng = 0) => makeStop(id, { lat, lng });
+const day = (number: number, stops: Stop[]) => makeDay(number, stops, { color: "#123456" });
+
+// 0.01° of latitude is about 1.11 km.
+const base = [
+  day(1, [stop("a", 0), stop("b", 0.01), stop("c", 0.02)]),
+  day(2, [stop("d", 0.05), stop("e", 0.06)]),
+  day(3, [stop("f", 0.1)]),
+];
+
+describe("parseAlternatives", () => {
+  it("measures stop candidates against the stops before and after the slot", () => {
+    const [candidate, ...rest] = parseAlternatives(
+      [
+        { stop: { name: "Tea House", lat: 0.01, lng: 0 }, reason: "Quieter" },
+        { stop: { name: "No coordinates" }, reason: "" },
+      ],
+      base,
+      { day: 1, stopId: "b" },
+    );
+
+    expect(rest).toEqual([]);
+    expect(candidate.kind).toBe("stop");
+    expect(candidate.reason).toBe("Quieter");
+    expect(candidate.fromPrev?.name).toBe("a");
+    expect(candidate.fromPrev?.km).toBeCloseTo(1.11, 1);
+    expect(candidate.toNext?.name).toBe("c");
+    expect(candidate.toNext?.km).toBeCloseTo(1.11, 1);
+  });
+
+  it("has no neighbour on the open side of the first stop", () => {
+    const [candidate] = parseAlternatives([{ stop: { name: "Bakery", lat: 0, lng: 0 } }], base, { day: 1, stopId: "a" });
+    expect(candidate.fromPrev).toBeNull();
+    expect(candidate.toNext?.name).toBe("b");
+  });
+
+  it("keeps day candidates on the same day number and colour, measured against adjacent days", () => {
+    const [candidate] = parseAlternatives(
+      [{ day: { day: 7, title: "Markets", color: "#ffffff", stops: [{ name: "Market", lat: 0.03, lng: 0 }, { name: "Pier", lat: 0.09, lng: 0 }] } }],
+      base,
+      { day: 2 },
+    );
+
+    expect(candidate.kind).toBe("day");
+    if (candidate.kind !== "day") return;
+    expect(candidate.day).toMatchObject({ day: 2, title: "Markets", color: "#123456" });
+    expect(candidate.day.stops.map((s) => s.id)).toEqual(["d2r1s1", "d2r1s2"]);
+    expect(candidate.fromPrev?.name).toBe("c");
+    expect(candidate.toNext?.name).toBe("f");
+  });
+
+  it("gives candidates ids that no existing stop uses", () => {
+    const itinerary = [
+      day(1, [stop("a", 0), stop("b", 0.01), stop("b-alt1", 0.02)]),
+      day(2, [stop("d2r1s1", 0.05), stop("e", 0.06)]),
+    ];
+    const stopCandidates = parseAlternatives(
+      [{ stop: { name: "Tea House", lat: 0, lng: 0 } }, { stop: { name: "Library", lat: 0, lng: 0 } }],
+      itinerary,
+      { day: 1, stopId: "b" },
+    );
+    expect(stopCandidates.map((c) => c.kind === "stop" && c.stop.id)).toEqual(["b-alt2", "b-alt3"]);
+
+    const [dayCandidate] = parseAlternatives(
+      [{ day: { stops: [{ name: "Market", lat: 0.03, lng: 0 }, { name: "Pier", lat: 0.09, lng: 0 }] } }],
+      itinerary,
+      { day: 2 },
+    );
+    if (dayCandidate.kind !== "day") throw new Error("expected a day candidate");
+    expect(dayCandidate.day.stops.map((s) => s.id)).toEqual(["d2r1s2", "d2r1s3"]);
+  });
+
+  it("takes only known day fields from a candidate", () => {
+    const [candidate] = parseAlternatives(
+      [{ day: { title: "Markets", estimatedCost: "$80", estimatedCostRange: { min: 1, max: 1 }, share: "x", stops: [{ name: "Market", lat: 0.03, lng: 0 }] } }],
+      base,
+      { day: 2 },
+    );
+    if (candidate.kind !== "day") throw new Error("expected a day candidate");
+    expect(candidate.day).toEqual({
+      day: 2,
+      title: "Markets",
+      subtitle: "",
+      totalDriving: "0m",
+      estimatedCost: "$80",
+      color: "#123456",
+      stops: candidate.day.stops,
+      route: null,
+    });
+  });
+
+  it("returns nothing when the target has gone", () => {
+    expect(parseAlternatives([{ stop: { name: "X", lat: 0, lng: 0 } }], base, { day: 1, stopId: "zzz" })).toEqual([]);
+  });
+});
+
+describe("applyAlternative", () => {
+  it("swaps only the chosen slot", () => {
+    const [candidate] = parseAlternatives([{ stop: { name: "Tea House", lat: 0.01, lng: 0 } }], base, { day: 1, stopId: "b" });
+    const next = applyAlternative(base, { day: 1, stopId: "b" }, candidate);
+    expect(next[0].stops.map((s) => s.name)).toEqual(["a", "Tea House", "c"]);
+    expect(next[1]).toBe(base[1]);
+    expect(next[2]).toBe(base[2]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import type { MoneyRange, Stop } from "@/data/demoTrip";
+import { buildTripBudget, categorizeStop, formatBudgetAmount, parseBudgetTier } from "@/lib/budget";
+import { makeDay, makeStay, makeStop, usd } from "./fixtures";
+
+const stop = (name: string, costRange: MoneyRange | null): Stop => makeStop(name, { costRange });
+const day = (dayNumber: number, stops: Stop[], estimatedCostRange: MoneyRange | null = null) => makeDay(dayNumber, stops, { estimatedCostRange });
+const stay = (nightlyPrice: string) => makeStay(nightlyPrice, { nightlyPrice });
+
+describe("categorizeStop", () => {
+  it("matches food words as whole words in tags and names", () => {
+    expect(categorizeStop({ name: "Pike Place Market", tags: [] })).toBe("food");
+    expect(categorizeStop({ name: "Joe's", tags: ["Food & Drink"] })).toBe("food");
+    expect(categorizeStop({ name: "Café de Flore", tags: [] })).toBe("food");
+    expect(categorizeStop({ name: "Rooftop Bars", tags: [] })).toBe("food");
+  });
+
+  it("doesn't read food into other words", () => {
+    expect(categorizeStop({ name: "Seattle Art Museum", tags: [] })).toBe("activities");
+    expect(categorizeStop({ name: "Sagrada Familia Barcelona", tags: [] })).toBe("activities");
+    expect(categorizeStop({ name: "Great Barrier Reef", tags: ["Nature"] })).toBe("activities");
+    expect(categorizeStop({ name: "Space Needle Theater", tags: [] })).toBe("activities");
+  });
+});
+
+describe("buildTripBudget", () => {
+  it("totals each day by category and the trip across days", () => {
+    const budget = buildTripBudget([
+      day(1, [stop("Lunch Spot", usd(20, 30)), stop("Art Museum", usd(25))], usd(80, 100)),
+      day(2, [stop("Hike", usd(0))]),
+    ]);
+
+    expect(budget.days[0].categories).toEqual({
+      food: { min: 20, max: 30 },
+      activities: { min: 25, max: 25 },
+      transport: { min: 35, max: 45 },
+      lodging: { min: 0, max: 0 },
+    });
+    expect(budget.days[0].total).toEqual({ min: 80, max: 100 });
+    expect(budget.total).toEqual({ min: 80, max: 100 });
+    expect(budget.categories.activities).toEqual({ min: 25, max: 25 });
+  });
+
+  it("spreads stays over the nights and compares against the tier target", () => {
+    const budget = buildTripBudget(
+      [day(1, [stop("Museum", usd(20))]), day(2, []), day(3, [])],
+      { stays: [stay("$100/night")], budget: "$" },
+    );
+
+    expect(budget.nights).toBe(2);
+    expect(budget.categories.lodging).toEqual({ min: 200, max: 200 });
+    expect(budget.target).toEqual({ min: 0, max: 360 });
+    expect(budget.status).toBe("within");
+  });
+
+  it("charges each leg's nights to the stays picked for its city", () => {
+    const budget = buildTripBudget(
+      [1, 2, 3, 4, 5].map((dayNumber) => day(dayNumber, [])),
+      {
+        stays: [makeStay("madrid", { nightlyPrice: "$200/night", city: "Madrid" }), makeStay("lisbon", { nightlyPrice: "$100/night", city: "Lisbon" })],
+        legs: [{ city: "Lisbon, Portugal", nights: 2 }, { city: "Porto, Portugal", nights: 1 }, { city: "Madrid, Spain", nights: 1 }],
+      },
+    );
+
+    expect(budget.days.map((item) => item.categories.lodging.max)).toEqual([100, 100, 0, 200, 0]);
+    expect(budget.categories.lodging).toEqual({ min: 400, max: 400 });
+  });
+
+  it("counts unpriced stops and leaves out other currencies", () => {
+    const budget = buildTripBudget([
+      day(1, [stop("Museum", usd(20)), stop("Gallery", usd(15)), stop("Louvre", { min: 17, max: 17, currency: "EUR" }), stop("Pop-up", null)]),
+    ]);
+
+    expect(budget.currency).toBe("USD");
+    expect(budget.total).toEqual({ min: 35, max: 35 });
+    expect(budget.excludedItems).toBe(1);
+    expect(budget.days[0].unpricedStops).toBe(1);
+  });
+
+  it("has no status for an unpriced trip", () => {
+    const budget = buildTripBudget([day(1, [stop("Park", null)])], { budget: "$$" });
+    expect(budget.total).toEqual({ min: 0, max: 0 });
+    expect(budget.status).toBe("unknown");
+  });
+});
+
+describe("budget formatting", () => {
+  it("reads tiers and formats amounts", () => {
+    expect(parseBudgetTier("$$ Moderate")).toBe("$$");
+    expect(parseBudgetTier("Flexible")).toBeNull();
+    expect(formatBudgetAmount({ min: 1200, max: 1500 }, "USD")).toBe("$1,200–$1,500");
+    expect(formatBudgetAmount({ min: 40, max: 40 }, "CHF")).toBe("40 CHF");
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import type { Stop } from "@/data/demoTrip";
+import { optimizeDayStops } from "@/lib/day-optimizer";
+import { makeStop } from "./fixtures";
+
+const stop = (id: string, lng: number, extra: Partial<Stop> = {}) => makeStop(id, { time: "", lng, ...extra });
+
+describe("optimizeDayStops", () => {
+  it("removes back-and-forth travel and re-times the day", () => {
+    const stops = [stop("a", 0, { startMinutes: 540 }), stop("c", 0.04), stop("b", 0.02)];
+    const result = optimizeDayStops(stops, { profile: "walking", weekday: null });
+
+    expect(result.changed).toBe(true);
+    expect(result.stops.map((s) => s.id)).toEqual(["a", "b", "c"]);
+    expect(result.savedMinutes).toBeGreaterThan(0);
+    expect(result.stops[0].time).toBe("9:00 AM");
+    expect(result.stops[1].startMinutes).toBeGreaterThan(result.stops[0].startMinutes as number);
+  });
+
+  it("respects opening hours over raw distance", () => {
+    const eveningOnly = { alwaysOpen: false, periods: [{ day: 1, open: 17 * 60, close: 23 * 60 }] };
+    const stops = [stop("bar", 0, { openingHours: eveningOnly }), stop("museum", 0.01)];
+    const result = optimizeDayStops(stops, { profile: "walking", weekday: 1, dayStartMinutes: 600 });
+
+    expect(result.stops.map((s) => s.id)).toEqual(["museum", "bar"]);
+    expect(result.after.conflicts).toBe(0);
+  });
+
+  it("keeps an already optimal order", () => {
+    const stops = [stop("a", 0), stop("b", 0.01), stop("c", 0.02)];
+    const result = optimizeDayStops(stops, { profile: "driving", weekday: null });
+    expect(result.changed).toBe(false);
+    expect(result.stops).toBe(stops);
+  });
+});
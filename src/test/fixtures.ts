@@ -0,0 +1,30 @@
+import type { DayPlan, MoneyRange, StayOption, Stop } from "@/data/demoTrip";
+
+// Shared builders for itinerary test data; pass overrides for the fields a test cares about.
+
+export const usd = (min: number, max = min): MoneyRange => ({ min, max, currency: "USD" });
+
+export function makeStop(id: string, overrides: Partial<Stop> = {}): Stop {
+  return { id, time: "9:00 AM", name: id, description: "", hours: "", cost: "", lat: 0, lng: 0, tags: [], ...overrides };
+}
+
+export function makeDay(day: number, stops: Stop[] = [], overrides: Partial<DayPlan> = {}): DayPlan {
+  return { day, title: `Day ${day}`, subtitle: "", totalDriving: "0m", estimatedCost: "$0", color: "#1B4332", stops, ...overrides };
+}
+
+export function makeStay(id: string, overrides: Partial<StayOption> = {}): StayOption {
+  return {
+    id,
+    name: id,
+    type: "",
+    neighborhood: "",
+    address: "",
+    nightlyPrice: "",
+    style: "",
+    why: "",
+    bestFor: "",
+    lat: 0,
+    lng: 0,
+    ...overrides,
+  };
+}
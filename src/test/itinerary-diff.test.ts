@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import type { Stop } from "@/data/demoTrip";
+import { describeItineraryChanges, restoreDayFromVersion } from "@/lib/itinerary-diff";
+import { makeDay, makeStop } from "./fixtures";
+
+const stop = (id: string, time = "9:00 AM") => makeStop(id, { time, name: id.toUpperCase() });
+const day = (number: number, stops: Stop[]) => makeDay(number, stops, { color: `#00000${number}` });
+
+const older = [day(1, [stop("a"), stop("b"), stop("c")]), day(2, [stop("d")])];
+
+describe("describeItineraryChanges", () => {
+  it("reports adds, removals, moves, reorders and time changes per day", () => {
+    const newer = [
+      day(1, [stop("c"), stop("a", "10:30 AM"), stop("e")]),
+      day(2, [stop("d"), stop("b")]),
+    ];
+    const changes = describeItineraryChanges(older, newer);
+
+    expect(changes.days).toEqual([
+      { day: 1, title: "Day 1", added: ["E"], removed: [], movedIn: [], reordered: ["A"], timeChanges: [{ name: "A", from: "9:00 AM", to: "10:30 AM" }] },
+      { day: 2, title: "Day 2", added: [], removed: [], movedIn: ["B (from Day 1)"], reordered: [], timeChanges: [] },
+    ]);
+    expect(changes.totalChanges).toBe(4);
+  });
+
+  it("reports nothing for identical plans", () => {
+    expect(describeItineraryChanges(older, older).totalChanges).toBe(0);
+  });
+});
+
+describe("restoreDayFromVersion", () => {
+  it("brings back one day without duplicating stops moved elsewhere", () => {
+    const current = [day(1, [stop("a")]), day(2, [stop("d"), stop("b"), stop("c")])];
+    const restored = restoreDayFromVersion(current, older, 1);
+
+    expect(restored.map((d) => d.stops.map((s) => s.id))).toEqual([["a", "b", "c"], ["d"]]);
+    expect(restored[0].color).toBe(current[0].color);
+  });
+});
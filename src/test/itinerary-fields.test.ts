@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeItinerary,
+  parseClockTime,
+  parseDurationMinutes,
+  parseMoneyRange,
+  parseOpeningHours,
+} from "@/lib/itinerary-fields";
+
+describe("parseClockTime", () => {
+  it("parses 12-hour and 24-hour clock strings", () => {
+    expect(parseClockTime("9:00 AM")).toBe(540);
+    expect(parseClockTime("12:30 pm")).toBe(750);
+    expect(parseClockTime("7pm")).toBe(1140);
+    expect(parseClockTime("14:15")).toBe(855);
+    expect(parseClockTime("Anytime")).toBeNull();
+  });
+});
+
+describe("parseDurationMinutes", () => {
+  it("reads hour and minute units regardless of travel mode", () => {
+    expect(parseDurationMinutes("2h flight")).toBe(120);
+    expect(parseDurationMinutes("4h 30m drive")).toBe(270);
+    expect(parseDurationMinutes("45 min walk")).toBe(45);
+    expect(parseDurationMinutes("1.5 hours")).toBe(90);
+    expect(parseDurationMinutes("nearby")).toBeNull();
+  });
+});
+
+describe("parseMoneyRange", () => {
+  it("parses ranges, single amounts and free entries", () => {
+    expect(parseMoneyRange("$25-40")).toEqual({ min: 25, max: 40, currency: "USD" });
+    expect(parseMoneyRange("$180-$240/night")).toEqual({ min: 180, max: 240, currency: "USD" });
+    expect(parseMoneyRange("€15")).toEqual({ min: 15, max: 15, currency: "EUR" });
+    expect(parseMoneyRange("Free")).toEqual({ min: 0, max: 0, currency: "USD" });
+    expect(parseMoneyRange("Cost varies")).toBeNull();
+  });
+});
+
+describe("parseOpeningHours", () => {
+  it("parses a simple daily range", () => {
+    const hours = parseOpeningHours("11 AM–6 PM");
+    expect(hours?.alwaysOpen).toBe(false);
+    expect(hours?.periods).toHaveLength(7);
+    expect(hours?.periods[0]).toEqual({ day: 0, open: 660, close: 1080 });
+  });
+
+  it("handles day ranges, closures and overnight hours", () => {
+    const hours = parseOpeningHours("Tue-Sat 10am-2am; Closed Mon");
+    expect(hours?.periods.map((p) => p.day)).toEqual([2, 3, 4, 5, 6]);
+    expect(hours?.periods[0]).toEqual({ day: 2, open: 600, close: 1560 });
+  });
+
+  it("applies a range to every day in a comma-separated list", () => {
+    const hours = parseOpeningHours("Mon, Wed, Fri 9 AM-5 PM");
+    expect(hours?.periods).toEqual([
+      { day: 1, open: 540, close: 1020 },
+      { day: 3, open: 540, close: 1020 },
+      { day: 5, open: 540, close: 1020 },
+    ]);
+  });
+
+  it("recognizes always-open venues", () => {
+    expect(parseOpeningHours("Open 24 hours")).toEqual({ alwaysOpen: true, periods: [] });
+    expect(parseOpeningHours("Hours vary")).toBeNull();
+  });
+});
+
+describe("normalizeItinerary", () => {
+  it("upgrades legacy saved itineraries with structured fields", () => {
+    const [day] = normalizeItinerary([
+      {
+        day: 1,
+        title: "Old town",
+        subtitle: "Walk",
+        totalDriving: "1h 10m",
+        estimatedCost: "$85",
+        color: "#1B4332",
+        stops: [
+          {
+            id: "d1s1",
+            time: "9:30 AM",
+            name: "Museum",
+            description: "",
+            hours: "9 AM-5 PM",
+            cost: "$12",
+            driveFromPrev: "15m drive",
+            lat: 1,
+            lng: 2,
+            tags: [],
+          },
+        ],
+      },
+    ]);
+
+    expect(day.totalDrivingMinutes).toBe(70);
+    expect(day.estimatedCostRange).toEqual({ min: 85, max: 85, currency: "USD" });
+    expect(day.stops[0].startMinutes).toBe(570);
+    expect(day.stops[0].driveMinutes).toBe(15);
+    expect(day.stops[0].costRange?.min).toBe(12);
+    expect(day.stops[0].openingHours?.periods[0]).toEqual({ day: 0, open: 540, close: 1020 });
+  });
+
+  it("keeps valid structured values emitted by the planner", () => {
+    const [day] = normalizeItinerary([
+      { day: 1, totalDriving: "about an hour", totalDrivingMinutes: 55, estimatedCost: "", stops: [] },
+    ]);
+    expect(day.totalDrivingMinutes).toBe(55);
+    expect(normalizeItinerary("not an array")).toEqual([]);
+  });
+});
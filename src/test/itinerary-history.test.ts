@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { applyItineraryOps } from "@/lib/itinerary-ops";
+import { EMPTY_HISTORY, recordChange, redoStep, undoStep } from "@/lib/itinerary-history";
+import { makeDay as day, makeStop as stop } from "./fixtures";
+
+const base = [day(1, [stop("a"), stop("b")]), day(2, [stop("c")])];
+const moved = [day(1, [stop("a")]), day(2, [stop("c"), stop("b")])];
+
+describe("itinerary history", () => {
+  it("undoes and redoes a recorded change", () => {
+    const history = recordChange(EMPTY_HISTORY, base, moved, { id: "1", label: "Move activity" });
+
+    const undone = undoStep(history, moved);
+    expect(undone?.entry.label).toBe("Move activity");
+    expect(undone?.itinerary).toEqual(base);
+    expect(undone?.history.past).toEqual([]);
+
+    const redone = redoStep(undone!.history, undone!.itinerary);
+    expect(redone?.itinerary).toEqual(moved);
+    expect(redone?.history.future).toEqual([]);
+  });
+
+  it("keeps other edits made since when undoing", () => {
+    const history = recordChange(EMPTY_HISTORY, base, moved, { id: "1", label: "Move activity" });
+    // A collaborator adds a stop to day 1 after the move.
+    const withRemote = applyItineraryOps(moved, [{ type: "add-stop", day: 1, index: 1, stop: stop("x") }]);
+
+    const undone = undoStep(history, withRemote);
+    expect(undone?.itinerary[0].stops.map((s) => s.id)).toEqual(["a", "b", "x"]);
+    expect(undone?.itinerary[1].stops.map((s) => s.id)).toEqual(["c"]);
+  });
+
+  it("skips no-op edits, clears redo on a new edit and caps its length", () => {
+    let history = recordChange(EMPTY_HISTORY, base, base, { id: "0", label: "Nothing" });
+    expect(history.past).toEqual([]);
+
+    history = recordChange(history, base, moved, { id: "1", label: "Move" });
+    history = undoStep(history, moved)!.history;
+    expect(history.future).toHaveLength(1);
+
+    let current = base;
+    for (let idx = 0; idx < 5; idx += 1) {
+      const next = [{ ...current[0], title: `Title ${idx}` }, current[1]];
+      history = recordChange(history, current, next, { id: `t${idx}`, label: `Rename ${idx}` }, 3);
+      current = next;
+    }
+    expect(history.future).toEqual([]);
+    expect(history.past.map((entry) => entry.id)).toEqual(["t2", "t3", "t4"]);
+  });
+
+  it("has nothing to undo or redo when empty", () => {
+    expect(undoStep(EMPTY_HISTORY, base)).toBeNull();
+    expect(redoStep(EMPTY_HISTORY, base)).toBeNull();
+  });
+});
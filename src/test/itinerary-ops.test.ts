@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyItineraryOps,
+  diffItinerary,
+  resolveMoveConflicts,
+  withoutRouteGeometry,
+  withoutRoutingFields,
+  type OpStamp,
+} from "@/lib/itinerary-ops";
+import { makeDay as day, makeStop as stop } from "./fixtures";
+
+const base = [day(1, [stop("a"), stop("b"), stop("c")]), day(2, [stop("d")])];
+
+describe("diffItinerary", () => {
+  it("round-trips moves, adds and edits as ops", () => {
+    const next = [
+      day(1, [stop("c"), { ...stop("a"), time: "10:00 AM" }]),
+      day(2, [stop("d"), stop("b"), stop("e")]),
+    ];
+    next[0].title = "Museums";
+
+    const ops = diffItinerary(base, next);
+    expect(ops.map((op) => op.type)).toEqual(["move-stop", "add-stop", "reorder-stops", "update-stop", "update-day"]);
+    expect(applyItineraryOps(base, ops)).toEqual(next);
+  });
+
+  it("never ships routed geometry", () => {
+    const routed = base.map((d) => ({ ...d, route: { profile: "driving" as const, provider: "osrm", signature: "x", coordinates: [], distanceMeters: 0 } }));
+    expect(diffItinerary(base, routed)).toEqual([]);
+  });
+
+  it("doesn't treat routed leg times as an edit", () => {
+    const routed = base.map((d) => ({
+      ...d,
+      totalDriving: "12m",
+      totalDrivingMinutes: 12,
+      stops: d.stops.map((s) => ({ ...s, driveFromPrev: "6m walk", driveMinutes: 6, distanceFromPrevMeters: 480 })),
+    }));
+    expect(diffItinerary(base, routed)).toEqual([]);
+  });
+
+  it("sends only the changed stop fields, so concurrent edits to one stop both survive", () => {
+    const retimed = [day(1, [{ ...stop("a"), time: "10:00 AM" }, stop("b"), stop("c")]), base[1]];
+    const renamed = [day(1, [{ ...stop("a"), name: "Gallery", cost: undefined }, stop("b"), stop("c")]), base[1]];
+
+    const aliceOps = diffItinerary(base, retimed);
+    const bobOps = diffItinerary(base, renamed);
+    expect(aliceOps).toEqual([{ type: "update-stop", stopId: "a", fields: { time: "10:00 AM" } }]);
+    expect(bobOps).toEqual([{ type: "update-stop", stopId: "a", fields: { name: "Gallery" }, removed: ["cost"] }]);
+
+    const alice = applyItineraryOps(retimed, JSON.parse(JSON.stringify(bobOps)));
+    const bob = applyItineraryOps(renamed, JSON.parse(JSON.stringify(aliceOps)));
+    expect(alice[0].stops[0]).toMatchObject({ time: "10:00 AM", name: "Gallery" });
+    expect(alice[0].stops[0]).not.toHaveProperty("cost");
+    expect(bob[0].stops[0]).toEqual(alice[0].stops[0]);
+  });
+
+  it("applies remote ops on top of concurrent local edits", () => {
+    const local = applyItineraryOps(base, [{ type: "delete-stop", stopId: "c" }]);
+    const merged = applyItineraryOps(local, [{ type: "move-stop", stopId: "a", toDay: 2, index: 0 }]);
+    expect(merged.map((d) => d.stops.map((s) => s.id))).toEqual([["b"], ["a", "d"]]);
+  });
+});
+
+describe("resolveMoveConflicts", () => {
+  it("converges on the later move of the same stop", () => {
+    const moveToDay2 = [{ type: "move-stop" as const, stopId: "a", toDay: 2, index: 0 }];
+    const moveToDay1 = [{ type: "move-stop" as const, stopId: "a", toDay: 1, index: 2 }];
+    const early: OpStamp = { clock: 3, clientId: "alice" };
+    const late: OpStamp = { clock: 3, clientId: "bob" };
+
+    // Alice applied her own move first, then sees Bob's concurrent (winning) one.
+    const aliceStamps = new Map([["a", early]]);
+    expect(resolveMoveConflicts(moveToDay1, late, aliceStamps)).toHaveLength(1);
+
+    // Bob sees Alice's losing move after his own and drops it.
+    const bobStamps = new Map([["a", late]]);
+    expect(resolveMoveConflicts(moveToDay2, early, bobStamps)).toHaveLength(0);
+    expect(bobStamps.get("a")).toBe(late);
+  });
+});
+
+describe("stored and compared itineraries", () => {
+  const routed = base.map((d) => ({
+    ...d,
+    totalDriving: "12m",
+    route: { profile: "walking" as const, provider: "osrm", signature: "x", coordinates: [[0, 0], [1, 1]] as [number, number][], distanceMeters: 9 },
+    stops: d.stops.map((s) => ({ ...s, driveFromPrev: "6m walk", driveMinutes: 6 })),
+  }));
+
+  it("saves without route geometry but keeps leg times", () => {
+    const stored = withoutRouteGeometry(routed);
+    expect(stored[0]).not.toHaveProperty("route");
+    expect(stored[0].stops[0].driveFromPrev).toBe("6m walk");
+  });
+
+  it("compares the same before and after routing", () => {
+    expect(JSON.stringify(withoutRoutingFields(routed))).toBe(JSON.stringify(withoutRoutingFields(base)));
+    const edited = routed.map((d, i) => (i === 0 ? { ...d, title: "Renamed" } : d));
+    expect(JSON.stringify(withoutRoutingFields(edited))).not.toBe(JSON.stringify(withoutRoutingFields(base)));
+  });
+});
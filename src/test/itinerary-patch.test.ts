@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { affectedDays, applyItineraryChanges, describeChange, outlineForPlanner, parseAdjustmentPatch } from "@/lib/itinerary-patch";
+import { makeDay as day, makeStop } from "./fixtures";
+
+const stop = (id: string, name = id) => makeStop(id, { name, lat: 1, lng: 2 });
+
+const base = [day(1, [stop("a"), stop("b")]), day(2, [stop("c", "Cafe"), stop("d")]), day(3, [stop("e")])];
+
+describe("parseAdjustmentPatch", () => {
+  it("drops changes that reference unknown days or stops", () => {
+    const patch = parseAdjustmentPatch({
+      summary: "Lighter lunch",
+      changes: [
+        { type: "remove-stop", day: 2, stopId: "missing", reason: "" },
+        { type: "add-stop", day: 9, stop: { name: "Nowhere", lat: 0, lng: 0 }, reason: "" },
+        { type: "add-stop", day: 2, stop: { name: "No coordinates" }, reason: "" },
+        { type: "move-stop", day: 1, stopId: "a", toDay: 7, reason: "" },
+        { type: "explode", day: 1, reason: "" },
+        { type: "remove-stop", day: 1, stopId: "b", reason: "Too busy" },
+      ],
+    }, base);
+
+    expect(patch.summary).toBe("Lighter lunch");
+    expect(patch.changes).toEqual([{ id: "change-5", type: "remove-stop", day: 1, stopId: "b", reason: "Too busy" }]);
+  });
+
+  it("gives new stops ids that don't collide and trusts the itinerary for a stop's day", () => {
+    const patch = parseAdjustmentPatch({
+      changes: [
+        { type: "replace-stop", day: 1, stopId: "c", stop: { id: "a", name: "Noodle Bar", lat: 3, lng: 4 }, reason: "" },
+        { type: "add-stop", day: 2, stop: { id: "a", name: "Gelato", lat: 3, lng: 4 }, reason: "" },
+      ],
+    }, base);
+
+    const [replace, add] = patch.changes;
+    expect(replace).toMatchObject({ type: "replace-stop", day: 2, stop: { id: "d2a1", name: "Noodle Bar" } });
+    expect(add).toMatchObject({ type: "add-stop", day: 2, stop: { id: "d2a2" } });
+  });
+
+  it("builds new stops from known fields only", () => {
+    const patch = parseAdjustmentPatch({
+      changes: [{
+        type: "add-stop",
+        day: 1,
+        stop: { name: " Tasca ", lat: 3, lng: 4, cost: "$15-25", hours: "Noon-3 PM", tags: ["Food", 7], onClick: "alert(1)", imageUrl: "javascript:alert(1)" },
+        reason: "",
+      }],
+    }, base);
+
+    const [add] = patch.changes;
+    if (add.type !== "add-stop") throw new Error("expected an add-stop change");
+    expect(add.stop).not.toHaveProperty("onClick");
+    expect(add.stop).not.toHaveProperty("imageUrl");
+    expect(add.stop).toMatchObject({ name: "Tasca", description: "", tags: ["Food"], costRange: { min: 15, max: 25, currency: "USD" } });
+    expect(add.stop.openingHours?.periods).toHaveLength(7);
+  });
+});
+
+describe("applyItineraryChanges", () => {
+  it("only touches the days the changes are about", () => {
+    const { changes } = parseAdjustmentPatch({
+      changes: [
+        { type: "replace-stop", day: 2, stopId: "c", stop: { name: "Noodle Bar", lat: 3, lng: 4 }, reason: "" },
+        { type: "retitle-day", day: 2, title: "Slow food day", reason: "" },
+      ],
+    }, base);
+
+    const next = applyItineraryChanges(base, changes);
+    expect(next[1].stops.map((s) => s.name)).toEqual(["Noodle Bar", "d"]);
+    expect(next[1].title).toBe("Slow food day");
+    expect(next[0]).toBe(base[0]);
+    expect(next[2]).toBe(base[2]);
+    expect(affectedDays(changes)).toEqual([2]);
+  });
+
+  it("applies accepted moves at the requested position and skips changes whose stop is gone", () => {
+    const { changes } = parseAdjustmentPatch({
+      changes: [
+        { type: "move-stop", day: 1, stopId: "a", toDay: 3, position: 0, reason: "" },
+        { type: "remove-stop", day: 1, stopId: "a", reason: "" },
+      ],
+    }, base);
+
+    const moved = applyItineraryChanges(base, changes.slice(0, 1));
+    expect(moved.map((d) => d.stops.map((s) => s.id))).toEqual([["b"], ["c", "d"], ["a", "e"]]);
+    expect(affectedDays(changes.slice(0, 1))).toEqual([1, 3]);
+
+    const removedFirst = applyItineraryChanges(base, [changes[1], changes[0]]);
+    expect(removedFirst.map((d) => d.stops.map((s) => s.id))).toEqual([["b"], ["c", "d"], ["e"]]);
+  });
+});
+
+describe("describeChange", () => {
+  it("names stops from the itinerary the change was made for", () => {
+    const { changes } = parseAdjustmentPatch({
+      changes: [
+        { type: "replace-stop", day: 2, stopId: "c", stop: { name: "Noodle Bar", lat: 3, lng: 4 }, reason: "" },
+        { type: "move-stop", day: 2, stopId: "c", toDay: 1, reason: "" },
+      ],
+    }, base);
+    expect(changes.map((change) => describeChange(change, base))).toEqual([
+      "Replace Cafe with Noodle Bar",
+      "Move Cafe from Day 2 to Day 1",
+    ]);
+  });
+});
+
+describe("outlineForPlanner", () => {
+  it("sends stop references without route geometry or display fields", () => {
+    const routed = base.map((d) => ({
+      ...d,
+      route: { profile: "walking" as const, provider: "osrm", signature: "x", coordinates: [[2, 1], [2.1, 1.1]] as [number, number][], distanceMeters: 9 },
+    }));
+    const [first] = outlineForPlanner(routed);
+    expect(first).toEqual({
+      day: 1,
+      title: "Day 1",
+      subtitle: "",
+      stops: [
+        { id: "a", time: "9:00 AM", name: "a", lat: 1, lng: 2, tags: [] },
+        { id: "b", time: "9:00 AM", name: "b", lat: 1, lng: 2, tags: [] },
+      ],
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseServerSentEvents, readItineraryStream } from "@/lib/itinerary-stream";
+import { makeDay as day } from "./fixtures";
+
+function sse(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/** Builds a response whose body arrives in fixed-size chunks, splitting events mid-line. */
+function streamResponse(text: string, chunkSize = 7): Response {
+  const bytes = new TextEncoder().encode(text);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += chunkSize) controller.enqueue(bytes.slice(i, i + chunkSize));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+describe("parseServerSentEvents", () => {
+  it("returns complete events and keeps the unfinished tail", () => {
+    const { events, rest } = parseServerSentEvents(`event: progress\ndata: {"a":1}\n\n: keep-alive\n\nevent: day\ndata: {"b"`);
+    expect(events).toEqual([{ event: "progress", data: '{"a":1}' }]);
+    expect(rest).toBe(`event: day\ndata: {"b"`);
+  });
+
+  it("joins multi-line data and defaults the event name", () => {
+    const { events } = parseServerSentEvents("data: one\r\ndata: two\r\n\r\n");
+    expect(events).toEqual([{ event: "message", data: "one\ntwo" }]);
+  });
+});
+
+describe("readItineraryStream", () => {
+  it("reports progress and days in order, then resolves with the final itinerary", async () => {
+    const onProgress = vi.fn();
+    const onDay = vi.fn();
+    const text =
+      sse("progress", { phase: "drafting", message: "Drafting day 1 of 2", completedDays: 0, totalDays: 2 }) +
+      sse("day", { index: 0, day: day(1) }) +
+      sse("day", { index: 1, day: day(2) }) +
+      sse("done", { itinerary: [day(1), day(2)] });
+
+    const itinerary = await readItineraryStream(streamResponse(text), { onProgress, onDay });
+
+    expect(itinerary.map((d) => d.day)).toEqual([1, 2]);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ phase: "drafting", totalDays: 2 }));
+    expect(onDay.mock.calls.map(([d, index]) => [d.day, index])).toEqual([[1, 0], [2, 1]]);
+  });
+
+  it("signals a reset when the server retries its draft", async () => {
+    const onReset = vi.fn();
+    const text = sse("day", { index: 0, day: day(1) }) + sse("reset", { reason: "Too far" }) + sse("done", { itinerary: [day(1)] });
+    await readItineraryStream(streamResponse(text), { onReset });
+    expect(onReset).toHaveBeenCalledWith("Too far", 0);
+  });
+
+  it("passes on where a partial reset starts, e.g. when one leg of a multi-city trip is redrafted", async () => {
+    const onReset = vi.fn();
+    const text = sse("reset", { reason: "Too far from Porto", fromIndex: 3 }) + sse("done", { itinerary: [day(1)] });
+    await readItineraryStream(streamResponse(text), { onReset });
+    expect(onReset).toHaveBeenCalledWith("Too far from Porto", 3);
+  });
+
+  it("throws the server's error message", async () => {
+    const text = sse("error", { error: "Rate limit exceeded. Please try again in a moment.", status: 429 });
+    await expect(readItineraryStream(streamResponse(text))).rejects.toThrow("Rate limit exceeded");
+  });
+
+  it("throws when the stream ends without a finished plan", async () => {
+    await expect(readItineraryStream(streamResponse(sse("day", { index: 0, day: day(1) })))).rejects.toThrow(/ended before/);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createMockClient } from "../../supabase/functions/_shared/llm-mock.ts";
+import { MOCK_FIXTURES } from "../../supabase/functions/_shared/llm-fixtures.ts";
+import { LlmApiError, type ToolCallRequest } from "../../supabase/functions/_shared/llm-types.ts";
+
+function request(toolName: string): ToolCallRequest {
+  return { systemPrompt: "", userMessage: "", tool: { name: toolName, description: "", parameters: {} } };
+}
+
+const mockClient = (overrides: Record<string, unknown> | null = null) =>
+  createMockClient("test-model", async () => overrides);
+
+describe("mock LLM provider", () => {
+  it("answers tool calls from the built-in fixtures", async () => {
+    const client = mockClient();
+    expect(client.provider).toBe("mock");
+    expect(await client.callTool(request("generate_itinerary"))).toEqual(MOCK_FIXTURES.generate_itinerary);
+  });
+
+  it("layers fixture overrides over the built-ins", async () => {
+    const client = mockClient({ recommend_stays: { stays: [] } });
+    expect(await client.callTool(request("recommend_stays"))).toEqual({ stays: [] });
+    expect(await client.callTool(request("generate_itinerary"))).toEqual(MOCK_FIXTURES.generate_itinerary);
+  });
+
+  it("streams arguments in chunks", async () => {
+    const chunks: string[] = [];
+    const text = await mockClient().streamTool(request("generate_itinerary"), (chunk) => {
+      chunks.push(chunk);
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(text);
+    expect(JSON.parse(text)).toEqual(MOCK_FIXTURES.generate_itinerary);
+  });
+
+  it("stops streaming when the handler returns false", async () => {
+    const chunks: string[] = [];
+    const full = JSON.stringify(MOCK_FIXTURES.generate_itinerary);
+    const text = await mockClient().streamTool(request("generate_itinerary"), (chunk) => {
+      chunks.push(chunk);
+      return chunks.length < 2;
+    });
+
+    expect(chunks).toHaveLength(2);
+    expect(text).toBe(chunks.join(""));
+    expect(text.length).toBeLessThan(full.length);
+    expect(full.startsWith(text)).toBe(true);
+  });
+
+  it("rejects tools without a fixture", async () => {
+    const client = mockClient();
+    const error = await client.callTool(request("unknown_tool")).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(LlmApiError);
+    expect((error as LlmApiError).status).toBe(500);
+    expect((error as LlmApiError).message).toContain("unknown_tool");
+    await expect(client.streamTool(request("unknown_tool"), () => {})).rejects.toBeInstanceOf(LlmApiError);
+  });
+});
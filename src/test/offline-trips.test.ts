@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { localTripKey, shouldRestoreLocalTrip, type LocalTrip } from "@/lib/offline-trips";
+import { EMPTY_TRIP_SESSION } from "@/lib/trip-session";
+import { makeDay } from "./fixtures";
+
+const day = makeDay(1);
+
+function local(overrides: Partial<LocalTrip> = {}): LocalTrip {
+  return {
+    key: "trip:abc",
+    tripId: "abc",
+    tripConfig: { from: "Paris", to: "Lisbon", days: "Weekend", budget: "$$", mode: "Plane" },
+    itinerary: [day],
+    session: EMPTY_TRIP_SESSION,
+    savedAt: 0,
+    serverUpdatedAt: "2026-10-01T10:00:00+00:00",
+    dirty: false,
+    ...overrides,
+  };
+}
+
+describe("localTripKey", () => {
+  it("keys saved trips by id and drafts by history entry", () => {
+    expect(localTripKey("abc", "k1")).toBe("trip:abc");
+    expect(localTripKey(undefined, "k1")).toBe("draft:k1");
+  });
+});
+
+describe("shouldRestoreLocalTrip", () => {
+  it("always restores drafts that have a plan", () => {
+    expect(shouldRestoreLocalTrip(local({ tripId: undefined, key: "draft:k1" }), undefined)).toBe(true);
+    expect(shouldRestoreLocalTrip(local({ tripId: undefined, itinerary: [] }), undefined)).toBe(false);
+  });
+
+  it("restores edits made on top of the row being opened", () => {
+    expect(shouldRestoreLocalTrip(local({ dirty: true }), "2026-10-01T10:00:00.000Z")).toBe(true);
+    expect(shouldRestoreLocalTrip(local(), "2026-10-01T10:00:00+00:00")).toBe(false);
+  });
+
+  it("prefers a copy saved from this device after the opened row", () => {
+    expect(shouldRestoreLocalTrip(local({ serverUpdatedAt: "2026-10-02T10:00:00+00:00" }), "2026-10-01T10:00:00+00:00")).toBe(true);
+  });
+
+  it("lets a newer server row win over stale local edits", () => {
+    expect(shouldRestoreLocalTrip(local({ dirty: true }), "2026-10-05T10:00:00+00:00")).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyRouteToDay,
+  createOsrmRoutingProvider,
+  estimateTravelMinutes,
+  hasCurrentRoute,
+  routeDay,
+  routingProfileForMode,
+  routingRetryDelayMs,
+} from "@/lib/routing";
+import { makeDay, makeStop } from "./fixtures";
+
+// Minimal OSRM-style stand-in: one leg per consecutive waypoint pair, 10 minutes and 4 km each.
+function osrmStandIn(requests: string[]) {
+  return async (input: string) => {
+    requests.push(input);
+    const path = new URL(input).pathname.split("/").pop() || "";
+    const coordinates = path.split(";").map((pair) => pair.split(",").map(Number) as [number, number]);
+    const legs = coordinates.slice(1).map(() => ({ distance: 4000, duration: 600 }));
+    return new Response(JSON.stringify({ code: "Ok", routes: [{ geometry: { coordinates }, legs }] }), { status: 200 });
+  };
+}
+
+const day = makeDay(1, [
+  makeStop("a", { name: "A", lat: 47.6, lng: -122.3 }),
+  makeStop("b", { name: "B", time: "11:00 AM", driveFromPrev: "2h flight", lat: 47.61, lng: -122.31 }),
+  makeStop("c", { name: "C", time: "1:00 PM", lat: 47.62, lng: -122.32 }),
+], { title: "Old town", subtitle: "Walk", totalDriving: "1h", estimatedCost: "$40" });
+
+describe("routing", () => {
+  it("maps trip modes to routing profiles", () => {
+    expect(routingProfileForMode("Car")).toBe("driving");
+    expect(routingProfileForMode("Plane")).toBe("transit");
+    expect(routingProfileForMode("Walking")).toBe("walking");
+  });
+
+  it("writes routed leg durations back into the day", async () => {
+    const requests: string[] = [];
+    const provider = createOsrmRoutingProvider("http://localhost:5000/", osrmStandIn(requests));
+
+    const route = await routeDay(day, "walking", provider);
+    expect(requests[0]).toContain("/route/v1/foot/-122.3,47.6;-122.31,47.61;-122.32,47.62");
+
+    const routed = applyRouteToDay(day, route!, "walking", provider.id);
+    expect(routed.stops[1].driveFromPrev).toBe("10m walk");
+    expect(routed.stops[1].driveMinutes).toBe(10);
+    expect(routed.stops[2].distanceFromPrevMeters).toBe(4000);
+    expect(routed.totalDrivingMinutes).toBe(20);
+    expect(routed.totalDriving).toBe("20m");
+    expect(routed.route?.distanceMeters).toBe(8000);
+    expect(hasCurrentRoute(routed, "walking")).toBe(true);
+
+    const reordered = { ...routed, stops: [routed.stops[1], routed.stops[0], routed.stops[2]] };
+    expect(hasCurrentRoute(reordered, "walking")).toBe(false);
+  });
+
+  it("keeps the walking geometry for transit but estimates the ride time", async () => {
+    const requests: string[] = [];
+    const provider = createOsrmRoutingProvider("http://localhost:5000", osrmStandIn(requests));
+
+    const route = await routeDay(day, "transit", provider);
+    expect(requests[0]).toContain("/route/v1/foot/");
+
+    const routed = applyRouteToDay(day, route!, "transit", provider.id);
+    const estimate = estimateTravelMinutes(day.stops[0], day.stops[1], "transit");
+    expect(routed.stops[1].driveMinutes).toBe(estimate);
+    expect(routed.stops[1].driveMinutes).not.toBe(10);
+    expect(routed.stops[1].driveFromPrev).toBe(`${estimate}m transit`);
+    expect(routed.stops[1].distanceFromPrevMeters).toBe(4000);
+    expect(routed.route?.coordinates).toHaveLength(3);
+    expect(hasCurrentRoute(routed, "transit")).toBe(true);
+  });
+
+  it("backs off between retries after a failure", () => {
+    expect(routingRetryDelayMs(1)).toBe(30_000);
+    expect(routingRetryDelayMs(2)).toBe(60_000);
+    expect(routingRetryDelayMs(20)).toBe(10 * 60_000);
+  });
+
+  it("surfaces provider failures", async () => {
+    const provider = createOsrmRoutingProvider("http://localhost:5000", async () => (
+      new Response(JSON.stringify({ code: "NoRoute" }), { status: 200 })
+    ));
+    await expect(routeDay(day, "driving", provider)).rejects.toThrow("NoRoute");
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { checkStopHours, estimateDwellMinutes, tripDayWeekday, validateDayHours } from "@/lib/schedule";
+import { makeStop } from "./fixtures";
+
+const stop = (id: string, time: string, hours: string) => makeStop(id, { time, hours });
+
+describe("tripDayWeekday", () => {
+  it("offsets from the trip start date", () => {
+    expect(tripDayWeekday("2025-06-02", 1)).toBe(1);
+    expect(tripDayWeekday("2025-06-02", 7)).toBe(0);
+    expect(tripDayWeekday(undefined, 1)).toBeNull();
+  });
+});
+
+describe("checkStopHours", () => {
+  it("flags visits before opening and suggests the opening time", () => {
+    const conflict = checkStopHours(stop("gallery", "9:00 AM", "11 AM–6 PM"), 2);
+    expect(conflict?.kind).toBe("before-open");
+    expect(conflict?.message).toBe("Opens at 11:00 AM");
+    expect(conflict?.suggestedMinutes).toBe(660);
+  });
+
+  it("counts dwell time against closing", () => {
+    const conflict = checkStopHours(stop("gallery", "5:00 PM", "11 AM–6 PM"), 2);
+    expect(conflict?.kind).toBe("closes-during-visit");
+    expect(conflict?.suggestedMinutes).toBe(16 * 60 + 30);
+  });
+
+  it("uses the trip weekday", () => {
+    const museum = stop("museum", "10:00 AM", "Tue-Sun 10 AM-5 PM");
+    expect(checkStopHours(museum, 1)?.kind).toBe("closed");
+    expect(checkStopHours(museum, 2)).toBeNull();
+  });
+
+  it("gives a museum a museum-length visit whatever city is in its name", () => {
+    const museum = { ...stop("sam", "4:45 PM", "10 AM–6 PM"), name: "Seattle Art Museum" };
+    expect(estimateDwellMinutes(museum)).toBe(90);
+    expect(checkStopHours(museum, 2)?.kind).toBe("closes-during-visit");
+  });
+
+  it("ignores stops without parseable hours", () => {
+    expect(validateDayHours({ stops: [stop("park", "7:00 AM", "Varies")] }, 1)).toEqual([]);
+  });
+});
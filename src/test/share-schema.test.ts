@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type { DayPlan, Stop } from "@/data/demoTrip";
+import { SHARE_LIMITS, ShareLinkError, parseSharePayload } from "@/lib/share-schema";
+import { makeDay, makeStay, makeStop } from "./fixtures";
+
+const tripConfig = { from: "Porto", to: "Lisbon", days: "3 days", budget: "$$", mode: "Car", startDate: "2026-05-01" };
+
+const stop = (id: string, overrides: Partial<Stop> = {}) => makeStop(id, { cost: "$10", lat: 38.7, lng: -9.1, ...overrides });
+const day = (stops: Stop[], overrides: Partial<DayPlan> = {}) => makeDay(1, stops, overrides);
+
+function reasonOf(raw: unknown) {
+  try {
+    parseSharePayload(raw);
+    return null;
+  } catch (err) {
+    return err instanceof ShareLinkError ? err.reason : "unexpected";
+  }
+}
+
+describe("parseSharePayload", () => {
+  it("migrates v1 payloads, carrying stays and preferences over", () => {
+    const stay = makeStay("s1", { name: "Casa", type: "Hotel", nightlyPrice: "$90", lat: 38.71, lng: -9.14 });
+    const preferences = { interests: ["Food & Drink"], pace: "Relaxed", mustSees: "" };
+    const parsed = parseSharePayload({ v: 1, tripConfig, itinerary: [day([stop("a")])], selectedStays: [stay], preferences });
+
+    expect(parsed).toMatchObject({ v: 2, stays: [stay], preferences });
+    expect(parsed).not.toHaveProperty("selectedStays");
+  });
+
+  it("strips unknown keys instead of passing them through", () => {
+    const parsed = parseSharePayload({
+      v: 2,
+      tripConfig: { ...tripConfig, __proto__hack: true },
+      itinerary: [day([{ ...stop("a"), onClick: "alert(1)" } as Stop])],
+      stays: [],
+      preferences: null,
+      extra: "x",
+    });
+
+    expect(parsed).not.toHaveProperty("extra");
+    expect(parsed.tripConfig).not.toHaveProperty("__proto__hack");
+    expect(parsed.itinerary[0].stops[0]).not.toHaveProperty("onClick");
+  });
+
+  it("rejects non-finite or out-of-range coordinates and unsafe values", () => {
+    const base = { v: 2, tripConfig, stays: [], preferences: null };
+
+    expect(reasonOf({ ...base, itinerary: [day([stop("a", { lat: Number.NaN })])] })).toBe("invalid");
+    expect(reasonOf({ ...base, itinerary: [day([stop("a", { lng: 500 })])] })).toBe("invalid");
+    expect(reasonOf({ ...base, itinerary: [day([stop("a", { imageUrl: "javascript:alert(1)" })])] })).toBe("invalid");
+    expect(reasonOf({ ...base, itinerary: [day([stop("a")], { color: "red;background:url(x)" })] })).toBe("invalid");
+    expect(reasonOf({ ...base, itinerary: [day([stop("a", { name: "x".repeat(201) })])] })).toBe("invalid");
+  });
+
+  it("accepts the hsl() colors generated days use", () => {
+    const parsed = parseSharePayload({ v: 2, tripConfig, itinerary: [day([stop("a")], { color: "hsl(153, 44%, 17%)" })], stays: [], preferences: null });
+
+    expect(parsed.itinerary[0].color).toBe("hsl(153, 44%, 17%)");
+  });
+
+  it("bounds day and stop counts", () => {
+    const base = { v: 2, tripConfig, stays: [], preferences: null };
+    const tooManyStops = Array.from({ length: SHARE_LIMITS.stopsPerDay + 1 }, (_, index) => stop(`s${index}`));
+    const tooManyDays = Array.from({ length: SHARE_LIMITS.days + 1 }, () => day([]));
+
+    expect(reasonOf({ ...base, itinerary: [day(tooManyStops)] })).toBe("invalid");
+    expect(reasonOf({ ...base, itinerary: tooManyDays })).toBe("invalid");
+  });
+
+  it("distinguishes unknown versions from garbage", () => {
+    expect(reasonOf({ v: 3, tripConfig, itinerary: [] })).toBe("unsupported");
+    expect(reasonOf({ hello: "world" })).toBe("invalid");
+    expect(reasonOf("nope")).toBe("invalid");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { compressToEncodedURIComponent } from "lz-string";
+import type { TripConfig } from "@/data/demoTrip";
+import { createShareSlug, decodeShareData, encodeShareData, shareLinkErrorFromServer, shareLinkStatus } from "@/lib/share";
+import { ShareLinkError } from "@/lib/share-schema";
+
+const tripConfig: TripConfig = { from: "Porto", to: "Lisbon", days: "3 days", budget: "$$", mode: "Car" };
+
+describe("share links", () => {
+  it("creates unambiguous slugs of the requested length", () => {
+    const slugs = Array.from({ length: 50 }, () => createShareSlug());
+
+    expect(slugs.every((slug) => /^[A-Za-z0-9]{10}$/.test(slug))).toBe(true);
+    expect(slugs.some((slug) => /[0O1lI]/.test(slug))).toBe(false);
+    expect(new Set(slugs).size).toBe(slugs.length);
+    expect(createShareSlug(6)).toHaveLength(6);
+  });
+
+  it("reports revoked before expired", () => {
+    const now = new Date("2026-05-01T12:00:00Z");
+
+    expect(shareLinkStatus({ expires_at: null, revoked_at: null }, now)).toBe("active");
+    expect(shareLinkStatus({ expires_at: "2026-05-01T11:00:00Z", revoked_at: null }, now)).toBe("expired");
+    expect(shareLinkStatus({ expires_at: "2026-05-01T11:00:00Z", revoked_at: "2026-04-30T00:00:00Z" }, now)).toBe("revoked");
+  });
+
+  it("still decodes legacy ?share= links as the current version", () => {
+    const legacy = compressToEncodedURIComponent(JSON.stringify({ v: 1, tripConfig, itinerary: [] }));
+
+    expect(decodeShareData(`?share=${legacy}`)).toEqual({ v: 2, tripConfig, itinerary: [], stays: [], preferences: null });
+  });
+
+  it("round-trips v2 links and rejects damaged ones with a reason", () => {
+    const data = { v: 2 as const, tripConfig, itinerary: [], stays: [], preferences: null };
+
+    expect(decodeShareData(`?share=${encodeShareData(data)}`)).toEqual(data);
+    expect(decodeShareData("?plan=1")).toBeNull();
+    expect(() => decodeShareData("?share=not-a-trip")).toThrow(ShareLinkError);
+    expect(shareLinkErrorFromServer("This share link was revoked").reason).toBe("revoked");
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import type { TripConfig } from "@/data/demoTrip";
+import { buildDayStaticMapUrl, encodePolyline } from "@/lib/static-map";
+import { makeDay, makeStop } from "./fixtures";
+
+const stop = (id: string, lat: number, lng: number) => makeStop(id, { lat, lng });
+
+const config: TripConfig = { from: "Lisbon", to: "Lisbon", days: "1 day", budget: "$$", mode: "Walking" };
+
+describe("encodePolyline", () => {
+  it("matches Google's reference encoding", () => {
+    expect(encodePolyline([[-120.2, 38.5], [-120.95, 40.7], [-126.453, 43.252]])).toBe("_p~iF~ps|U_ulLnnqC_mqNvxq`@");
+  });
+});
+
+describe("buildDayStaticMapUrl", () => {
+  const day = makeDay(1, [stop("castle", 38.7139, -9.1335), stop("se", 38.7097, -9.1336)], { title: "Alfama", color: "#E76F51" });
+
+  it("draws numbered pins and the day path in the day color", () => {
+    const url = buildDayStaticMapUrl(day, config, "pk.test") as string;
+
+    expect(url).toContain("/styles/v1/mapbox/streets-v12/static/path-3+e76f51-0.75(");
+    expect(url).toContain("pin-s-1+e76f51(-9.13350,38.71390),pin-s-2+e76f51(-9.13360,38.70970)");
+    expect(url).toContain("/auto/640x320@2x?padding=40&access_token=pk.test");
+  });
+
+  it("converts generated hsl() day colors to hex", () => {
+    const url = buildDayStaticMapUrl({ ...day, color: "hsl(210, 60%, 45%)" }, config, "pk.test") as string;
+
+    expect(url).toContain("pin-s-1+2e73b8(");
+  });
+
+  it("centers single-stop days and skips empty ones", () => {
+    const single = buildDayStaticMapUrl({ ...day, stops: [day.stops[0]] }, config, "pk.test") as string;
+
+    expect(single).not.toContain("path-");
+    expect(single).toContain("/-9.1335,38.7139,14/640x320@2x?access_token=");
+    expect(buildDayStaticMapUrl({ ...day, stops: [] }, config, "pk.test")).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from "vitest";
+import type { Stop } from "@/data/demoTrip";
+import { buildTripBudget } from "@/lib/budget";
+import { normalizeStop, normalizeTransportLeg } from "@/lib/itinerary-fields";
+import { arcCoordinates, formatTransportTimes, summarizeTransportLeg, transportDurationMinutes } from "@/lib/transport-legs";
+import { makeDay, makeStop, usd } from "./fixtures";
+
+const flight = {
+  mode: "flight" as const,
+  carrier: "TAP Air Portugal",
+  departurePlace: "LIS",
+  arrivalPlace: "OPO",
+  departureMinutes: 9 * 60 + 40,
+  arrivalMinutes: 10 * 60 + 35,
+  cost: "$90",
+  costRange: usd(90),
+};
+
+const stop = (overrides: Partial<Stop>) => makeStop("s", { time: "10:00 AM", name: "Stop", lat: 41.1, lng: -8.6, ...overrides });
+
+describe("normalizeTransportLeg", () => {
+  it("keeps known modes and parses the fare", () => {
+    expect(normalizeTransportLeg({ mode: "train", departurePlace: " Porto ", arrivalPlace: "Madrid", cost: "€45-60" })).toMatchObject({
+      mode: "train",
+      departurePlace: "Porto",
+      departureMinutes: null,
+      costRange: { min: 45, max: 60, currency: "EUR" },
+    });
+    expect(normalizeTransportLeg({ mode: "teleport", departurePlace: "A", arrivalPlace: "B" })).toBeNull();
+  });
+
+  it("only touches stops that carry a transport leg", () => {
+    expect(normalizeStop(stop({})).transport).toBeUndefined();
+    expect(normalizeStop(stop({ transport: { ...flight, costRange: undefined } })).transport?.costRange).toEqual(flight.costRange);
+  });
+});
+
+describe("transport leg display", () => {
+  it("formats times and flags next-day arrivals", () => {
+    expect(formatTransportTimes(flight)).toBe("9:40 AM → 10:35 AM · 55m");
+    const overnight = { ...flight, departureMinutes: 22 * 60, arrivalMinutes: 6 * 60 };
+    expect(transportDurationMinutes(overnight)).toBe(8 * 60);
+    expect(formatTransportTimes(overnight)).toBe("10:00 PM → 6:00 AM (+1) · 8h");
+    expect(formatTransportTimes({ ...flight, departureMinutes: null })).toBe("Arrives 10:35 AM");
+  });
+
+  it("summarizes a leg on one line", () => {
+    expect(summarizeTransportLeg(flight)).toBe("Flight · TAP Air Portugal · LIS → OPO · 9:40 AM → 10:35 AM · 55m");
+  });
+
+  it("draws an arc that starts and ends on the stops", () => {
+    const arc = arcCoordinates([-9.14, 38.72], [-8.61, 41.15], 8);
+    expect(arc).toHaveLength(9);
+    expect(arc[0]).toEqual([-9.14, 38.72]);
+    expect(arc[8][0]).toBeCloseTo(-8.61);
+    expect(arc[8][1]).toBeCloseTo(41.15);
+  });
+});
+
+describe("transport legs in the budget", () => {
+  const day = (stops: Stop[], estimatedCost: number | null) => (
+    makeDay(1, stops, { estimatedCostRange: estimatedCost === null ? null : usd(estimatedCost) })
+  );
+
+  it("counts fares as transport", () => {
+    const budget = buildTripBudget([day([stop({ costRange: usd(20), transport: flight })], null)]);
+    expect(budget.categories.transport).toEqual({ min: 90, max: 90 });
+    expect(budget.total).toEqual({ min: 110, max: 110 });
+  });
+
+  it("does not count a fare twice when the day estimate already covers it", () => {
+    const budget = buildTripBudget([day([stop({ costRange: usd(20), transport: flight })], 130)]);
+    expect(budget.categories.transport).toEqual({ min: 110, max: 110 });
+  });
+});
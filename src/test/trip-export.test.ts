@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import type { DayPlan, TripConfig } from "@/data/demoTrip";
+import { buildTripCalendar, buildTripGeoJson, buildTripGpx, buildTripKml, escapeIcsText, foldIcsLine } from "@/lib/trip-export";
+import { routeSignature } from "@/lib/routing";
+import { makeDay, makeStay, makeStop } from "./fixtures";
+
+const stop = (id: string, time: string, name = id) => makeStop(id, { time, name, description: "Great views", cost: "$20", lat: 48.85, lng: 2.35 });
+
+const itinerary: DayPlan[] = [
+  makeDay(1, [stop("louvre", "9:00 AM", "Louvre, Paris")], { title: "Left Bank" }),
+  makeDay(2, [stop("sacre", "11:30 PM"), stop("bar", "12:30 AM")], { title: "Montmartre" }),
+];
+const config: TripConfig = { from: "Paris", to: "Paris", days: "2 days", budget: "$$", mode: "Walking", startDate: "2026-03-28", endDate: "2026-03-29" };
+const now = new Date(Date.UTC(2026, 0, 1));
+
+function field(ics: string, name: string): string[] {
+  return ics.split("\r\n").filter((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+}
+
+describe("buildTripCalendar", () => {
+  it("emits one event per stop converted to UTC across a DST change", () => {
+    const ics = buildTripCalendar(itinerary, config, { timeZone: "Europe/Paris", now }) as string;
+
+    expect(field(ics, "BEGIN").filter((line) => line === "BEGIN:VEVENT")).toHaveLength(3);
+    // Paris is UTC+1 on March 28 and UTC+2 from March 29.
+    expect(field(ics, "DTSTART")).toEqual(["DTSTART:20260328T080000Z", "DTSTART:20260329T213000Z", "DTSTART:20260329T223000Z"]);
+    expect(field(ics, "DTEND")[0]).toBe("DTEND:20260328T093000Z");
+    expect(field(ics, "SUMMARY")[0]).toBe("SUMMARY:Louvre\\, Paris");
+    expect(field(ics, "GEO")[0]).toBe("GEO:48.85;2.35");
+    expect(ics).toContain("DESCRIPTION:Day 1 — Left Bank\\nGreat views\\nCost: $20");
+  });
+
+  it("falls back to floating times without a time zone and adds stay check-in/out", () => {
+    const stay = makeStay("h1", { name: "Hôtel Lutetia", type: "Hotel", address: "45 Bd Raspail", nightlyPrice: "$400", lat: 48.85, lng: 2.33 });
+    const ics = buildTripCalendar(itinerary, config, { stays: [stay], now }) as string;
+
+    expect(field(ics, "DTSTART").slice(0, 1)).toEqual(["DTSTART:20260328T090000"]);
+    expect(field(ics, "DTSTART").slice(3)).toEqual(["DTSTART;VALUE=DATE:20260328", "DTSTART;VALUE=DATE:20260329"]);
+    expect(ics).toContain("SUMMARY:Check out: Hôtel Lutetia");
+  });
+
+  it("times each leg in its own zone and puts stays on their leg's dates", () => {
+    const legs = [{ city: "Paris, France", nights: 1 }, { city: "London, UK", nights: 1 }];
+    const stays = [makeStay("paris", { city: "Paris" }), makeStay("london", { city: "London" })];
+    const ics = buildTripCalendar(itinerary, { ...config, legs, endDate: "2026-03-30" }, {
+      timeZone: "Europe/Paris",
+      legTimeZones: ["Europe/Paris", "Europe/London"],
+      stays,
+      now,
+    }) as string;
+
+    // London is UTC+1 from March 29, so 11:30 PM there is 22:30Z.
+    expect(field(ics, "DTSTART").slice(0, 3)).toEqual(["DTSTART:20260328T080000Z", "DTSTART:20260329T223000Z", "DTSTART:20260329T233000Z"]);
+    expect(field(ics, "DTSTART").slice(3)).toEqual([
+      "DTSTART;VALUE=DATE:20260328",
+      "DTSTART;VALUE=DATE:20260329",
+      "DTSTART;VALUE=DATE:20260329",
+      "DTSTART;VALUE=DATE:20260330",
+    ]);
+  });
+
+  it("needs a start date", () => {
+    expect(buildTripCalendar(itinerary, { ...config, startDate: undefined })).toBeNull();
+  });
+});
+
+describe("iCalendar text", () => {
+  it("escapes separators and folds long lines by octets", () => {
+    expect(escapeIcsText("a;b,c\\d\ne")).toBe("a\\;b\\,c\\\\d\\ne");
+    const folded = foldIcsLine(`SUMMARY:${"é".repeat(60)}`);
+    const encoder = new TextEncoder();
+    expect(folded.split("\r\n").every((line) => encoder.encode(line).length <= 75)).toBe(true);
+    expect(folded.replace(/\r\n /g, "")).toBe(`SUMMARY:${"é".repeat(60)}`);
+  });
+});
+
+describe("map file serializers", () => {
+  const routedDay: DayPlan = {
+    ...itinerary[1],
+    route: null,
+  };
+  routedDay.route = {
+    profile: "walking",
+    provider: "test",
+    signature: routeSignature(routedDay, "walking"),
+    coordinates: [[2.34, 48.88], [2.345, 48.885], [2.35, 48.85]],
+    distanceMeters: 1200,
+  };
+  const trip = [itinerary[0], routedDay];
+
+  it("writes GPX waypoints before one track per multi-stop day, following routed geometry", () => {
+    const gpx = buildTripGpx(trip, config);
+
+    expect(gpx.match(/<wpt /g)).toHaveLength(3);
+    expect(gpx.match(/<trk>/g)).toHaveLength(1);
+    expect(gpx.match(/<trkpt /g)).toHaveLength(3);
+    expect(gpx.indexOf("<wpt ")).toBeLessThan(gpx.indexOf("<trk>"));
+    expect(gpx).toContain("<name>Louvre, Paris</name>");
+  });
+
+  it("falls back to straight lines once the route no longer matches the stops", () => {
+    const stale = { ...routedDay, stops: [routedDay.stops[0], { ...routedDay.stops[1], lat: 48.86, lng: 2.34 }] };
+    const kml = buildTripKml([stale], config);
+
+    expect(kml).toContain("<coordinates>2.35,48.85,0 2.34,48.86,0</coordinates>");
+  });
+
+  it("carries full stop properties and day routes in GeoJSON", () => {
+    const geojson = buildTripGeoJson(trip, config);
+    const [louvre] = geojson.features;
+    const route = geojson.features.find((feature) => feature.properties.kind === "route");
+
+    expect(geojson.features).toHaveLength(4);
+    expect(louvre.geometry).toEqual({ type: "Point", coordinates: [2.35, 48.85] });
+    expect(louvre.properties).toMatchObject({ id: "louvre", cost: "$20", day: 1, order: 1, dayTitle: "Left Bank" });
+    expect(route?.properties).toMatchObject({ day: 2, routed: true, distanceMeters: 1200 });
+    expect(route?.geometry.coordinates).toHaveLength(3);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import type { DayPlan, TripConfig } from "@/data/demoTrip";
+import { buildTripGeoJson, buildTripGpx } from "@/lib/trip-export";
+import {
+  TripImportError,
+  buildImportedItinerary,
+  groupByArea,
+  groupByLabel,
+  parseCsv,
+  parseTripFile,
+  resolveImportedPlaces,
+  type LocatedPlace,
+} from "@/lib/trip-import";
+import { makeDay, makeStop } from "./fixtures";
+
+const KML = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Lisbon ideas</name>
+    <Folder>
+      <name>Day 2</name>
+      <Placemark><name>LX Factory</name><Point><coordinates>-9.178,38.703,0</coordinates></Point></Placemark>
+    </Folder>
+    <Folder>
+      <name>Day 1</name>
+      <Placemark><name>Time Out Market</name><description><![CDATA[Food <b>hall</b>]]></description><Point><coordinates>-9.146,38.707,0</coordinates></Point></Placemark>
+      <Placemark><name>Walk</name><LineString><coordinates>-9.1,38.7 -9.2,38.8</coordinates></LineString></Placemark>
+    </Folder>
+  </Document>
+</kml>`;
+
+function located(name: string, lat: number, lng: number, group: string | null = null): LocatedPlace {
+  return { row: 0, name, description: "", address: "", time: "", group, lat, lng };
+}
+
+describe("parseTripFile", () => {
+  it("reads KML placemarks with their folders and skips drawn lines", () => {
+    const parsed = parseTripFile("lisbon.kml", KML);
+
+    expect(parsed.title).toBe("Lisbon ideas");
+    expect(parsed.places.map((item) => [item.name, item.group, item.lat, item.lng])).toEqual([
+      ["LX Factory", "Day 2", 38.703, -9.178],
+      ["Time Out Market", "Day 1", 38.707, -9.146],
+    ]);
+    expect(parsed.places[1].description).toBe("Food hall");
+  });
+
+  it("reads CSV with quoted fields, a day column and rows that need geocoding", () => {
+    const csv = 'Name;Address;Lat;Lng;Day\n"Café A Brasileira";"Rua Garrett 120; Lisbon";38.7107;-9.1421;1\nBelém Tower;Av. Brasília;;;2\n;;;;\n';
+    const parsed = parseTripFile("places.csv", csv);
+
+    expect(parsed.places).toHaveLength(2);
+    expect(parsed.places[0]).toMatchObject({ row: 2, name: "Café A Brasileira", address: "Rua Garrett 120; Lisbon", group: "Day 1", lat: 38.7107 });
+    expect(parsed.places[1]).toMatchObject({ row: 3, lat: null, lng: null, group: "Day 2" });
+  });
+
+  it("round-trips Roamly's own GeoJSON and GPX exports by day", () => {
+    const itinerary: DayPlan[] = [1, 2].map((day) => (
+      makeDay(day, [makeStop(`s${day}`, { name: `Stop ${day}`, lat: 38 + day / 100, lng: -9 })])
+    ));
+    const config: TripConfig = { from: "Lisbon", to: "Lisbon", days: "2", budget: "$$", mode: "Walking" };
+
+    const geojson = parseTripFile("trip.geojson", JSON.stringify(buildTripGeoJson(itinerary, config)));
+    const gpx = parseTripFile("trip.gpx", buildTripGpx(itinerary, config));
+
+    expect(geojson.places.map((item) => item.group)).toEqual(["Day 1", "Day 2"]);
+    expect(gpx.places.map((item) => [item.name, item.group])).toEqual([["Stop 1", "Day 1"], ["Stop 2", "Day 2"]]);
+  });
+
+  it("rejects files it can't use with a readable error", () => {
+    expect(() => parseTripFile("notes.pdf", "%PDF")).toThrow(TripImportError);
+    expect(() => parseTripFile("list.csv", "Foo,Bar\n1,2")).toThrow(/name or address column/);
+  });
+});
+
+describe("parseCsv", () => {
+  it("handles escaped quotes and newlines inside quotes", () => {
+    expect(parseCsv('a,b\r\n"say ""hi""","line\nbreak"\r\n')).toEqual([["a", "b"], ['say "hi"', "line\nbreak"]]);
+  });
+});
+
+describe("resolveImportedPlaces", () => {
+  it("geocodes places without coordinates near the destination and reports misses", async () => {
+    const parsed = parseTripFile("places.csv", "Name,Address\nBelém Tower,\nNowhere Cafe,\n");
+    const queries: string[] = [];
+    const { located, unresolved } = await resolveImportedPlaces(parsed.places, async (query) => {
+      queries.push(query);
+      return query.startsWith("Belém") ? { lat: 38.69, lng: -9.21 } : null;
+    }, "Lisbon");
+
+    expect(queries).toEqual(["Belém Tower, Lisbon", "Nowhere Cafe, Lisbon"]);
+    expect(located.map((item) => item.name)).toEqual(["Belém Tower"]);
+    expect(unresolved.map((item) => item.row)).toEqual([3]);
+  });
+});
+
+describe("grouping and building days", () => {
+  it("orders file groups by day number", () => {
+    const groups = groupByLabel([located("B", 0, 0, "Day 2"), located("A", 0, 0, "Day 1"), located("C", 0, 0, "Day 2")]);
+    expect(groups.map((group) => group.places.map((item) => item.name))).toEqual([["A"], ["B", "C"]]);
+  });
+
+  it("clusters places by area into the requested number of days", () => {
+    const places = [
+      located("Lisbon 1", 38.71, -9.14), located("Porto 1", 41.15, -8.61),
+      located("Lisbon 2", 38.72, -9.15), located("Porto 2", 41.14, -8.62),
+    ];
+    const groups = groupByArea(places, 2);
+    expect(groups.map((group) => group.places.map((item) => item.name).sort())).toEqual([["Lisbon 1", "Lisbon 2"], ["Porto 1", "Porto 2"]]);
+  });
+
+  it("keeps file times when every place has one and otherwise lays the day out", () => {
+    const timed = [{ ...located("A", 38.71, -9.14), time: "2:00 PM" }, { ...located("B", 38.72, -9.15), time: "10:00 AM" }];
+    const [fromFile] = buildImportedItinerary([{ label: "Food crawl", places: timed }], "walking");
+    const [laidOut] = buildImportedItinerary([{ label: "Day 1", places: [located("A", 38.71, -9.14), located("B", 38.72, -9.15)] }], "walking");
+
+    expect(fromFile.title).toBe("Food crawl");
+    expect(fromFile.stops.map((stop) => stop.time)).toEqual(["2:00 PM", "10:00 AM"]);
+    expect(laidOut.title).toBe("A area");
+    expect(laidOut.stops[0].time).toBe("9:30 AM");
+    expect(laidOut.stops[1].time).not.toBe("9:30 AM");
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { legDates, legForDay, legSegments, legTripDays, stayForDay, staysForLeg, tripLegs, tripRouteLabel } from "@/lib/trip-legs";
+import { makeStay } from "./fixtures";
+
+const legs = [
+  { city: "Lisbon, Portugal", nights: 3 },
+  { city: "Porto, Portugal", nights: 2 },
+  { city: "Madrid, Spain", nights: 2 },
+];
+
+describe("tripLegs", () => {
+  it("needs at least two usable legs to count as multi-city", () => {
+    expect(tripLegs({ legs })).toHaveLength(3);
+    expect(tripLegs({ legs: [legs[0], { city: " ", nights: 2 }] })).toEqual([]);
+    expect(tripLegs({})).toEqual([]);
+  });
+
+  it("labels the route by city", () => {
+    expect(tripRouteLabel({ from: "Lisbon", to: "Madrid", legs })).toBe("Lisbon → Porto → Madrid");
+    expect(tripRouteLabel({ from: "Seattle", to: "Portland" })).toBe("Seattle → Portland");
+  });
+});
+
+describe("legSegments", () => {
+  it("gives each city its nights and the last one the departure day", () => {
+    expect(legTripDays(legs)).toBe(8);
+    expect(legSegments(legs, 8).map(({ startDay, endDay }) => [startDay, endDay])).toEqual([[1, 3], [4, 5], [6, 8]]);
+  });
+
+  it("stretches the last leg over added days and drops legs that no longer fit", () => {
+    expect(legSegments(legs, 10)[2]).toMatchObject({ startDay: 6, endDay: 10 });
+    const short = legSegments(legs, 4);
+    expect(short.map(({ city, startDay, endDay }) => [city, startDay, endDay])).toEqual([
+      ["Lisbon, Portugal", 1, 3],
+      ["Porto, Portugal", 4, 4],
+    ]);
+  });
+
+  it("finds the leg a day belongs to", () => {
+    const segments = legSegments(legs, 8);
+    expect(legForDay(segments, 4)?.city).toBe("Porto, Portugal");
+    expect(legForDay(segments, 9)).toBeNull();
+  });
+});
+
+describe("legDates", () => {
+  it("returns check-in and check-out dates for a leg", () => {
+    const [, porto] = legSegments(legs, 8);
+    expect(legDates("2026-05-30", porto)).toEqual({ startDate: "2026-06-02", endDate: "2026-06-04" });
+    expect(legDates(undefined, porto)).toEqual({});
+  });
+});
+
+describe("staysForLeg", () => {
+  const stays = [makeStay("a", { city: "Lisbon" }), makeStay("b", { city: "Madrid" }), makeStay("c", { city: "Lisbon" })];
+
+  it("keeps the stays picked for the leg's city", () => {
+    const [lisbon, porto] = legSegments(legs, 8);
+    expect(staysForLeg(stays, lisbon).map((stay) => stay.id)).toEqual(["a", "c"]);
+    expect(staysForLeg(stays, porto)).toEqual([]);
+  });
+
+  it("anchors each day at its own city's stay", () => {
+    const segments = legSegments(legs, 8);
+    expect(stayForDay(stays, segments, 2)?.id).toBe("a");
+    expect(stayForDay(stays, segments, 7)?.id).toBe("b");
+    expect(stayForDay(stays, segments, 4)).toBeNull();
+    expect(stayForDay(stays, [], 4)?.id).toBe("a");
+  });
+});
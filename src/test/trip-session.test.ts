@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import type { ChatMessage } from "@/data/demoTrip";
+import { CHAT_HISTORY_LIMIT, parseTripSession, toSavedChatHistory } from "@/lib/trip-session";
+
+const stay = { id: "ace", name: "Ace Hotel", type: "Hotel", neighborhood: "Downtown", address: "", nightlyPrice: "$180", style: "", why: "", bestFor: "", lat: 47.6, lng: -122.3 };
+
+describe("toSavedChatHistory", () => {
+  it("keeps only text bubbles with content", () => {
+    const messages: ChatMessage[] = [
+      { id: "1", sender: "bot", content: "Hi!", type: "text" },
+      { id: "interests", sender: "bot", content: "", type: "interests" },
+      { id: "2", sender: "user", content: "Food, Art", type: "text" },
+      { id: "loading-1", sender: "bot", content: "", type: "loading" },
+      { id: "3", sender: "bot", content: "  ", type: "text" },
+    ];
+    expect(toSavedChatHistory(messages).map((message) => message.id)).toEqual(["1", "2"]);
+  });
+
+  it("drops the oldest messages past the limit", () => {
+    const messages = Array.from({ length: CHAT_HISTORY_LIMIT + 5 }, (_, i): ChatMessage => (
+      { id: `m${i}`, sender: "user", content: `message ${i}`, type: "text" }
+    ));
+    const saved = toSavedChatHistory(messages);
+    expect(saved).toHaveLength(CHAT_HISTORY_LIMIT);
+    expect(saved[0].id).toBe("m5");
+  });
+});
+
+describe("parseTripSession", () => {
+  it("restores stays, vibe and chat from stored JSON", () => {
+    const session = parseTripSession({
+      selectedStays: [stay, { ...stay }, { name: "No coordinates" }],
+      stayBudgetVibe: " boutique ",
+      chatHistory: [{ id: "1", sender: "user", content: "More food", type: "text" }, { sender: "system", content: "x" }],
+    });
+    expect(session.selectedStays).toEqual([stay]);
+    expect(session.stayBudgetVibe).toBe("boutique");
+    expect(session.chatHistory).toEqual([{ id: "1", sender: "user", content: "More food", type: "text" }]);
+  });
+
+  it("falls back to an empty session for trips saved before sessions existed", () => {
+    expect(parseTripSession({ selectedStays: null, stayBudgetVibe: null, chatHistory: undefined })).toEqual({
+      selectedStays: [],
+      stayBudgetVibe: "",
+      chatHistory: [],
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import {
+  mergeTripMutations,
+  replayTripMutations,
+  sameStoredJson,
+  saveTripFields,
+  type TripMutation,
+  type TripRemote,
+  type TripSaveRemote,
+  type TripUpdateFields,
+} from "@/lib/trip-sync-queue";
+
+function mutation(id: number, tripId: string, baseUpdatedAt: string | null, queuedAt = id): TripMutation {
+  return { id, tripId, title: tripId, fields: { title: `${tripId} v${id}` }, baseUpdatedAt, queuedAt };
+}
+
+/** An in-memory `trips` table keyed by id, holding each row's `updated_at`. */
+function fakeRemote(rows: Record<string, string>, options: { failOn?: string } = {}): TripRemote & { updates: string[] } {
+  let clock = 100;
+  const updates: string[] = [];
+  return {
+    updates,
+    async update(tripId, _fields, expected) {
+      if (tripId === options.failOn) throw new TypeError("Failed to fetch");
+      if (!(tripId in rows) || (expected !== null && rows[tripId] !== expected)) return null;
+      updates.push(tripId);
+      rows[tripId] = `t${(clock += 1)}`;
+      return rows[tripId];
+    },
+    async fetchUpdatedAt(tripId) {
+      return rows[tripId] ?? null;
+    },
+  };
+}
+
+describe("replayTripMutations", () => {
+  it("applies saves whose base still matches, oldest first", async () => {
+    const remote = fakeRemote({ a: "t1", b: "t2" });
+    const outcome = await replayTripMutations([mutation(2, "b", "t2"), mutation(1, "a", "t1")], remote);
+
+    expect(remote.updates).toEqual(["a", "b"]);
+    expect(outcome.synced.map((item) => [item.mutation.tripId, item.updatedAt])).toEqual([["a", "t101"], ["b", "t102"]]);
+    expect(outcome.conflicts).toEqual([]);
+  });
+
+  it("reports a conflict when the row moved on while offline", async () => {
+    const outcome = await replayTripMutations([mutation(1, "a", "t1")], fakeRemote({ a: "t5" }));
+    expect(outcome.synced).toEqual([]);
+    expect(outcome.conflicts).toEqual([{ ...mutation(1, "a", "t1"), conflict: { remoteUpdatedAt: "t5" } }]);
+  });
+
+  it("rejects saves for trips that are gone and skips unresolved conflicts", async () => {
+    const waiting = { ...mutation(2, "b", "t1"), conflict: { remoteUpdatedAt: "t3" } };
+    const remote = fakeRemote({ b: "t3" });
+    const outcome = await replayTripMutations([mutation(1, "gone", "t1"), waiting], remote);
+
+    expect(outcome.rejected.map((item) => item.tripId)).toEqual(["gone"]);
+    expect(remote.updates).toEqual([]);
+  });
+
+  it("stops at the first network failure and leaves the rest queued", async () => {
+    const remote = fakeRemote({ a: "t1", b: "t1", c: "t1" }, { failOn: "b" });
+    const outcome = await replayTripMutations(
+      [mutation(1, "a", "t1"), mutation(2, "b", "t1"), mutation(3, "c", "t1")],
+      remote,
+    );
+
+    expect(outcome.synced.map((item) => item.mutation.tripId)).toEqual(["a"]);
+    expect(outcome.pending.map((item) => item.tripId)).toEqual(["b", "c"]);
+  });
+});
+
+describe("mergeTripMutations", () => {
+  it("keeps the original base and queue slot but takes the newest fields", () => {
+    const merged = mergeTripMutations(
+      { ...mutation(1, "a", "t1"), fields: { title: "Old", stay_budget_vibe: "Cozy" } },
+      { ...mutation(9, "a", "t7", 50), fields: { title: "New" } },
+    );
+
+    expect(merged).toMatchObject({ id: 1, baseUpdatedAt: "t1", queuedAt: 50 });
+    expect(merged.fields).toEqual({ title: "New", stay_budget_vibe: "Cozy" });
+  });
+});
+
+describe("sameStoredJson", () => {
+  it("ignores object key order but not array order", () => {
+    expect(sameStoredJson([{ day: 1, stops: [{ id: "a", lat: 1 }] }], [{ stops: [{ lat: 1, id: "a" }], day: 1 }])).toBe(true);
+    expect(sameStoredJson([{ id: "a" }, { id: "b" }], [{ id: "b" }, { id: "a" }])).toBe(false);
+  });
+});
+
+/** One `trips` row with its stored values, as a conditional-update remote sees it. */
+function fakeRow(updatedAt: string, fields: TripUpdateFields): TripSaveRemote & { row: { updatedAt: string; fields: TripUpdateFields } } {
+  let clock = 100;
+  const row = { updatedAt, fields: { ...fields } };
+  return {
+    row,
+    async update(_tripId, next, expected) {
+      if (expected !== null && row.updatedAt !== expected) return null;
+      row.fields = { ...row.fields, ...next };
+      row.updatedAt = `t${(clock += 1)}`;
+      return row.updatedAt;
+    },
+    async fetchUpdatedAt() {
+      return row.updatedAt;
+    },
+    async fetchFields() {
+      return { updatedAt: row.updatedAt, fields: { ...row.fields } };
+    },
+  };
+}
+
+describe("saveTripFields", () => {
+  const opened = { title: "Trip", itinerary: ["a"], chat_history: [] } as unknown as TripUpdateFields;
+
+  it("stops the second of two saves made from the same base", async () => {
+    const remote = fakeRow("t1", opened);
+    const base = { updatedAt: "t1" };
+
+    const first = await saveTripFields(remote, "trip", { ...opened, itinerary: ["a", "b"] } as unknown as TripUpdateFields, base);
+    const second = await saveTripFields(remote, "trip", { ...opened, itinerary: ["a", "c"] } as unknown as TripUpdateFields, base);
+
+    expect(first).toMatchObject({ status: "saved", base: { updatedAt: "t101" } });
+    expect(second).toEqual({ status: "conflict" });
+    expect(remote.row.fields.itinerary).toEqual(["a", "b"]);
+  });
+
+  it("treats a change to any written field as a conflict, not just the itinerary", async () => {
+    const remote = fakeRow("t1", opened);
+    await remote.update("trip", { stay_budget_vibe: "Luxury" }, null);
+
+    const outcome = await saveTripFields(remote, "trip", { ...opened, stay_budget_vibe: "Budget" }, { updatedAt: "t1" });
+    expect(outcome).toEqual({ status: "conflict" });
+    expect(remote.row.fields.stay_budget_vibe).toBe("Luxury");
+  });
+
+  it("writes only its own changes when someone else changed other fields", async () => {
+    const remote = fakeRow("t1", opened);
+    const saved = await saveTripFields(remote, "trip", opened, { updatedAt: "t1" });
+    const base = saved.status === "saved" ? saved.base : null;
+    await remote.update("trip", { chat_history: ["theirs"] } as unknown as TripUpdateFields, null);
+
+    const outcome = await saveTripFields(remote, "trip", { ...opened, itinerary: ["a", "b"] } as unknown as TripUpdateFields, base);
+    expect(outcome.status).toBe("saved");
+    expect(remote.row.fields).toMatchObject({ itinerary: ["a", "b"], chat_history: ["theirs"] });
+  });
+});
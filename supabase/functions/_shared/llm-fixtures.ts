@@ -0,0 +1,152 @@
+// Canned tool-call arguments for LLM_PROVIDER=mock, keyed by tool name. They describe a
+// small Lisbon trip, so run the planner against "Lisbon" (or without a Mapbox token, which
+// skips the destination-anchor checks) to get consistent results offline.
+
+const usd = (min: number, max = min) => ({ min, max, currency: "USD" });
+const daily = (open: number, close: number) => ({
+  alwaysOpen: false,
+  periods: [0, 1, 2, 3, 4, 5, 6].map((day) => ({ day, open, close })),
+});
+const always = { alwaysOpen: true, periods: [] };
+
+function stop(
+  id: string,
+  time: string,
+  startMinutes: number,
+  name: string,
+  description: string,
+  lat: number,
+  lng: number,
+  tags: string[],
+  cost = "Free",
+  costRange = usd(0),
+) {
+  return {
+    id,
+    time,
+    name,
+    description,
+    hours: "9:00 AM – 6:00 PM",
+    cost,
+    driveFromPrev: "10m",
+    startMinutes,
+    costRange,
+    driveMinutes: 10,
+    openingHours: daily(540, 1080),
+    lat,
+    lng,
+    tags,
+  };
+}
+
+const DAY_ONE = {
+  day: 1,
+  title: "Alfama & Baixa",
+  subtitle: "Old town & viewpoints",
+  totalDriving: "30m",
+  estimatedCost: "$45",
+  totalDrivingMinutes: 30,
+  estimatedCostRange: usd(35, 55),
+  stops: [
+    stop("d1s1", "9:00 AM", 540, "Castelo de São Jorge", "Moorish castle with the best views over the city.", 38.7139, -9.1335, ["Historic", "Must-see"], "$17", usd(17)),
+    { ...stop("d1s2", "11:30 AM", 690, "Miradouro de Santa Luzia", "Tiled terrace overlooking Alfama's rooftops.", 38.7118, -9.1302, ["Free", "Views"]), openingHours: always },
+    stop("d1s3", "1:00 PM", 780, "Time Out Market", "Food hall with stalls from the city's best kitchens.", 38.7069, -9.1459, ["Food"], "$20", usd(15, 25)),
+  ],
+};
+
+const DAY_TWO = {
+  day: 2,
+  title: "Belém",
+  subtitle: "Maritime history",
+  totalDriving: "40m",
+  estimatedCost: "$38",
+  totalDrivingMinutes: 40,
+  estimatedCostRange: usd(30, 45),
+  stops: [
+    stop("d2s1", "9:30 AM", 570, "Mosteiro dos Jerónimos", "Manueline monastery and resting place of Vasco da Gama.", 38.6979, -9.2068, ["Historic", "Must-see"], "$12", usd(12)),
+    stop("d2s2", "11:30 AM", 690, "Pastéis de Belém", "The original custard tart bakery since 1837.", 38.6975, -9.2033, ["Food"], "$6", usd(4, 8)),
+    stop("d2s3", "1:00 PM", 780, "Torre de Belém", "Riverside fortress that guarded the harbour entrance.", 38.6916, -9.216, ["Historic"], "$10", usd(10)),
+  ],
+};
+
+export const MOCK_FIXTURES: Record<string, unknown> = {
+  generate_itinerary: { itinerary: [DAY_ONE, DAY_TWO] },
+
+  adjust_itinerary: {
+    summary: "Swapped the food hall for a quieter local lunch.",
+    changes: [
+      {
+        type: "replace-stop",
+        day: 1,
+        stopId: "d1s3",
+        stop: stop("d1s3", "1:00 PM", 780, "Taberna da Rua das Flores", "Tiny tavern with a daily-changing petiscos menu.", 38.7103, -9.1429, ["Food", "Local"], "$25", usd(20, 30)),
+        reason: "A sit-down local lunch instead of a busy food hall.",
+      },
+      { type: "retitle-day", day: 1, title: "Alfama & Chiado", subtitle: "Old town & local food", reason: "Reflects the new lunch spot." },
+    ],
+  },
+
+  suggest_alternatives: {
+    candidates: [
+      {
+        stop: stop("alt1", "1:00 PM", 780, "Cervejaria Ramiro", "Seafood institution famous for garlic prawns.", 38.7206, -9.1357, ["Food"], "$35", usd(30, 45)),
+        day: { ...DAY_ONE, title: "Graça & Mouraria", subtitle: "Neighbourhood wander" },
+        reason: "A classic Lisbon meal a short walk from the castle.",
+      },
+      {
+        stop: stop("alt2", "1:00 PM", 780, "A Cevicheria", "Peruvian small plates under a giant octopus.", 38.7155, -9.1483, ["Food"], "$30", usd(25, 35)),
+        day: { ...DAY_TWO, day: 1, title: "Riverside Lisbon", subtitle: "Waterfront walk" },
+        reason: "Lighter and livelier, right in Príncipe Real.",
+      },
+      {
+        stop: stop("alt3", "1:00 PM", 780, "Manteigaria", "Custard tarts baked in front of you.", 38.7104, -9.1436, ["Food", "Budget"], "$5", usd(3, 6)),
+        day: { ...DAY_ONE, title: "Slow Alfama", subtitle: "Fewer stops, longer lunches", stops: DAY_ONE.stops.slice(0, 2) },
+        reason: "A quick, cheap bite if you'd rather keep exploring.",
+      },
+    ],
+  },
+
+  recommend_stays: {
+    stays: [
+      ["Memmo Alfama", "Boutique Hotel", "Alfama", "$220-$280/night", "Design-forward", 38.7107, -9.1318],
+      ["The Lumiares", "Apartment Hotel", "Bairro Alto", "$190-$250/night", "Quiet luxury", 38.7137, -9.1446],
+      ["Lisboa Pessoa Hotel", "Hotel", "Chiado", "$160-$210/night", "Literary classic", 38.7102, -9.1421],
+      ["Home Lisbon Hostel", "Hostel", "Baixa", "$35-$60/night", "Value smart", 38.7098, -9.1375],
+      ["Pestana Palace", "Hotel", "Alcântara", "$240-$320/night", "Historic palace", 38.7052, -9.1854],
+      ["Casa do Barão", "Guesthouse", "Bairro Alto", "$120-$160/night", "Homey", 38.7119, -9.1459],
+    ].map(([name, type, neighborhood, nightlyPrice, style, lat, lng], idx) => ({
+      id: `stay-${idx + 1}`,
+      name,
+      type,
+      neighborhood,
+      address: `${neighborhood}, Lisbon, Portugal`,
+      nightlyPrice,
+      style,
+      why: `Walkable to the ${neighborhood} stops in your plan.`,
+      bestFor: "Couples and first-timers",
+      lat,
+      lng,
+    })),
+  },
+
+  provide_destination_details: {
+    overview: {
+      description: "Hilly, sunlit capital on the Tagus with tiled façades, trams and a serious food scene.",
+      bestTimeToVisit: "April to June and September to October",
+      knownFor: ["Pastéis de nata", "Fado", "Tram 28", "Miradouros"],
+      safetyTips: "Watch for pickpockets on trams and wear shoes with grip on the cobbles.",
+      language: "Portuguese",
+      currency: "Euro (EUR)",
+    },
+    restaurants: [
+      { name: "Cervejaria Ramiro", cuisine: "Seafood", priceRange: "$$", rating: 4.6, description: "Garlic prawns and steak sandwiches.", address: "Av. Almirante Reis 1" },
+    ],
+    stays: [
+      { name: "Memmo Alfama", type: "Boutique Hotel", priceRange: "$220-280/night", rating: 4.7, neighborhood: "Alfama", description: "Rooftop pool over the river." },
+    ],
+    thingsToDo: [
+      { name: "Castelo de São Jorge", category: "Landmark", price: "$17", rating: 4.5, description: "Castle walls with sweeping views." },
+    ],
+    location: { lat: 38.7223, lng: -9.1393, formattedAddress: "Lisbon, Portugal", region: "Portugal" },
+  },
+};
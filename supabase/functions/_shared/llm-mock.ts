@@ -0,0 +1,38 @@
+// Mock provider: answers every tool call from fixtures so the planner runs offline.
+
+import { MOCK_FIXTURES } from "./llm-fixtures.ts";
+import { LlmApiError, type LlmClient, type ToolDefinition } from "./llm-types.ts";
+
+const MOCK_STREAM_CHUNK = 64;
+
+/** Extra fixtures layered over the built-in ones, or null for the built-ins alone. */
+export type FixtureOverridesLoader = () => Promise<Record<string, unknown> | null>;
+
+export function createMockClient(model: string, loadOverrides: FixtureOverridesLoader): LlmClient {
+  let fixtures: Promise<Record<string, unknown>> | null = null;
+  const loadFixtures = () => {
+    fixtures ??= loadOverrides().then((overrides) => (overrides ? { ...MOCK_FIXTURES, ...overrides } : MOCK_FIXTURES));
+    return fixtures;
+  };
+
+  const fixtureFor = async (tool: ToolDefinition): Promise<Record<string, unknown>> => {
+    const fixture = (await loadFixtures())[tool.name];
+    if (!fixture || typeof fixture !== "object") {
+      throw new LlmApiError(500, `No mock fixture for tool "${tool.name}".`);
+    }
+    return fixture as Record<string, unknown>;
+  };
+
+  return {
+    provider: "mock",
+    model,
+    callTool: (call) => fixtureFor(call.tool),
+    async streamTool(call, onArguments) {
+      const text = JSON.stringify(await fixtureFor(call.tool));
+      for (let i = 0; i < text.length; i += MOCK_STREAM_CHUNK) {
+        if (onArguments(text.slice(i, i + MOCK_STREAM_CHUNK)) === false) return text.slice(0, i + MOCK_STREAM_CHUNK);
+      }
+      return text;
+    },
+  };
+}
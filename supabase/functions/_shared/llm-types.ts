@@ -0,0 +1,36 @@
+// Types shared by the LLM client and its providers. Kept free of Deno APIs so the
+// providers can be unit-tested outside the edge runtime.
+
+export class LlmApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "LlmApiError";
+    this.status = status;
+  }
+}
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCallRequest {
+  systemPrompt: string;
+  userMessage: string;
+  tool: ToolDefinition;
+}
+
+/** Receives tool-argument text as it streams in; returning false stops reading. */
+export type ArgumentsHandler = (chunk: string) => boolean | void;
+
+export interface LlmClient {
+  readonly provider: string;
+  readonly model: string;
+  /** Runs the tool call and returns its parsed arguments. */
+  callTool(request: ToolCallRequest): Promise<Record<string, unknown>>;
+  /** Streams the tool call's argument text to `onArguments` and resolves with what was read. */
+  streamTool(request: ToolCallRequest, onArguments: ArgumentsHandler): Promise<string>;
+}
@@ -0,0 +1,217 @@
+// Shared LLM access for the edge functions. Every function talks to its model through a
+// forced tool call; this module owns the provider, the model choice, retries and how
+// upstream failures map to HTTP statuses.
+//
+// Configuration (all optional except the key for the provider in use):
+//   LLM_PROVIDER            "lovable" (default), "openai" for any OpenAI-compatible endpoint, or "mock"
+//   LLM_BASE_URL            chat completions base URL for "openai", e.g. http://localhost:11434/v1
+//   LLM_API_KEY             key for "openai" (LOVABLE_API_KEY is used for "lovable")
+//   LLM_MODEL               default model for every function
+//   LLM_MODEL_<FUNCTION>    per-function override, e.g. LLM_MODEL_RECOMMEND_STAYS
+//   LLM_MAX_RETRIES         retries for rate limits, 5xx and network errors (default 2)
+//   LLM_MOCK_FIXTURES       JSON file of tool name -> arguments for "mock"; built-in fixtures otherwise
+
+import { createMockClient } from "./llm-mock.ts";
+import { LlmApiError, type ArgumentsHandler, type LlmClient, type ToolCallRequest } from "./llm-types.ts";
+
+export { LlmApiError } from "./llm-types.ts";
+export type { ArgumentsHandler, LlmClient, ToolCallRequest, ToolDefinition } from "./llm-types.ts";
+
+const LOVABLE_BASE_URL = "https://ai.gateway.lovable.dev/v1";
+const DEFAULT_MODEL = "google/gemini-3-flash-preview";
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 8000;
+
+interface ClientOptions {
+  /** Shown to the user when the provider fails for a reason other than rate limits or credits. */
+  failureMessage: string;
+}
+
+interface Transport {
+  provider: string;
+  send(body: Record<string, unknown>): Promise<Response>;
+}
+
+/** The configured client for one edge function, e.g. `createLlmClient("recommend-stays", …)`. */
+export function createLlmClient(functionName: string, options: ClientOptions): LlmClient {
+  const model = modelFor(functionName);
+  const provider = (Deno.env.get("LLM_PROVIDER") || "lovable").toLowerCase();
+  if (provider === "mock") return createMockClient(model, readMockFixtures);
+
+  const transport = createHttpTransport(provider);
+  const maxRetries = readNumber("LLM_MAX_RETRIES", DEFAULT_MAX_RETRIES);
+
+  const request = async (call: ToolCallRequest, stream: boolean) => {
+    const body = {
+      model,
+      messages: [
+        { role: "system", content: call.systemPrompt },
+        { role: "user", content: call.userMessage },
+      ],
+      tools: [{ type: "function", function: call.tool }],
+      tool_choice: { type: "function", function: { name: call.tool.name } },
+      ...(stream ? { stream: true } : {}),
+    };
+    return await withRetries(() => transport.send(body), maxRetries, options.failureMessage);
+  };
+
+  return {
+    provider: transport.provider,
+    model,
+    async callTool(call) {
+      const response = await request(call, false);
+      const data = await response.json();
+      const parsed = parseArguments(data?.choices?.[0]?.message?.tool_calls?.[0]?.function?.arguments);
+      if (!parsed) {
+        console.error(`No ${call.tool.name} call in response:`, JSON.stringify(data));
+        throw new LlmApiError(500, "AI did not return a valid response. Please try again.");
+      }
+      return parsed;
+    },
+    async streamTool(call, onArguments) {
+      const response = await request(call, true);
+      return await readArgumentStream(response, onArguments);
+    },
+  };
+}
+
+function modelFor(functionName: string): string {
+  const key = `LLM_MODEL_${functionName.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`;
+  return Deno.env.get(key) || Deno.env.get("LLM_MODEL") || DEFAULT_MODEL;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function createHttpTransport(provider: string): Transport {
+  let baseUrl: string;
+  let apiKey: string | undefined;
+  if (provider === "lovable") {
+    baseUrl = LOVABLE_BASE_URL;
+    apiKey = Deno.env.get("LOVABLE_API_KEY");
+    if (!apiKey) throw new Error("LOVABLE_API_KEY is not configured");
+  } else if (provider === "openai") {
+    baseUrl = Deno.env.get("LLM_BASE_URL") || "https://api.openai.com/v1";
+    // Local OpenAI-compatible servers often run without a key.
+    apiKey = Deno.env.get("LLM_API_KEY");
+  } else {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}"`);
+  }
+
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    provider,
+    send: (body) => fetch(endpoint, {
+      method: "POST",
+      headers: {
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    }),
+  };
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function retryDelayMs(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
+
+/** Retries rate limits, server errors and network failures; everything else fails at once. */
+async function withRetries(send: () => Promise<Response>, maxRetries: number, failureMessage: string): Promise<Response> {
+  for (let attempt = 0; ; attempt += 1) {
+    let response: Response;
+    try {
+      response = await send();
+    } catch (e) {
+      if (attempt < maxRetries) {
+        await sleep(retryDelayMs(attempt));
+        continue;
+      }
+      console.error("LLM request failed:", e);
+      throw new LlmApiError(502, failureMessage);
+    }
+
+    if (response.ok) return response;
+    if (attempt < maxRetries && isRetryable(response.status)) {
+      await response.body?.cancel();
+      await sleep(retryDelayMs(attempt, response));
+      continue;
+    }
+    throw await toApiError(response, failureMessage);
+  }
+}
+
+async function toApiError(response: Response, failureMessage: string): Promise<LlmApiError> {
+  if (response.status === 429) {
+    return new LlmApiError(429, "Rate limit exceeded. Please try again in a moment.");
+  }
+  if (response.status === 402) {
+    return new LlmApiError(402, "AI credits exhausted. Please add credits to continue.");
+  }
+  const text = await response.text();
+  console.error("AI gateway error:", response.status, text);
+  return new LlmApiError(500, failureMessage);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseArguments(raw: unknown): Record<string, unknown> | null {
+  if (typeof raw !== "string") return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return typeof parsed === "object" && parsed !== null && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Reads an OpenAI-style SSE completion and forwards the tool call's argument deltas. */
+async function readArgumentStream(response: Response, onArguments: ArgumentsHandler): Promise<string> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+  let args = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    pending += decoder.decode(value, { stream: true });
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (!line.startsWith("data:")) continue;
+      const payload = line.slice(5).trim();
+      if (!payload || payload === "[DONE]") continue;
+      let chunk: string | undefined;
+      try {
+        chunk = JSON.parse(payload)?.choices?.[0]?.delta?.tool_calls?.[0]?.function?.arguments;
+      } catch {
+        continue;
+      }
+      if (!chunk) continue;
+      args += chunk;
+      if (onArguments(chunk) === false) {
+        await reader.cancel();
+        return args;
+      }
+    }
+  }
+  return args;
+}
+
+async function readMockFixtures(): Promise<Record<string, unknown> | null> {
+  const path = Deno.env.get("LLM_MOCK_FIXTURES");
+  return path ? JSON.parse(await Deno.readTextFile(path)) : null;
+}
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmApiError, type LlmClient, type ToolCallRequest, type ToolDefinition } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,6 +18,99 @@ const DAY_COLORS = [
 ];
 
 const SINGLE_DESTINATION_RADIUS_KM = 55;
+
+const MONEY_RANGE_SCHEMA = {
+  type: "object",
+  properties: {
+    min: { type: "number", description: "Lowest expected amount" },
+    max: { type: "number", description: "Highest expected amount" },
+    currency: { type: "string", description: "ISO 4217 currency code, e.g. 'USD'" },
+  },
+  required: ["min", "max", "currency"],
+  additionalProperties: false,
+};
+
+const OPENING_HOURS_SCHEMA = {
+  type: "object",
+  properties: {
+    alwaysOpen: { type: "boolean", description: "True for places open 24/7 or with no fixed hours (parks, viewpoints)" },
+    periods: {
+      type: "array",
+      description: "Weekly open periods; leave empty when alwaysOpen is true",
+      items: {
+        type: "object",
+        properties: {
+          day: { type: "number", description: "Day of week, 0 = Sunday … 6 = Saturday" },
+          open: { type: "number", description: "Opening time in minutes since midnight" },
+          close: { type: "number", description: "Closing time in minutes since midnight (may exceed 1440 if past midnight)" },
+        },
+        required: ["day", "open", "close"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["alwaysOpen", "periods"],
+  additionalProperties: false,
+};
+
+const TRANSPORT_SCHEMA = {
+  type: "object",
+  properties: {
+    mode: { type: "string", enum: ["flight", "train", "bus", "ferry", "drive"] },
+    carrier: { type: "string", description: "Typical airline, rail or bus operator for the route" },
+    departurePlace: { type: "string", description: "Airport, station or town the journey leaves from" },
+    arrivalPlace: { type: "string", description: "Airport, station or town the journey arrives at" },
+    departureMinutes: { type: "number", description: "Departure time in minutes since midnight" },
+    arrivalMinutes: { type: "number", description: "Arrival time in minutes since midnight; may exceed 1440 for overnight journeys" },
+    cost: { type: "string", description: "Typical fare per traveler, e.g. '$120'" },
+    costRange: { ...MONEY_RANGE_SCHEMA, description: "cost as a numeric range" },
+  },
+  required: ["mode", "departurePlace", "arrivalPlace", "cost", "costRange"],
+  additionalProperties: false,
+};
+
+const STOP_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Unique stop ID, format d{day}s{num}" },
+    time: { type: "string", description: "Suggested arrival time, e.g. '9:00 AM'" },
+    name: { type: "string", description: "Place name" },
+    description: { type: "string", description: "1-2 sentence description of why to visit" },
+    hours: { type: "string", description: "Opening hours" },
+    cost: { type: "string", description: "Entry cost" },
+    driveFromPrev: { type: "string", description: "Drive time from previous stop" },
+    startMinutes: { type: "number", description: "Arrival time in minutes since midnight, e.g. 540 for 9:00 AM" },
+    costRange: { ...MONEY_RANGE_SCHEMA, description: "Entry cost as a numeric range; 0/0 when free" },
+    driveMinutes: { type: "number", description: "driveFromPrev expressed in minutes" },
+    openingHours: { ...OPENING_HOURS_SCHEMA, description: "Structured weekly opening hours" },
+    transport: { ...TRANSPORT_SCHEMA, description: "The flight, train or long drive that gets to this stop" },
+    lat: { type: "number", description: "Latitude" },
+    lng: { type: "number", description: "Longitude" },
+    tags: { type: "array", items: { type: "string" }, description: "Tags like Nature, Food, Free" },
+  },
+  required: ["id", "time", "name", "description", "hours", "cost", "lat", "lng", "tags", "startMinutes", "costRange", "openingHours"],
+  additionalProperties: false,
+};
+
+const DAY_SCHEMA = {
+  type: "object",
+  properties: {
+    day: { type: "number", description: "Day number" },
+    title: { type: "string", description: "Day title, e.g. 'Seattle to Olympia'" },
+    subtitle: { type: "string", description: "Short theme, e.g. 'Nature & Scenic'" },
+    totalDriving: { type: "string", description: "Total driving time, e.g. '3h 20m'" },
+    estimatedCost: { type: "string", description: "Estimated cost for the day, e.g. '$85'" },
+    totalDrivingMinutes: { type: "number", description: "totalDriving expressed in minutes" },
+    estimatedCostRange: { ...MONEY_RANGE_SCHEMA, description: "estimatedCost as a numeric range" },
+    stops: {
+      type: "array",
+      items: STOP_SCHEMA,
+    },
+  },
+  required: ["day", "title", "subtitle", "totalDriving", "estimatedCost", "stops", "totalDrivingMinutes", "estimatedCostRange"],
+  additionalProperties: false,
+};
+
 const GEO_CACHE_TTL_MS = 1000 * 60 * 60 * 6; // 6 hours
 
 const LOCATION_ALIASES: Record<string, string> = {
@@ -28,28 +122,60 @@ const LOCATION_ALIASES: Record<string, string> = {
   dmv: "Washington, DC, USA",
 };
 
-class PlannerApiError extends Error {
-  status: number;
-
-  constructor(status: number, message: string) {
-    super(message);
-    this.name = "PlannerApiError";
-    this.status = status;
-  }
-}
-
 interface GeoAnchor {
   name: string;
   lat: number;
   lng: number;
 }
 
+/** A city of a multi-city trip, placed on the itinerary's days. */
+interface PlannerLeg {
+  city: string;
+  nights: number;
+  startDay: number;
+  endDay: number;
+}
+
+/** Where the stops of each day have to stay, and how to say so in a prompt. */
+interface DayAnchors {
+  anchorFor: (day: number) => GeoAnchor | null;
+  /** Completes "every stop must be ..."; null when stops aren't restricted. */
+  rule: string | null;
+}
+
 interface StopOutlier {
   day: number;
   name: string;
   distanceKm: number;
 }
 
+interface PlannerRequest {
+  from?: string;
+  to?: string;
+  days?: number | string;
+  budget?: string;
+  mode?: string;
+  interests?: string[];
+  pace?: string;
+  mustSees?: string;
+  adjustmentRequest?: string;
+  currentItinerary?: string;
+  startDate?: string;
+  endDate?: string;
+  stream?: boolean;
+  /** With an adjustment request, return a patch against `currentItinerary` instead of a new plan. */
+  patch?: boolean;
+  /** Regenerate one stop, or a whole day when `stopId` is omitted, against `currentItinerary`. */
+  alternatives?: { day: number; stopId?: string };
+  /** Multi-city trips: the cities in travel order with the nights spent in each. */
+  legs?: { city?: string; nights?: number }[];
+}
+
+type PlannerPhase = "locating" | "drafting" | "checking" | "retrying";
+type PlannerEmitter = (event: "progress" | "day" | "reset" | "done" | "error", data: unknown) => void;
+/** Called with each complete day as the model streams it; returning false stops the draft early. */
+type DayHandler = (day: Record<string, unknown>, index: number) => boolean | void;
+
 type GeoCacheEntry = { value: GeoAnchor | null; expiresAt: number };
 const geoCache = new Map<string, GeoCacheEntry>();
 
@@ -58,30 +184,286 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let body: PlannerRequest;
   try {
-    const { from, to, days, budget, mode, interests, pace, mustSees, adjustmentRequest, currentItinerary, startDate, endDate } = await req.json();
+    body = await req.json();
+  } catch {
+    return new Response(JSON.stringify({ error: "Invalid request body" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+
+  // Streaming clients get server-sent events: progress updates, each validated day as it is
+  // produced, then the full itinerary. Everyone else gets the whole itinerary as one JSON body.
+  if (body.stream === true) {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream({
+      async start(controller) {
+        const emit: PlannerEmitter = (event, data) => {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        };
+        try {
+          const itinerary = await planItinerary(body, emit);
+          emit("done", { itinerary });
+        } catch (e) {
+          if (!(e instanceof LlmApiError)) console.error("generate-itinerary error:", e);
+          emit("error", {
+            error: e instanceof Error ? e.message : "Unknown error",
+            status: e instanceof LlmApiError ? e.status : 500,
+          });
+        } finally {
+          controller.close();
+        }
+      },
+    });
+    return new Response(stream, {
+      headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+  }
+
+  try {
+    const result = body.alternatives
+      ? { alternatives: await planAlternatives(body) }
+      : body.patch === true
+        ? { patch: await planAdjustmentPatch(body) }
+        : { itinerary: await planItinerary(body) };
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (e) {
+    if (e instanceof LlmApiError) {
+      return new Response(JSON.stringify({ error: e.message }), {
+        status: e.status,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    console.error("generate-itinerary error:", e);
+    return new Response(JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
+
+async function planItinerary(body: PlannerRequest, emit?: PlannerEmitter): Promise<Record<string, unknown>[]> {
+  const { from, to, days, adjustmentRequest, currentItinerary, startDate, endDate } = body;
+
+  const llm = plannerClient();
+
+  const daysNum = typeof days === "number" ? days : parseDays(days);
+  const fromText = normalizeLocationInput(from);
+  const toText = normalizeLocationInput(to);
+
+  const legs = adjustmentRequest ? [] : planLegs(body.legs, daysNum);
+  if (legs.length > 0) return planMultiCityItinerary(body, legs, llm, emit);
+
+  emitProgress(emit, "locating", `Locating ${toText || "your destination"}`, 0, daysNum);
+  const mapboxToken = Deno.env.get("MAPBOX_ACCESS_TOKEN");
+  let fromAnchor: GeoAnchor | null = null;
+  let toAnchor: GeoAnchor | null = null;
+  if (mapboxToken) {
+    [fromAnchor, toAnchor] = await Promise.all([
+      geocodeLocation(fromText, mapboxToken),
+      geocodeLocation(toText, mapboxToken),
+    ]);
+  }
+  const isSingleDestinationTrip = isLikelySingleDestinationTrip(fromText, toText, fromAnchor, toAnchor);
+
+  let systemPrompt = plannerSystemPrompt(body, fromText, toText, daysNum);
+
+  if (isSingleDestinationTrip && toAnchor) {
+    systemPrompt += destinationAnchorPrompt(toAnchor);
+  } else if (fromAnchor && toAnchor) {
+    systemPrompt += `\n\nROUTE ANCHOR:
+- Start near ${fromAnchor.name} (${fromAnchor.lat.toFixed(4)}, ${fromAnchor.lng.toFixed(4)}), finish near ${toAnchor.name} (${toAnchor.lat.toFixed(4)}, ${toAnchor.lng.toFixed(4)}).
+- Stops must be geographically plausible along this route and should not jump to unrelated distant metros.`;
+  }
+
+  if (startDate && endDate) {
+    systemPrompt += `\n\nSPECIFIC DATES: This trip runs from ${startDate} to ${endDate}. Use these exact dates in your day titles (e.g. "Day 1 — Mar 15: Seattle to Olympia"). Factor in seasonal considerations, day-of-week opening hours, and any relevant events during these dates.`;
+  }
+
+  if (adjustmentRequest) {
+    systemPrompt += `\n\nIMPORTANT ADJUSTMENT REQUEST: The user wants to modify the existing itinerary: "${adjustmentRequest}". Apply this adjustment while keeping the same general structure and real place data. Make targeted changes rather than regenerating everything from scratch.`;
+    if (currentItinerary) {
+      systemPrompt += `\n\nCurrent itinerary to modify:\n${currentItinerary}`;
+    }
+  }
+
+  const userMessage = adjustmentRequest
+    ? `Adjust the existing ${daysNum}-day itinerary from ${fromText} to ${toText}: ${adjustmentRequest}`
+    : isSingleDestinationTrip
+      ? `Generate a ${daysNum}-day itinerary focused on ${toText}.`
+      : `Generate a ${daysNum}-day itinerary from ${fromText} to ${toText}.`;
+
+  const generatedDays = await draftDays(llm, {
+    systemPrompt,
+    userMessage,
+    retryMessage: `Regenerate the ${daysNum}-day itinerary for ${toText} and keep every stop local to that destination.`,
+    anchor: isSingleDestinationTrip ? toAnchor : null,
+    place: toText,
+    offset: 0,
+    totalDays: daysNum,
+  }, emit);
+
+  return generatedDays.map(withDayColor);
+}
+
+/**
+ * Multi-city mode: each leg is planned on its own and anchored to its own city, so the days
+ * of a Lisbon → Porto → Madrid trip stay in one city at a time. The move to the next city
+ * happens at the start of each later leg's first day.
+ */
+async function planMultiCityItinerary(
+  body: PlannerRequest,
+  legs: PlannerLeg[],
+  llm: LlmClient,
+  emit?: PlannerEmitter,
+): Promise<Record<string, unknown>[]> {
+  const { mode, startDate, endDate } = body;
+  const totalDays = legs[legs.length - 1].endDay;
+  const route = legs.map((leg) => leg.city).join(" → ");
+
+  emitProgress(emit, "locating", `Locating ${route}`, 0, totalDays);
+  const anchors = await geocodeLegs(legs);
+
+  const itinerary: Record<string, unknown>[] = [];
+  for (const [idx, leg] of legs.entries()) {
+    const previous = legs[idx - 1];
+    const next = legs[idx + 1];
+    const legDays = leg.endDay - leg.startDay + 1;
+    const anchor = anchors[idx];
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    let systemPrompt = plannerSystemPrompt(body, previous?.city ?? leg.city, leg.city, legDays);
+    systemPrompt += `\n\nMULTI-CITY TRIP, LEG ${idx + 1} OF ${legs.length}:
+- The whole trip is ${route}. Plan ONLY the ${legDays} ${legDays === 1 ? "day" : "days"} in ${leg.city}: Day ${leg.startDay} to Day ${leg.endDay} of ${totalDays}.
+- Number the days from ${leg.startDay}, and build stop ids from those day numbers.`;
+    if (previous) {
+      systemPrompt += `\n- Day ${leg.startDay} begins with the journey from ${previous.city} by ${mode}. Put that journey in the first stop's "transport" (with a short "driveFromPrev") and keep the day lighter.`;
+    }
+    if (next) {
+      systemPrompt += `\n- The traveler leaves for ${next.city} on the morning after Day ${leg.endDay}.`;
+    }
+    if (anchor) systemPrompt += destinationAnchorPrompt(anchor);
+    if (startDate && endDate) {
+      systemPrompt += `\n\nSPECIFIC DATES: The whole trip runs from ${startDate} to ${endDate}; Day 1 is ${startDate}. Use the exact dates in your day titles and respect day-of-week opening hours.`;
     }
 
-    const daysNum = typeof days === "number" ? days : parseDays(days);
-    const fromText = normalizeLocationInput(from);
-    const toText = normalizeLocationInput(to);
-
-    const mapboxToken = Deno.env.get("MAPBOX_ACCESS_TOKEN");
-    let fromAnchor: GeoAnchor | null = null;
-    let toAnchor: GeoAnchor | null = null;
-    if (mapboxToken) {
-      [fromAnchor, toAnchor] = await Promise.all([
-        geocodeLocation(fromText, mapboxToken),
-        geocodeLocation(toText, mapboxToken),
-      ]);
+    const draft: DraftOptions = {
+      systemPrompt,
+      userMessage: `Generate days ${leg.startDay}-${leg.endDay} of the trip, all in ${leg.city}.`,
+      retryMessage: `Regenerate days ${leg.startDay}-${leg.endDay} and keep every stop local to ${leg.city}.`,
+      anchor,
+      place: leg.city,
+      offset: itinerary.length,
+      totalDays,
+      firstDay: leg.startDay,
+    };
+    let days = await draftDays(llm, draft, emit);
+
+    // A short leg would pull every later city forward, so it is replanned once and then fails.
+    if (days.length < legDays) {
+      emit?.("reset", { reason: `The plan for ${leg.city} was missing days`, fromIndex: itinerary.length });
+      emitProgress(emit, "retrying", `Some days in ${leg.city} were missing, replanning`, itinerary.length, totalDays);
+      days = await draftDays(llm, {
+        ...draft,
+        systemPrompt: `${systemPrompt}\n\nQUALITY CONTROL FAILURE:\n- The previous draft had ${days.length} of the ${legDays} days. Return exactly ${legDays} days, Day ${leg.startDay} to Day ${leg.endDay}.`,
+        userMessage: `Generate exactly ${legDays} days, days ${leg.startDay}-${leg.endDay} of the trip, all in ${leg.city}.`,
+      }, emit);
+      if (days.length < legDays) {
+        throw new Error(`Could not plan all ${legDays} days in ${leg.city}. Please try again.`);
+      }
     }
-    const isSingleDestinationTrip = isLikelySingleDestinationTrip(fromText, toText, fromAnchor, toAnchor);
+    itinerary.push(...days.slice(0, legDays));
+  }
+
+  return itinerary.map(withDayColor);
+}
+
+interface DraftOptions {
+  systemPrompt: string;
+  userMessage: string;
+  /** Sent instead of `userMessage` when the first draft strays outside `anchor`. */
+  retryMessage: string;
+  anchor: GeoAnchor | null;
+  /** The area, as named in errors and progress messages. */
+  place: string;
+  /** Days already planned before this draft, so streamed days land in the right position. */
+  offset: number;
+  totalDays: number;
+  /** When set, days are renumbered from here and their stop ids rebuilt to match. */
+  firstDay?: number;
+}
 
-    let systemPrompt = `You are an expert travel planner. Generate a detailed day-by-day trip itinerary.
+/**
+ * Drafts days with the planner model, streaming them through `emit` as they arrive. With an
+ * anchor, a draft is abandoned at its first out-of-area day and retried once from scratch.
+ */
+async function draftDays(llm: LlmClient, options: DraftOptions, emit?: PlannerEmitter): Promise<Record<string, unknown>[]> {
+  const { systemPrompt, userMessage, retryMessage, anchor, place, offset, totalDays, firstDay } = options;
+  const placeDay = (day: Record<string, unknown>, index: number) =>
+    firstDay === undefined ? day : renumberDay(day, firstDay + index);
+
+  // Days are checked against the destination as they arrive, so a bad draft is abandoned
+  // at its first out-of-area day instead of after the whole itinerary has been written.
+  const draftHandler = (): DayHandler | undefined => {
+    if (!emit) return undefined;
+    emitProgress(emit, "drafting", `Drafting day ${offset + 1} of ${totalDays}`, offset, totalDays);
+    return (day, index) => {
+      if (anchor && findOutOfAreaStops([day], anchor, SINGLE_DESTINATION_RADIUS_KM).length > 0) return false;
+      const position = offset + index;
+      emit("day", { index: position, day: withDayColor(placeDay(day, index), position) });
+      emitProgress(
+        emit,
+        "drafting",
+        position + 1 < totalDays ? `Drafting day ${position + 2} of ${totalDays}` : "Finishing touches",
+        position + 1,
+        totalDays,
+      );
+    };
+  };
+
+  let generatedDays = await callPlannerModel(llm, systemPrompt, userMessage, draftHandler());
+
+  if (anchor) {
+    emitProgress(emit, "checking", `Checking every stop is near ${anchor.name}`, offset + generatedDays.length, totalDays);
+    const outliers = findOutOfAreaStops(generatedDays, anchor, SINGLE_DESTINATION_RADIUS_KM);
+    if (outliers.length > 0) {
+      const examples = outliers
+        .slice(0, 4)
+        .map((o) => `${o.name} (Day ${o.day}, ${o.distanceKm.toFixed(0)}km away)`)
+        .join("; ");
+
+      const correctionSystemPrompt = `${systemPrompt}
+
+QUALITY CONTROL FAILURE:
+- Previous draft included out-of-area stops: ${examples}
+- Regenerate from scratch.
+- Keep all stops strictly within ${SINGLE_DESTINATION_RADIUS_KM} km of ${anchor.name}.`;
+
+      emit?.("reset", { reason: `Some stops were too far from ${anchor.name}`, fromIndex: offset });
+      emitProgress(emit, "retrying", `Some stops were too far from ${anchor.name}, replanning`, offset, totalDays);
+      generatedDays = await callPlannerModel(llm, correctionSystemPrompt, retryMessage, draftHandler());
+
+      const retryOutliers = findOutOfAreaStops(generatedDays, anchor, SINGLE_DESTINATION_RADIUS_KM);
+      if (retryOutliers.length > 0) {
+        throw new Error(`Could not generate a destination-accurate itinerary for ${place}. Please try a more specific destination.`);
+      }
+    }
+  }
+
+  return (generatedDays as Record<string, unknown>[]).map(placeDay);
+}
+
+function emitProgress(emit: PlannerEmitter | undefined, phase: PlannerPhase, message: string, completedDays: number, totalDays: number) {
+  emit?.("progress", { phase, message, completedDays, totalDays });
+}
+
+/** The trip brief and planning rules shared by every itinerary draft. */
+function plannerSystemPrompt(body: PlannerRequest, fromText: string, toText: string, daysNum: number): string {
+  const { budget, mode, interests, pace, mustSees } = body;
+  return `You are an expert travel planner. Generate a detailed day-by-day trip itinerary.
 
 Trip details:
 - From: ${fromText}
@@ -104,6 +486,7 @@ Requirements:
 - Assign appropriate tags to each stop (e.g. "Nature", "Food", "Free", "Historic", "Must-see")
 - Make travel time estimates realistic for the chosen mode
 - Include an estimated total cost per day
+- Alongside every display string, fill in the matching structured field: "startMinutes" (minutes since midnight for "time"), "costRange" (numeric min/max + ISO currency for "cost"; 0/0 when free), "driveMinutes" (minutes for "driveFromPrev"), "openingHours" (weekly periods for "hours", day 0 = Sunday, open/close in minutes since midnight; close may exceed 1440 past midnight), "totalDrivingMinutes" and "estimatedCostRange" per day
 
 TRAVEL MODE COST ESTIMATION:
 - For "${mode}" travel mode, use realistic cost estimates based on current typical pricing:
@@ -111,91 +494,288 @@ TRAVEL MODE COST ESTIMATION:
   - If Car: estimate fuel costs based on distance and average fuel prices, plus tolls and parking
   - If Train: estimate train ticket prices between cities based on typical rail fares
 - The "driveFromPrev" field should reflect the travel mode (e.g. "2h flight", "4h 30m drive", "3h train")
+- When getting to a stop takes a flight, train, bus, ferry or more than 2 hours of driving, add a "transport" object to that stop: a mode that fits "${mode}" (Plane: flights for long hops, trains or buses for short ones; Car: drive), a typical carrier, where it leaves from and arrives, realistic departure/arrival minutes and a typical fare. Short hops between nearby stops never get one
 - The "estimatedCost" per day should include both travel costs and activity costs
 - Factor the travel mode into how stops are structured (flying between distant cities vs driving through towns)`;
+}
 
-    if (isSingleDestinationTrip && toAnchor) {
-      systemPrompt += `\n\nDESTINATION ANCHOR (HARD RULE):
-- This is a destination-focused trip centered on ${toAnchor.name} (${toAnchor.lat.toFixed(4)}, ${toAnchor.lng.toFixed(4)}).
+function destinationAnchorPrompt(anchor: GeoAnchor): string {
+  return `\n\nDESTINATION ANCHOR (HARD RULE):
+- This is a destination-focused trip centered on ${anchor.name} (${anchor.lat.toFixed(4)}, ${anchor.lng.toFixed(4)}).
 - Every activity stop must be within ${SINGLE_DESTINATION_RADIUS_KM} km of this destination center.
 - Do NOT include attractions from different metro areas.
-- If a place has multiple branches, choose the one in ${toAnchor.name}.
+- If a place has multiple branches, choose the one in ${anchor.name}.
 - Before returning, self-check every stop coordinate and replace any stop outside ${SINGLE_DESTINATION_RADIUS_KM} km.`;
-    } else if (fromAnchor && toAnchor) {
-      systemPrompt += `\n\nROUTE ANCHOR:
-- Start near ${fromAnchor.name} (${fromAnchor.lat.toFixed(4)}, ${fromAnchor.lng.toFixed(4)}), finish near ${toAnchor.name} (${toAnchor.lat.toFixed(4)}, ${toAnchor.lng.toFixed(4)}).
-- Stops must be geographically plausible along this route and should not jump to unrelated distant metros.`;
-    }
+}
 
-    if (startDate && endDate) {
-      systemPrompt += `\n\nSPECIFIC DATES: This trip runs from ${startDate} to ${endDate}. Use these exact dates in your day titles (e.g. "Day 1 — Mar 15: Seattle to Olympia"). Factor in seasonal considerations, day-of-week opening hours, and any relevant events during these dates.`;
-    }
+/** Gives a day its place in the whole trip; stop ids follow the d{day}s{num} format. */
+function renumberDay(day: Record<string, unknown>, dayNumber: number): Record<string, unknown> {
+  const stops = Array.isArray(day.stops) ? day.stops : [];
+  return {
+    ...day,
+    day: dayNumber,
+    stops: stops.map((stop, idx) => ({ ...(asRecord(stop) ?? {}), id: `d${dayNumber}s${idx + 1}` })),
+  };
+}
 
-    if (adjustmentRequest) {
-      systemPrompt += `\n\nIMPORTANT ADJUSTMENT REQUEST: The user wants to modify the existing itinerary: "${adjustmentRequest}". Apply this adjustment while keeping the same general structure and real place data. Make targeted changes rather than regenerating everything from scratch.`;
-      if (currentItinerary) {
-        systemPrompt += `\n\nCurrent itinerary to modify:\n${currentItinerary}`;
-      }
-    }
+function withDayColor(day: Record<string, unknown>, idx: number): Record<string, unknown> {
+  return { ...day, color: DAY_COLORS[idx % DAY_COLORS.length] };
+}
 
-    const userMessage = adjustmentRequest
-      ? `Adjust the existing ${daysNum}-day itinerary from ${fromText} to ${toText}: ${adjustmentRequest}`
-      : isSingleDestinationTrip
-        ? `Generate a ${daysNum}-day itinerary focused on ${toText}.`
-        : `Generate a ${daysNum}-day itinerary from ${fromText} to ${toText}.`;
+/**
+ * Adjustment mode: asks for the smallest set of edits that satisfies the request and returns
+ * them as a patch against the current itinerary. Changes that point at days or stops that do
+ * not exist, or that add stops outside a single-destination trip's area, are dropped.
+ */
+async function planAdjustmentPatch(body: PlannerRequest): Promise<{ summary: string; changes: Record<string, unknown>[] }> {
+  const { from, to, mode, pace, adjustmentRequest, currentItinerary, startDate, endDate } = body;
 
-    let generatedDays = await callPlannerModel(LOVABLE_API_KEY, systemPrompt, userMessage);
+  const llm = plannerClient();
 
-    if (isSingleDestinationTrip && toAnchor) {
-      const outliers = findOutOfAreaStops(generatedDays, toAnchor, SINGLE_DESTINATION_RADIUS_KM);
-      if (outliers.length > 0) {
-        const examples = outliers
-          .slice(0, 4)
-          .map((o) => `${o.name} (Day ${o.day}, ${o.distanceKm.toFixed(0)}km away)`)
-          .join("; ");
+  const current = typeof currentItinerary === "string" ? safeJsonParse(currentItinerary) : null;
+  if (!adjustmentRequest || !Array.isArray(current) || current.length === 0) {
+    throw new LlmApiError(400, "An adjustment needs a request and the current itinerary.");
+  }
 
-        const correctionSystemPrompt = `${systemPrompt}
+  const fromText = normalizeLocationInput(from);
+  const toText = normalizeLocationInput(to);
+  const outline = outlineItinerary(current);
+  const anchors = await resolveDayAnchors(fromText, toText, planLegs(body.legs, outline.length));
 
-QUALITY CONTROL FAILURE:
-- Previous draft included out-of-area stops: ${examples}
-- Regenerate from scratch.
-- Keep all stops strictly within ${SINGLE_DESTINATION_RADIUS_KM} km of ${toAnchor.name}.`;
+  let systemPrompt = `You are an expert travel planner editing an existing ${outline.length}-day itinerary from ${fromText} to ${toText}.
 
-        generatedDays = await callPlannerModel(
-          LOVABLE_API_KEY,
-          correctionSystemPrompt,
-          `Regenerate the ${daysNum}-day itinerary for ${toText} and keep every stop local to that destination.`,
-        );
+Travel mode: ${mode}
+Pace: ${pace || "Balanced"}
 
-        const retryOutliers = findOutOfAreaStops(generatedDays, toAnchor, SINGLE_DESTINATION_RADIUS_KM);
-        if (retryOutliers.length > 0) {
-          throw new Error(`Could not generate a destination-accurate itinerary for ${toText}. Please try a more specific destination.`);
-        }
-      }
+Current itinerary (stop ids are stable references):
+${JSON.stringify(outline)}
+
+The user asked: "${adjustmentRequest}"
+
+Return the SMALLEST set of changes that satisfies the request:
+- Only touch the days the request is about. Leave every other day exactly as it is.
+- "remove-stop", "replace-stop" and "move-stop" must use an existing stop id.
+- "add-stop" and "replace-stop" need a complete new stop with a REAL place name, realistic hours and cost, and GPS coordinates.
+- "position" is the 0-based index in the target day after earlier changes are applied; omit it to append.
+- "retitle-day" updates a day's title and subtitle when its theme changes.
+- Give every change a short reason the traveler will read.`;
+
+  if (anchors.rule) {
+    systemPrompt += `\n\nDESTINATION ANCHOR (HARD RULE): every new stop must be ${anchors.rule}.`;
+  }
+  if (startDate && endDate) {
+    systemPrompt += `\n\nSPECIFIC DATES: the trip runs from ${startDate} to ${endDate}; respect day-of-week opening hours.`;
+  }
+
+  const result = await llm.callTool({
+    systemPrompt,
+    userMessage: `Adjust the itinerary: ${adjustmentRequest}`,
+    tool: ADJUSTMENT_TOOL,
+  });
+  if (!Array.isArray(result.changes)) {
+    throw new LlmApiError(500, "AI did not return a valid adjustment. Please try again.");
+  }
+  const proposed = result.changes.map(asRecord).filter((change): change is Record<string, unknown> => change !== null);
+
+  const { stopDay, dayNumbers } = indexOutline(outline);
+  const isLocal = (stop: Record<string, unknown> | null, day: number | undefined) =>
+    isLocalStop(stop, day === undefined ? null : anchors.anchorFor(day));
+
+  const changes = proposed.filter((change) => {
+    const stop = asRecord(change.stop);
+    switch (change.type) {
+      case "add-stop":
+        return dayNumbers.has(change.day as number) && isLocal(stop, change.day as number);
+      case "remove-stop":
+        return stopDay.has(change.stopId as string);
+      case "replace-stop":
+        return stopDay.has(change.stopId as string) && isLocal(stop, stopDay.get(change.stopId as string));
+      case "move-stop":
+        return stopDay.has(change.stopId as string) && dayNumbers.has(change.toDay as number);
+      case "retitle-day":
+        return dayNumbers.has(change.day as number) && typeof change.title === "string" && change.title.trim() !== "";
+      default:
+        return false;
     }
+  });
 
-    const itinerary = (generatedDays as Record<string, unknown>[]).map((day, idx) => ({
-      ...day,
-      color: DAY_COLORS[idx % DAY_COLORS.length],
-    }));
+  return { summary: typeof result.summary === "string" ? result.summary : "", changes };
+}
 
-    return new Response(JSON.stringify({ itinerary }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
-  } catch (e) {
-    if (e instanceof PlannerApiError) {
-      return new Response(JSON.stringify({ error: e.message }), {
-        status: e.status,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+/**
+ * Regenerate mode: three candidates for one stop, or for one whole day, with the rest of the
+ * itinerary held fixed. Candidates outside a single-destination trip's area are dropped.
+ */
+async function planAlternatives(body: PlannerRequest): Promise<Record<string, unknown>[]> {
+  const { from, to, mode, pace, interests, currentItinerary, alternatives, startDate, endDate } = body;
+
+  const llm = plannerClient();
+
+  const current = typeof currentItinerary === "string" ? safeJsonParse(currentItinerary) : null;
+  if (!alternatives || !Array.isArray(current) || current.length === 0) {
+    throw new LlmApiError(400, "Regenerating needs a target and the current itinerary.");
+  }
+
+  const fromText = normalizeLocationInput(from);
+  const toText = normalizeLocationInput(to);
+  const outline = outlineItinerary(current);
+  const { stopDay, dayNumbers } = indexOutline(outline);
+  const { day, stopId } = alternatives;
+  if (!dayNumbers.has(day) || (stopId !== undefined && stopDay.get(stopId) !== day)) {
+    throw new LlmApiError(400, "That stop or day is no longer in the itinerary.");
+  }
+  const legs = planLegs(body.legs, outline.length);
+  const anchor = (await resolveDayAnchors(fromText, toText, legs)).anchorFor(day);
+  const leg = legs.find((item) => day >= item.startDay && day <= item.endDay);
+
+  const target = stopId
+    ? `the stop with id "${stopId}" on Day ${day}. Each candidate is ONE replacement stop that fits the same time slot and sits sensibly between its neighbouring stops`
+    : `Day ${day} as a whole. Each candidate is a complete replacement for Day ${day} (keep "day": ${day}) that still connects sensibly with the days before and after it`;
+
+  let systemPrompt = `You are an expert travel planner. The traveler wants alternatives for ${target}.
+
+Trip: ${leg ? `${legs.map((item) => item.city).join(" → ")}; Day ${day} is in ${leg.city}` : `${fromText} to ${toText}`}, travel mode ${mode}, pace ${pace || "Balanced"}, interests ${interests?.join(", ") || "General sightseeing"}.
+
+Current itinerary (everything except the target is FIXED and must not change):
+${JSON.stringify(outline)}
+
+Rules:
+- Return exactly 3 candidates that are meaningfully different from each other and from what they replace.
+- Never reuse a place that already appears anywhere in the itinerary.
+- Use REAL places with realistic hours, costs and GPS coordinates.
+- Give each candidate a one-sentence reason the traveler will read.`;
+
+  if (anchor) {
+    systemPrompt += `\n\nDESTINATION ANCHOR (HARD RULE): every stop must be within ${SINGLE_DESTINATION_RADIUS_KM} km of ${anchor.name} (${anchor.lat.toFixed(4)}, ${anchor.lng.toFixed(4)}).`;
+  }
+  if (startDate && endDate) {
+    systemPrompt += `\n\nSPECIFIC DATES: the trip runs from ${startDate} to ${endDate}; respect day-of-week opening hours.`;
+  }
+
+  const result = await llm.callTool({
+    systemPrompt,
+    userMessage: stopId ? `Suggest 3 alternatives for stop ${stopId} on Day ${day}.` : `Suggest 3 alternative plans for Day ${day}.`,
+    tool: alternativesTool(stopId ? "stop" : "day"),
+  });
+  if (!Array.isArray(result.candidates)) {
+    throw new LlmApiError(500, "AI did not return any alternatives. Please try again.");
+  }
+
+  return result.candidates
+    .map(asRecord)
+    .filter((candidate): candidate is Record<string, unknown> => {
+      if (!candidate) return false;
+      if (stopId) return isLocalStop(asRecord(candidate.stop), anchor);
+      const plan = asRecord(candidate.day);
+      const stops = Array.isArray(plan?.stops) ? plan.stops : [];
+      return stops.length > 0 && stops.every((stop) => isLocalStop(asRecord(stop), anchor));
+    })
+    .slice(0, 3);
+}
+
+/** The destination center when the trip stays in one place, otherwise null. */
+async function resolveDestinationAnchor(fromText: string, toText: string): Promise<GeoAnchor | null> {
+  const mapboxToken = Deno.env.get("MAPBOX_ACCESS_TOKEN");
+  if (!mapboxToken) return null;
+  const [fromAnchor, toAnchor] = await Promise.all([
+    geocodeLocation(fromText, mapboxToken),
+    geocodeLocation(toText, mapboxToken),
+  ]);
+  return isLikelySingleDestinationTrip(fromText, toText, fromAnchor, toAnchor) ? toAnchor : null;
+}
+
+/** Per-day anchors: each leg's city on a multi-city trip, otherwise the single destination if there is one. */
+async function resolveDayAnchors(fromText: string, toText: string, legs: PlannerLeg[]): Promise<DayAnchors> {
+  if (legs.length === 0) {
+    const anchor = await resolveDestinationAnchor(fromText, toText);
+    return {
+      anchorFor: () => anchor,
+      rule: anchor
+        ? `within ${SINGLE_DESTINATION_RADIUS_KM} km of ${anchor.name} (${anchor.lat.toFixed(4)}, ${anchor.lng.toFixed(4)})`
+        : null,
+    };
+  }
+
+  const anchors = await geocodeLegs(legs);
+  const located = legs
+    .map((leg, idx) => ({ leg, anchor: anchors[idx] }))
+    .filter((item): item is { leg: PlannerLeg; anchor: GeoAnchor } => item.anchor !== null);
+  return {
+    anchorFor: (day) => located.find(({ leg }) => day >= leg.startDay && day <= leg.endDay)?.anchor ?? null,
+    rule: located.length > 0
+      ? `within ${SINGLE_DESTINATION_RADIUS_KM} km of the city its day is spent in: ${located
+        .map(({ leg, anchor }) => `Days ${leg.startDay}-${leg.endDay} ${anchor.name} (${anchor.lat.toFixed(4)}, ${anchor.lng.toFixed(4)})`)
+        .join("; ")}`
+      : null,
+  };
+}
+
+async function geocodeLegs(legs: PlannerLeg[]): Promise<(GeoAnchor | null)[]> {
+  const mapboxToken = Deno.env.get("MAPBOX_ACCESS_TOKEN");
+  if (!mapboxToken) return legs.map(() => null);
+  return Promise.all(legs.map((leg) => geocodeLocation(leg.city, mapboxToken)));
+}
+
+/**
+ * Places multi-city legs on the itinerary's days, the same way the app does: a travel day
+ * belongs to the city being arrived in, and the last leg runs to the end of the trip.
+ * Returns no legs unless there are at least two usable ones.
+ */
+function planLegs(raw: PlannerRequest["legs"], dayCount: number): PlannerLeg[] {
+  const legs = (Array.isArray(raw) ? raw : [])
+    .map((leg) => ({
+      city: normalizeLocationInput(leg?.city),
+      nights: typeof leg?.nights === "number" && Number.isFinite(leg.nights) ? Math.round(leg.nights) : 0,
+    }))
+    .filter((leg) => leg.city && leg.nights > 0);
+  if (legs.length < 2) return [];
+
+  const placed: PlannerLeg[] = [];
+  let startDay = 1;
+  for (const [idx, leg] of legs.entries()) {
+    if (startDay > dayCount) break;
+    const endDay = idx === legs.length - 1 ? dayCount : Math.min(dayCount, startDay + leg.nights - 1);
+    placed.push({ ...leg, startDay, endDay });
+    startDay += leg.nights;
+  }
+  if (placed.length > 0) placed[placed.length - 1].endDay = dayCount;
+  return placed.length > 1 ? placed : [];
+}
+
+// Only what the model needs to reference days and stops; geometry and structured fields stay out.
+function outlineItinerary(current: unknown[]) {
+  return current.map((dayRaw) => {
+    const day = asRecord(dayRaw) ?? {};
+    const stops = Array.isArray(day.stops) ? day.stops : [];
+    return {
+      day: day.day,
+      title: day.title,
+      subtitle: day.subtitle,
+      stops: stops.map((stopRaw) => {
+        const stop = asRecord(stopRaw) ?? {};
+        return { id: stop.id, time: stop.time, name: stop.name, lat: stop.lat, lng: stop.lng, tags: stop.tags };
+      }),
+    };
+  });
+}
+
+function indexOutline(outline: ReturnType<typeof outlineItinerary>) {
+  const stopDay = new Map<string, number>();
+  const dayNumbers = new Set<number>();
+  for (const day of outline) {
+    if (typeof day.day !== "number") continue;
+    dayNumbers.add(day.day);
+    for (const stop of day.stops) {
+      if (typeof stop.id === "string") stopDay.set(stop.id, day.day);
     }
-    console.error("generate-itinerary error:", e);
-    return new Response(JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
   }
-});
+  return { stopDay, dayNumbers };
+}
+
+function isLocalStop(stop: Record<string, unknown> | null, anchor: GeoAnchor | null): boolean {
+  return !!stop && typeof stop.lat === "number" && typeof stop.lng === "number" &&
+    (!anchor || findOutOfAreaStops([{ day: 0, stops: [stop] }], anchor, SINGLE_DESTINATION_RADIUS_KM).length === 0);
+}
 
 function parseDays(tripLength: string): number {
   switch (tripLength?.toLowerCase()) {
@@ -316,97 +896,169 @@ function toRad(value: number): number {
   return value * (Math.PI / 180);
 }
 
-async function callPlannerModel(apiKey: string, systemPrompt: string, userMessage: string): Promise<unknown[]> {
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
+const ITINERARY_TOOL: ToolDefinition = {
+  name: "generate_itinerary",
+  description: "Generate a structured day-by-day itinerary with realistic in-destination stops",
+  parameters: {
+    type: "object",
+    properties: {
+      itinerary: {
+        type: "array",
+        items: DAY_SCHEMA,
+      },
+    },
+    required: ["itinerary"],
+    additionalProperties: false,
+  },
+};
+
+const ADJUSTMENT_TOOL: ToolDefinition = {
+  name: "adjust_itinerary",
+  description: "Describe targeted edits to an existing itinerary",
+  parameters: {
+    type: "object",
+    properties: {
+      summary: { type: "string", description: "One sentence describing the overall adjustment" },
+      changes: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            type: { type: "string", enum: ["add-stop", "remove-stop", "replace-stop", "move-stop", "retitle-day"] },
+            day: { type: "number", description: "Day the change applies to (for move-stop, the day the stop leaves)" },
+            stopId: { type: "string", description: "Existing stop id for remove-stop, replace-stop and move-stop" },
+            toDay: { type: "number", description: "Target day for move-stop" },
+            position: { type: "number", description: "0-based index in the target day" },
+            stop: { ...STOP_SCHEMA, description: "New stop for add-stop and replace-stop" },
+            title: { type: "string", description: "New day title for retitle-day" },
+            subtitle: { type: "string", description: "New day subtitle for retitle-day" },
+            reason: { type: "string", description: "Why this change serves the request" },
+          },
+          required: ["type", "day", "reason"],
+          additionalProperties: false,
+        },
+      },
     },
-    body: JSON.stringify({
-      model: "google/gemini-3-flash-preview",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userMessage },
-      ],
-      tools: [
-        {
-          type: "function",
-          function: {
-            name: "generate_itinerary",
-            description: "Generate a structured day-by-day itinerary with realistic in-destination stops",
-            parameters: {
-              type: "object",
-              properties: {
-                itinerary: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      day: { type: "number", description: "Day number" },
-                      title: { type: "string", description: "Day title, e.g. 'Seattle to Olympia'" },
-                      subtitle: { type: "string", description: "Short theme, e.g. 'Nature & Scenic'" },
-                      totalDriving: { type: "string", description: "Total driving time, e.g. '3h 20m'" },
-                      estimatedCost: { type: "string", description: "Estimated cost for the day, e.g. '$85'" },
-                      stops: {
-                        type: "array",
-                        items: {
-                          type: "object",
-                          properties: {
-                            id: { type: "string", description: "Unique stop ID, format d{day}s{num}" },
-                            time: { type: "string", description: "Suggested arrival time, e.g. '9:00 AM'" },
-                            name: { type: "string", description: "Place name" },
-                            description: { type: "string", description: "1-2 sentence description of why to visit" },
-                            hours: { type: "string", description: "Opening hours" },
-                            cost: { type: "string", description: "Entry cost" },
-                            driveFromPrev: { type: "string", description: "Drive time from previous stop" },
-                            lat: { type: "number", description: "Latitude" },
-                            lng: { type: "number", description: "Longitude" },
-                            tags: { type: "array", items: { type: "string" }, description: "Tags like Nature, Food, Free" },
-                          },
-                          required: ["id", "time", "name", "description", "hours", "cost", "lat", "lng", "tags"],
-                          additionalProperties: false,
-                        },
-                      },
-                    },
-                    required: ["day", "title", "subtitle", "totalDriving", "estimatedCost", "stops"],
-                    additionalProperties: false,
-                  },
-                },
-              },
-              required: ["itinerary"],
-              additionalProperties: false,
+    required: ["summary", "changes"],
+    additionalProperties: false,
+  },
+};
+
+function alternativesTool(kind: "stop" | "day"): ToolDefinition {
+  return {
+    name: "suggest_alternatives",
+    description: kind === "stop" ? "Suggest replacement stops for one slot" : "Suggest replacement plans for one day",
+    parameters: {
+      type: "object",
+      properties: {
+        candidates: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              [kind]: kind === "stop" ? STOP_SCHEMA : DAY_SCHEMA,
+              reason: { type: "string", description: "Why this is a good alternative" },
             },
+            required: [kind, "reason"],
+            additionalProperties: false,
           },
         },
-      ],
-      tool_choice: { type: "function", function: { name: "generate_itinerary" } },
-    }),
-  });
+      },
+      required: ["candidates"],
+      additionalProperties: false,
+    },
+  };
+}
 
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new PlannerApiError(429, "Rate limit exceeded. Please try again in a moment.");
-    }
-    if (response.status === 402) {
-      throw new PlannerApiError(402, "AI credits exhausted. Please add credits to continue.");
+function plannerClient(): LlmClient {
+  return createLlmClient("generate-itinerary", { failureMessage: "Failed to generate itinerary. Please try again." });
+}
+
+async function callPlannerModel(
+  llm: LlmClient,
+  systemPrompt: string,
+  userMessage: string,
+  onDay?: DayHandler,
+): Promise<unknown[]> {
+  const request = { systemPrompt, userMessage, tool: ITINERARY_TOOL };
+  if (onDay) return streamPlannerDays(llm, request, onDay);
+
+  const itinerary = (await llm.callTool(request)).itinerary;
+  if (!Array.isArray(itinerary)) {
+    throw new LlmApiError(500, "AI did not return a valid itinerary. Please try again.");
+  }
+  return itinerary;
+}
+
+/** Streams the tool call, handing each day to `onDay` as soon as its JSON object closes. */
+async function streamPlannerDays(
+  llm: LlmClient,
+  request: ToolCallRequest,
+  onDay: DayHandler,
+): Promise<unknown[]> {
+  const scanner = new DayObjectScanner();
+  const days: unknown[] = [];
+
+  const args = await llm.streamTool(request, (chunk) => {
+    for (const day of scanner.push(chunk)) {
+      days.push(day);
+      if (onDay(day, days.length - 1) === false) return false;
     }
-    const text = await response.text();
-    console.error("AI gateway error:", response.status, text);
-    throw new PlannerApiError(500, "Failed to generate itinerary. Please try again.");
+  });
+
+  if (days.length === 0) {
+    console.error("No days in streamed tool call:", args.slice(0, 500));
+    throw new LlmApiError(500, "AI did not return a valid itinerary. Please try again.");
   }
+  return days;
+}
 
-  const data = await response.json();
-  const toolCall = data?.choices?.[0]?.message?.tool_calls?.[0];
-  if (!toolCall?.function?.arguments) {
-    console.error("No tool call in response:", JSON.stringify(data));
-    throw new PlannerApiError(500, "AI did not return a valid itinerary. Please try again.");
+/**
+ * Incrementally scans the `{"itinerary":[...]}` tool arguments and yields each day object once
+ * it is complete. Days are the objects that open directly inside the itinerary array.
+ */
+class DayObjectScanner {
+  private text = "";
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private dayStart = -1;
+
+  push(chunk: string): Record<string, unknown>[] {
+    const from = this.text.length;
+    this.text += chunk;
+    const days: Record<string, unknown>[] = [];
+
+    for (let i = from; i < this.text.length; i += 1) {
+      const ch = this.text[i];
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === "\\") this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === "{" || ch === "[") {
+        if (ch === "{" && this.depth === 2) this.dayStart = i;
+        this.depth += 1;
+      } else if (ch === "}" || ch === "]") {
+        this.depth -= 1;
+        if (ch === "}" && this.depth === 2 && this.dayStart >= 0) {
+          const day = asRecord(safeJsonParse(this.text.slice(this.dayStart, i + 1)));
+          if (day) days.push(day);
+          this.dayStart = -1;
+        }
+      }
+    }
+    return days;
   }
+}
 
-  const parsed = JSON.parse(toolCall.function.arguments);
-  const itinerary = parsed?.itinerary;
-  if (!Array.isArray(itinerary)) {
-    throw new PlannerApiError(500, "AI did not return a valid itinerary. Please try again.");
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
   }
-  return itinerary;
 }
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createLlmClient, LlmApiError, type ToolDefinition } from "../_shared/llm.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -65,11 +66,6 @@ serve(async (req) => {
       preferences,
     } = await req.json();
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
     const destination = normalizeLocationInput(to || from || "");
     if (!destination) {
       throw new StayApiError(400, "Destination is required to recommend stays.");
@@ -110,7 +106,7 @@ Requirements:
     }
 
     const userMessage = `Recommend stays for ${destination} with budget vibe "${budgetVibe || tripBudget || "Balanced"}".`;
-    const stays = await callStayModel(LOVABLE_API_KEY, systemPrompt, userMessage);
+    const stays = await callStayModel(systemPrompt, userMessage);
 
     const filtered = anchor
       ? stays.filter((stay) => distanceKm(anchor.lat, anchor.lng, stay.lat, stay.lng) <= DESTINATION_RADIUS_KM)
@@ -124,7 +120,7 @@ Requirements:
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
   } catch (e) {
-    if (e instanceof StayApiError) {
+    if (e instanceof StayApiError || e instanceof LlmApiError) {
       return new Response(JSON.stringify({ error: e.message }), {
         status: e.status,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -138,81 +134,45 @@ Requirements:
   }
 });
 
-async function callStayModel(apiKey: string, systemPrompt: string, userMessage: string): Promise<StayResult[]> {
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "google/gemini-3-flash-preview",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userMessage },
-      ],
-      tools: [
-        {
-          type: "function",
-          function: {
-            name: "recommend_stays",
-            description: "Return stay recommendations for a destination",
-            parameters: {
-              type: "object",
-              properties: {
-                stays: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: {
-                      id: { type: "string" },
-                      name: { type: "string" },
-                      type: { type: "string", description: "Hotel, Boutique Hotel, Hostel, Apartment, etc." },
-                      neighborhood: { type: "string" },
-                      address: { type: "string" },
-                      nightlyPrice: { type: "string" },
-                      style: { type: "string", description: "Short style label, e.g. Design-forward, Quiet luxury, Value smart" },
-                      why: { type: "string", description: "Why this stay fits the itinerary" },
-                      bestFor: { type: "string", description: "Best for couples, families, remote work, food scene, etc." },
-                      lat: { type: "number" },
-                      lng: { type: "number" },
-                    },
-                    required: ["id", "name", "type", "neighborhood", "address", "nightlyPrice", "style", "why", "bestFor", "lat", "lng"],
-                    additionalProperties: false,
-                  },
-                },
-              },
-              required: ["stays"],
-              additionalProperties: false,
-            },
+const STAY_TOOL: ToolDefinition = {
+  name: "recommend_stays",
+  description: "Return stay recommendations for a destination",
+  parameters: {
+    type: "object",
+    properties: {
+      stays: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            name: { type: "string" },
+            type: { type: "string", description: "Hotel, Boutique Hotel, Hostel, Apartment, etc." },
+            neighborhood: { type: "string" },
+            address: { type: "string" },
+            nightlyPrice: { type: "string" },
+            style: { type: "string", description: "Short style label, e.g. Design-forward, Quiet luxury, Value smart" },
+            why: { type: "string", description: "Why this stay fits the itinerary" },
+            bestFor: { type: "string", description: "Best for couples, families, remote work, food scene, etc." },
+            lat: { type: "number" },
+            lng: { type: "number" },
           },
+          required: ["id", "name", "type", "neighborhood", "address", "nightlyPrice", "style", "why", "bestFor", "lat", "lng"],
+          additionalProperties: false,
         },
-      ],
-      tool_choice: { type: "function", function: { name: "recommend_stays" } },
-    }),
-  });
-
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new StayApiError(429, "Rate limit exceeded. Please try again in a moment.");
-    }
-    if (response.status === 402) {
-      throw new StayApiError(402, "AI credits exhausted. Please add credits to continue.");
-    }
-    const text = await response.text();
-    console.error("AI gateway error:", response.status, text);
-    throw new StayApiError(500, "Failed to generate stay recommendations. Please try again.");
-  }
-
-  const data = await response.json();
-  const toolCall = data?.choices?.[0]?.message?.tool_calls?.[0];
-  if (!toolCall?.function?.arguments) {
-    console.error("No tool call in stay response:", JSON.stringify(data));
-    throw new StayApiError(500, "AI did not return valid stay recommendations. Please try again.");
-  }
+      },
+    },
+    required: ["stays"],
+    additionalProperties: false,
+  },
+};
 
-  const parsed = JSON.parse(toolCall.function.arguments);
-  const stays = parsed?.stays;
+async function callStayModel(systemPrompt: string, userMessage: string): Promise<StayResult[]> {
+  const llm = createLlmClient("recommend-stays", {
+    failureMessage: "Failed to generate stay recommendations. Please try again.",
+  });
+  const parsed = await llm.callTool({ systemPrompt, userMessage, tool: STAY_TOOL });
+  const stays = parsed.stays;
   if (!Array.isArray(stays)) {
     throw new StayApiError(500, "AI did not return valid stay recommendations. Please try again.");
   }
@@ -0,0 +1,192 @@
+-- =============================================================
+-- Roamly: collaborative trips (owner / editor / viewer members)
+-- =============================================================
+
+-- 1. Members table. The trip owner gets an 'owner' row; invitees start
+--    as 'pending' rows keyed by email until they accept.
+CREATE TYPE public.trip_member_role AS ENUM ('owner', 'editor', 'viewer');
+
+CREATE TABLE public.trip_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  role trip_member_role NOT NULL DEFAULT 'viewer',
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted')),
+  invite_token uuid NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  accepted_at timestamptz,
+  UNIQUE (trip_id, email)
+);
+
+ALTER TABLE public.trip_members ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_trip_members_trip_id ON public.trip_members(trip_id);
+CREATE INDEX idx_trip_members_user_id ON public.trip_members(user_id);
+CREATE INDEX idx_trip_members_email ON public.trip_members(lower(email));
+
+-- 2. Security definer helpers (no recursion through trips/trip_members RLS).
+--    They only answer for the signed-in user, so nobody can probe other
+--    users' roles on trips they are not part of.
+CREATE OR REPLACE FUNCTION public.trip_role(_trip_id uuid, _user_id uuid)
+RETURNS trip_member_role
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _user_id IS DISTINCT FROM auth.uid() THEN NULL
+    WHEN EXISTS (SELECT 1 FROM public.trips WHERE id = _trip_id AND user_id = _user_id) THEN 'owner'::trip_member_role
+    ELSE (
+      SELECT role FROM public.trip_members
+      WHERE trip_id = _trip_id AND user_id = _user_id AND status = 'accepted'
+      LIMIT 1
+    )
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_edit_trip(_trip_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(public.trip_role(_trip_id, _user_id) IN ('owner', 'editor'), false)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.trip_role FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.can_edit_trip FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.trip_role TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_edit_trip TO authenticated;
+
+-- 3. Owner rows for new and existing trips
+CREATE OR REPLACE FUNCTION public.handle_new_trip()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+begin
+  insert into public.trip_members (trip_id, user_id, email, role, status, accepted_at)
+  select new.id, new.user_id, coalesce(p.email, ''), 'owner', 'accepted', now()
+  from public.profiles p
+  where p.id = new.user_id
+  on conflict (trip_id, email) do nothing;
+  return new;
+end;
+$function$;
+
+CREATE TRIGGER on_trip_created
+  AFTER INSERT ON public.trips
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_trip();
+
+INSERT INTO public.trip_members (trip_id, user_id, email, role, status, accepted_at)
+SELECT t.id, t.user_id, coalesce(p.email, ''), 'owner', 'accepted', t.created_at
+FROM public.trips t
+JOIN public.profiles p ON p.id = t.user_id
+ON CONFLICT (trip_id, email) DO NOTHING;
+
+-- Editors may update a trip's content but never hand it to another owner.
+CREATE OR REPLACE FUNCTION public.prevent_trip_owner_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+begin
+  if new.user_id <> old.user_id then
+    raise exception 'Trip ownership cannot be changed';
+  end if;
+  return new;
+end;
+$function$;
+
+CREATE TRIGGER on_trip_owner_change
+  BEFORE UPDATE ON public.trips
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_trip_owner_change();
+
+-- 4. Trips policies honor membership
+CREATE POLICY "Members can read shared trips"
+  ON public.trips FOR SELECT
+  TO authenticated
+  USING (public.trip_role(id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Editors can update shared trips"
+  ON public.trips FOR UPDATE
+  TO authenticated
+  USING (public.can_edit_trip(id, auth.uid()))
+  WITH CHECK (public.can_edit_trip(id, auth.uid()));
+
+-- 5. trip_members policies
+CREATE POLICY "Members can read trip members"
+  ON public.trip_members FOR SELECT
+  TO authenticated
+  USING (
+    public.trip_role(trip_id, auth.uid()) IS NOT NULL
+    OR lower(email) = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Owners can invite members"
+  ON public.trip_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.trip_role(trip_id, auth.uid()) = 'owner'
+    AND role <> 'owner'
+    AND status = 'pending'
+    AND user_id IS NULL
+  );
+
+-- Owners may only change a member's role: the column grant below keeps
+-- user_id, email and status for the accept flow, which runs as definer.
+CREATE POLICY "Owners can change member roles"
+  ON public.trip_members FOR UPDATE
+  TO authenticated
+  USING (public.trip_role(trip_id, auth.uid()) = 'owner' AND role <> 'owner')
+  WITH CHECK (public.trip_role(trip_id, auth.uid()) = 'owner' AND role <> 'owner');
+
+REVOKE UPDATE ON public.trip_members FROM anon, authenticated;
+GRANT UPDATE (role) ON public.trip_members TO authenticated;
+
+CREATE POLICY "Owners remove members and members can leave"
+  ON public.trip_members FOR DELETE
+  TO authenticated
+  USING (
+    role <> 'owner'
+    AND (
+      public.trip_role(trip_id, auth.uid()) = 'owner'
+      OR user_id = auth.uid()
+      OR lower(email) = lower(auth.jwt() ->> 'email')
+    )
+  );
+
+-- 6. Accept flow: binds a pending invitation to the signed-in user whose
+--    email it was sent to. Returns the trip id.
+CREATE OR REPLACE FUNCTION public.accept_trip_invitation(_token uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+declare
+  _member public.trip_members;
+begin
+  select * into _member from public.trip_members where invite_token = _token;
+  if not found then
+    raise exception 'Invitation not found';
+  end if;
+  if lower(_member.email) <> lower(auth.jwt() ->> 'email') then
+    raise exception 'This invitation was sent to a different email address';
+  end if;
+
+  update public.trip_members
+  set user_id = auth.uid(), status = 'accepted', accepted_at = coalesce(accepted_at, now())
+  where id = _member.id;
+
+  return _member.trip_id;
+end;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_trip_invitation FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.accept_trip_invitation TO authenticated;
@@ -0,0 +1,39 @@
+-- =============================================================
+-- Roamly: Realtime authorization for live trip co-editing
+-- Private channels are named 'trip:<trip id>'.
+-- =============================================================
+
+CREATE OR REPLACE FUNCTION public.trip_id_from_topic(_topic text)
+RETURNS uuid
+LANGUAGE plpgsql
+IMMUTABLE
+AS $function$
+begin
+  if _topic like 'trip:%' then
+    return substring(_topic from 6)::uuid;
+  end if;
+  return null;
+exception when invalid_text_representation then
+  return null;
+end;
+$function$;
+
+-- Any member may listen for patches and presence.
+CREATE POLICY "Trip members can receive trip broadcasts"
+  ON realtime.messages FOR SELECT
+  TO authenticated
+  USING (
+    public.trip_role(public.trip_id_from_topic(realtime.topic()), auth.uid()) IS NOT NULL
+  );
+
+-- Every member can share presence; only owners and editors can send patches.
+CREATE POLICY "Trip members can publish to trip channels"
+  ON realtime.messages FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    CASE
+      WHEN extension = 'presence'
+        THEN public.trip_role(public.trip_id_from_topic(realtime.topic()), auth.uid()) IS NOT NULL
+      ELSE public.can_edit_trip(public.trip_id_from_topic(realtime.topic()), auth.uid())
+    END
+  );
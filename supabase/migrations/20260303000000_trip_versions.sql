@@ -0,0 +1,29 @@
+-- =============================================================
+-- Roamly: trip version history (one row per save / AI adjustment)
+-- =============================================================
+
+CREATE TABLE public.trip_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  trip_id uuid NOT NULL REFERENCES public.trips(id) ON DELETE CASCADE,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_name text,
+  source text NOT NULL CHECK (source IN ('save', 'adjustment')),
+  prompt text,
+  trip_config jsonb NOT NULL,
+  itinerary jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.trip_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_trip_versions_trip_id_created_at ON public.trip_versions(trip_id, created_at DESC);
+
+CREATE POLICY "Members can read trip versions"
+  ON public.trip_versions FOR SELECT
+  TO authenticated
+  USING (public.trip_role(trip_id, auth.uid()) IS NOT NULL);
+
+CREATE POLICY "Editors can record trip versions"
+  ON public.trip_versions FOR INSERT
+  TO authenticated
+  WITH CHECK (public.can_edit_trip(trip_id, auth.uid()) AND created_by = auth.uid());
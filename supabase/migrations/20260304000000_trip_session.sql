@@ -0,0 +1,8 @@
+-- =============================================================
+-- Roamly: keep chosen stays and the planning chat with a trip
+-- =============================================================
+
+ALTER TABLE public.trips
+  ADD COLUMN selected_stays jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN stay_budget_vibe text,
+  ADD COLUMN chat_history jsonb NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,88 @@
+-- =============================================================
+-- Roamly: short share links (/s/:slug) backed by a stored snapshot
+-- =============================================================
+
+-- 1. One row per share link. The payload is a snapshot of the trip at the
+--    time the link was created, so later edits are not leaked through it.
+CREATE TABLE public.shared_trips (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE CHECK (slug ~ '^[A-Za-z0-9]{6,32}$'),
+  trip_id uuid REFERENCES public.trips(id) ON DELETE CASCADE,
+  created_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  payload jsonb NOT NULL,
+  expires_at timestamptz,
+  revoked_at timestamptz,
+  view_count integer NOT NULL DEFAULT 0,
+  last_viewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.shared_trips ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_shared_trips_created_by ON public.shared_trips(created_by, created_at DESC);
+CREATE INDEX idx_shared_trips_trip_id ON public.shared_trips(trip_id);
+
+-- 2. Creators manage their own links. Links for a saved trip need access to it.
+CREATE POLICY "Creators can read their share links"
+  ON public.shared_trips FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid());
+
+CREATE POLICY "Users can create share links"
+  ON public.shared_trips FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND (trip_id IS NULL OR public.trip_role(trip_id, auth.uid()) IS NOT NULL)
+  );
+
+-- Creators may only revoke or re-date a link: the column grant below keeps
+-- the slug, trip and payload fixed, and view counts are bumped as definer.
+CREATE POLICY "Creators can revoke their share links"
+  ON public.shared_trips FOR UPDATE
+  TO authenticated
+  USING (created_by = auth.uid())
+  WITH CHECK (created_by = auth.uid());
+
+REVOKE UPDATE ON public.shared_trips FROM anon, authenticated;
+GRANT UPDATE (revoked_at, expires_at) ON public.shared_trips TO authenticated;
+
+CREATE POLICY "Creators can delete their share links"
+  ON public.shared_trips FOR DELETE
+  TO authenticated
+  USING (created_by = auth.uid());
+
+-- 3. Anyone with the slug can open a live link. Lookups go through this
+--    function so the table itself is never readable by slug enumeration,
+--    and each successful open is counted.
+CREATE OR REPLACE FUNCTION public.get_shared_trip(_slug text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+declare
+  _link public.shared_trips;
+begin
+  select * into _link from public.shared_trips where slug = _slug;
+  if not found then
+    raise exception 'Share link not found';
+  end if;
+  if _link.revoked_at is not null then
+    raise exception 'This share link was revoked';
+  end if;
+  if _link.expires_at is not null and _link.expires_at <= now() then
+    raise exception 'This share link has expired';
+  end if;
+
+  update public.shared_trips
+  set view_count = view_count + 1, last_viewed_at = now()
+  where id = _link.id;
+
+  return _link.payload;
+end;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.get_shared_trip FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_trip TO anon, authenticated;
@@ -0,0 +1,49 @@
+-- =============================================================
+-- Roamly: duplicate shared trips with attribution to the original
+-- =============================================================
+
+-- 1. Where a duplicated trip came from. The author name is copied so the
+--    credit survives the original trip or link being deleted.
+ALTER TABLE public.trips
+  ADD COLUMN source_trip_id uuid REFERENCES public.trips(id) ON DELETE SET NULL,
+  ADD COLUMN source_share_slug text,
+  ADD COLUMN source_author_name text;
+
+-- 2. Short link lookups also return who shared the trip, for the public
+--    page and for attribution when it is duplicated.
+CREATE OR REPLACE FUNCTION public.get_shared_trip(_slug text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $function$
+declare
+  _link public.shared_trips;
+  _author text;
+begin
+  select * into _link from public.shared_trips where slug = _slug;
+  if not found then
+    raise exception 'Share link not found';
+  end if;
+  if _link.revoked_at is not null then
+    raise exception 'This share link was revoked';
+  end if;
+  if _link.expires_at is not null and _link.expires_at <= now() then
+    raise exception 'This share link has expired';
+  end if;
+
+  update public.shared_trips
+  set view_count = view_count + 1, last_viewed_at = now()
+  where id = _link.id;
+
+  select display_name into _author from public.profiles where id = _link.created_by;
+
+  return jsonb_build_object(
+    'payload', _link.payload,
+    'slug', _link.slug,
+    'tripId', _link.trip_id,
+    'authorName', _author,
+    'sharedAt', _link.created_at
+  );
+end;
+$function$;